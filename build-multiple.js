@@ -1,182 +1,87 @@
 // Streamkap Transform Builder
-const fs = require('fs');
 const path = require('path');
-const { execSync } = require('child_process');
+const { loadTooling, loadStreamkapConfig } = require('./load-tooling');
+
+const { selectTransforms } = loadTooling('transformConfig');
+const { buildTransforms, formatDiagnostic } = loadTooling('buildTransforms');
 
 function parseArgs() {
     const args = process.argv.slice(2);
-    const requestedTypes = new Set();
+    const selectors = [];
     let buildAll = false;
-
-    if (args.length === 0 || args.includes('--all')) {
-        buildAll = true;
-    } else {
-        for (const arg of args) {
-            if (arg.startsWith('--')) {
-                const type = arg.substring(2).replace('-', '_');
-                requestedTypes.add(type);
-            }
+    let configPath;
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--config') {
+            configPath = args[++i];
+        } else if (arg === '--all') {
+            buildAll = true;
+        } else if (arg.startsWith('--')) {
+            selectors.push(arg.substring(2));
         }
     }
 
-    return { requestedTypes, buildAll };
-}
-
-// Transform type configurations
-const transforms = [
-    {
-        type: 'map_filter',
-        folder: 'map-filter',
-        files: [
-            { src: 'src/value_transform.ts', out: 'valueTransform.js' },
-            { src: 'src/key_transform.ts', out: 'keyTransform.js' }
-        ]
-    },
-    {
-        type: 'fan_out',
-        folder: 'fan-out',
-        files: [
-            { src: 'src/value_transform.ts', out: 'valueTransform.js' },
-            { src: 'src/topic_transform.ts', out: 'topicTransform.js' }
-        ]
-    },
-    {
-        type: 'enrich_async',
-        folder: 'enrich-async',
-        files: [
-            { src: 'src/value_transform.ts', out: 'valueTransform.js' }
-        ]
-    },
-    {
-        type: 'un_nesting',
-        folder: 'un-nesting',
-        files: [
-            { src: 'src/value_transform.ts', out: 'valueTransform.js' }
-        ]
+    if (selectors.length === 0) {
+        buildAll = true;
     }
-];
-
-function generateFileHeader(transformType, fileName) {
-    const timestamp = new Date().toISOString();
-    return `// Streamkap ${transformType} Transform - ${fileName}
-// Generated on: ${timestamp}
-// Self-contained bundle with all dependencies
 
-`;
+    return { selectors, buildAll, configPath };
 }
 
-function buildTransformFunction(outputDir, tmpDir, srcFile, outFile) {
-    console.log(`   📄 Generating ${outFile}`);
-    
+async function main() {
+    const { selectors, buildAll, configPath } = parseArgs();
+
+    let loaded;
     try {
-        execSync(`npx esbuild ${srcFile} --bundle --outfile=${tmpDir}/${outFile} --format=cjs --platform=node --target=es2018`, {
-            stdio: 'pipe'
-        });
-        
-        let transformCode = fs.readFileSync(`${tmpDir}/${outFile}`, 'utf8');
-        let fileName = `${outputDir}/${outFile}`;
-        let code = generateFileHeader(path.basename(outputDir), outFile) + transformCode;
-        fs.writeFileSync(fileName, code);
-        
-        console.log(`   ✅ Generated ${outFile}`);
+        loaded = loadStreamkapConfig(configPath);
     } catch (error) {
-        console.error(`   ❌ Failed to generate ${outFile}:`, error.message);
-    }
-}
-
-function buildTransform(transform) {
-    const outputDir = path.join('transforms', transform.folder);
-    const tmpDir = '.tmp.build';
-    
-    if (!fs.existsSync(outputDir)) {
-        fs.mkdirSync(outputDir, { recursive: true });
-    }
-
-    console.log(`🔄 Building ${transform.type} transforms...`);
-    console.log(`   📁 ${transform.folder}/`);
-
-    for (const file of transform.files) {
-        if (fs.existsSync(file.src)) {
-            buildTransformFunction(outputDir, tmpDir, file.src, file.out);
-        } else {
-            console.log(`   ⚠️  Skipping ${file.out} - ${file.src} not found`);
-        }
+        console.log(`❌ ${error.message}`);
+        process.exit(1);
     }
-}
-
-function createREADME() {
-    const readmePath = path.join('transforms', 'README.md');
-    const readmeContent = `# Generated Streamkap Transforms
-
-These are Self-contained JavaScript files ready for deployment to Streamkap.
-
-## Files Structure
-
-- **map-filter/**: Transform and filter records
-  - \`valueTransform.js\` - Main transform logic
-  - \`keyTransform.js\` - Key transformation
-
-- **fan-out/**: Route records to multiple topics
-  - \`valueTransform.js\` - Value transformation for routing
-  - \`topicTransform.js\` - Topic routing logic
-
-- **enrich-async/**: Async enrichment transforms
-  - \`valueTransform.js\` - Async enrichment logic
-
-- **un-nesting/**: Flatten nested structures  
-  - \`valueTransform.js\` - Flattening transform logic
-
-## Usage
-
-Copy the entire contents of the relevant .js file and paste it into your Streamkap transform implementation tab.
-
-Generated on: ${new Date().toISOString()}
-`;
-    
-    fs.writeFileSync(readmePath, readmeContent);
-}
-
-function main() {
-    const { requestedTypes, buildAll } = parseArgs();
+    const transforms = loaded.transforms;
     
     // Filter transforms based on what was requested
     let transformsToBuild = transforms;
     if (!buildAll) {
-        transformsToBuild = transforms.filter(t => requestedTypes.has(t.type));
+        transformsToBuild = selectTransforms(transforms, selectors);
         
         if (transformsToBuild.length === 0) {
             console.log('❌ No valid transform types specified.');
-            console.log('Available types: --map-filter, --fan-out, --enrich-async, --un-nesting, --all');
+            console.log(`Available transforms: ${transforms.map(t => `--${t.name}`).join(', ')}, --all`);
             process.exit(1);
         }
     }
 
     console.log('🏗️  Streamkap Transform Builder');
-    console.log(`📋 Building: ${buildAll ? 'all transforms' : transformsToBuild.map(t => t.type).join(', ')}`);
+    console.log(`⚙️  Config: ${loaded.file ? path.relative(process.cwd(), loaded.file) : 'built-in defaults'}`);
+    console.log(`📋 Building: ${buildAll ? 'all transforms' : transformsToBuild.map(t => t.name).join(', ')}`);
     console.log('');
 
-    // Ensure directories exist
-    if (!fs.existsSync('transforms')) {
-        fs.mkdirSync('transforms', { recursive: true });
-    }
-    if (!fs.existsSync('.tmp.build')) {
-        fs.mkdirSync('.tmp.build', { recursive: true });
+    const result = await buildTransforms({ config: loaded.config, selectors: buildAll ? [] : selectors, log: message => console.log(message) });
+
+    const warnings = result.diagnostics.filter(diagnostic => diagnostic.severity === 'warning');
+    const errors = result.diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+
+    if (warnings.length > 0) {
+        console.log('');
+        console.log(`⚠️  ${warnings.length} warning${warnings.length === 1 ? '' : 's'}:`);
+        warnings.forEach(warning => console.log(`   - ${formatDiagnostic(warning)}`));
     }
 
-    // Build selected transforms
-    for (const transform of transformsToBuild) {
-        buildTransform(transform);
+    if (!result.success) {
+        console.log('');
+        console.log(`❌ Build failed with ${errors.length} error${errors.length === 1 ? '' : 's'}:`);
+        errors.forEach(error => console.log(`   - ${formatDiagnostic(error)}`));
+        process.exit(1);
     }
 
-    // Create README
-    createREADME();
-    
-    // Clean up temp directory
-    fs.rmSync('.tmp.build', { recursive: true, force: true });
-    
     console.log('');
     console.log('✅ Build complete!');
-    console.log('📁 Check the transforms/ directory for generated files');
+    console.log(`📁 Check the ${transforms[0].outputDir}/ directory for generated files`);
 }
 
-main();
\ No newline at end of file
+main().catch(error => {
+    console.log(`❌ Build failed: ${error.message}`);
+    process.exit(1);
+});
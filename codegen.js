@@ -0,0 +1,80 @@
+// Streamkap interface generator
+// Emits TypeScript interfaces into src/ from sample JSONL records or an Avro / JSON Schema file
+
+const fs = require('fs');
+const path = require('path');
+const { loadTooling } = require('./load-tooling');
+
+function printUsage() {
+    console.log('Usage: node codegen.js --samples <records.jsonl> --name <TypeName> [--discriminator <field> | --no-discriminator]');
+    console.log('                       [--max-literals <n>] [--out <file>] [--force]');
+    console.log('       node codegen.js --schema <schema.avsc|schema.json> [--name <TypeName>] [--out <file>] [--force]');
+}
+
+function parseArgs() {
+    const args = process.argv.slice(2);
+    const options = { force: false };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--force') {
+            options.force = true;
+        } else if (arg === '--no-discriminator') {
+            options.discriminator = false;
+        } else if (['--samples', '--schema', '--name', '--discriminator', '--max-literals', '--out'].indexOf(arg) !== -1) {
+            const value = args[++i];
+            if (value === undefined || value.startsWith('--')) {
+                console.log(`❌ Missing value for ${arg}`);
+                printUsage();
+                process.exit(1);
+            }
+            const name = arg.substring(2).replace(/-([a-z])/g, (match, letter) => letter.toUpperCase());
+            options[name] = name === 'maxLiterals' ? parseInt(value, 10) : value;
+        } else {
+            console.log(`❌ Unknown option ${arg}`);
+            printUsage();
+            process.exit(1);
+        }
+    }
+
+    if (!!options.samples === !!options.schema || (options.samples && !options.name)) {
+        printUsage();
+        process.exit(1);
+    }
+
+    return options;
+}
+
+// Without --name the file is named after the schema: its JSON Schema title or Avro record name
+function defaultTypeName(options) {
+    if (options.name) {
+        return options.name;
+    }
+    const schema = JSON.parse(fs.readFileSync(options.schema, 'utf8'));
+    const name = schema.title || schema.name || path.basename(options.schema, path.extname(options.schema));
+    return name.substring(name.lastIndexOf('.') + 1);
+}
+
+function main() {
+    const options = parseArgs();
+    const { generateInterfaces, toInterfaceName } = loadTooling('interfaceCodegen');
+
+    const source = generateInterfaces(options);
+    const outFile = options.out || path.join('src', `${toInterfaceName(defaultTypeName(options))}.ts`);
+
+    if (fs.existsSync(outFile) && !options.force) {
+        console.log(`❌ ${outFile} already exists. Pass --force to overwrite or --out to pick another file.`);
+        process.exit(1);
+    }
+
+    fs.writeFileSync(outFile, source);
+    const count = (source.match(/^export (interface|type) /gm) || []).length;
+    console.log(`✅ Wrote ${count} types to ${outFile}`);
+}
+
+try {
+    main();
+} catch (error) {
+    console.error('❌ Code generation failed:', error.message);
+    process.exit(1);
+}
@@ -0,0 +1,187 @@
+// Streamkap dev watch mode
+// Rebuilds the bundles that import a changed file, then reruns the tests of their transform types
+
+const fs = require('fs');
+const path = require('path');
+const { spawn } = require('child_process');
+const { loadTooling, loadStreamkapConfig } = require('./load-tooling');
+
+const { selectTransforms } = loadTooling('transformConfig');
+const { buildTransforms, formatDiagnostic } = loadTooling('buildTransforms');
+const { DependencyGraph, testSelectors } = loadTooling('devWatch');
+
+// Wait for editors to finish writing before rebuilding
+const DEBOUNCE_MS = 100;
+
+function parseArgs() {
+    const args = process.argv.slice(2);
+    const selectors = [];
+    let configPath;
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--config') {
+            configPath = args[++i];
+        } else if (arg.startsWith('--') && arg !== '--all') {
+            selectors.push(arg.substring(2));
+        }
+    }
+
+    return { selectors, configPath };
+}
+
+function relativePath(file) {
+    return path.relative(process.cwd(), file).replace(/\\/g, '/');
+}
+
+function runTests(selectors) {
+    console.log('');
+    return new Promise(resolve => {
+        const tests = spawn(process.execPath, ['test-selective.js', ...selectors], { stdio: 'inherit' });
+        tests.on('exit', code => resolve(code === 0));
+        tests.on('error', error => {
+            console.log(`❌ Could not run tests: ${error.message}`);
+            resolve(false);
+        });
+    });
+}
+
+function main() {
+    const { selectors, configPath } = parseArgs();
+    const watchers = {};
+    let loaded;
+    let graph;
+    let pending = [];
+    let timer;
+    let running = false;
+
+    // (Re)load the config - false when it is invalid, keeping the previous one
+    function loadConfig() {
+        try {
+            const next = loadStreamkapConfig(configPath);
+            const transforms = selectors.length > 0 ? selectTransforms(next.transforms, selectors) : next.transforms;
+            if (transforms.length === 0) {
+                console.log(`❌ No transforms match ${selectors.map(selector => `--${selector}`).join(', ')}`);
+                return false;
+            }
+            loaded = next;
+            graph = new DependencyGraph(transforms);
+            return true;
+        } catch (error) {
+            console.log(`❌ ${error.message}`);
+            return false;
+        }
+    }
+
+    function configFile() {
+        return loaded.file ? relativePath(loaded.file) : undefined;
+    }
+
+    // Files the build writes itself, which must not trigger another build
+    function isGenerated(file) {
+        return (loaded.typeGuards && file === loaded.typeGuards.output) || file.startsWith(`${loaded.transforms[0].outputDir}/`);
+    }
+
+    function watch() {
+        const directories = graph.directories();
+        if (loaded.typeGuards) {
+            loaded.typeGuards.sources.forEach(source => directories.push(path.dirname(source)));
+        }
+        if (loaded.file) {
+            directories.push(path.dirname(configFile()));
+        }
+
+        directories.filter(directory => !watchers[directory] && fs.existsSync(directory)).forEach(directory => {
+            watchers[directory] = fs.watch(directory, (event, fileName) => {
+                if (fileName) {
+                    changed(relativePath(path.join(directory, fileName.toString())));
+                }
+            });
+        });
+    }
+
+    function changed(file) {
+        if (isGenerated(file) || pending.indexOf(file) !== -1) {
+            return;
+        }
+        pending.push(file);
+        clearTimeout(timer);
+        timer = setTimeout(rebuild, DEBOUNCE_MS);
+    }
+
+    async function rebuild() {
+        if (running) {
+            return;
+        }
+        const files = pending;
+        pending = [];
+
+        let bundles;
+        if (files.indexOf(configFile()) !== -1) {
+            console.log(`\n🔁 ${configFile()} changed - rebuilding every transform`);
+            if (!loadConfig()) {
+                return;
+            }
+            bundles = graph.bundles;
+        } else {
+            // Bundles only see the generated type guards, not the interfaces they are generated from
+            const typeGuardSources = loaded.typeGuards ? loaded.typeGuards.sources : [];
+            const inputs = files.map(file => typeGuardSources.indexOf(file) !== -1 ? loaded.typeGuards.output : file);
+            bundles = graph.affected(inputs);
+            if (bundles.length === 0) {
+                return;
+            }
+            console.log(`\n🔁 ${files.join(', ')} changed - rebuilding ${bundles.map(bundle => `${bundle.transform}/${bundle.file}`).join(', ')}`);
+        }
+
+        running = true;
+        try {
+            await buildAndTest(bundles);
+        } catch (error) {
+            console.log(`❌ Build failed: ${error.message}`);
+        }
+        running = false;
+
+        watch();
+        console.log('\n👀 Waiting for changes (Ctrl+C to stop)');
+        if (pending.length > 0) {
+            rebuild();
+        }
+    }
+
+    async function buildAndTest(bundles) {
+        const result = await buildTransforms({ config: loaded.config, selectors, only: bundles, log: message => console.log(message) });
+        graph.update(result.bundles);
+
+        result.diagnostics.forEach(diagnostic => {
+            console.log(`   ${diagnostic.severity === 'error' ? '❌' : '⚠️ '} ${formatDiagnostic(diagnostic)}`);
+        });
+        if (!result.success) {
+            console.log('❌ Build failed - fix the errors above, tests are run after the next successful build');
+            return;
+        }
+
+        console.log(`✅ Rebuilt ${result.bundles.length} bundle${result.bundles.length === 1 ? '' : 's'} in ${result.durationMs}ms`);
+        await runTests(testSelectors(bundles));
+    }
+
+    if (!loadConfig()) {
+        process.exit(1);
+    }
+
+    console.log('🛠️  Streamkap Dev Mode');
+    console.log(`⚙️  Config: ${configFile() || 'built-in defaults'}`);
+    console.log('');
+
+    // The first build has no dependency graph yet, so every selected bundle is built
+    running = true;
+    buildAndTest(graph.bundles)
+        .catch(error => console.log(`❌ Build failed: ${error.message}`))
+        .then(() => {
+            running = false;
+            watch();
+            console.log('\n👀 Waiting for changes (Ctrl+C to stop)');
+        });
+}
+
+main();
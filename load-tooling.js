@@ -0,0 +1,57 @@
+// Streamkap tooling loader
+// Compiles TypeScript modules with esbuild so the command line scripts can use them
+
+const fs = require('fs');
+const path = require('path');
+const Module = require('module');
+const esbuild = require('esbuild');
+
+const CONFIG_FILES = ['streamkap.config.ts', 'streamkap.config.json'];
+
+function loadTypeScriptModule(entry) {
+    const result = esbuild.buildSync({
+        entryPoints: [entry],
+        bundle: true,
+        platform: 'node',
+        format: 'cjs',
+        target: 'node12',
+        external: ['esbuild', 'typescript'],
+        logLevel: 'error',
+        write: false
+    });
+
+    const compiled = new Module(entry, module);
+    compiled.filename = entry;
+    compiled.paths = Module._nodeModulePaths(path.dirname(entry));
+    compiled._compile(result.outputFiles[0].text, entry);
+    return compiled.exports;
+}
+
+function loadTooling(name) {
+    return loadTypeScriptModule(path.join(__dirname, 'src', 'tooling', `${name}.ts`));
+}
+
+// Load and validate streamkap.config.(ts|json), falling back to the built-in config
+function loadStreamkapConfig(configPath) {
+    const { resolveConfig, resolveTypeGuards, DEFAULT_CONFIG } = loadTooling('transformConfig');
+    const rootDir = process.cwd();
+
+    const candidates = configPath ? [configPath] : CONFIG_FILES;
+    const file = candidates.map(candidate => path.resolve(rootDir, candidate)).find(candidate => fs.existsSync(candidate));
+
+    if (configPath && !file) {
+        throw new Error(`Config file not found: ${configPath}`);
+    }
+
+    let config = DEFAULT_CONFIG;
+    if (file && file.endsWith('.json')) {
+        config = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } else if (file) {
+        const loaded = loadTypeScriptModule(file);
+        config = loaded.default || loaded.config;
+    }
+
+    return { file, config, transforms: resolveConfig(config, rootDir), typeGuards: resolveTypeGuards(config, rootDir) };
+}
+
+module.exports = { loadTooling, loadTypeScriptModule, loadStreamkapConfig };
@@ -0,0 +1,81 @@
+// Streamkap runtime simulator
+// Replays a JSONL file of {value, key, topic, timestamp} envelopes through generated bundles
+
+const fs = require('fs');
+const path = require('path');
+const { loadTooling, loadTypeScriptModule, loadStreamkapConfig } = require('./load-tooling');
+
+function printUsage() {
+    console.log('Usage: node simulate.js --input <records.jsonl> [--output <results.jsonl>] [--metrics <metrics.prom>]');
+    console.log('                        (--transform <name> [--config <file>] | --value <file> [--key <file>] [--topic <file>])');
+}
+
+function parseArgs() {
+    const args = process.argv.slice(2);
+    const options = {};
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (!arg.startsWith('--')) {
+            continue;
+        }
+        const name = arg.substring(2);
+        const value = args[i + 1];
+        if (value === undefined || value.startsWith('--')) {
+            console.log(`❌ Missing value for ${arg}`);
+            printUsage();
+            process.exit(1);
+        }
+        options[name] = value;
+        i++;
+    }
+
+    if (!options.input || (!options.transform && !options.value && !options.key && !options.topic)) {
+        printUsage();
+        process.exit(1);
+    }
+
+    return options;
+}
+
+// Folder the build writes the transform's bundles to, per the outputDir and output settings of the config
+function transformFolder(name, configPath) {
+    const { transforms } = loadStreamkapConfig(configPath);
+    const transform = transforms.find(candidate => candidate.name === name);
+    if (!transform) {
+        throw new Error(`No transform named ${name} - available: ${transforms.map(candidate => candidate.name).join(', ')}`);
+    }
+    return path.join(transform.outputDir, transform.folder);
+}
+
+async function main() {
+    const options = parseArgs();
+    const { StreamkapSimulator } = loadTooling('simulator');
+    const { MetricsRegistry } = loadTypeScriptModule(path.join(__dirname, 'src', 'templates', 'metrics.ts'));
+
+    // Collected without sinks and written once, in the Prometheus text format
+    const metrics = options.metrics ? new MetricsRegistry({ sinks: [] }) : undefined;
+    const simulator = options.transform
+        ? StreamkapSimulator.fromTransformFolder(transformFolder(options.transform, options.config), { metrics })
+        : new StreamkapSimulator({ value: options.value, key: options.key, topic: options.topic }, { metrics });
+
+    const input = fs.readFileSync(options.input, 'utf8');
+    const output = await simulator.processJsonl(input);
+
+    if (options.output) {
+        fs.writeFileSync(options.output, output);
+        console.log(`✅ Wrote ${output.split('\n').filter(Boolean).length} records to ${options.output}`);
+    } else {
+        process.stdout.write(output);
+    }
+
+    if (metrics) {
+        fs.writeFileSync(options.metrics, metrics.toPrometheus());
+        console.log(`✅ Wrote metrics to ${options.metrics}`);
+    }
+}
+
+main().catch(error => {
+    console.error('❌ Simulation failed:', error.message);
+    process.exit(1);
+});
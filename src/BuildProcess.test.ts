@@ -42,6 +42,9 @@ describe('Build Process and Generated Files', () => {
             const readmeContent = readFileSync(readmePath, 'utf8');
             expect(readmeContent).toContain('Generated Streamkap Transforms');
             expect(readmeContent).toContain('Self-contained');
+            expect(readmeContent).toContain('- **fan-out/**: Route records to multiple topics (fan_out)\n  - `valueTransform.js` - Value transformation for routing\n  - `topicTransform.js` - Topic routing logic');
+            expect(readmeContent).toContain('`valueTransform.js` - Async enrichment logic');
+            expect(readmeContent).toContain('`valueTransform.js` - Flattening transform logic');
         });
     });
     
@@ -0,0 +1,150 @@
+/**
+ * Tests for the programmatic build API behind build-multiple.js
+ * These tests verify bundles are built with the esbuild API and failures come back as diagnostics
+ */
+
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { buildTransforms, formatDiagnostic } from './tooling/buildTransforms';
+
+// Scratch directory inside the project, so bundled files resolve node_modules like the real sources do
+const scratchDir = join('.tmp.build', 'build-api-test');
+const outputDir = join(scratchDir, 'transforms');
+
+describe('Build Transforms API', () => {
+
+    beforeAll(() => {
+        mkdirSync(scratchDir, { recursive: true });
+        writeFileSync(join(scratchDir, 'broken.ts'), "import { missing } from './does-not-exist';\nexport const value = missing;\n");
+        writeFileSync(join(scratchDir, 'timers.ts'), 'export function _streamkap_transform(value: any) {\n    setInterval(() => value, 1000);\n    return value;\n}\n');
+    });
+
+    afterAll(() => {
+        rmSync(scratchDir, { recursive: true, force: true });
+    });
+
+    it('should build bundles, source maps and the report', async () => {
+        const messages: string[] = [];
+        const result = await buildTransforms({
+            config: { outputDir, transforms: [{ name: 'keys', type: 'map_filter', entries: { value: 'src/key_transform.ts' } }] },
+            log: message => messages.push(message)
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.diagnostics).toEqual([]);
+        expect(result.bundles).toEqual([expect.objectContaining({ transform: 'keys', kind: 'value', output: join(outputDir, 'keys', 'valueTransform.js'), success: true })]);
+        expect(result.bundles[0].report!.bytes).toBe(readFileSync(join(outputDir, 'keys', 'valueTransform.js')).length);
+        expect(result.bundles[0].inputs).toEqual(['src/templates/sdk.ts', 'src/key_transform.ts']);
+
+        expect(readFileSync(join(outputDir, 'keys', 'valueTransform.js'), 'utf8')).toContain('_streamkap_transform_key');
+        expect(existsSync(join(outputDir, 'keys', 'valueTransform.js.map'))).toBe(true);
+        expect(existsSync(join(outputDir, 'bundle-report.json'))).toBe(true);
+        // Tracked in git, so rebuilding must not rewrite it
+        expect(readFileSync(join(outputDir, 'README.md'), 'utf8')).not.toContain('Generated on');
+        expect(messages).toContain('   ✅ Generated valueTransform.js');
+    });
+
+    it('should bundle the browser build of packages, which do not require crypto', async () => {
+        const result = await buildTransforms({
+            config: { outputDir, transforms: [{ name: 'orders', type: 'map_filter', entries: { value: 'src/value_transform.ts' } }] }
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.bundles[0].inputs).toContain('node_modules/uuid/dist/cjs-browser/v4.js');
+        expect(readFileSync(join(outputDir, 'orders', 'valueTransform.js'), 'utf8')).not.toMatch(/require\(["']crypto["']\)/);
+    });
+
+    it('should only build the requested bundles', async () => {
+        const result = await buildTransforms({
+            config: { outputDir, transforms: [
+                { name: 'keys', type: 'map_filter', entries: { value: 'src/key_transform.ts', key: 'src/key_transform.ts' } },
+                { name: 'other', type: 'map_filter', entries: { value: 'src/key_transform.ts' } }
+            ] },
+            only: [{ transform: 'keys', kind: 'key' }]
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.bundles.map(bundle => bundle.output)).toEqual([join(outputDir, 'keys', 'keyTransform.js')]);
+    });
+
+    it('should merge the bundle report with the reports of bundles it did not build', async () => {
+        const reportPath = join(outputDir, 'bundle-report.json');
+        const reported = () => JSON.parse(readFileSync(reportPath, 'utf8')).bundles.map((report: any) => `${report.transform}/${report.file}`);
+        const transforms = [
+            { name: 'keys', type: 'map_filter' as const, entries: { value: 'src/key_transform.ts', key: 'src/key_transform.ts' } },
+            { name: 'other', type: 'map_filter' as const, entries: { value: 'src/key_transform.ts' } }
+        ];
+
+        await buildTransforms({ config: { outputDir, transforms } });
+        await buildTransforms({ config: { outputDir, transforms }, only: [{ transform: 'keys', kind: 'key' }] });
+        await buildTransforms({ config: { outputDir, transforms }, selectors: ['other'] });
+        expect(reported()).toEqual(['keys/valueTransform.js', 'keys/keyTransform.js', 'other/valueTransform.js']);
+
+        // Transforms no longer configured drop out
+        await buildTransforms({ config: { outputDir, transforms: transforms.slice(0, 1) }, only: [{ transform: 'keys', kind: 'key' }] });
+        expect(reported()).toEqual(['keys/valueTransform.js', 'keys/keyTransform.js']);
+    });
+
+    it('should report failed bundles and remove their stale output', async () => {
+        const stale = join(outputDir, 'broken', 'valueTransform.js');
+        mkdirSync(join(outputDir, 'broken'), { recursive: true });
+        writeFileSync(stale, '// previous build');
+
+        const result = await buildTransforms({
+            config: {
+                outputDir,
+                transforms: [
+                    { name: 'broken', type: 'map_filter', entries: { value: join(scratchDir, 'broken.ts') } },
+                    { name: 'keys', type: 'map_filter', entries: { value: 'src/key_transform.ts' } }
+                ]
+            }
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.bundles.map(bundle => [bundle.transform, bundle.success])).toEqual([['broken', false], ['keys', true]]);
+        expect(result.diagnostics).toHaveLength(1);
+        expect(result.diagnostics[0]).toMatchObject({ severity: 'error', transform: 'broken', file: 'valueTransform.js' });
+        expect(formatDiagnostic(result.diagnostics[0])).toMatch(/^broken\/valueTransform\.js: Could not resolve "\.\/does-not-exist" \(.*broken\.ts:1:25\)$/);
+        expect(existsSync(stale)).toBe(false);
+    });
+
+    it('should fail bundles using what the runtime does not provide, at the source position', async () => {
+        const config = { outputDir, transforms: [{ name: 'timers', type: 'map_filter' as const, entries: { value: join(scratchDir, 'timers.ts') } }] };
+
+        const result = await buildTransforms({ config });
+        expect(result.success).toBe(false);
+        expect(result.diagnostics.map(formatDiagnostic)).toEqual([
+            `timers/valueTransform.js: Global "setInterval" is not available in the streamkap runtime (${join(scratchDir, 'timers.ts')}:2:5)`
+        ]);
+
+        const node = await buildTransforms({ config: { ...config, lint: { runtime: 'node' } } });
+        expect(node.success).toBe(true);
+    });
+
+    it('should fail on config problems and exceeded budgets', async () => {
+        const invalid = await buildTransforms({ config: { transforms: [{ name: 'keys', type: 'map_and_filter' as any, entries: { value: 'src/key_transform.ts' } }] } });
+        expect(invalid.success).toBe(false);
+        expect(invalid.diagnostics.map(formatDiagnostic)).toEqual(['transforms["keys"].type "map_and_filter" is not one of: map_filter, fan_out, enrich_async, un_nesting']);
+
+        const overBudget = await buildTransforms({
+            config: {
+                outputDir,
+                budgets: { map_filter: { maxBytes: 100 } },
+                transforms: [{ name: 'keys', type: 'map_filter', entries: { value: 'src/key_transform.ts' } }]
+            }
+        });
+        expect(overBudget.success).toBe(false);
+        expect(overBudget.bundles[0].success).toBe(true);
+        expect(overBudget.diagnostics.map(formatDiagnostic)).toEqual([expect.stringMatching(/^keys\/valueTransform\.js is .* over the 100 B budget for map_filter$/)]);
+    });
+
+    it('should report selectors that match nothing', async () => {
+        const result = await buildTransforms({
+            config: { outputDir, transforms: [{ name: 'keys', type: 'map_filter', entries: { value: 'src/key_transform.ts' } }] },
+            selectors: ['fan-out']
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.diagnostics).toEqual([{ severity: 'error', message: 'No transforms match --fan-out' }]);
+    });
+});
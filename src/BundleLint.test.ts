@@ -0,0 +1,113 @@
+/**
+ * Tests for the runtime compatibility linter run on every bundle
+ * These tests verify bundles are rejected for globals and modules the Streamkap runtime does not provide
+ */
+
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { LintViolation, RUNTIME_PROFILES, formatLintViolation, lintBundle } from './tooling/bundleLint';
+import { SourceMapLookup } from './tooling/sourceMaps';
+import { DEFAULT_CONFIG, resolveConfig } from './tooling/transformConfig';
+
+const streamkap = RUNTIME_PROFILES.streamkap;
+
+function names(violations: LintViolation[]): string[] {
+    return violations.map(violation => `${violation.rule}:${violation.name}`);
+}
+
+describe('Bundle Lint', () => {
+
+    describe('Globals', () => {
+        it('should report globals the runtime does not provide', () => {
+            const code = [
+                'var timer = setInterval(tick, 1000);',
+                'function tick() { console.log(process.env.DEBUG, JSON.stringify(new Date())); }',
+                'var data = Buffer.from("x");'
+            ].join('\n');
+
+            const violations = lintBundle(code, streamkap);
+
+            expect(names(violations)).toEqual(['global:setInterval', 'global:process', 'global:Buffer']);
+            expect(violations[1]).toMatchObject({ line: 2, column: 30, message: 'Global "process" is not available' });
+            expect(lintBundle(code, RUNTIME_PROFILES.node)).toEqual([]);
+        });
+
+        it('should resolve names declared in enclosing scopes', () => {
+            const code = [
+                'function wrap(process, { Buffer }) {',
+                '    var global = {};',
+                '    return function inner() { try { return [process, Buffer, global, arguments]; } catch (setInterval) { return setInterval; } };',
+                '}',
+                'var obj = { process: 1, fetch() {} };',
+                'obj.setInterval = obj.process;',
+                'label: for (;;) { break label; }',
+                'var arrow = () => arguments;'
+            ].join('\n');
+
+            expect(names(lintBundle(code, streamkap))).toEqual(['global:arguments']);
+        });
+
+        it('should allow feature detection and branches esbuild folded away', () => {
+            const code = [
+                'var env = typeof process !== "undefined" && process.env;',
+                'var root = typeof window === "object" ? window : typeof global === "object" ? global : {};',
+                'if (typeof setImmediate === "function") { setImmediate(run); } else { setTimeout(run, 0); }',
+                'function run() { return true ? JSON.parse("{}") : DEFAULT_DEAD_LETTER_POLICY; }',
+                'function rng() { if (typeof crypto === "undefined" || !crypto.getRandomValues) { throw new Error("no crypto"); } return crypto.getRandomValues(new Uint8Array(16)); }'
+            ].join('\n');
+
+            expect(lintBundle(code, streamkap)).toEqual([]);
+            expect(names(lintBundle('if (typeof crypto === "undefined") { console.warn("no crypto"); }\ncrypto.randomUUID();', streamkap))).toEqual(['global:crypto']);
+        });
+    });
+
+    describe('Modules', () => {
+        it('should only allow the modules of the runtime', () => {
+            const code = [
+                'var crypto = require("crypto");',
+                'var fs = require("fs");',
+                'var lang = "en", locale = require("./locale/" + lang);',
+                'import("./lazy.js");'
+            ].join('\n');
+
+            expect(names(lintBundle(code, streamkap))).toEqual(['require:crypto', 'require:fs', 'dynamic-require:require', 'dynamic-import:import']);
+            expect(names(lintBundle(code, { globals: ['require'], modules: ['crypto', 'fs'] }))).toEqual(['dynamic-require:require', 'dynamic-import:import']);
+        });
+
+        it('should not check calls of a locally declared require', () => {
+            expect(lintBundle('function load(require) { return require("fs"); }', streamkap)).toEqual([]);
+        });
+    });
+
+    describe('Source positions', () => {
+        it('should map violations back to the source through the bundle map', () => {
+            // Line 1 maps column 0 to src/timer.ts 1:0, line 2 column 5 to src/timer.ts 3:8
+            const map = { version: 3, sources: ['src/timer.ts'], names: [], mappings: 'AAAA;KAEQ' };
+            const [violation] = lintBundle('var a = 1;\nvoid process.pid;', streamkap, new SourceMapLookup(map));
+
+            expect(violation.original).toEqual({ source: 'src/timer.ts', line: 3, column: 8 });
+            expect(formatLintViolation(violation, 'transforms/timer/valueTransform.js'))
+                .toBe('src/timer.ts:3:9: Global "process" is not available (transforms/timer/valueTransform.js:2:6)');
+        });
+    });
+
+    describe('Generated bundles', () => {
+        it('should only use what the Streamkap runtime provides', () => {
+            const transforms = resolveConfig(DEFAULT_CONFIG, process.cwd());
+            const mapFilter = transforms[0];
+            const bundles = readdirSync('transforms')
+                .filter(folder => statSync(join('transforms', folder)).isDirectory())
+                .map(folder => readdirSync(join('transforms', folder)).filter(file => /\.js$/.test(file)).map(file => join('transforms', folder, file)))
+                .reduce((all, files) => all.concat(files), [] as string[]);
+            expect(bundles.length).toBeGreaterThan(0);
+
+            bundles.forEach(bundle => {
+                const lookup = SourceMapLookup.fromFile(`${bundle}.map`, file => readFileSync(file, 'utf8'));
+                const violations = lintBundle(readFileSync(bundle, 'utf8'), mapFilter.lint, lookup)
+                    .filter(violation => mapFilter.lint.ignore.indexOf(violation.original!.source) === -1);
+
+                expect(violations.map(violation => formatLintViolation(violation, bundle))).toEqual([]);
+            });
+        });
+    });
+});
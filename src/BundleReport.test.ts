@@ -0,0 +1,80 @@
+/**
+ * Tests for the bundle size and cold-start report written by the build
+ * These tests verify module attribution from esbuild metafiles and budget checks
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { BundleReport, checkBudget, createBundleReport, measureColdStart, moduleName, topModules } from './tooling/bundleReport';
+
+const metafile = {
+    inputs: {},
+    outputs: {
+        '.tmp.build/orders/valueTransform.js': {
+            bytes: 1000,
+            inputs: {
+                'node_modules/lodash/lodash.js': { bytesInOutput: 500 },
+                'node_modules/uuid/dist/cjs/v4.js': { bytesInOutput: 100 },
+                'node_modules/uuid/dist/cjs/rng.js': { bytesInOutput: 150 },
+                'node_modules/@scope/pkg/index.js': { bytesInOutput: 50 },
+                'src/value_transform.ts': { bytesInOutput: 200 }
+            }
+        }
+    }
+};
+
+describe('Bundle Report', () => {
+
+    it('should attribute bundled files to their npm package', () => {
+        expect(moduleName('node_modules/uuid/dist/cjs/v4.js')).toBe('uuid');
+        expect(moduleName('node_modules/@scope/pkg/index.js')).toBe('@scope/pkg');
+        expect(moduleName('node_modules/a/node_modules/b/index.js')).toBe('b');
+        expect(moduleName('src/value_transform.ts')).toBe('src/value_transform.ts');
+    });
+
+    it('should list the largest contributors first', () => {
+        expect(topModules(metafile, 3)).toEqual([
+            { module: 'lodash', bytes: 500 },
+            { module: 'uuid', bytes: 250 },
+            { module: 'src/value_transform.ts', bytes: 200 }
+        ]);
+    });
+
+    it('should measure how long a bundle takes to load', () => {
+        const code = 'exports._streamkap_transform = function (value) { return value; };';
+
+        expect(measureColdStart(code)).toBeGreaterThanOrEqual(0);
+        expect(() => measureColdStart('require("crypto")')).toThrow('Module crypto is not available in the Streamkap runtime');
+    });
+
+    it('should report budget overruns', () => {
+        const report = createBundleReport({
+            transform: 'orders',
+            type: 'map_filter',
+            file: 'valueTransform.js',
+            code: 'exports.x = 1;',
+            minifiedBytes: 2048,
+            metafile
+        }, { budget: { maxBytes: 100, maxMinifiedBytes: 1024 } });
+
+        expect(report.bytes).toBe(14);
+        expect(report.topModules).toHaveLength(4);
+        expect(report.violations).toEqual(['orders/valueTransform.js is 2.0 KB minified, over the 1.0 KB budget for map_filter']);
+
+        const slow: BundleReport = { ...report, coldStartMs: 120 };
+        expect(checkBudget(slow, { maxColdStartMs: 100 })).toEqual(['orders/valueTransform.js takes 120ms to load, over the 100ms budget for map_filter']);
+        expect(checkBudget(slow, undefined)).toEqual([]);
+    });
+
+    it('should be written by the build for every bundle', () => {
+        const reportPath = join(process.cwd(), 'transforms', 'bundle-report.json');
+        expect(existsSync(reportPath)).toBe(true);
+
+        const { bundles } = JSON.parse(readFileSync(reportPath, 'utf8'));
+        const valueBundle = bundles.find((bundle: BundleReport) => bundle.transform === 'map-filter' && bundle.file === 'valueTransform.js');
+
+        expect(valueBundle.minifiedBytes).toBeLessThan(valueBundle.bytes);
+        expect(valueBundle.topModules.map((entry: any) => entry.module)).toContain('lodash');
+        expect(bundles.every((bundle: BundleReport) => bundle.violations.length === 0)).toBe(true);
+    });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tests for Debezium change event support
+ * These tests verify change events are unwrapped for the transform, deletes and tombstones are handled per mode and results rewrapped
+ */
+
+import { CdcEnvelopeError, CdcOptionsError, DebeziumEnvelope, cdcTransform, isDebeziumEnvelope, sourcePosition, unwrapChange } from './templates/cdc';
+import { CommonTransform } from './templates/commonTransform';
+import { createDeterministicContext } from './templates/runtimeContext';
+import { defineValueTransform } from './templates/sdk';
+import { TopicTransform } from './templates/topicTransform';
+import { ValueTransform } from './templates/valueTransform';
+
+interface Customer {
+    id: string;
+    name: string;
+}
+
+const timestamp = Date.UTC(2024, 0, 1);
+const context = () => createDeterministicContext(1, timestamp);
+const source = { connector: 'postgresql', table: 'customers', lsn: 24023128, ts_ms: timestamp };
+
+function change(op: 'c' | 'u' | 'd' | 'r', before: Customer | null, after: Customer | null): DebeziumEnvelope<Customer> {
+    return { before, after, op, source, ts_ms: timestamp + 5 };
+}
+
+const created = change('c', null, { id: 'cus-1', name: 'Ada' });
+const deleted = change('d', { id: 'cus-1', name: 'Ada L.' }, null);
+
+describe('CDC', () => {
+
+    describe('Change events', () => {
+        it('should unwrap the row, operation and source position', () => {
+            expect(unwrapChange(deleted)).toEqual({
+                op: 'd',
+                row: { id: 'cus-1', name: 'Ada L.' },
+                before: { id: 'cus-1', name: 'Ada L.' },
+                after: null,
+                deleted: true,
+                snapshot: false,
+                source,
+                position: '24023128',
+                ts_ms: timestamp + 5
+            });
+            expect(unwrapChange({ payload: change('r', null, { id: 'cus-2', name: 'Bo' }) })).toMatchObject({ op: 'r', row: { id: 'cus-2' }, snapshot: true });
+        });
+
+        it('should read the position of each connector', () => {
+            expect(sourcePosition({ file: 'mysql-bin.000003', pos: 154 })).toBe('mysql-bin.000003:154');
+            expect(sourcePosition({ file: 'mysql-bin.000003', pos: 154, row: 2 })).toBe('mysql-bin.000003:154:2');
+            expect(sourcePosition({ commit_lsn: '00000027:00000758:0005', change_lsn: '00000027:00000758:0003' })).toBe('00000027:00000758:0005:00000027:00000758:0003');
+            expect(sourcePosition({ scn: '2868546' })).toBe('2868546');
+            expect(sourcePosition({ connector: 'mongodb' })).toBeUndefined();
+        });
+
+        it('should reject values that are not change events', () => {
+            expect(isDebeziumEnvelope({ id: 'cus-1', op: 'c' })).toBe(false);
+            expect(isDebeziumEnvelope({ after: {}, op: 'x' })).toBe(false);
+            expect(() => unwrapChange({ id: 'cus-1' } as any)).toThrow(CdcEnvelopeError);
+        });
+    });
+
+    describe('cdcTransform', () => {
+        const transform = (options = {}) => defineValueTransform(cdcTransform<Customer, string, { id: string; op: string; position?: string }>(
+            (record, change) => ({ id: record.value.id, op: change.op, position: change.position }), options));
+
+        it('should pass the unwrapped row and the change to the transform', () => {
+            expect(transform()(created, 'cus-1', 'customers', timestamp)).toEqual({ id: 'cus-1', op: 'c', position: '24023128' });
+            expect(transform()(null, 'cus-1', 'customers', timestamp)).toBeNull();
+        });
+
+        it('should handle deletes per mode', () => {
+            expect(transform({ deletes: 'drop' })(deleted, 'cus-1', 'customers', timestamp)).toBeNull();
+            expect(transform({ deletes: 'tombstone', rewrap: true })(deleted, 'cus-1', 'customers', timestamp))
+                .toEqual({ before: { id: 'cus-1', name: 'Ada L.' }, after: null, op: 'd', source, ts_ms: timestamp + 5 });
+            expect(transform({ deletes: 'soft-delete' })(deleted, 'cus-1', 'customers', timestamp))
+                .toEqual({ id: 'cus-1', op: 'd', position: '24023128', __deleted: true });
+            expect(transform({ deletes: 'soft-delete', softDeleteField: 'is_deleted' })(created, 'cus-1', 'customers', timestamp))
+                .toEqual({ id: 'cus-1', op: 'c', position: '24023128', is_deleted: false });
+        });
+
+        it('should reject tombstones without rewrap and unknown delete modes', () => {
+            expect(() => transform({ deletes: 'tombstone' })).toThrow(new CdcOptionsError(['deletes: tombstone needs rewrap, an unwrapped null value is filtered out like drop']));
+            expect(() => transform({ deletes: 'soft_delete', softDeleteField: '' })).toThrow(new CdcOptionsError([
+                'deletes must be one of: tombstone, soft-delete, drop',
+                'softDeleteField must be a non-empty string'
+            ]));
+            expect(() => new ValueTransform(context(), { cdc: { deletes: 'soft_delete' as any } })).toThrow(CdcOptionsError);
+        });
+
+        it('should rewrap every result row', () => {
+            const fanOut = defineValueTransform(cdcTransform<Customer>(record => [record.value, { ...record.value, id: 'copy' }], { rewrap: true }));
+
+            expect(fanOut(created, null, 'customers', timestamp)).toEqual([
+                { before: null, after: { id: 'cus-1', name: 'Ada' }, op: 'c', source, ts_ms: timestamp + 5 },
+                { before: null, after: { id: 'copy', name: 'Ada' }, op: 'c', source, ts_ms: timestamp + 5 }
+            ]);
+        });
+    });
+
+    describe('Templates', () => {
+        it('should transform the row of change events in CDC mode', () => {
+            const transform = new ValueTransform(context(), { cdc: { deletes: 'soft-delete' } });
+
+            expect(transform.transform(created, 'cus-1', 'customers', timestamp)).toMatchObject({
+                id: 'cus-1', name: 'Ada', cdc_op: 'c', cdc_position: '24023128', source_topic: 'customers', transform_type: 'value', __deleted: false
+            });
+            expect(transform.transform(deleted, 'cus-1', 'customers', timestamp)).toMatchObject({ id: 'cus-1', name: 'Ada L.', cdc_op: 'd', __deleted: true });
+            expect(transform.transformFlatten(created, 'cus-1', 'customers', timestamp)).toMatchObject({ id: 'cus-1', transform_type: 'flatten', __deleted: false });
+        });
+
+        it('should rewrap async results and skip deletes', async () => {
+            jest.spyOn(CommonTransform.prototype, 'enrichRecord').mockImplementation(async record => ({ ...record, tier: 'gold' }));
+            const transform = new ValueTransform(context(), { cdc: { deletes: 'drop', rewrap: true } });
+
+            const result = await transform.transformAsync(created, 'cus-1', 'customers', timestamp);
+
+            expect(result).toMatchObject({ before: null, op: 'c', source, after: { id: 'cus-1', tier: 'gold', transform_type: 'async_value' } });
+            expect(await transform.transformAsync(deleted, 'cus-1', 'customers', timestamp)).toBeNull();
+            jest.restoreAllMocks();
+        });
+
+        it('should pass tombstones through without validation errors', () => {
+            const log = jest.spyOn(CommonTransform.prototype, 'log').mockImplementation(() => undefined);
+
+            expect(new CommonTransform(context()).validateInput(null, 'cus-1', 'customers', timestamp)).toEqual({ valid: true, errors: [], tombstone: true });
+            expect(new ValueTransform(context()).transform(null, 'cus-1', 'customers', timestamp)).toBeNull();
+            expect(new ValueTransform(context(), { cdc: {} }).transform(null, 'cus-1', 'customers', timestamp)).toBeNull();
+            expect(new TopicTransform(context()).transform(null, 'cus-1', 'customers', timestamp)).toBe('customers');
+            expect(log).not.toHaveBeenCalled();
+            log.mockRestore();
+        });
+
+        it('should dead-letter values that are not change events in CDC mode', () => {
+            jest.spyOn(CommonTransform.prototype, 'log').mockImplementation(() => undefined);
+
+            expect(new ValueTransform(context(), { cdc: {} }).transform({ id: 'cus-1' }, 'cus-1', 'customers', timestamp))
+                .toMatchObject({ _streamkap_error: true, error_type: 'CdcEnvelopeError', error_stage: 'value' });
+            jest.restoreAllMocks();
+        });
+    });
+});
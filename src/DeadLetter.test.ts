@@ -0,0 +1,119 @@
+/**
+ * Tests for the unified error envelope and the dead-letter policy
+ * These tests verify failed records are dropped, passed through or routed to the dead-letter topic
+ */
+
+import { _streamkap_transform } from './value_transform';
+import { _streamkap_transform_topic } from './topic_transform';
+import { OrderTransformer } from './OrderTransformer';
+import { CommonTransform } from './templates/commonTransform';
+import { DEFAULT_DEAD_LETTER_TOPIC, DeadLetterHandler, isErrorEnvelope } from './templates/deadLetter';
+import { createDeterministicContext } from './templates/runtimeContext';
+import { SchemaValidationFailure } from './templates/schemaValidation';
+import { TopicTransform } from './templates/topicTransform';
+import { ValueTransform } from './templates/valueTransform';
+
+const timestamp = Date.UTC(2024, 0, 1);
+const context = () => createDeterministicContext(1, timestamp);
+const record = { id: 'order-1', amount: 10 };
+const failure = { stage: 'value' as const, operation: 'valueTransform', valueObject: record, keyObject: 'order-1', topic: 'orders', timestamp };
+
+describe('Dead Letter', () => {
+
+    describe('DeadLetterHandler', () => {
+        it('should build the same envelope for every failure', () => {
+            const handler = new DeadLetterHandler(undefined, context());
+            const error = new SchemaValidationFailure('Input schema validation failed', [{ path: '$.amount', message: 'must be number' }]);
+
+            expect(handler.createEnvelope(error, failure)).toEqual({
+                _streamkap_error: true,
+                error_type: 'SchemaValidationFailure',
+                error_message: 'Input schema validation failed: $.amount must be number',
+                error_stage: 'value',
+                error_operation: 'valueTransform',
+                error_timestamp: '2024-01-01T00:00:00.000Z',
+                error_details: [{ path: '$.amount', message: 'must be number' }],
+                record_id: 'order-1',
+                source_topic: 'orders',
+                source_key: 'order-1',
+                source_timestamp: timestamp,
+                original_value: record
+            });
+            expect(handler.createEnvelope('boom', { stage: 'topic', operation: 'topicTransform', valueObject: null }).error_type).toBe('string');
+        });
+
+        it('should apply each mode', () => {
+            const error = new Error('boom');
+
+            expect(new DeadLetterHandler({ mode: 'drop' }).handle(error, failure)).toBeNull();
+            expect(new DeadLetterHandler({ mode: 'pass-through' }).handle(error, failure)).toBe(record);
+            expect(new DeadLetterHandler({ mode: 'pass-through' }).handle(error, { ...failure, stage: 'key_schema' })).toBe('order-1');
+            expect(isErrorEnvelope(new DeadLetterHandler({ mode: 'dead-letter' }).handle(error, failure))).toBe(true);
+        });
+
+        it('should route envelopes to the dead-letter topic in dead-letter mode only', () => {
+            const envelope = new DeadLetterHandler().createEnvelope(new Error('boom'), failure);
+
+            expect(new DeadLetterHandler().route(envelope, 'orders')).toBe(DEFAULT_DEAD_LETTER_TOPIC);
+            expect(new DeadLetterHandler({ mode: 'dead-letter', topic: 'orders-dlq' }).route(envelope, 'orders')).toBe('orders-dlq');
+            expect(new DeadLetterHandler().route(record, 'orders')).toBe('orders');
+            expect(new DeadLetterHandler({ mode: 'pass-through' }).route(envelope, 'orders')).toBe('orders');
+        });
+    });
+
+    describe('Transform coordination', () => {
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('should send records failing in the value transform to the dead-letter topic', () => {
+            jest.spyOn(CommonTransform.prototype, 'transformRecord').mockImplementation(() => {
+                throw new Error('boom');
+            });
+            jest.spyOn(CommonTransform.prototype, 'log').mockImplementation(() => undefined);
+            const policy = { mode: 'dead-letter' as const, topic: 'orders-dlq' };
+
+            const value = new ValueTransform(context(), { deadLetter: policy }).transform(record, 'order-1', 'orders', timestamp);
+
+            expect(value.error_stage).toBe('value');
+            expect(value.error_operation).toBe('valueTransform');
+            expect(new TopicTransform(context(), { deadLetter: policy }).transform(value, 'order-1', 'orders', timestamp)).toBe('orders-dlq');
+        });
+
+        it('should drop failed records instead when configured', () => {
+            jest.spyOn(CommonTransform.prototype, 'transformRecord').mockImplementation(() => {
+                throw new Error('boom');
+            });
+            jest.spyOn(CommonTransform.prototype, 'log').mockImplementation(() => undefined);
+
+            expect(new ValueTransform(context(), { deadLetter: { mode: 'drop' } }).transform(record, 'order-1', 'orders', timestamp)).toBeNull();
+        });
+
+        it('should route failing records in the map-filter entry points', () => {
+            jest.spyOn(OrderTransformer.prototype, 'transform').mockImplementation(() => {
+                throw new Error('boom');
+            });
+            const value = _streamkap_transform({ order_type: 'OrderType1', _id: 'express-1' }, 'k', 'orders', timestamp);
+
+            expect(value).toMatchObject({ error_stage: 'value', error_operation: 'OrderTransformer' });
+            expect(_streamkap_transform_topic(value, 'k', 'orders', timestamp)).toBe(DEFAULT_DEAD_LETTER_TOPIC);
+            expect(_streamkap_transform_topic({ order_type: 'OrderType1', _id: 'express-1' }, 'k', 'orders', timestamp)).toBe('orders');
+        });
+
+        it('should keep tombstones out of the dead-letter topic', () => {
+            expect(_streamkap_transform(null, 'k', 'orders', timestamp)).toBeNull();
+            expect(_streamkap_transform_topic(null, 'k', 'orders', timestamp)).toBe('orders');
+        });
+
+        it('should route key failures and decide without replaying the value transform', () => {
+            const transform = jest.spyOn(OrderTransformer.prototype, 'transform');
+            jest.spyOn(OrderTransformer.prototype, 'check').mockReturnValueOnce(new TypeError('not an order'));
+            const keyEnvelope = new DeadLetterHandler().createEnvelope(new Error('bad key'), { ...failure, stage: 'key' });
+
+            expect(_streamkap_transform_topic({ order_type: 'OrderType1' }, 'k', 'orders', timestamp)).toBe(DEFAULT_DEAD_LETTER_TOPIC);
+            expect(new TopicTransform(context()).transform(record, keyEnvelope, 'orders', timestamp)).toBe(DEFAULT_DEAD_LETTER_TOPIC);
+            expect(_streamkap_transform_topic({ order_type: 'OrderType1', _id: 'express-1' }, keyEnvelope, 'orders', timestamp)).toBe(DEFAULT_DEAD_LETTER_TOPIC);
+            expect(transform).not.toHaveBeenCalled();
+        });
+    });
+});
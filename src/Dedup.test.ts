@@ -0,0 +1,126 @@
+/**
+ * Tests for stateful deduplication
+ * These tests verify records are deduplicated by idempotency key within a bounded window, exactly or with Bloom filters
+ */
+
+import { BloomFilter, DedupPolicyError, Deduplicator, dedupTransform, validateDedupPolicy } from './templates/dedup';
+import { FixedClock, createDeterministicContext, createRuntimeContext } from './templates/runtimeContext';
+import { defineValueTransform } from './templates/sdk';
+import { ValueTransform } from './templates/valueTransform';
+
+const timestamp = Date.UTC(2024, 0, 1);
+
+const order = { _id: 'order-1', order_number: 12345, amount: 10 };
+
+function deduplicator(policy: any, clock = new FixedClock(timestamp)) {
+    return new Deduplicator(policy, createRuntimeContext({ clock }));
+}
+
+describe('Dedup', () => {
+
+    describe('Deduplicator', () => {
+        it('should drop records whose key was already seen', () => {
+            const dedup = deduplicator({ key: ['_id', 'order_number'] });
+
+            expect(dedup.isDuplicate(order)).toBe(false);
+            expect(dedup.isDuplicate({ ...order, amount: 20 })).toBe(true);
+            expect(dedup.isDuplicate({ ...order, order_number: 12346 })).toBe(false);
+            expect(dedup.isDuplicate({ ...order, order_number: '12345' })).toBe(false);
+            expect(dedup.isDuplicate({ amount: 10 })).toBe(false);
+            expect(dedup.isDuplicate({ amount: 10 })).toBe(false);
+            expect(dedup.stats()).toEqual({ checked: 6, duplicates: 1, unkeyed: 2 });
+        });
+
+        it('should read nested fields and the record key', () => {
+            const dedup = deduplicator({ key: ['$key', 'after.version'] });
+
+            expect(dedup.keyOf({ after: { version: 3 } }, 'cus-1')).toBe('["cus-1",3]');
+            expect(dedup.isDuplicate({ after: { version: 3 } }, 'cus-1')).toBe(false);
+            expect(dedup.isDuplicate({ after: { version: 3 } }, 'cus-2')).toBe(false);
+            expect(dedup.isDuplicate({ after: { version: 3 } }, 'cus-1')).toBe(true);
+        });
+
+        it('should forget keys after the window or when the window is full', () => {
+            const clock = new FixedClock(timestamp);
+            const dedup = deduplicator({ key: ['_id'], windowMs: 1000, maxEntries: 2 }, clock);
+
+            ['a', 'b'].forEach(_id => dedup.isDuplicate({ _id }));
+            clock.set(timestamp + 999);
+            expect(dedup.isDuplicate({ _id: 'a' })).toBe(true);
+            clock.set(timestamp + 1000);
+            expect(dedup.isDuplicate({ _id: 'a' })).toBe(false);
+
+            dedup.isDuplicate({ _id: 'c' });
+            dedup.isDuplicate({ _id: 'd' });
+            expect(dedup.isDuplicate({ _id: 'a' })).toBe(false);
+        });
+
+        it('should remember keys in Bloom filters for one to two windows', () => {
+            const clock = new FixedClock(timestamp);
+            const dedup = deduplicator({ key: ['_id'], windowMs: 1000, bloom: { expectedKeys: 1000 } }, clock);
+
+            expect(dedup.isDuplicate({ _id: 'a' })).toBe(false);
+            clock.set(timestamp + 1500);
+            expect(dedup.isDuplicate({ _id: 'a' })).toBe(true);
+            expect(dedup.isDuplicate({ _id: 'b' })).toBe(false);
+            clock.set(timestamp + 2600);
+            expect(dedup.isDuplicate({ _id: 'a' })).toBe(false);
+            expect(dedup.isDuplicate({ _id: 'b' })).toBe(true);
+            clock.set(timestamp + 6000);
+            expect(dedup.isDuplicate({ _id: 'b' })).toBe(false);
+        });
+
+        it('should keep every record without a policy and reject invalid ones', () => {
+            const dedup = new Deduplicator(undefined, createDeterministicContext());
+
+            expect(dedup.active).toBe(false);
+            expect([dedup.isDuplicate(order), dedup.isDuplicate(order)]).toEqual([false, false]);
+            expect(dedup.stats().checked).toBe(0);
+            expect(validateDedupPolicy({ key: ['_id', ''], maxEntries: 1.5, bloom: { expectedKeys: 10, falsePositiveRate: 2 } })).toEqual([
+                'key must be a non-empty array of field paths',
+                'maxEntries must be a positive integer',
+                'bloom.falsePositiveRate must be between 0 and 1'
+            ]);
+            expect(() => new Deduplicator({ key: [] })).toThrow(DedupPolicyError);
+        });
+    });
+
+    describe('BloomFilter', () => {
+        it('should stay close to its false positive rate', () => {
+            const filter = new BloomFilter(2000, 0.01);
+            for (let i = 0; i < 2000; i++) {
+                filter.add(`order-${i}`);
+            }
+
+            let falsePositives = 0;
+            for (let i = 2000; i < 12000; i++) {
+                falsePositives += filter.has(`order-${i}`) ? 1 : 0;
+            }
+
+            expect(filter.has('order-0')).toBe(true);
+            expect(filter.hashes).toBe(7);
+            expect(falsePositives / 10000).toBeLessThan(0.02);
+        });
+    });
+
+    describe('Pipeline', () => {
+        it('should drop duplicates before the transform runs', () => {
+            const transform = jest.fn((record: { value: typeof order }) => ({ id: record.value._id }));
+            const transformValue = defineValueTransform(dedupTransform(transform, deduplicator({ key: ['_id', 'order_number'] })));
+
+            expect(transformValue(order, null, 'orders', timestamp)).toEqual({ id: 'order-1' });
+            expect(transformValue({ ...order }, null, 'orders', timestamp)).toBeNull();
+            expect(transform).toHaveBeenCalledTimes(1);
+        });
+
+        it('should deduplicate in the value transform and count duplicates', () => {
+            const context = createDeterministicContext(1, timestamp);
+            const transform = new ValueTransform(context, { dedup: { key: ['_id', 'order_number'] } });
+
+            expect(transform.transform(order, 'k1', 'orders', timestamp)).toMatchObject({ _id: 'order-1', transform_type: 'value' });
+            expect(transform.transform(order, 'k1', 'orders', timestamp)).toBeNull();
+            expect(transform.transformFlatten(order, 'k1', 'orders', timestamp)).toBeNull();
+            expect(context.metrics.counter('transform_duplicates_total', '').value()).toBe(2);
+        });
+    });
+});
@@ -0,0 +1,63 @@
+/**
+ * Tests for the dependency graph behind the dev watch command
+ * These tests verify a changed file only rebuilds and retests the bundles importing it
+ */
+
+import { BundleResult } from './tooling/buildTransforms';
+import { DependencyGraph, testSelectors } from './tooling/devWatch';
+import { DEFAULT_CONFIG, resolveConfig } from './tooling/transformConfig';
+
+const transforms = resolveConfig(DEFAULT_CONFIG, process.cwd());
+
+function built(transform: string, kind: BundleResult['kind'], inputs: string[], success = true): BundleResult {
+    const type = transforms.filter(t => t.name === transform)[0].type;
+    return { transform, type, kind, src: '', output: '', success, inputs: success ? inputs : undefined };
+}
+
+function names(graph: DependencyGraph, changed: string[]): string[] {
+    return graph.affected(changed).map(bundle => `${bundle.transform}/${bundle.file}`);
+}
+
+describe('Dev Watch', () => {
+    const common = ['src/templates/commonTransform.ts', 'node_modules/lodash/lodash.js'];
+    let graph: DependencyGraph;
+
+    beforeEach(() => {
+        graph = new DependencyGraph(transforms);
+        graph.update([
+            built('map-filter', 'value', ['src/value_transform.ts', ...common]),
+            built('map-filter', 'key', ['src/key_transform.ts']),
+            built('fan-out', 'value', ['src/value_transform.ts', ...common]),
+            built('fan-out', 'topic', ['src/topic_transform.ts', 'src/templates/routingRules.ts']),
+            built('enrich-async', 'value', ['src/value_transform.ts', ...common]),
+            built('un-nesting', 'value', ['src/value_transform.ts', ...common])
+        ]);
+    });
+
+    it('should rebuild every bundle importing a shared template', () => {
+        expect(names(graph, ['src/templates/commonTransform.ts'])).toEqual([
+            'map-filter/valueTransform.js',
+            'fan-out/valueTransform.js',
+            'enrich-async/valueTransform.js',
+            'un-nesting/valueTransform.js'
+        ]);
+    });
+
+    it('should only rebuild the bundles of the changed entry', () => {
+        expect(names(graph, ['./src/key_transform.ts'])).toEqual(['map-filter/keyTransform.js']);
+        expect(names(graph, ['src\\templates\\routingRules.ts'])).toEqual(['fan-out/topicTransform.js']);
+        expect(names(graph, ['src/OrderType1.ts', 'README.md'])).toEqual([]);
+    });
+
+    it('should rebuild failed bundles on any change', () => {
+        graph.update([built('fan-out', 'topic', [], false)]);
+
+        expect(names(graph, ['src/key_transform.ts'])).toEqual(['map-filter/keyTransform.js', 'fan-out/topicTransform.js']);
+    });
+
+    it('should watch the project directories of the inputs and run the tests of the rebuilt types', () => {
+        expect(graph.directories()).toEqual(['src', 'src/templates']);
+        expect(testSelectors(graph.affected(['src/value_transform.ts']))).toEqual(['--map-filter', '--fan-out', '--enrich-async', '--un-nesting']);
+        expect(testSelectors(graph.affected(['src/key_transform.ts']))).toEqual(['--map-filter']);
+    });
+});
@@ -0,0 +1,218 @@
+/**
+ * Tests for the async enrichment framework used by enrich_async transforms
+ * These tests verify caching, retries, timeouts and the circuit breaker against a local HTTP stub server
+ */
+
+import { CommonTransform } from './templates/commonTransform';
+import {
+    CircuitBreaker,
+    CircuitOpenError,
+    EnrichmentError,
+    EnrichmentTimeoutError,
+    Enricher,
+    HttpEnrichmentProvider,
+    LruCache,
+    StaticEnrichmentProvider,
+    backoffDelay
+} from './templates/enrichment';
+import { HttpRequest } from './templates/httpClient';
+import { FixedClock, SeededRandom, createDeterministicContext } from './templates/runtimeContext';
+import { StubServer, startStubServer } from './tooling/httpStubServer';
+
+const start = Date.UTC(2024, 0, 1);
+
+describe('Enrichment', () => {
+
+    describe('LruCache', () => {
+        it('should evict the least recently used entry', () => {
+            const cache = new LruCache<number>(2, 1000, new FixedClock(start));
+
+            cache.set('a', 1);
+            cache.set('b', 2);
+            cache.get('a');
+            cache.set('c', 3);
+
+            expect(cache.get('b')).toBeUndefined();
+            expect(cache.get('a')).toEqual({ value: 1 });
+            expect(cache.get('c')).toEqual({ value: 3 });
+            expect(cache.size).toBe(2);
+        });
+
+        it('should expire entries after the TTL and remember misses', () => {
+            const clock = new FixedClock(start);
+            const cache = new LruCache<number>(10, 1000, clock);
+
+            cache.set('known', 1);
+            cache.set('unknown', undefined);
+            expect(cache.get('unknown')).toEqual({ value: undefined });
+
+            clock.set(start + 1000);
+            expect(cache.get('known')).toBeUndefined();
+            expect(cache.size).toBe(1);
+        });
+    });
+
+    describe('backoffDelay', () => {
+        it('should grow exponentially up to the maximum, jittered below it', () => {
+            const policy = { retries: 5, baseDelayMs: 100, maxDelayMs: 500, jitter: false };
+
+            expect([0, 1, 2, 3].map(attempt => backoffDelay(attempt, policy, new SeededRandom(1)))).toEqual([100, 200, 400, 500]);
+
+            const jittered = backoffDelay(2, { ...policy, jitter: true }, new SeededRandom(1));
+            expect(jittered).toBeGreaterThanOrEqual(0);
+            expect(jittered).toBeLessThan(400);
+        });
+    });
+
+    describe('CircuitBreaker', () => {
+        it('should open after consecutive failures and close after a successful trial', async () => {
+            const clock = new FixedClock(start);
+            const breaker = new CircuitBreaker('scores', { failureThreshold: 2, resetTimeoutMs: 1000 }, clock);
+            const failing = () => Promise.reject(new Error('down'));
+
+            await expect(breaker.execute(failing)).rejects.toThrow('down');
+            expect(breaker.state).toBe('closed');
+            await expect(breaker.execute(failing)).rejects.toThrow('down');
+            expect(breaker.state).toBe('open');
+            await expect(breaker.execute(() => Promise.resolve(1))).rejects.toThrow(CircuitOpenError);
+
+            clock.set(start + 1000);
+            expect(breaker.state).toBe('half-open');
+            await expect(breaker.execute(failing)).rejects.toThrow('down');
+            expect(breaker.state).toBe('open');
+
+            clock.set(start + 2000);
+            await expect(breaker.execute(() => Promise.resolve(1))).resolves.toBe(1);
+            expect(breaker.state).toBe('closed');
+        });
+    });
+
+    describe('Enricher', () => {
+        it('should cache provider results, including unknown keys', async () => {
+            const provider = new StaticEnrichmentProvider('customers', { 'c-1': { tier: 'gold' } });
+            const enricher = new Enricher(provider, {}, createDeterministicContext());
+
+            expect(await enricher.get('c-1')).toEqual({ tier: 'gold' });
+            expect(await enricher.get('c-1')).toEqual({ tier: 'gold' });
+            expect(await enricher.get('c-2')).toBeUndefined();
+            expect(await enricher.get('c-2')).toBeUndefined();
+
+            expect(enricher.stats()).toEqual({ cacheHits: 2, cacheMisses: 2, providerCalls: 2, retries: 0, failures: 0, circuit: 'closed', batches: 0, coalesced: 0 });
+        });
+
+        it('should fail fast once the circuit is open', async () => {
+            const provider = { name: 'down', lookup: () => Promise.reject(new EnrichmentError('down', false)) };
+            const enricher = new Enricher(provider, { circuitBreaker: { failureThreshold: 1 } }, createDeterministicContext());
+
+            await expect(enricher.get('a')).rejects.toThrow('down');
+            await expect(enricher.get('b')).rejects.toThrow(CircuitOpenError);
+            expect(enricher.stats().circuit).toBe('open');
+        });
+    });
+
+    describe('HttpEnrichmentProvider', () => {
+        let server: StubServer;
+        let failuresLeft: number;
+
+        beforeAll(async () => {
+            server = await startStubServer({
+                '/customers/c-1': { body: { tier: 'gold' } },
+                '/customers/flaky': () => failuresLeft-- > 0 ? { status: 503 } : { body: { tier: 'silver' } },
+                '/customers/bad': { status: 400, body: { error: 'bad key' } },
+                '/customers/slow': { body: { tier: 'bronze' }, delayMs: 200 },
+                '/customers/batch': request => ({
+                    body: JSON.parse(request.body).keys.reduce((found: any, key: string) => key === 'missing' ? found : { ...found, [key]: { tier: key } }, {})
+                })
+            });
+        });
+
+        afterAll(() => server.close());
+
+        beforeEach(() => {
+            failuresLeft = 0;
+            server.requests.length = 0;
+        });
+
+        function enricher(options = {}, batch = false): Enricher {
+            const provider = new HttpEnrichmentProvider({
+                name: 'customers',
+                url: `${server.url}/customers/{key}`,
+                batchUrl: batch ? `${server.url}/customers/batch` : undefined
+            });
+            return new Enricher(provider, { retry: { baseDelayMs: 1 }, ...options }, createDeterministicContext());
+        }
+
+        it('should look up records and treat 404 as unknown', async () => {
+            const customers = enricher();
+
+            expect(await customers.get('c-1')).toEqual({ tier: 'gold' });
+            expect(await customers.get('nobody')).toBeUndefined();
+            expect(server.requests.map(request => request.path)).toEqual(['/customers/c-1', '/customers/nobody']);
+        });
+
+        it('should retry 5xx answers with backoff', async () => {
+            failuresLeft = 2;
+            const customers = enricher();
+
+            expect(await customers.get('flaky')).toEqual({ tier: 'silver' });
+            expect(customers.stats()).toMatchObject({ providerCalls: 3, retries: 2, failures: 0 });
+        });
+
+        it('should give up after the retries and not retry client errors', async () => {
+            failuresLeft = 5;
+            await expect(enricher().get('flaky')).rejects.toMatchObject({ retryable: true, details: { status: 503 } });
+            expect(server.requests).toHaveLength(3);
+
+            server.requests.length = 0;
+            await expect(enricher().get('bad')).rejects.toMatchObject({ retryable: false, details: { status: 400 } });
+            expect(server.requests).toHaveLength(1);
+        });
+
+        it('should time out slow answers', async () => {
+            const customers = enricher({ timeoutMs: 20, retry: false });
+
+            await expect(customers.get('slow')).rejects.toThrow(EnrichmentTimeoutError);
+        });
+
+        it('should abort requests after the provider timeout', async () => {
+            const provider = new HttpEnrichmentProvider({ name: 'customers', url: `${server.url}/customers/{key}`, timeoutMs: 20 });
+            const started = Date.now();
+
+            await expect(provider.lookup('slow')).rejects.toThrow(EnrichmentTimeoutError);
+            expect(Date.now() - started).toBeLessThan(200);
+            expect(server.requests.map(request => request.path)).toEqual(['/customers/slow']);
+
+            const requests: HttpRequest[] = [];
+            const recorded = new HttpEnrichmentProvider({
+                name: 'customers',
+                url: 'https://api.example.com/customers/{key}',
+                batchUrl: 'https://api.example.com/customers/batch',
+                client: { request: async request => { requests.push(request); return { status: 200, headers: {}, body: '{}' }; } }
+            });
+            await recorded.lookup('c-1');
+            await recorded.lookupMany!(['c-1']);
+            expect(requests.map(request => request.timeoutMs)).toEqual([2000, 2000]);
+        });
+
+        it('should fetch uncached keys with one batch request', async () => {
+            const customers = enricher({}, true);
+            await customers.get('c-1');
+
+            expect(await customers.getMany(['c-1', 'b', 'missing', 'b'])).toEqual({ 'c-1': { tier: 'gold' }, b: { tier: 'b' } });
+            expect(server.requests.map(request => request.path)).toEqual(['/customers/c-1', '/customers/batch']);
+            expect(JSON.parse(server.requests[1].body)).toEqual({ keys: ['b', 'missing'] });
+        });
+    });
+
+    describe('CommonTransform', () => {
+        it('should enrich records from the injected enricher', async () => {
+            const context = createDeterministicContext();
+            const enricher = new Enricher(new StaticEnrichmentProvider('scores', { 'order-1': { score: 42 } }), {}, context);
+            const transform = new CommonTransform(context, { enricher });
+
+            expect((await transform.enrichRecord({ id: 'order-1' })).enrichment).toEqual({ score: 42 });
+            expect((await transform.enrichRecord({ id: 'order-2' })).enrichment).toBeNull();
+            expect(await transform.enrichRecord({ name: 'no id' })).toMatchObject({ enrichment_error: true, error_message: 'No valid ID found for enrichment' });
+        });
+    });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for request coalescing and micro-batching of enrichment lookups
+ * These tests verify concurrent lookups share requests and distinct keys are loaded in batches
+ */
+
+import { Enricher, StaticEnrichmentProvider } from './templates/enrichment';
+import { EnrichmentBatcher } from './templates/enrichmentBatcher';
+import { createDeterministicContext } from './templates/runtimeContext';
+import { ValueTransform } from './templates/valueTransform';
+
+function recordingLoader(batches: string[][]) {
+    return async (keys: string[]) => {
+        batches.push(keys);
+        const found: { [key: string]: string } = {};
+        keys.filter(key => key !== 'unknown').forEach(key => {
+            found[key] = key.toUpperCase();
+        });
+        return found;
+    };
+}
+
+describe('EnrichmentBatcher', () => {
+
+    it('should coalesce lookups for the same key and group distinct keys within the window', async () => {
+        const batches: string[][] = [];
+        const batcher = new EnrichmentBatcher(recordingLoader(batches), { windowMs: 5 });
+
+        const values = await Promise.all(['a', 'b', 'a', 'unknown', 'b'].map(key => batcher.load(key)));
+
+        expect(values).toEqual(['A', 'B', 'A', undefined, 'B']);
+        expect(batches).toEqual([['a', 'b', 'unknown']]);
+        expect(batcher.stats()).toEqual({ lookups: 5, coalesced: 2, batches: 1 });
+    });
+
+    it('should send a batch as soon as it is full', async () => {
+        const batches: string[][] = [];
+        const batcher = new EnrichmentBatcher(recordingLoader(batches), { windowMs: 1000, maxBatchSize: 2 });
+
+        const full = Promise.all([batcher.load('a'), batcher.load('b')]);
+        const rest = batcher.load('c');
+
+        expect(await full).toEqual(['A', 'B']);
+        expect(batches).toEqual([['a', 'b']]);
+
+        await batcher.flush();
+        expect(await rest).toBe('C');
+        expect(batches).toEqual([['a', 'b'], ['c']]);
+    });
+
+    it('should reject every lookup of a failed batch and load the keys again later', async () => {
+        let calls = 0;
+        const batcher = new EnrichmentBatcher(async (keys: string[]) => {
+            if (calls++ === 0) {
+                throw new Error('customer service unavailable');
+            }
+            return { a: 1 };
+        }, { windowMs: 1 });
+
+        const failed = await Promise.all(['a', 'b'].map(key => batcher.load(key).catch(error => error.message)));
+        expect(failed).toEqual(['customer service unavailable', 'customer service unavailable']);
+
+        expect(await batcher.load('a')).toBe(1);
+    });
+
+    describe('Enricher', () => {
+        it('should batch cache misses into lookupMany calls', async () => {
+            const provider = new StaticEnrichmentProvider('customers', { 'c-1': { tier: 'gold' }, 'c-2': { tier: 'silver' } });
+            const lookupMany = jest.spyOn(provider, 'lookupMany');
+            const enricher = new Enricher(provider, { batching: { windowMs: 1 } }, createDeterministicContext());
+
+            const values = await Promise.all(['c-1', 'c-2', 'c-1', 'c-3'].map(key => enricher.get(key)));
+
+            expect(values).toEqual([{ tier: 'gold' }, { tier: 'silver' }, { tier: 'gold' }, undefined]);
+            expect(lookupMany).toHaveBeenCalledTimes(1);
+            expect(lookupMany).toHaveBeenCalledWith(['c-1', 'c-2', 'c-3']);
+            expect(await enricher.getMany(['c-1', 'c-2'])).toEqual({ 'c-1': { tier: 'gold' }, 'c-2': { tier: 'silver' } });
+            expect(enricher.stats()).toMatchObject({ providerCalls: 1, batches: 1, coalesced: 1, cacheHits: 2 });
+        });
+
+        it('should enrich concurrent transformAsync records with one batched lookup', async () => {
+            const context = createDeterministicContext();
+            const provider = new StaticEnrichmentProvider('scores', { 'order-1': { score: 1 }, 'order-2': { score: 2 } });
+            const lookupMany = jest.spyOn(provider, 'lookupMany');
+            const transform = new ValueTransform(context, { enricher: new Enricher(provider, { batching: true }, context) });
+
+            const results = await Promise.all(['order-1', 'order-2', 'order-1'].map(id =>
+                transform.transformAsync({ id, status: 'active' }, id, 'orders', Date.UTC(2024, 0, 1))
+            ));
+
+            expect(results.map(result => result.enrichment)).toEqual([{ score: 1 }, { score: 2 }, { score: 1 }]);
+            expect(lookupMany).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for configurable deep flattening in un_nesting transforms
+ * These tests verify nested documents become flat rows and arrays explode into child rows
+ */
+
+import { CommonTransform } from './templates/commonTransform';
+import { FlattenCollisionError, Flattener } from './templates/flattener';
+import { createDeterministicContext } from './templates/runtimeContext';
+import { ValueTransform } from './templates/valueTransform';
+
+const order = {
+    id: 'order-1',
+    customer: { name: 'Ada', address: { city: 'Paris', zip: '75001' } },
+    line_items: [
+        { sku: 'burger', qty: 2, modifiers: [{ name: 'no-onion' }, { name: 'extra-cheese', price: 1.5 }] },
+        { sku: 'fries', qty: 1, modifiers: [] }
+    ],
+    tags: ['web', 'promo']
+};
+
+describe('Flattener', () => {
+
+    describe('flatten', () => {
+        it('should flatten nested objects and index arrays by default', () => {
+            expect(new Flattener().flatten(order)).toEqual({
+                id: 'order-1',
+                customer_name: 'Ada',
+                customer_address_city: 'Paris',
+                customer_address_zip: '75001',
+                line_items_0_sku: 'burger',
+                line_items_0_qty: 2,
+                line_items_0_modifiers_0_name: 'no-onion',
+                line_items_0_modifiers_1_name: 'extra-cheese',
+                line_items_0_modifiers_1_price: 1.5,
+                line_items_1_sku: 'fries',
+                line_items_1_qty: 1,
+                line_items_1_modifiers: '[]',
+                tags_0: 'web',
+                tags_1: 'promo'
+            });
+        });
+
+        it('should use the separator and JSON-encode arrays or anything below the max depth', () => {
+            expect(new Flattener({ separator: '.', arrays: 'json', maxDepth: 2 }).flatten(order)).toEqual({
+                id: 'order-1',
+                'customer.name': 'Ada',
+                'customer.address': '{"city":"Paris","zip":"75001"}',
+                line_items: JSON.stringify(order.line_items),
+                tags: '["web","promo"]'
+            });
+        });
+
+        it('should keep included paths and drop excluded ones', () => {
+            const flattener = new Flattener({ include: ['id', 'customer', 'line_items.sku'], exclude: ['customer.address.zip'] });
+
+            expect(flattener.flatten(order)).toEqual({
+                id: 'order-1',
+                customer_name: 'Ada',
+                customer_address_city: 'Paris',
+                line_items_0_sku: 'burger',
+                line_items_1_sku: 'fries'
+            });
+        });
+
+        it('should apply the collision policy', () => {
+            const record = { a_b: 1, a: { b: 2 } };
+
+            expect(new Flattener().flatten(record)).toEqual({ a_b: 1, a_b_2: 2 });
+            expect(new Flattener({ onCollision: 'first' }).flatten(record)).toEqual({ a_b: 1 });
+            expect(new Flattener({ onCollision: 'last' }).flatten(record)).toEqual({ a_b: 2 });
+            expect(() => new Flattener({ onCollision: 'error' }).flatten(record)).toThrow(FlattenCollisionError);
+            expect(() => new Flattener({ onCollision: 'error' }).flatten(record)).toThrow('Flattened field a_b is produced by more than one path (last: a.b)');
+        });
+    });
+
+    describe('flattenRows', () => {
+        it('should return the parent row followed by exploded child rows', () => {
+            const rows = new Flattener({ explode: ['line_items', 'line_items.modifiers'], inherit: ['id'] }).flattenRows(order);
+
+            expect(rows).toEqual([
+                { _row_path: '$', id: 'order-1', customer_name: 'Ada', customer_address_city: 'Paris', customer_address_zip: '75001', tags_0: 'web', tags_1: 'promo' },
+                { _row_path: 'line_items', id: 'order-1', line_items_index: 0, line_items_sku: 'burger', line_items_qty: 2 },
+                { _row_path: 'line_items.modifiers', id: 'order-1', line_items_index: 0, line_items_modifiers_index: 0, line_items_modifiers_name: 'no-onion' },
+                { _row_path: 'line_items.modifiers', id: 'order-1', line_items_index: 0, line_items_modifiers_index: 1, line_items_modifiers_name: 'extra-cheese', line_items_modifiers_price: 1.5 },
+                { _row_path: 'line_items', id: 'order-1', line_items_index: 1, line_items_sku: 'fries', line_items_qty: 1 }
+            ]);
+        });
+
+        it('should copy every parent field into child rows by default', () => {
+            const rows = new Flattener({ arrays: 'explode' }).flattenRows({ id: 'o-1', region: 'eu', tags: ['web', 'promo'] });
+
+            expect(rows.slice(1)).toEqual([
+                { _row_path: 'tags', id: 'o-1', region: 'eu', tags_index: 0, tags: 'web' },
+                { _row_path: 'tags', id: 'o-1', region: 'eu', tags_index: 1, tags: 'promo' }
+            ]);
+        });
+    });
+
+    describe('Transforms', () => {
+        const timestamp = Date.UTC(2024, 0, 1);
+
+        it('should flatten records in CommonTransform', () => {
+            const result = new CommonTransform(createDeterministicContext(1, timestamp)).flattenRecord({ user: { id: 'u-1', name: 'Ada' }, metadata: { source: 'web' } });
+
+            expect(result).toEqual({
+                user_id: 'u-1',
+                user_name: 'Ada',
+                metadata_source: 'web',
+                flattened_at: '2024-01-01T00:00:00.000Z',
+                original_structure_preserved: false,
+                flatten_version: '2.0.0'
+            });
+        });
+
+        it('should return one record per row from transformFlatten when exploding', () => {
+            const transform = new ValueTransform(createDeterministicContext(1, timestamp), {
+                flatten: { explode: ['line_items'], include: ['id', 'line_items.sku'] }
+            });
+
+            const rows = transform.transformFlatten(order, 'order-1', 'orders', timestamp);
+
+            expect(rows.map((row: any) => [row._row_path, row.line_items_sku, row.source_topic, row.transform_type])).toEqual([
+                ['$', undefined, 'orders', 'flatten'],
+                ['line_items', 'burger', 'orders', 'flatten'],
+                ['line_items', 'fries', 'orders', 'flatten']
+            ]);
+            expect(transform.transformFlatten({ id: 'order-2' }, null, 'orders', timestamp)).toHaveLength(1);
+        });
+    });
+});
@@ -0,0 +1,86 @@
+/**
+ * Golden-file tests for the generated bundles
+ * Every fixtures/<transform>/<case>.input.json is replayed and compared with its .expected.json
+ * Run `npm run test:golden -- --update` to regenerate the expected files after an intended change
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { StreamkapSimulator } from './tooling/simulator';
+import {
+    DEFAULT_IGNORE_FIELDS,
+    MASKED_VALUE,
+    diffValues,
+    findGoldenCases,
+    loadIgnoreFields,
+    maskFields,
+    runGoldenCase
+} from './tooling/goldenFiles';
+
+const fixturesDir = join(process.cwd(), 'fixtures');
+const transformsDir = join(process.cwd(), 'transforms');
+
+describe('Golden Files', () => {
+
+    describe('Masking', () => {
+        it('should mask ignored field names at any depth', () => {
+            const masked = maskFields({ processing_id: 'abc', nested: { processed_at: 'now', kept: 1 } }, DEFAULT_IGNORE_FIELDS);
+
+            expect(masked).toEqual({ processing_id: MASKED_VALUE, nested: { processed_at: MASKED_VALUE, kept: 1 } });
+        });
+
+        it('should mask dotted paths only at that path', () => {
+            const masked = maskFields({ value: { score: 10 }, score: 20 }, ['value.score']);
+
+            expect(masked).toEqual({ value: { score: MASKED_VALUE }, score: 20 });
+        });
+
+        it('should not add ignored fields that are absent', () => {
+            expect(maskFields({ id: 1 }, DEFAULT_IGNORE_FIELDS)).toEqual({ id: 1 });
+        });
+    });
+
+    describe('Diffing', () => {
+        it('should report changed, missing and unexpected fields by path', () => {
+            const differences = diffValues(
+                [{ value: { field_count: 7, channel: 'express' } }],
+                [{ value: { field_count: 6, extra: true } }]
+            );
+
+            expect(differences).toEqual([
+                '0.value.channel: missing (expected "express")',
+                '0.value.extra: unexpected field (got true)',
+                '0.value.field_count: expected 7, got 6'
+            ]);
+        });
+
+        it('should report array length changes', () => {
+            expect(diffValues(['a', 'b'], ['a'])).toEqual(['(root): expected 2 items, got 1']);
+        });
+    });
+
+    describe('Fixtures', () => {
+        it('should mask the fields configured in fixtures/golden.json', () => {
+            expect(loadIgnoreFields(fixturesDir)).toEqual(expect.arrayContaining(DEFAULT_IGNORE_FIELDS));
+        });
+
+        const cases = findGoldenCases(fixturesDir);
+        const transforms = Array.from(new Set(cases.map(goldenCase => goldenCase.transform)));
+
+        transforms.forEach(transform => {
+            describe(`${transform} golden files`, () => {
+                cases.filter(goldenCase => goldenCase.transform === transform).forEach(goldenCase => {
+                    it(`should match ${transform}/${goldenCase.name}.expected.json`, async () => {
+                        expect(existsSync(goldenCase.expectedPath)).toBe(true);
+
+                        const simulator = StreamkapSimulator.fromTransformFolder(join(transformsDir, transform));
+                        const actual = await runGoldenCase(simulator, goldenCase, loadIgnoreFields(fixturesDir));
+                        const expected = JSON.parse(readFileSync(goldenCase.expectedPath, 'utf8'));
+
+                        expect(diffValues(expected, actual)).toEqual([]);
+                    });
+                });
+            });
+        });
+    });
+});
@@ -0,0 +1,231 @@
+/**
+ * Tests for generating TypeScript interfaces from sample records and schemas
+ * These tests verify discriminated unions, optional fields and literal types are inferred
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    fromAvroSchema,
+    fromJsonSchema,
+    generateInterfaces,
+    inferFromSamples,
+    readSampleRecords,
+    renderModule,
+    toInterfaceName
+} from './tooling/interfaceCodegen';
+
+const customer = (id: string, organization: string) => ({ version: '0.1.4', _id: id, name: `Customer ${id}`, organization_id: organization });
+
+const sampleOrders = [
+    { _id: 'express-1', order_type: 'OrderType1', order_number: 1, location_id: 'loc-1', channel: 'express', customer: customer('c1', 'o1'), organization_id: 'o1' },
+    { _id: 'rpos-2', order_type: 'OrderType1', order_number: 2, location_id: 'loc-2', channel: 'rpos', customer: customer('c2', 'o1') },
+    { order_id: 'express-3', order_type: 'OrderType2', order_number: 3, location_id: 'loc-1', channel: 'express', customer: customer('c3', 'o2') }
+];
+
+describe('Interface Codegen', () => {
+
+    describe('inferFromSamples', () => {
+        it('should generate a discriminated union with shared nested interfaces', () => {
+            const source = renderModule(inferFromSamples(sampleOrders, { name: 'Order' }), 'orders.jsonl');
+
+            expect(source).toBe([
+                '// Generated by codegen.js from orders.jsonl - edit the source and regenerate instead of editing by hand',
+                '',
+                'export type Order = OrderType1 | OrderType2;',
+                '',
+                'export interface Customer {',
+                "    version: '0.1.4';",
+                '    _id: string;',
+                '    name: string;',
+                '    organization_id: string;',
+                '}',
+                '',
+                'export interface OrderType1 {',
+                '    _id: string;',
+                "    order_type: 'OrderType1';",
+                '    order_number: number;',
+                '    location_id: string;',
+                '    channel: string;',
+                '    customer: Customer;',
+                '    organization_id?: string;',
+                '}',
+                '',
+                'export interface OrderType2 {',
+                '    order_id: string;',
+                "    order_type: 'OrderType2';",
+                '    order_number: number;',
+                '    location_id: string;',
+                '    channel: string;',
+                '    customer: Customer;',
+                '}',
+                ''
+            ].join('\n'));
+        });
+
+        it('should type each variant from its own records', () => {
+            const line = (sku: string) => ({ sku, quantity: 1 });
+            const generated = inferFromSamples([
+                { kind: 'online', channel: 'web', total: 10, lines: [line('a')] },
+                { kind: 'online', channel: 'web', total: 12, lines: [line('b')] },
+                { kind: 'online', channel: 'app', total: 8, lines: [] },
+                { kind: 'online', channel: 'app', total: 9, lines: [line('a')] },
+                { kind: 'store', channel: 'pos', total: null, lines: [line('c')] },
+                { kind: 'store', channel: 'pos', total: 5, lines: [] }
+            ], { name: 'Sale' });
+
+            expect(generated.interfaces.map(definition => definition.name)).toEqual(['Line', 'Online', 'Store']);
+            const fields = (name: string) => generated.interfaces.filter(definition => definition.name === name)[0].fields;
+            expect(fields('Online').map(field => field.type)).toEqual([
+                { kind: 'literal', values: ['online'] },
+                { kind: 'literal', values: ['app', 'web'] },
+                { kind: 'primitive', name: 'number' },
+                { kind: 'array', items: { kind: 'ref', name: 'Line' } }
+            ]);
+            expect(fields('Store').map(field => field.type)).toEqual([
+                { kind: 'literal', values: ['store'] },
+                { kind: 'literal', values: ['pos'] },
+                { kind: 'union', members: [{ kind: 'primitive', name: 'number' }, { kind: 'primitive', name: 'null' }] },
+                { kind: 'array', items: { kind: 'ref', name: 'Line' } }
+            ]);
+        });
+
+        it('should generate a single interface when no discriminator applies', () => {
+            const generated = inferFromSamples(sampleOrders, { name: 'Order', discriminator: false });
+
+            expect(generated.aliases).toEqual([]);
+            expect(generated.interfaces.map(definition => definition.name)).toEqual(['Customer', 'Order']);
+            const fields = generated.interfaces[1].fields;
+            expect(fields.filter(field => field.optional).map(field => field.name)).toEqual(['_id', 'organization_id', 'order_id']);
+            expect(fields.filter(field => field.name === 'order_type')[0].type).toEqual({ kind: 'literal', values: ['OrderType1', 'OrderType2'] });
+        });
+
+        it('should infer nullable fields, arrays and unique strings', () => {
+            const generated = inferFromSamples([
+                { sku: 'a', note: null, lines: [{ qty: 1 }], tags: [] },
+                { sku: 'b', note: 'gift', lines: [{ qty: 2 }, { qty: 3 }], tags: ['x'] }
+            ], { name: 'Cart' });
+
+            expect(renderModule(generated, 'carts.jsonl')).toContain([
+                'export interface Cart {',
+                '    sku: string;',
+                '    note: string | null;',
+                '    lines: Line[];',
+                '    tags: string[];',
+                '}'
+            ].join('\n'));
+        });
+
+        it('should not turn identifiers into literal types', () => {
+            const generated = inferFromSamples([{ customer_id: 'c1' }, { customer_id: 'c1' }], { name: 'Visit' });
+
+            expect(generated.interfaces[0].fields[0].type).toEqual({ kind: 'primitive', name: 'string' });
+        });
+
+        it('should reject a discriminator missing from a record', () => {
+            expect(() => inferFromSamples([{ kind: 'a' }, {}], { name: 'Event', discriminator: 'kind' }))
+                .toThrow('Discriminator "kind" must be a string or number on every record');
+        });
+    });
+
+    describe('fromAvroSchema', () => {
+        it('should map records, enums, unions and defaults', () => {
+            const source = renderModule(fromAvroSchema({
+                type: 'record',
+                name: 'com.example.Payment',
+                fields: [
+                    { name: 'id', type: 'long', doc: 'Primary key' },
+                    { name: 'method', type: { type: 'enum', name: 'Method', symbols: ['CARD', 'CASH'] } },
+                    { name: 'refund_method', type: ['null', 'Method'], default: null },
+                    { name: 'metadata', type: { type: 'map', values: 'string' } },
+                    { name: 'amounts', type: { type: 'array', items: 'double' } }
+                ]
+            }), 'payment.avsc');
+
+            expect(source).toContain([
+                'export interface Payment {',
+                '    id: number; // Primary key',
+                "    method: 'CARD' | 'CASH';",
+                "    refund_method?: 'CARD' | 'CASH' | null;",
+                '    metadata: { [key: string]: string };',
+                '    amounts: number[];',
+                '}'
+            ].join('\n'));
+        });
+    });
+
+    describe('fromJsonSchema', () => {
+        it('should map properties, required fields, enums and local refs', () => {
+            const source = renderModule(fromJsonSchema({
+                title: 'Shipment',
+                type: 'object',
+                required: ['id', 'address'],
+                properties: {
+                    id: { type: 'string' },
+                    status: { enum: ['pending', 'sent', null] },
+                    address: { $ref: '#/definitions/address' },
+                    'tracking-code': { type: ['string', 'null'] }
+                },
+                definitions: {
+                    address: { type: 'object', required: ['city'], properties: { city: { type: 'string' } } }
+                }
+            }), 'shipment.json');
+
+            expect(source).toContain([
+                'export interface Shipment {',
+                '    id: string;',
+                "    status?: 'pending' | 'sent' | null;",
+                '    address: Address;',
+                "    'tracking-code'?: string | null;",
+                '}'
+            ].join('\n'));
+        });
+
+        it('should alias non-object roots', () => {
+            const source = renderModule(fromJsonSchema({ type: ['string', 'object'], properties: { id: { type: 'string' } } }, { name: 'OrderKey' }), 'key.json');
+
+            expect(source).toContain('export type OrderKey = string | OrderKeyObject;');
+            expect(source).toContain('export interface OrderKeyObject {');
+        });
+    });
+
+    describe('generateInterfaces', () => {
+        let workDir: string;
+
+        beforeEach(() => {
+            workDir = mkdtempSync(join(tmpdir(), 'codegen-'));
+        });
+
+        afterEach(() => {
+            rmSync(workDir, { recursive: true, force: true });
+        });
+
+        it('should unwrap simulator envelopes in samples files', () => {
+            const samplesPath = join(workDir, 'orders.jsonl');
+            writeFileSync(samplesPath, sampleOrders.map(value => JSON.stringify({ value, key: 'k', topic: 'orders', timestamp: 1 })).join('\n'));
+
+            expect(readSampleRecords(sampleOrders.map(value => JSON.stringify({ value })).join('\n'))).toEqual(sampleOrders);
+            expect(generateInterfaces({ samples: samplesPath, name: 'Order' })).toContain('export type Order = OrderType1 | OrderType2;');
+        });
+
+        it('should generate from the checked-in Avro schema', () => {
+            const source = generateInterfaces({ schema: 'schemas/orders-value/1.avsc' });
+
+            expect(source).toContain("    channel: 'rpos' | 'express';");
+            expect(source).toContain('    organization_id?: string | null;');
+        });
+
+        it('should require exactly one source', () => {
+            expect(() => generateInterfaces({ name: 'Order' })).toThrow('Pass exactly one of samples or schema');
+        });
+    });
+
+    describe('toInterfaceName', () => {
+        it('should convert names to PascalCase identifiers', () => {
+            expect(toInterfaceName('order_type1')).toBe('OrderType1');
+            expect(toInterfaceName('line-items')).toBe('LineItems');
+            expect(toInterfaceName('2fa')).toBe('Type2fa');
+        });
+    });
+});
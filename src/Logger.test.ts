@@ -0,0 +1,113 @@
+/**
+ * Tests for the structured logger
+ * These tests verify level thresholds, rate limiting, sampling, correlation fields and that templates log through the injected logger
+ */
+
+import { KeyTransform } from './templates/keyTransform';
+import { MemorySink, StructuredLogger, errorFields, recordFields } from './templates/logger';
+import { Masker } from './templates/masking';
+import { FixedClock, SeededRandom, createDeterministicContext } from './templates/runtimeContext';
+import { TopicTransform } from './templates/topicTransform';
+import { ValueTransform } from './templates/valueTransform';
+
+const timestamp = Date.UTC(2024, 0, 1);
+
+function memoryLogger(options = {}) {
+    const sink = new MemorySink();
+    const clock = new FixedClock(timestamp);
+    return { sink, clock, logger: new StructuredLogger({ sinks: [sink], clock, ...options }) };
+}
+
+describe('Logger', () => {
+
+    describe('StructuredLogger', () => {
+        it('should discard entries below the level threshold', () => {
+            const { sink, logger } = memoryLogger({ level: 'warn' });
+
+            logger.debug('Cache miss');
+            logger.info('Record transformed');
+            logger.warn('Key is too long', { length: 300 });
+            logger.error('Key transformation failed');
+
+            expect(sink.entries).toEqual([
+                { level: 'warn', message: 'Key is too long', timestamp: '2024-01-01T00:00:00.000Z', context: { length: 300 } },
+                { level: 'error', message: 'Key transformation failed', timestamp: '2024-01-01T00:00:00.000Z' }
+            ]);
+        });
+
+        it('should rate limit each message and report what was suppressed', () => {
+            const { sink, clock, logger } = memoryLogger({ rateLimit: { maxPerWindow: 2, windowMs: 1000 } });
+
+            for (let i = 0; i < 5; i++) {
+                logger.warn('Invalid topic name');
+            }
+            logger.warn('Topic name too long');
+            clock.set(timestamp + 1000);
+            logger.warn('Invalid topic name');
+
+            expect(sink.messages('warn')).toEqual(['Invalid topic name', 'Invalid topic name', 'Topic name too long', 'Invalid topic name']);
+            expect(sink.entries[3].suppressed).toBe(3);
+        });
+
+        it('should sample debug and info entries but not warnings or errors', () => {
+            const { sink, logger } = memoryLogger({ level: 'debug', sampleRate: 0.25, rateLimit: false, random: new SeededRandom(7) });
+
+            for (let i = 0; i < 200; i++) {
+                logger.info('Record transformed');
+                logger.warn('Slow enrichment');
+            }
+
+            expect(sink.messages('warn')).toHaveLength(200);
+            expect(sink.messages('info').length).toBeGreaterThan(20);
+            expect(sink.messages('info').length).toBeLessThan(80);
+        });
+
+        it('should add correlation fields in children sharing the sinks', () => {
+            const { sink, logger } = memoryLogger();
+
+            logger.child({ topic: 'orders' }).child({ key: 'cus-1', record_id: 'order-1' }).error('Transformation failed', { error_type: 'TypeError' });
+
+            expect(sink.entries[0]).toMatchObject({ topic: 'orders', key: 'cus-1', record_id: 'order-1', context: { error_type: 'TypeError' } });
+
+            logger.child({ level: 'debug', message: 'overridden', timestamp: 'never' }).warn('Slow lookup');
+            expect(sink.entries[1]).toMatchObject({ level: 'warn', message: 'Slow lookup', timestamp: new Date(timestamp).toISOString() });
+        });
+
+        it('should mask correlation fields and error messages', () => {
+            const masker = new Masker({ rules: [{ fields: ['id', 'source_key'], strategy: 'partial' }, { pattern: 'email', strategy: 'email' }] });
+            const record = { id: 'order-12345', email: 'ada@example.com' };
+
+            expect(recordFields('orders', 'cus-12345', record, masker)).toEqual({ topic: 'orders', key: '*****2345', record_id: '*******2345' });
+            expect(errorFields(new TypeError('No account for ada@example.com'), record, undefined, masker))
+                .toEqual({ error_type: 'TypeError', error_message: 'No account for a**@example.com' });
+        });
+    });
+
+    describe('Templates', () => {
+        it('should log value transform entries with the topic, key and record id', () => {
+            const { sink, logger } = memoryLogger();
+            const transform = new ValueTransform(createDeterministicContext(1, timestamp, logger));
+
+            transform.transform({ id: 'order-1' }, 'cus-1', 'orders', -1);
+
+            expect(sink.entries[0]).toMatchObject({
+                level: 'error', message: 'Input validation failed', topic: 'orders', key: 'cus-1', record_id: 'order-1',
+                context: { errors: ['Timestamp must be a valid positive number'] }
+            });
+        });
+
+        it('should log key and topic warnings through the context instead of the console', () => {
+            const { sink, logger } = memoryLogger();
+            const warn = jest.spyOn(console, 'warn');
+            const context = createDeterministicContext(1, timestamp, logger);
+
+            new KeyTransform(context).transform(null, 'cus-1', 'orders', timestamp);
+            new TopicTransform(context).validateTopicName('orders with spaces');
+
+            expect(sink.messages('warn')).toEqual(['Invalid valueObject for key transformation', 'Invalid topic name']);
+            expect(sink.entries[0]).toMatchObject({ topic: 'orders', key: 'cus-1' });
+            expect(warn).not.toHaveBeenCalled();
+            warn.mockRestore();
+        });
+    });
+});
@@ -0,0 +1,186 @@
+/**
+ * Tests for field-level PII masking and tokenization
+ * These tests verify masking policies are applied to transformed records, keys, dead-letter envelopes and error contexts
+ */
+
+import { createHmac } from 'crypto';
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { CommonTransform } from './templates/commonTransform';
+import { DeadLetterHandler } from './templates/deadLetter';
+import { KeySchemaTransform } from './templates/keySchemaTransform';
+import { Masker, MaskingPolicy, MaskingPolicyError, maskEmail, maskPartial, maskPhone, tokenize, validateMaskingPolicy } from './templates/masking';
+import { createDeterministicContext } from './templates/runtimeContext';
+import { ValueSchemaTransform } from './templates/valueSchemaTransform';
+import { ValueTransform } from './templates/valueTransform';
+import { buildTransforms } from './tooling/buildTransforms';
+
+const timestamp = Date.UTC(2024, 0, 1);
+const context = () => createDeterministicContext(1, timestamp);
+
+const policy: MaskingPolicy = {
+    rules: [
+        { fields: ['customer.name'], strategy: 'partial', visibleStart: 1, visibleEnd: 0 },
+        { fields: ['lines.notes', 'internal'], strategy: 'drop' },
+        { fields: ['customer.id', 'source_key'], strategy: 'tokenize' },
+        { pattern: 'email', strategy: 'email' },
+        { pattern: '^phone$|_phone$', strategy: 'phone' },
+        { fields: ['card'], strategy: 'redact' }
+    ],
+    tokenKey: 'test-key'
+};
+
+const order = {
+    id: 'order-1',
+    customer: { id: 'cus-1', name: 'Ada Lovelace', email: 'ada@example.com', phone: '+1 (555) 123-4567' },
+    lines: [{ sku: 'a', notes: 'ring Ada' }, { sku: 'b' }],
+    card: { number: '4111111111111111', expiry: '12/30' },
+    internal: 'secret',
+    shipping_phone: '5551234'
+};
+
+describe('Masking', () => {
+
+    describe('Strategies', () => {
+        it('should mask values keeping their format', () => {
+            expect(maskPartial('4111111111111111')).toBe('************1111');
+            expect(maskPartial('Ada', 1, 4)).toBe('***');
+            expect(maskEmail('ada.lovelace@example.com')).toBe('a***********@example.com');
+            expect(maskEmail('not an email')).toBe('************');
+            expect(maskPhone('+1 (555) 123-4567')).toBe('+* (***) ***-4567');
+            expect(maskPhone('12345')).toBe('*****');
+        });
+
+        it('should tokenize deterministically per key', () => {
+            expect(tokenize('cus-1', 'test-key')).toMatch(/^tok_[0-9a-f]{32}$/);
+            expect(tokenize('cus-1', 'test-key')).toBe(tokenize('cus-1', 'test-key'));
+            expect(tokenize('cus-1', 'test-key')).not.toBe(tokenize('cus-1', 'other-key'));
+        });
+
+        it('should tokenize with the HMAC-SHA256 Node computes', () => {
+            const longKey = 'k'.repeat(100);
+            for (const [value, key] of [['cus-1', 'test-key'], ['', 'test-key'], ['Zoë 🚚 '.repeat(20), longKey]]) {
+                expect(tokenize(value, key)).toBe('tok_' + createHmac('sha256', key).update(value).digest('hex').slice(0, 32));
+            }
+        });
+    });
+
+    describe('Masker', () => {
+        it('should apply the first matching rule to each field', () => {
+            const masked = new Masker(policy).mask(order);
+
+            expect(masked).toEqual({
+                id: 'order-1',
+                customer: { id: tokenize('cus-1', 'test-key'), name: 'A***********', email: 'a**@example.com', phone: '+* (***) ***-4567' },
+                lines: [{ sku: 'a' }, { sku: 'b' }],
+                card: '[REDACTED]',
+                shipping_phone: '***1234'
+            });
+            expect(order.customer.name).toBe('Ada Lovelace');
+        });
+
+        it('should mask keys as source_key and scrub messages', () => {
+            const masker = new Masker(policy);
+
+            expect(masker.maskAt('source_key', 'cus-1')).toBe(tokenize('cus-1', 'test-key'));
+            expect(new Masker({ rules: [{ fields: ['*.email'], strategy: 'email' }] }).maskAt('source_key', { email: 'ada@example.com' })).toEqual({ email: 'a**@example.com' });
+            expect(masker.scrub('Customer Ada Lovelace <ada@example.com> rejected: ring Ada', order))
+                .toBe('Customer A*********** <a**@example.com> rejected: [REDACTED]');
+        });
+
+        it('should return records unchanged without rules', () => {
+            const masker = new Masker({ rules: [] });
+
+            expect(masker.active).toBe(false);
+            expect(masker.mask(order)).toBe(order);
+            expect(masker.scrub('Ada Lovelace', order)).toBe('Ada Lovelace');
+        });
+
+        it('should reject invalid policies', () => {
+            const invalid = { rules: [{ fields: ['id'], strategy: 'tokenize' }, { strategy: 'hash', pattern: '(' }] };
+
+            expect(validateMaskingPolicy(invalid)).toEqual([
+                'rules[1].strategy "hash" is not one of: redact, partial, tokenize, email, phone, drop',
+                'rules[1].pattern is not a valid regular expression: (',
+                'rules[0] tokenizes but the policy has no tokenKey'
+            ]);
+            expect(() => new Masker(invalid as MaskingPolicy)).toThrow(MaskingPolicyError);
+        });
+    });
+
+    describe('Templates', () => {
+        it('should mask transformed values and their source_key', () => {
+            const result = new ValueTransform(context(), { masking: policy }).transform(order, 'cus-1', 'orders', timestamp);
+
+            expect(result.customer).toEqual({ id: tokenize('cus-1', 'test-key'), name: 'A***********', email: 'a**@example.com', phone: '+* (***) ***-4567' });
+            expect(result.source_key).toBe(tokenize('cus-1', 'test-key'));
+            expect(result.internal).toBeUndefined();
+        });
+
+        it('should mask dead-letter envelopes and passed-through records', () => {
+            const failure = { stage: 'value' as const, operation: 'valueTransform', valueObject: order, keyObject: 'cus-1', topic: 'orders', timestamp };
+            const envelope = new DeadLetterHandler({ mode: 'dead-letter' }, context(), new Masker(policy))
+                .createEnvelope(new Error('Unknown customer ada@example.com'), failure);
+
+            expect(envelope.error_message).toBe('Unknown customer a**@example.com');
+            expect(envelope.original_value.customer.name).toBe('A***********');
+            expect(envelope.source_key).toBe(tokenize('cus-1', 'test-key'));
+            expect(new DeadLetterHandler({ mode: 'pass-through' }, context(), new Masker(policy)).handle('boom', failure).card).toBe('[REDACTED]');
+        });
+
+        it('should keep PII out of error contexts', () => {
+            const masker = new Masker({ rules: [{ fields: ['id'], strategy: 'partial' }, { pattern: 'email', strategy: 'email' }] });
+            const errorContext = new CommonTransform(context(), { masker })
+                .createErrorContext(new Error('Duplicate email ada@example.com'), 'valueTransform', { id: 'cus-12345', email: 'ada@example.com' });
+
+            expect(errorContext).toMatchObject({ error_message: 'Duplicate email a**@example.com', record_id: '*****2345' });
+            expect(errorContext.error_stack).not.toContain('ada@example.com');
+
+            jest.spyOn(console, 'error').mockImplementation(() => undefined);
+            const envelope = new ValueSchemaTransform(context(), { masking: { rules: [{ pattern: 'email', strategy: 'redact' }] } })
+                .transform({ email: 'ada@example.com' }, null, 'customers', timestamp);
+            expect(envelope).toMatchObject({ _streamkap_error: true, original_value: { email: '[REDACTED]' } });
+            jest.restoreAllMocks();
+        });
+
+        it('should mask key schema failures with the injected policy', () => {
+            const rejectAll = { validate: () => [{ path: '$', message: 'is not a known key' }] };
+            const envelope = new KeySchemaTransform(context(), { inputSchema: rejectAll, masking: policy, deadLetter: { mode: 'dead-letter' } })
+                .transform(order, 'cus-1', 'orders', timestamp);
+
+            expect(envelope.original_value.customer.name).toBe('A***********');
+            expect(envelope.source_key).toBe(tokenize('cus-1', 'test-key'));
+        });
+    });
+
+    describe('Bundles', () => {
+        // Scratch directory inside the project, so bundled files resolve node_modules like the real sources do
+        const scratchDir = join('.tmp.build', 'masking-test');
+
+        afterAll(() => {
+            rmSync(scratchDir, { recursive: true, force: true });
+        });
+
+        it('should not require crypto, which the Streamkap runtime lacks', async () => {
+            mkdirSync(scratchDir, { recursive: true });
+            writeFileSync(join(scratchDir, 'masked.ts'), [
+                "import { Masker } from '../../src/templates/masking';",
+                'const masker = new Masker();',
+                'export function _streamkap_transform(value: any) {',
+                '    return masker.mask(value);',
+                '}',
+                ''
+            ].join('\n'));
+
+            const result = await buildTransforms({
+                config: {
+                    outputDir: join(scratchDir, 'transforms'),
+                    transforms: [{ name: 'masked', type: 'map_filter', entries: { value: join(scratchDir, 'masked.ts') }, masking: { rules: [{ fields: ['card'], strategy: 'redact' }] } }]
+                }
+            });
+
+            expect(result.success).toBe(true);
+            expect(readFileSync(join(scratchDir, 'transforms', 'masked', 'valueTransform.js'), 'utf8')).not.toMatch(/require\(["']crypto["']\)/);
+        });
+    });
+});
@@ -1,4 +1,5 @@
 import { Customer } from "./Customer";
+import { SchemaValidationError } from "./templates/schemaValidation";
 
 export interface MergedOrder {
     version: '0.1.4';
@@ -15,5 +16,6 @@ export interface MergedOrder {
     processing_id: string; // UUID generated with uuid library
     has_valid_customer: boolean; // Validation using lodash
     field_count: number; // Count using lodash utilities
+    type_mismatches?: SchemaValidationError[]; // Set when the input did not match OrderType1 / OrderType2
     
 }
\ No newline at end of file
@@ -0,0 +1,165 @@
+/**
+ * Tests for in-transform metrics
+ * These tests verify counters, gauges and histograms, periodic export, the Prometheus text format and template instrumentation
+ */
+
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CommonTransform } from './templates/commonTransform';
+import { Enricher } from './templates/enrichment';
+import { MemoryMetricsSink, MetricsError, MetricsRegistry } from './templates/metrics';
+import { FixedClock, createDeterministicContext, createRuntimeContext } from './templates/runtimeContext';
+import { ValueTransform } from './templates/valueTransform';
+import { StreamkapSimulator } from './tooling/simulator';
+
+const timestamp = Date.UTC(2024, 0, 1);
+
+const order = { id: 'order-1', amount: 10 };
+
+describe('Metrics', () => {
+
+    describe('MetricsRegistry', () => {
+        it('should keep one series per label set', () => {
+            const registry = new MetricsRegistry({ clock: new FixedClock(timestamp), sinks: [] });
+            const filtered = registry.counter('filtered_total', 'Records filtered out');
+            const inFlight = registry.gauge('lookups_in_flight', 'Lookups in flight');
+
+            filtered.inc({ operation: 'value' });
+            registry.counter('filtered_total', 'Records filtered out').inc({ operation: 'value' }, 2);
+            filtered.inc({ operation: 'flatten' });
+            inFlight.inc();
+            inFlight.inc();
+            inFlight.dec();
+
+            expect(filtered.value({ operation: 'value' })).toBe(3);
+            expect(filtered.value({ operation: 'async_value' })).toBe(0);
+            expect(registry.snapshot()).toEqual({
+                _streamkap_metrics: true,
+                timestamp: '2024-01-01T00:00:00.000Z',
+                metrics: [
+                    { name: 'filtered_total', type: 'counter', help: 'Records filtered out', labels: { operation: 'value' }, value: 3 },
+                    { name: 'filtered_total', type: 'counter', help: 'Records filtered out', labels: { operation: 'flatten' }, value: 1 },
+                    { name: 'lookups_in_flight', type: 'gauge', help: 'Lookups in flight', labels: {}, value: 1 }
+                ]
+            });
+        });
+
+        it('should count histogram observations in cumulative buckets', () => {
+            const registry = new MetricsRegistry({ sinks: [] });
+            const latency = registry.histogram('lookup_ms', 'Lookup time', [10, 100]);
+
+            [3, 10, 40, 400].forEach(value => latency.observe(value));
+
+            expect(latency.count()).toBe(4);
+            expect(latency.count({}, 10)).toBe(2);
+            expect(registry.snapshot().metrics[0]).toMatchObject({ count: 4, sum: 453, buckets: { '10': 2, '100': 3, '+Inf': 4 } });
+        });
+
+        it('should reject invalid names and type conflicts', () => {
+            const registry = new MetricsRegistry({ sinks: [] });
+            registry.counter('records_total', 'Records');
+
+            expect(() => registry.counter('records-total', 'Records')).toThrow(MetricsError);
+            expect(() => registry.histogram('records_total', 'Records')).toThrow('Metric records_total is already registered as a counter');
+        });
+
+        it('should export a metrics record once the interval has passed', () => {
+            const clock = new FixedClock(timestamp);
+            const sink = new MemoryMetricsSink();
+            const registry = new MetricsRegistry({ clock, sinks: [sink], exportIntervalMs: 1000 });
+            const records = registry.counter('records_total', 'Records');
+
+            records.inc();
+            registry.collect();
+            clock.set(timestamp + 999);
+            records.inc();
+            registry.collect();
+            clock.set(timestamp + 1000);
+            registry.collect();
+            registry.collect();
+
+            expect(sink.records).toHaveLength(1);
+            expect(sink.records[0]).toMatchObject({ timestamp: '2024-01-01T00:00:01.000Z', metrics: [{ name: 'records_total', value: 2 }] });
+        });
+
+        it('should render the Prometheus text format', () => {
+            const registry = new MetricsRegistry({ sinks: [] });
+            registry.counter('errors_total', 'Records that failed').inc({ operation: 'value', error_type: 'Type"Error' });
+            registry.histogram('lookup_ms', 'Lookup time', [0.5, 10]).observe(3);
+
+            expect(registry.toPrometheus()).toBe([
+                '# HELP errors_total Records that failed',
+                '# TYPE errors_total counter',
+                'errors_total{operation="value",error_type="Type\\"Error"} 1',
+                '# HELP lookup_ms Lookup time',
+                '# TYPE lookup_ms histogram',
+                'lookup_ms_bucket{le="0.5"} 0',
+                'lookup_ms_bucket{le="10"} 1',
+                'lookup_ms_bucket{le="+Inf"} 1',
+                'lookup_ms_sum 3',
+                'lookup_ms_count 1',
+                ''
+            ].join('\n'));
+        });
+    });
+
+    describe('Templates', () => {
+        it('should count records, filtered records, errors and output rows by operation', () => {
+            const context = createDeterministicContext(1, timestamp);
+            const transform = new ValueTransform(context, { flatten: { arrays: 'explode' } });
+            jest.spyOn(CommonTransform.prototype, 'log').mockImplementation(() => undefined);
+
+            transform.transform(order, 'k1', 'orders', timestamp);
+            transform.transform({ amount: 10 }, 'k2', 'orders', timestamp);
+            transform.transform(order, 'k3', '', timestamp);
+            transform.transformFlatten({ id: 'order-2', lines: [{ sku: 'a' }, { sku: 'b' }] }, 'k4', 'orders', timestamp);
+            jest.restoreAllMocks();
+
+            const metrics = context.metrics;
+            expect(metrics.counter('transform_records_total', '').value({ operation: 'value' })).toBe(3);
+            expect(metrics.counter('transform_filtered_total', '').value({ operation: 'value' })).toBe(1);
+            expect(metrics.counter('transform_errors_total', '').value({ operation: 'value', error_type: 'InputValidation' })).toBe(1);
+            expect(metrics.counter('transform_output_records_total', '').value({ operation: 'value' })).toBe(1);
+            expect(metrics.counter('transform_output_records_total', '').value({ operation: 'flatten' })).toBe(3);
+        });
+
+        it('should time enrichment lookups and count failures', async () => {
+            const clock = new FixedClock(timestamp, 5);
+            const metrics = new MetricsRegistry({ clock, sinks: [] });
+            const context = createRuntimeContext({ clock, metrics });
+            const provider = { name: 'customers', lookup: async (key: string) => { if (key === 'order-2') { throw new Error('down'); } return { tier: 'gold' }; } };
+            const transform = new ValueTransform(context, { enricher: new Enricher(provider, { retry: false }, context) });
+            jest.spyOn(CommonTransform.prototype, 'log').mockImplementation(() => undefined);
+
+            await transform.transformAsync(order, 'k1', 'orders', timestamp);
+            await transform.transformAsync({ ...order, id: 'order-2' }, 'k2', 'orders', timestamp);
+            jest.restoreAllMocks();
+
+            const duration = metrics.histogram('transform_enrichment_duration_ms', '');
+            expect(duration.count()).toBe(2);
+            expect(duration.count({}, 1)).toBe(0);
+            expect(metrics.counter('transform_enrichment_failures_total', '').value()).toBe(1);
+            expect(metrics.counter('transform_output_records_total', '').value({ operation: 'async_value' })).toBe(2);
+        });
+    });
+
+    describe('Simulator', () => {
+        it('should record metrics for each function', async () => {
+            const dir = mkdtempSync(join(tmpdir(), 'streamkap-metrics-'));
+            const bundlePath = join(dir, 'valueTransform.js');
+            writeFileSync(bundlePath, 'function _streamkap_transform(v) { if (v.skip) return null; if (v.fail) throw new Error("boom"); return v.rows ? v.rows : v; }');
+            const metrics = new MetricsRegistry({ sinks: [] });
+            const simulator = new StreamkapSimulator({ value: bundlePath }, { metrics });
+
+            await simulator.processRecords([{ value: { id: 1 } }, { value: { skip: true } }, { value: { fail: true } }, { value: { rows: [1, 2, 3] } }]);
+
+            expect(metrics.counter('simulator_records_total', '').value({ stage: 'value' })).toBe(4);
+            expect(metrics.counter('simulator_filtered_total', '').value()).toBe(1);
+            expect(metrics.counter('simulator_errors_total', '').value({ stage: 'value' })).toBe(1);
+            expect(metrics.counter('simulator_output_records_total', '').value()).toBe(4);
+            expect(metrics.histogram('simulator_duration_ms', '').count({ stage: 'value' })).toBe(4);
+            expect(metrics.toPrometheus()).toContain('simulator_records_total{stage="value"} 4');
+        });
+    });
+});
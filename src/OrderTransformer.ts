@@ -3,25 +3,102 @@ import { OrderType1 } from "./OrderType1";
 import { OrderType2 } from "./OrderType2";
 import moment from "moment";
 import _ from "lodash";
-import { v4 as uuidv4 } from "uuid";
+import { RuntimeContext, createRuntimeContext } from "./templates/runtimeContext";
+import { SchemaValidationError } from "./templates/schemaValidation";
+import { validateOrderType1, validateOrderType2 } from "./TypeGuards";
+
+// What to do with records that do not match OrderType1 / OrderType2:
+// 'annotate' transforms them and lists the mismatches in type_mismatches, 'reject' throws a TypeMismatchError
+export type TypeMismatchPolicy = 'annotate' | 'reject';
+
+// Set to 'reject' to fail records that do not match OrderType1 / OrderType2
+// instead of transforming them with a type_mismatches list - read by value_transform.ts and topic_transform.ts
+export const TYPE_MISMATCH_POLICY: TypeMismatchPolicy = 'annotate';
+
+export interface OrderTransformerOptions {
+    onTypeMismatch?: TypeMismatchPolicy;
+}
+
+/**
+ * Thrown for records that do not match their declared interface
+ */
+export class TypeMismatchError extends Error {
+    // Reported as error_details in the error envelope
+    public readonly details: { expected_type: string; mismatches: SchemaValidationError[] };
+
+    constructor(public readonly typeName: string, public readonly mismatches: SchemaValidationError[]) {
+        super(`Record does not match ${typeName}: ${mismatches.map(mismatch => `${mismatch.path} ${mismatch.message}`).join('; ')}`);
+        this.name = 'TypeMismatchError';
+        this.details = { expected_type: typeName, mismatches };
+        // Restore the prototype chain, which is lost when extending Error with an ES5 target
+        Object.setPrototypeOf(this, TypeMismatchError.prototype);
+    }
+}
 
 export class OrderTransformer {
+    constructor(
+        private context: RuntimeContext = createRuntimeContext(),
+        private options: OrderTransformerOptions = {}
+    ) {}
+
     public transform(inputOrder: OrderType1 | OrderType2): MergedOrder {
+        const notAnOrder = this.notAnOrder(inputOrder);
+        if (notAnOrder) {
+            throw notAnOrder;
+        }
         if (inputOrder.order_type == 'OrderType1') {
-            return this.transformOrderType1(inputOrder as OrderType1);
+            const mismatches = validateOrderType1(inputOrder);
+            return this.withMismatches(this.transformOrderType1(this.checked(inputOrder, 'OrderType1', mismatches) as OrderType1), mismatches);
+        }
+        const mismatches = validateOrderType2(inputOrder);
+        return this.withMismatches(this.transformOrderType2(this.checked(inputOrder, 'OrderType2', mismatches) as OrderType2), mismatches);
+    }
+
+    /**
+     * The error transform would throw for a record, found without transforming it - undefined when it would not throw
+     * Lets the topic transform send failed records to the dead-letter topic without replaying the value transform
+     */
+    public check(inputOrder: unknown): Error | undefined {
+        const notAnOrder = this.notAnOrder(inputOrder);
+        if (notAnOrder || this.options.onTypeMismatch !== 'reject') {
+            return notAnOrder;
+        }
+        const order = inputOrder as OrderType1 | OrderType2;
+        const typeName = order.order_type == 'OrderType1' ? 'OrderType1' : 'OrderType2';
+        const mismatches = typeName === 'OrderType1' ? validateOrderType1(order) : validateOrderType2(order);
+        return mismatches.length > 0 ? new TypeMismatchError(typeName, mismatches) : undefined;
+    }
+
+    private notAnOrder(inputOrder: unknown): TypeError | undefined {
+        return inputOrder && typeof inputOrder === 'object' ? undefined : new TypeError(`Order must be an object (got ${inputOrder === null ? 'null' : typeof inputOrder})`);
+    }
+
+    /**
+     * Apply the mismatch policy before the record is cast to its interface
+     */
+    private checked(inputOrder: any, typeName: string, mismatches: SchemaValidationError[]): any {
+        if (mismatches.length > 0 && this.options.onTypeMismatch === 'reject') {
+            throw new TypeMismatchError(typeName, mismatches);
         }
-        return this.transformOrderType2(inputOrder as OrderType2);
+        return inputOrder;
+    }
+
+    private withMismatches(record: MergedOrder, mismatches: SchemaValidationError[]): MergedOrder {
+        if (mismatches.length > 0) {
+            record.type_mismatches = mismatches;
+        }
+        return record;
     }
 
     private transformOrderType1(inputOrder: OrderType1): MergedOrder {
-        const now = moment();
+        const now = moment(this.context.clock.now());
         
         // Data manipulation
         const cleanedOrder = _.omitBy(inputOrder, _.isUndefined);
         const hasValidCustomer = _.has(cleanedOrder, 'customer.name') && !_.isEmpty(cleanedOrder.customer.name);
         
         // Generate unique identifiers
-        const processingId = uuidv4();
+        const processingId = this.context.ids.generate(inputOrder);
         
         let baseRecord: MergedOrder = {
             version: '0.1.4',
@@ -44,14 +121,14 @@ export class OrderTransformer {
         return this.applyTransformTypeModifications(baseRecord);
     }
     private transformOrderType2(inputOrder: OrderType2): MergedOrder {
-        const now = moment();
+        const now = moment(this.context.clock.now());
         
         // Data manipulation
         const cleanedOrder = _.omitBy(inputOrder, _.isUndefined);
         const hasValidCustomer = _.has(cleanedOrder, 'customer.name') && !_.isEmpty(cleanedOrder.customer.name);
         
         // Generate unique identifiers
-        const processingId = uuidv4();
+        const processingId = this.context.ids.generate(inputOrder);
         
         let baseRecord: MergedOrder = {
             version: '0.1.4',
@@ -61,7 +138,7 @@ export class OrderTransformer {
             order_type: inputOrder.order_type,
             channel: inputOrder.channel,
             customer: inputOrder.customer,
-            organization_id: inputOrder.customer.organization_id,
+            organization_id: inputOrder.customer ? inputOrder.customer.organization_id : undefined,
             processed_at: now.toISOString(),
             processed_time: now.format('YYYY-MM-DD HH:mm:ss'),
             // Processing metadata:
@@ -0,0 +1,123 @@
+/**
+ * Tests for the composable transform pipeline
+ * These tests verify stages compile to one Streamkap function, mix sync and async stages and report the stage that failed
+ */
+
+import { Enricher, StaticEnrichmentProvider } from './templates/enrichment';
+import { MemorySink, StructuredLogger } from './templates/logger';
+import { PipelineStageError, pipeline } from './templates/pipeline';
+import { createDeterministicContext } from './templates/runtimeContext';
+
+const timestamp = Date.UTC(2024, 0, 1);
+
+interface Order {
+    _id: string;
+    status: string;
+    total: number;
+    lines?: { sku: string }[];
+}
+
+const order: Order = { _id: 'order-1', status: 'paid', total: 25, lines: [{ sku: 'a' }, { sku: 'b' }] };
+
+function setup() {
+    const sink = new MemorySink();
+    const context = createDeterministicContext(1, timestamp, new StructuredLogger({ sinks: [sink] }));
+    return { sink, context, orders: pipeline<Order>({ name: 'orders', deadLetter: { mode: 'dead-letter' } }, context) };
+}
+
+describe('Pipeline', () => {
+
+    describe('Sync stages', () => {
+        it('should compile filter, map and annotate stages into one function', () => {
+            const { context, orders } = setup();
+            const base = orders.filter(value => value.status !== 'test', 'skip-test-orders');
+            const transformValue = base
+                .map(value => ({ id: value._id, amount: value.total }))
+                .annotate((row, ctx) => ({ source_topic: ctx.topic, source_timestamp: ctx.timestamp, source_key: ctx.key }))
+                .build();
+
+            expect(transformValue(order, 'k1', 'shop orders', timestamp / 1000)).toEqual({
+                id: 'order-1', amount: 25, source_topic: 'shop-orders', source_timestamp: timestamp, source_key: 'k1'
+            });
+            expect(transformValue({ ...order, status: 'test' }, 'k2', 'orders', timestamp)).toBeNull();
+            expect(base.build()(order, 'k3', 'orders', timestamp)).toEqual(order);
+            expect(context.metrics.counter('transform_filtered_total', '').value({ operation: 'orders', stage: 'skip-test-orders' })).toBe(1);
+            expect(context.metrics.counter('transform_output_records_total', '').value({ operation: 'orders' })).toBe(2);
+        });
+
+        it('should return arrays after a flatMap stage and drop tombstones and invalid input', () => {
+            const { context, orders } = setup();
+            const transformValue = orders
+                .flatMap(value => (value.lines || []).map(line => ({ order_id: value._id, sku: line.sku })))
+                .filter(line => line.sku !== 'b')
+                .build();
+
+            expect(transformValue(order, null, 'orders', timestamp)).toEqual([{ order_id: 'order-1', sku: 'a' }]);
+            expect(transformValue({ ...order, lines: [] }, null, 'orders', timestamp)).toBeNull();
+            expect(transformValue(null as any, null, 'orders', timestamp)).toBeNull();
+            expect(transformValue(order, null, '', timestamp)).toBeNull();
+            expect(context.metrics.counter('transform_filtered_total', '').value({ operation: 'orders', stage: 'flatMap#1' })).toBe(1);
+            expect(context.metrics.counter('transform_errors_total', '').value({ operation: 'orders', error_type: 'InputValidation' })).toBe(1);
+        });
+    });
+
+    describe('Async stages', () => {
+        it('should return a promise once a stage does', async () => {
+            const { context, orders } = setup();
+            const customers = new Enricher(new StaticEnrichmentProvider('customers', { 'order-1': { tier: 'gold' } }), { retry: false }, context);
+            const transformValue = orders
+                .map(async value => ({ id: value._id }))
+                .enrich(customers, { key: row => row.id, field: 'customer' })
+                .build();
+
+            const result = transformValue(order, null, 'orders', timestamp);
+
+            expect(result).toBeInstanceOf(Promise);
+            await expect(result).resolves.toEqual({ id: 'order-1', customer: { tier: 'gold' } });
+            await expect(transformValue({ ...order, _id: 'order-2' }, null, 'orders', timestamp)).resolves.toEqual({ id: 'order-2', customer: null });
+        });
+    });
+
+    describe('Failures', () => {
+        it('should dead-letter failed records naming the stage', async () => {
+            const { sink, context, orders } = setup();
+            const validated = orders.validate(value => value.total > 0 ? [] : ['total must be positive'], 'positive-total');
+            const transformValue = validated
+                .map(value => { if (value.status === 'void') { throw new TypeError('void orders have no lines'); } return value; })
+                .build();
+
+            expect(transformValue({ ...order, total: 0 }, 'k1', 'orders', timestamp)).toMatchObject({
+                _streamkap_error: true,
+                error_type: 'PipelineStageError',
+                error_message: 'Stage positive-total failed: Record failed validation: total must be positive',
+                error_operation: 'positive-total',
+                error_details: { issues: ['total must be positive'], stage: 'positive-total', cause_type: 'RecordValidationError' }
+            });
+            expect(transformValue({ ...order, status: 'void' }, 'k2', 'orders', timestamp)).toMatchObject({
+                error_operation: 'map#2',
+                error_details: { stage: 'map#2', cause_type: 'TypeError' }
+            });
+
+            const rejected = validated.map(async () => { throw new Error('lookup failed'); }, 'lookup').build();
+            await expect(rejected(order, 'k3', 'orders', timestamp)).resolves.toMatchObject({ error_operation: 'lookup', source_key: 'k3' });
+
+            expect(context.metrics.counter('transform_errors_total', '').value({ operation: 'orders', error_type: 'TypeError' })).toBe(1);
+            expect(sink.entries.filter(entry => entry.message === 'Pipeline stage failed').map(entry => entry.context.stage)).toEqual(['positive-total', 'map#2', 'lookup']);
+            expect(new PipelineStageError('map#1', 'oops').details).toEqual({ stage: 'map#1', cause_type: 'string' });
+        });
+    });
+
+    describe('Routing', () => {
+        it('should route output rows and send error envelopes to the dead-letter topic', () => {
+            const { orders } = setup();
+            const routed = orders.route({ rules: [{ name: 'paid', all: [{ field: 'status', op: 'eq', value: 'paid' }], topic: 'paid-orders' }] });
+            const transformTopic = routed.buildTopic();
+            const envelope = routed.map(() => { throw new Error('boom'); }).build()(order, null, 'orders', timestamp);
+
+            expect(transformTopic(order, null, 'orders', timestamp)).toBe('paid-orders');
+            expect(transformTopic({ ...order, status: 'open' }, null, 'orders', timestamp)).toBe('orders');
+            expect(transformTopic(envelope as any, null, 'orders', timestamp)).toBe('streamkap-dead-letter');
+            expect(orders.route(row => [row.status, 'audit']).buildTopic()(order, null, 'orders', timestamp)).toEqual(['paid', 'audit']);
+        });
+    });
+});
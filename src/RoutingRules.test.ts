@@ -0,0 +1,178 @@
+/**
+ * Tests for declarative topic routing tables
+ * These tests verify conditions, topic templates and match modes compile into the expected routes
+ */
+
+import { readFileSync } from 'fs';
+import { RoutingTable, RoutingTableError, compileRoutingTable, validateRoutingTable } from './templates/routingRules';
+import { createDeterministicContext } from './templates/runtimeContext';
+import { CUSTOMER_TIER_ROUTES, TopicTransform } from './templates/topicTransform';
+
+const timestamp = Date.UTC(2024, 0, 1);
+
+function route(table: RoutingTable, value: any, key: any = null, topic = 'orders') {
+    return compileRoutingTable(table).route(value, key, topic, timestamp);
+}
+
+describe('Routing Rules', () => {
+
+    describe('Conditions', () => {
+        const when = (condition: any) => ({ rules: [{ all: [condition], topic: 'matched' }], default: 'unmatched' });
+
+        it('should evaluate every operator on nested field paths', () => {
+            const order = { customer: { tier: 'gold', score: 0.9 }, items: [{ sku: 'A-1' }], note: null };
+
+            expect(route(when({ field: 'customer.tier', op: 'eq', value: 'gold' }), order)).toBe('matched');
+            expect(route(when({ field: 'customer.tier', op: 'neq', value: 'gold' }), order)).toBe('unmatched');
+            expect(route(when({ field: 'customer.tier', op: 'in', value: ['gold', 'premium'] }), order)).toBe('matched');
+            expect(route(when({ field: 'customer.tier', op: 'nin', value: ['gold'] }), order)).toBe('unmatched');
+            expect(route(when({ field: 'customer.score', op: 'gt', value: 0.8 }), order)).toBe('matched');
+            expect(route(when({ field: 'customer.score', op: 'lte', value: 0.8 }), order)).toBe('unmatched');
+            expect(route(when({ field: 'customer.tier', op: 'gte', value: 0 }), order)).toBe('unmatched');
+            expect(route(when({ field: 'items.0.sku', op: 'regex', value: '^A-' }), order)).toBe('matched');
+            expect(route(when({ field: 'note', op: 'exists' }), order)).toBe('unmatched');
+            expect(route(when({ field: 'note', op: 'exists', value: false }), order)).toBe('matched');
+            expect(route(when({ field: 'missing.deeply.nested', op: 'exists' }), order)).toBe('unmatched');
+            expect(route(when({ field: 'customer.score', op: 'truthy' }), order)).toBe('matched');
+            expect(route(when({ field: 'note', op: 'truthy', value: false }), order)).toBe('matched');
+            expect(route(when({ field: 'customer.tier', op: 'type', value: 'string' }), order)).toBe('matched');
+            expect(route(when({ field: 'customer.score', op: 'type', value: 'string' }), order)).toBe('unmatched');
+            expect(route(when({ field: 'items', op: 'type', value: 'array' }), order)).toBe('matched');
+            expect(route(when({ field: 'note', op: 'type', value: 'null' }), order)).toBe('matched');
+            expect(route(when({ field: 'missing', op: 'type', value: 'null' }), order)).toBe('unmatched');
+        });
+
+        it('should read record metadata', () => {
+            expect(route(when({ field: '$topic', op: 'regex', value: '^orders' }), {})).toBe('matched');
+            expect(route(when({ field: '$key.region', op: 'eq', value: 'eu' }), {}, { region: 'eu' })).toBe('matched');
+            expect(route(when({ field: '$timestamp', op: 'lt', value: timestamp }), {})).toBe('unmatched');
+        });
+
+        it('should require all conditions and any one of the alternatives', () => {
+            const table: RoutingTable = {
+                rules: [{
+                    all: [{ field: 'status', op: 'eq', value: 'paid' }],
+                    any: [{ field: 'amount', op: 'gt', value: 1000 }, { field: 'vip', op: 'eq', value: true }],
+                    topic: 'priority'
+                }]
+            };
+
+            expect(route(table, { status: 'paid', amount: 5, vip: true })).toBe('priority');
+            expect(route(table, { status: 'paid', amount: 5 })).toBe('orders');
+            expect(route(table, { status: 'open', amount: 5000 })).toBe('orders');
+        });
+    });
+
+    describe('Topics', () => {
+        it('should render templates and sanitize field values', () => {
+            expect(route({ rules: [{ topic: '{$topic}-{region}' }] }, { region: 'eu west/1' })).toBe('orders-eu-west-1');
+        });
+
+        it('should skip rules whose template fields are missing', () => {
+            const table: RoutingTable = { rules: [{ topic: 'region-{region}' }, { topic: 'no-region' }] };
+
+            expect(route(table, { region: 'eu' })).toBe('region-eu');
+            expect(route(table, {})).toBe('no-region');
+        });
+
+        it('should return the first match or every match', () => {
+            const rules = [
+                { all: [{ field: 'amount', op: 'gt' as const, value: 100 }], topic: 'large' },
+                { topic: ['all-orders', 'audit'] },
+                { topic: 'large' }
+            ];
+
+            expect(route({ mode: 'first-match', rules }, { amount: 500 })).toBe('large');
+            expect(route({ mode: 'all-match', rules }, { amount: 500 })).toEqual(['large', 'all-orders', 'audit']);
+            expect(compileRoutingTable({ mode: 'all-match', rules }).match(null, null, 'orders', timestamp)).toEqual(['all-orders', 'audit', 'large']);
+        });
+
+        it('should fall back to the default template, then the source topic', () => {
+            const rules = [{ all: [{ field: 'vip', op: 'eq' as const, value: true }], topic: 'vip' }];
+
+            expect(route({ rules, default: '{$topic}-standard' }, {})).toBe('orders-standard');
+            expect(route({ rules }, {})).toBe('orders');
+        });
+    });
+
+    describe('Validation', () => {
+        it('should list every problem in a table', () => {
+            expect(validateRoutingTable({
+                mode: 'some-match',
+                rules: [
+                    { name: 'bad', all: [{ field: 'a', op: 'like' }, { field: 'b', op: 'in', value: 'x' }], topic: 'orders {x}' },
+                    { any: [{ op: 'gt', value: '5' }, { field: 'c', op: 'regex', value: '(' }, { field: 'd', op: 'type', value: 'text' }], topic: [] }
+                ],
+                default: ''
+            })).toEqual([
+                'mode "some-match" is not one of: first-match, all-match',
+                'default must be a topic name or template',
+                'rules["bad"].topic "orders {x}" contains characters not allowed in topic names',
+                'rules["bad"].all[0].op "like" is not one of: eq, neq, in, nin, gt, gte, lt, lte, regex, exists, truthy, type',
+                'rules["bad"].all[1].value must be an array for "in"',
+                'rules[1].topic must not be empty',
+                'rules[1].any[0].field must be a field path',
+                'rules[1].any[0].value must be a number for "gt"',
+                'rules[1].any[1].value is not a valid regular expression: (',
+                'rules[1].any[2].value must be one of string, number, boolean, object, array, null for "type"'
+            ]);
+        });
+
+        it('should refuse to compile an invalid table', () => {
+            expect(() => compileRoutingTable({ rules: 'none' } as any)).toThrow(RoutingTableError);
+        });
+
+        it('should accept the checked-in routing table', () => {
+            const table = JSON.parse(readFileSync('routing/orders.json', 'utf8'));
+
+            expect(validateRoutingTable(table)).toEqual([]);
+            expect(route(table, { channel: 'express', organization_id: 'org-1', location_id: 'loc-1' })).toBe('orders-express');
+            expect(route(table, { channel: 'rpos', location_id: 'test-1' })).toEqual(['orders-rpos', 'orders-review', 'orders-test']);
+        });
+    });
+
+    describe('TopicTransform', () => {
+        const context = () => createDeterministicContext(1, timestamp);
+
+        it('should route with the injected table', () => {
+            const transform = new TopicTransform(context(), {
+                routing: { rules: [{ all: [{ field: 'type', op: 'eq', value: 'refund' }], topic: 'refunds' }] }
+            });
+
+            expect(transform.transform({ id: 'r-1', type: 'refund' }, null, 'payments', timestamp)).toContain('refunds');
+        });
+
+        it('should route by record type and amount by default', () => {
+            const result = new TopicTransform(context()).transform({ id: 'o-1', type: 'order', amount: 5000 }, null, 'orders', timestamp);
+
+            expect(result).toEqual(expect.arrayContaining(['orders-processed', 'high-value-records']));
+        });
+
+        it('should route like the original code: string types, truthy flags and sanitized topics', () => {
+            const transform = new TopicTransform(context());
+            const typed = (type: any) => transform.transform({ id: 'o-1', type }, null, 'orders', timestamp);
+
+            expect(typed('refund')).toContain('general-processed');
+            expect(typed(42)).not.toContain('general-processed');
+            expect(typed('')).not.toContain('general-processed');
+            expect(transform.complexRoute({ compliance_required: 'yes' }, null, 'orders', timestamp)).toContain('compliance-records');
+            expect(transform.complexRoute({ compliance_required: 0 }, null, 'orders', timestamp)).not.toContain('compliance-records');
+            expect(transform.simpleRoute({ customer_tier: '', region: 'eu' }, null, 'orders', timestamp)).toBe('eu-records');
+            expect(new TopicTransform(context(), { routing: { rules: [{ topic: '{region}-orders' }] } })
+                .transform({ id: 'o-1', region: '.eu' }, null, 'orders', timestamp)).toContain('topic.eu-orders');
+        });
+
+        it('should keep the example routes as tables', () => {
+            const transform = new TopicTransform(context());
+
+            expect(transform.simpleRoute({ customer_tier: 'gold' }, null, 'orders', timestamp)).toBe('gold-customer-records');
+            expect(transform.simpleRoute({ customer_tier: 'bronze' }, null, 'orders', timestamp)).toBe('unknown-tier-records');
+            expect(transform.simpleRoute({}, null, 'users-v2', timestamp)).toBe('all-users-processed');
+            expect(compileRoutingTable(CUSTOMER_TIER_ROUTES).route({}, null, 'audit', timestamp)).toBe('processed-records');
+            expect(transform.complexRoute({ type: 'order', status: 'paid', experiment_id: 'exp-1' }, null, 'orders', timestamp))
+                .toEqual(['order-paid', 'analytics-records', 'active-records']);
+            expect(transform.conditionalRoute({ customer_type: 'vip', country: 'DE' }, null, 'orders', timestamp))
+                .toEqual(['main-processed', 'vip-processing', 'international-compliance', 'realtime-processing']);
+        });
+    });
+});
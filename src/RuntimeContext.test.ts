@@ -0,0 +1,117 @@
+/**
+ * Tests for the injectable runtime context (clock, ID generator, random source)
+ * These tests verify transform output is reproducible with a deterministic context
+ */
+
+import { OrderTransformer } from './OrderTransformer';
+import { OrderType1 } from './OrderType1';
+import { CommonTransform } from './templates/commonTransform';
+import { KeySchemaTransform } from './templates/keySchemaTransform';
+import { KeyTransform } from './templates/keyTransform';
+import {
+    ContentIdGenerator,
+    FixedClock,
+    SeededIdGenerator,
+    SeededRandom,
+    createDeterministicContext,
+    createRuntimeContext
+} from './templates/runtimeContext';
+
+const mockOrder: OrderType1 = {
+    _id: "express-order123",
+    order_type: "OrderType1",
+    order_number: 12345,
+    location_id: "loc-789",
+    channel: "express",
+    customer: {
+        version: "0.1.4",
+        _id: "customer-123",
+        name: "Test Customer",
+        organization_id: "org-456"
+    },
+    organization_id: "org-456"
+};
+
+const startTime = Date.UTC(2024, 0, 1, 12, 30, 0);
+
+describe('Runtime Context', () => {
+
+    describe('Sources', () => {
+        it('should repeat the same random sequence for the same seed', () => {
+            const first = new SeededRandom(42);
+            const second = new SeededRandom(42);
+            const sequence = [first.next(), first.next(), first.next()];
+
+            expect([second.next(), second.next(), second.next()]).toEqual(sequence);
+            sequence.forEach(value => {
+                expect(value).toBeGreaterThanOrEqual(0);
+                expect(value).toBeLessThan(1);
+            });
+        });
+
+        it('should generate UUID v4 formatted seeded IDs', () => {
+            const id = new SeededIdGenerator(new SeededRandom(7)).generate();
+
+            expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+            expect(new SeededIdGenerator(new SeededRandom(7)).generate()).toBe(id);
+        });
+
+        it('should derive the same content ID regardless of field order', () => {
+            const ids = new ContentIdGenerator();
+
+            expect(ids.generate({ a: 1, b: { c: 2 } })).toBe(ids.generate({ b: { c: 2 }, a: 1 }));
+            expect(ids.generate({ a: 1 })).not.toBe(ids.generate({ a: 2 }));
+        });
+
+        it('should advance a fixed clock by its step', () => {
+            const clock = new FixedClock(1000, 10);
+
+            expect([clock.now(), clock.now()]).toEqual([1000, 1010]);
+            clock.set(5000);
+            expect(clock.now()).toBe(5000);
+        });
+    });
+
+    describe('OrderTransformer', () => {
+        it('should produce identical output for the same seed', () => {
+            const first = new OrderTransformer(createDeterministicContext(3, startTime)).transform(mockOrder);
+            const second = new OrderTransformer(createDeterministicContext(3, startTime)).transform(mockOrder);
+
+            expect(first).toEqual(second);
+            expect(first.processed_at).toBe('2024-01-01T12:30:00.000Z');
+        });
+
+        it('should reuse the processing_id when reprocessing the same record with content IDs', () => {
+            const transformer = new OrderTransformer(createRuntimeContext({ ids: new ContentIdGenerator() }));
+
+            expect(transformer.transform(mockOrder).processing_id).toBe(transformer.transform({ ...mockOrder }).processing_id);
+            expect(transformer.transform({ ...mockOrder, order_number: 1 }).processing_id)
+                .not.toBe(transformer.transform(mockOrder).processing_id);
+        });
+    });
+
+    describe('Template classes', () => {
+        it('should stamp CommonTransform records from the injected clock and IDs', () => {
+            const result = new CommonTransform(createDeterministicContext(5, startTime)).transformRecord({ id: 'order-1' });
+            const replay = new CommonTransform(createDeterministicContext(5, startTime)).transformRecord({ id: 'order-1' });
+
+            expect(result.processed_at).toBe('2024-01-01T12:30:00.000Z');
+            expect(result.normalized_timestamp).toBe(startTime);
+            expect(result.processing_id).toBe(replay.processing_id);
+        });
+
+        it('should generate reproducible default keys in KeySchemaTransform', () => {
+            const first = new KeySchemaTransform(createDeterministicContext(9, startTime)).transform({ name: 'no id' }, null, 'topic', startTime);
+            const second = new KeySchemaTransform(createDeterministicContext(9, startTime)).transform({ name: 'no id' }, null, 'topic', startTime);
+
+            expect(first.type).toBe('generated_uuid');
+            expect(first).toEqual(second);
+        });
+
+        it('should use the injected clock for KeyTransform timestamps', () => {
+            const keyTransform = new KeyTransform(createDeterministicContext(1, startTime));
+
+            expect(keyTransform.transform({ id: 'order-1' }, 'key-1', 'orders', NaN)).toBe('orders-2024-01-01-key-1');
+        });
+    });
+});
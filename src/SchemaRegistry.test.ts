@@ -0,0 +1,267 @@
+/**
+ * Tests for schema validation (JSON Schema and Avro) and the local schema registry
+ * These tests verify the schema transforms report structured errors with JSON paths
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { KeySchemaTransform } from './templates/keySchemaTransform';
+import { createDeterministicContext } from './templates/runtimeContext';
+import { SchemaRegistry } from './templates/schemaRegistry';
+import {
+    AvroSchemaValidator,
+    JsonSchemaValidator,
+    SchemaValidationFailure,
+    createSchemaValidator,
+    isAvroSchema
+} from './templates/schemaValidation';
+import { ValueSchemaTransform } from './templates/valueSchemaTransform';
+import { loadSchemaRegistry } from './tooling/fileSchemaRegistry';
+
+const validOrder = {
+    _id: 'express-order123',
+    order_type: 'OrderType1',
+    order_number: 12345,
+    location_id: 'loc-789',
+    channel: 'express',
+    customer: { version: '0.1.4', _id: 'customer-123', name: 'Test Customer', organization_id: 'org-456' }
+};
+
+describe('Schema Registry', () => {
+
+    describe('JsonSchemaValidator', () => {
+        const schema = {
+            type: 'object',
+            required: ['id', 'items'],
+            additionalProperties: false,
+            properties: {
+                id: { type: ['string', 'integer'] },
+                status: { enum: ['open', 'closed'] },
+                items: {
+                    type: 'array',
+                    minItems: 1,
+                    items: { $ref: '#/definitions/item' }
+                }
+            },
+            definitions: {
+                item: {
+                    type: 'object',
+                    required: ['sku'],
+                    properties: {
+                        sku: { type: 'string', pattern: '^SKU-' },
+                        quantity: { type: 'integer', minimum: 1 }
+                    }
+                }
+            }
+        };
+        const validator = new JsonSchemaValidator(schema);
+
+        it('should accept a matching value', () => {
+            expect(validator.validate({ id: 1, status: 'open', items: [{ sku: 'SKU-1', quantity: 2 }] })).toEqual([]);
+        });
+
+        it('should report every problem with its JSON path', () => {
+            const errors = validator.validate({ id: 1.5, status: 'lost', items: [{ quantity: 0 }, { sku: 'X' }], extra: true });
+
+            expect(errors).toEqual([
+                { path: '$.id', message: 'must be string or integer (got number)' },
+                { path: '$.status', message: 'must be one of ["open","closed"]' },
+                { path: '$.items[0].sku', message: 'is required' },
+                { path: '$.items[0].quantity', message: 'must be >= 1' },
+                { path: '$.items[1].sku', message: 'must match pattern ^SKU-' },
+                { path: '$.extra', message: 'is not an allowed property' }
+            ]);
+        });
+
+        it('should support anyOf, oneOf and not', () => {
+            const combined = new JsonSchemaValidator({
+                anyOf: [{ type: 'string' }, { type: 'number' }],
+                not: { const: 'forbidden' }
+            });
+
+            expect(combined.validate('ok')).toEqual([]);
+            expect(combined.validate(true)).toEqual([{ path: '$', message: 'must match at least one schema in anyOf' }]);
+            expect(combined.validate('forbidden')).toEqual([{ path: '$', message: 'must not match the schema in not' }]);
+            expect(new JsonSchemaValidator({ oneOf: [{ type: 'number' }, { type: 'integer' }] }).validate(3))
+                .toEqual([{ path: '$', message: 'must match exactly one schema in oneOf (matched 2)' }]);
+        });
+
+        it('should quote property names that are not identifiers', () => {
+            expect(new JsonSchemaValidator({ properties: { 'order-id': { type: 'string' } } }).validate({ 'order-id': 1 }))
+                .toEqual([{ path: '$["order-id"]', message: 'must be string (got number)' }]);
+        });
+    });
+
+    describe('AvroSchemaValidator', () => {
+        const schema = {
+            type: 'record',
+            name: 'Order',
+            namespace: 'com.example',
+            fields: [
+                { name: 'id', type: 'long' },
+                { name: 'status', type: { type: 'enum', name: 'Status', symbols: ['OPEN', 'CLOSED'] } },
+                { name: 'note', type: ['null', 'string'], default: null },
+                { name: 'lines', type: { type: 'array', items: { type: 'record', name: 'Line', fields: [{ name: 'qty', type: 'int' }] } } },
+                { name: 'previous', type: ['null', 'Line'] },
+                { name: 'tags', type: { type: 'map', values: 'string' }, default: {} },
+                { name: 'created', type: { type: 'long', logicalType: 'timestamp-millis' } }
+            ]
+        };
+        const validator = new AvroSchemaValidator(schema);
+        const valid = { id: 1, status: 'OPEN', lines: [{ qty: 2 }], previous: null, created: 1700000000000 };
+
+        it('should accept a matching record and apply field defaults', () => {
+            expect(validator.validate(valid)).toEqual([]);
+        });
+
+        it('should resolve references to named types', () => {
+            expect(validator.validate({ ...valid, previous: { qty: 1 } })).toEqual([]);
+            expect(validator.validate({ ...valid, previous: { qty: 'one' } })).toEqual([
+                { path: '$.previous', message: 'must match one of union types ["null","Line"] (got object)' }
+            ]);
+        });
+
+        it('should report every problem with its JSON path', () => {
+            const errors = validator.validate({ id: 1.5, status: 'LOST', lines: [{ qty: 3000000000 }], previous: null, tags: { a: 1 } });
+
+            expect(errors).toEqual([
+                { path: '$.id', message: 'must be long (got number)' },
+                { path: '$.status', message: 'must be one of ["OPEN","CLOSED"]' },
+                { path: '$.lines[0].qty', message: 'must be int (got number)' },
+                { path: '$.tags.a', message: 'must be string (got number)' },
+                { path: '$.created', message: 'is required' }
+            ]);
+        });
+    });
+
+    describe('createSchemaValidator', () => {
+        it('should detect Avro and JSON Schema documents', () => {
+            expect(isAvroSchema({ type: 'record', name: 'A', fields: [] })).toBe(true);
+            expect(isAvroSchema(['null', 'string'])).toBe(true);
+            expect(isAvroSchema({ type: 'object', properties: {} })).toBe(false);
+            expect(createSchemaValidator({ type: 'record', name: 'A', fields: [] })).toBeInstanceOf(AvroSchemaValidator);
+            expect(createSchemaValidator({ type: 'object' })).toBeInstanceOf(JsonSchemaValidator);
+        });
+    });
+
+    describe('SchemaRegistry', () => {
+        it('should resolve the latest version when none is given', () => {
+            const registry = new SchemaRegistry();
+            registry.register('orders-value', 1, { type: 'object', required: ['id'] });
+            registry.register('orders-value', 2, { type: 'object', required: ['id', 'total'] });
+
+            expect(registry.latestVersion('orders-value')).toBe(2);
+            expect(registry.getValidator('orders-value').validate({ id: 1 })).toEqual([{ path: '$.total', message: 'is required' }]);
+            expect(registry.getValidator('orders-value', 1).validate({ id: 1 })).toEqual([]);
+            expect(registry.getValidator('orders-value', 1)).toBe(registry.getValidator('orders-value', 1));
+        });
+
+        it('should reject unknown subjects, versions and invalid version numbers', () => {
+            const registry = new SchemaRegistry();
+            registry.register('orders-value', 1, { type: 'object' });
+
+            expect(() => registry.getSchema('payments-value')).toThrow('Unknown schema subject: payments-value');
+            expect(() => registry.getSchema('orders-value', 3)).toThrow('Unknown version 3 of schema subject orders-value');
+            expect(() => registry.register('orders-value', 0, {})).toThrow('must be a positive integer');
+        });
+    });
+
+    describe('loadSchemaRegistry', () => {
+        let schemasDir: string;
+
+        beforeEach(() => {
+            schemasDir = mkdtempSync(join(tmpdir(), 'schemas-'));
+        });
+
+        afterEach(() => {
+            rmSync(schemasDir, { recursive: true, force: true });
+        });
+
+        it('should load the checked-in schemas', () => {
+            const registry = loadSchemaRegistry('schemas');
+
+            expect(registry.listSubjects()).toEqual(['orders-key', 'orders-value']);
+            expect(registry.getValidator('orders-value').validate(validOrder)).toEqual([]);
+            expect(registry.getValidator('orders-value').validate({ ...validOrder, channel: 'web' }))
+                .toEqual([{ path: '$.channel', message: 'must be one of ["rpos","express"]' }]);
+            expect(registry.getValidator('orders-key').validate('express-order123')).toEqual([]);
+        });
+
+        it('should key schemas by subject folder and version file name', () => {
+            mkdirSync(join(schemasDir, 'payments-value'));
+            writeFileSync(join(schemasDir, 'payments-value', '1.json'), JSON.stringify({ type: 'object' }));
+            writeFileSync(join(schemasDir, 'payments-value', 'v2.avsc'), JSON.stringify({ type: 'record', name: 'Payment', fields: [] }));
+            writeFileSync(join(schemasDir, 'payments-value', 'README.md'), 'ignored');
+
+            const registry = loadSchemaRegistry(schemasDir);
+
+            expect(registry.listVersions('payments-value')).toEqual([1, 2]);
+            expect(registry.getValidator('payments-value', 2)).toBeInstanceOf(AvroSchemaValidator);
+        });
+
+        it('should reject two files for the same version', () => {
+            mkdirSync(join(schemasDir, 'payments-value'));
+            writeFileSync(join(schemasDir, 'payments-value', '1.json'), '{}');
+            writeFileSync(join(schemasDir, 'payments-value', 'v1.avsc'), '{}');
+
+            expect(() => loadSchemaRegistry(schemasDir)).toThrow('version 1 is defined by both 1.json and v1.avsc');
+        });
+
+        it('should return an empty registry when the directory is missing', () => {
+            expect(loadSchemaRegistry(join(schemasDir, 'missing')).listSubjects()).toEqual([]);
+        });
+    });
+
+    describe('Schema transforms', () => {
+        const registry = loadSchemaRegistry('schemas');
+        const timestamp = Date.UTC(2024, 0, 1);
+
+        it('should validate values against an injected schema', () => {
+            const transform = new ValueSchemaTransform(createDeterministicContext(1, timestamp), {
+                inputSchema: registry.getValidator('orders-value')
+            });
+
+            const accepted = transform.transform(validOrder, 'express-order123', 'orders', timestamp);
+            expect(accepted._streamkap_error).toBeUndefined();
+            expect(accepted._schema.source_topic).toBe('orders');
+
+            const rejected = transform.transform({ ...validOrder, order_number: 'n/a' }, 'express-order123', 'orders', timestamp);
+            expect(rejected._streamkap_error).toBe(true);
+            expect(rejected.error_stage).toBe('value_schema');
+            expect(rejected.error_message).toBe('Input schema validation failed: $.order_number must be long (got string)');
+            expect(rejected.error_details).toEqual([{ path: '$.order_number', message: 'must be long (got string)' }]);
+        });
+
+        it('should keep the built-in value rules when no schema is given', () => {
+            const result = new ValueSchemaTransform().transform({ amount: 'ten' }, null, 'orders', timestamp);
+
+            expect(result.error_details).toEqual([
+                { path: '$.id', message: 'is required' },
+                { path: '$.amount', message: 'must be number' }
+            ]);
+        });
+
+        it('should validate keys against an injected schema', () => {
+            const transform = new KeySchemaTransform(createDeterministicContext(1, timestamp), {
+                inputSchema: registry.getValidator('orders-key')
+            });
+
+            expect(transform.transform(validOrder, { id: 'express-order123' }, 'orders', timestamp)._streamkap_error).toBeUndefined();
+
+            const rejected = transform.transform(validOrder, { region: 'eu' }, 'orders', timestamp);
+            expect(rejected._streamkap_error).toBe(true);
+            expect(rejected.error_stage).toBe('key_schema');
+            expect(rejected.error_details).toEqual([{ path: '$', message: 'must match at least one schema in anyOf' }]);
+        });
+
+        it('should throw SchemaValidationFailure as a real Error subclass', () => {
+            const failure = new SchemaValidationFailure('Input schema validation failed', [{ path: '$.id', message: 'is required' }]);
+
+            expect(failure).toBeInstanceOf(Error);
+            expect(failure).toBeInstanceOf(SchemaValidationFailure);
+            expect(failure.message).toBe('Input schema validation failed: $.id is required');
+            expect(failure.details).toEqual([{ path: '$.id', message: 'is required' }]);
+        });
+    });
+});
@@ -0,0 +1,57 @@
+/**
+ * Tests for the typed entry point SDK
+ * These tests verify typed transforms are called with Streamkap's arguments and their results are type checked
+ */
+
+import * as keyEntry from './key_transform';
+import { KeyTransformModule, TopicTransformModule, ValueTransformModule, defineKeyTransform, defineTopicTransform, defineValueTransform } from './templates/sdk';
+import * as topicEntry from './topic_transform';
+import * as valueEntry from './value_transform';
+
+interface Order {
+    id: string;
+    items: { sku: string }[];
+}
+
+describe('SDK', () => {
+
+    it('should pass the record and its context to value transforms', () => {
+        const transform = defineValueTransform<Order, string, { sku: string; order: string }>((record, context) => {
+            if (context.topic === 'ignored') {
+                return null;
+            }
+            return record.value.items.map(item => ({ sku: item.sku, order: `${record.key}@${context.timestamp}` }));
+        });
+        const order: Order = { id: 'o-1', items: [{ sku: 'a' }, { sku: 'b' }] };
+
+        expect(transform(order, 'k-1', 'orders', 1700000000000)).toEqual([
+            { sku: 'a', order: 'k-1@1700000000000' },
+            { sku: 'b', order: 'k-1@1700000000000' }
+        ]);
+        expect(transform(order, 'k-1', 'ignored', 0)).toBeNull();
+    });
+
+    it('should fan out to the topics returned by topic transforms', () => {
+        const transform = defineTopicTransform<Order>((record, context) => record.value.items.length > 1 ? [context.topic, `${context.topic}-bulk`] : context.topic);
+        const key = defineKeyTransform<Order, unknown, string>(record => record.value.id);
+
+        expect(transform({ id: 'o-1', items: [{ sku: 'a' }, { sku: 'b' }] }, null, 'orders', 0)).toEqual(['orders', 'orders-bulk']);
+        expect(key({ id: 'o-1', items: [] }, null, 'orders', 0)).toBe('o-1');
+    });
+
+    it('should reject wrong results at compile time', () => {
+        // @ts-expect-error - topic transforms return topic names
+        defineTopicTransform(() => 42);
+        // @ts-expect-error - value transforms return the declared output type
+        defineValueTransform<Order, unknown, Order>(() => ({ id: 'o-1' }));
+        // @ts-expect-error - key transforms return the declared key type
+        defineKeyTransform<Order, unknown, string>(record => record.value.items);
+    });
+
+    it('should export the entry points Streamkap calls by name', () => {
+        const modules: [ValueTransformModule, KeyTransformModule, TopicTransformModule] = [valueEntry, keyEntry, topicEntry];
+
+        expect(modules.map(entry => Object.keys(entry))).toEqual([['_streamkap_transform'], ['_streamkap_transform_key'], ['_streamkap_transform_topic']]);
+        expect(keyEntry._streamkap_transform_key({}, { id: 'k-1' }, 'orders', 0)).toEqual({ id: 'k-1' });
+    });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests for the local Streamkap runtime simulator
+ * These tests replay records through the generated bundles in transforms/
+ */
+
+import { existsSync, mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StreamkapSimulator, parseJsonl } from './tooling/simulator';
+
+const mockOrder = {
+    _id: "express-order123",
+    order_type: "OrderType1",
+    order_number: 12345,
+    location_id: "loc-789",
+    channel: "express",
+    customer: {
+        version: "0.1.4",
+        _id: "customer-123",
+        name: "Test Customer",
+        organization_id: "org-456"
+    },
+    organization_id: "org-456"
+};
+
+describe('Streamkap Simulator', () => {
+
+    describe('JSONL parsing', () => {
+        it('should parse envelopes and skip blank lines', () => {
+            const envelopes = parseJsonl('{"value":{"id":1},"key":"k1"}\n\n{"value":null,"topic":"orders"}\n');
+
+            expect(envelopes).toHaveLength(2);
+            expect(envelopes[0].key).toBe('k1');
+            expect(envelopes[1].value).toBeNull();
+        });
+
+        it('should report the line number of invalid JSON', () => {
+            expect(() => parseJsonl('{"value":1}\n{not json}')).toThrow(/line 2/);
+        });
+
+        it('should reject lines without a value field', () => {
+            expect(() => parseJsonl('{"key":"k1"}')).toThrow(/"value" field/);
+        });
+    });
+
+    describe('Sandbox', () => {
+        it('should only expose allowed built-in modules to bundles', async () => {
+            const dir = mkdtempSync(join(tmpdir(), 'streamkap-sim-'));
+            const bundlePath = join(dir, 'valueTransform.js');
+            writeFileSync(bundlePath, 'function _streamkap_transform(v) { return require("fs").readFileSync; }');
+
+            const simulator = new StreamkapSimulator({ value: bundlePath });
+            const output = await simulator.processRecord({ value: { id: 1 } });
+
+            expect(output.filtered).toBe(false);
+            expect(output.errors).toEqual([{ stage: 'value', message: "Module 'fs' is not available in the Streamkap runtime" }]);
+        });
+
+        it('should fail when a bundle does not define its entry point', () => {
+            const dir = mkdtempSync(join(tmpdir(), 'streamkap-sim-'));
+            const bundlePath = join(dir, 'keyTransform.js');
+            writeFileSync(bundlePath, 'var unrelated = 1;');
+
+            expect(() => new StreamkapSimulator({ key: bundlePath })).toThrow(/_streamkap_transform_key/);
+        });
+    });
+
+    describe('map-filter bundles', () => {
+        const folder = join(process.cwd(), 'transforms', 'map-filter');
+
+        beforeAll(() => {
+            expect(existsSync(folder)).toBe(true);
+        });
+
+        it('should replay map-filter records through value and key bundles', async () => {
+            const simulator = StreamkapSimulator.fromTransformFolder(folder);
+            const output = await simulator.processRecord({ value: mockOrder, key: 'key-1', topic: 'orders', timestamp: 1700000000000 });
+
+            expect(output.filtered).toBe(false);
+            expect(output.value._id).toBe('express-order123');
+            expect(output.value.processing_id).toBeDefined();
+            expect(output.key).toBe('key-1');
+            expect(output.topic).toBe('orders');
+            expect(output.timestamp).toBe(1700000000000);
+        });
+
+        it('should write one JSONL output line per map-filter input record', async () => {
+            const simulator = StreamkapSimulator.fromTransformFolder(folder);
+            const input = [mockOrder, { ...mockOrder, _id: 'express-order456' }]
+                .map(value => JSON.stringify({ value, key: 'k', topic: 'orders' }))
+                .join('\n');
+
+            const lines = (await simulator.processJsonl(input)).trim().split('\n').map(line => JSON.parse(line));
+
+            expect(lines).toHaveLength(2);
+            expect(lines.map(line => line.index)).toEqual([0, 1]);
+            expect(lines[1].value._id).toBe('express-order456');
+        });
+    });
+
+    describe('fan-out bundles', () => {
+        it('should pass fan-out topics through from the topic bundle', async () => {
+            const simulator = StreamkapSimulator.fromTransformFolder(join(process.cwd(), 'transforms', 'fan-out'));
+            const output = await simulator.processRecord({ value: mockOrder, key: 'key-1', topic: 'orders' });
+
+            // Routed by channel through routing/orders.json
+            expect(output.topic).toBe('orders-express');
+            expect(output.value).not.toBeNull();
+        });
+
+        it('should keep fan-out topic arrays in the output record', async () => {
+            const dir = mkdtempSync(join(tmpdir(), 'streamkap-sim-'));
+            const bundlePath = join(dir, 'topicTransform.js');
+            writeFileSync(bundlePath, 'function _streamkap_transform_topic(v, k, topic) { return [topic + "-a", topic + "-b"]; }');
+
+            const simulator = new StreamkapSimulator({ topic: bundlePath });
+            const output = await simulator.processRecord({ value: mockOrder, topic: 'orders' });
+
+            expect(output.topic).toEqual(['orders-a', 'orders-b']);
+        });
+    });
+});
@@ -0,0 +1,112 @@
+/**
+ * Tests for source maps, legal comment handling and stack trace symbolication
+ * These tests verify stack traces from generated bundles map back to the TypeScript sources
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { processLegalComments } from './tooling/legalComments';
+import { SourceMapLookup, decodeMappings, prependLines, relocateSources, symbolicateStack, symbolicateText } from './tooling/sourceMaps';
+
+// Two generated lines: line 1 maps column 0 to a.ts 1:0 and column 6 to a.ts 2:4 (name "run"), line 2 maps to b.ts 10:2
+const map = { version: 3, sources: ['a.ts', 'b.ts'], names: ['run'], mappings: 'AAAA,MACIA;ACQF' };
+
+describe('Source Maps', () => {
+
+    describe('Mappings', () => {
+        it('should decode segments relative to the previous ones', () => {
+            expect(decodeMappings(map.mappings)).toEqual([
+                [[0, 0, 0, 0], [6, 0, 1, 4, 0]],
+                [[0, 1, 9, 2]]
+            ]);
+        });
+
+        it('should look up the closest segment at or before a column', () => {
+            const lookup = new SourceMapLookup(map);
+
+            expect(lookup.originalPositionFor(1, 3)).toEqual({ source: 'a.ts', line: 1, column: 0 });
+            expect(lookup.originalPositionFor(1, 40)).toEqual({ source: 'a.ts', line: 2, column: 4, name: 'run' });
+            expect(lookup.originalPositionFor(2, 0)).toEqual({ source: 'b.ts', line: 10, column: 2 });
+            expect(lookup.originalPositionFor(3, 0)).toBeUndefined();
+        });
+
+        it('should shift the map below a header and keep sources relative to the map file', () => {
+            const lookup = new SourceMapLookup(prependLines(map, 3));
+
+            expect(lookup.originalPositionFor(1, 0)).toBeUndefined();
+            expect(lookup.originalPositionFor(5, 0)).toEqual({ source: 'b.ts', line: 10, column: 2 });
+            expect(relocateSources({ ...map, sources: ['../../src/a.ts'] }, '.tmp.build/orders', 'transforms/orders-v2/nested').sources).toEqual(['../../../src/a.ts']);
+        });
+    });
+
+    describe('Symbolication', () => {
+        const stack = [
+            'TypeError: Cannot read properties of undefined',
+            '    at OrderTransformer.transform (evalmachine.<anonymous>:1:7)',
+            '    at <anonymous>:2:1',
+            '    at process (node:internal/process/task_queues:95:5)'
+        ].join('\n');
+
+        it('should replace bundle positions with source positions', () => {
+            expect(symbolicateStack(stack, new SourceMapLookup(map, 'src'))).toBe([
+                'TypeError: Cannot read properties of undefined',
+                '    at OrderTransformer.transform (src/a.ts:2:5)',
+                '    at src/b.ts:10:3',
+                '    at process (node:internal/process/task_queues:95:5)'
+            ].join('\n'));
+        });
+
+        it('should symbolicate error_stack fields of JSON log lines', () => {
+            const log = JSON.stringify({ level: 'error', message: 'Enrichment failed', context: { error_stack: stack } });
+            const [entry] = symbolicateText(log, new SourceMapLookup(map)).split('\n');
+
+            expect(JSON.parse(entry).context.error_stack).toContain('at OrderTransformer.transform (a.ts:2:5)');
+        });
+
+        it('should map frames of the generated bundles back to src', () => {
+            const bundle = join('transforms', 'fan-out', 'valueTransform.js');
+            expect(existsSync(`${bundle}.map`)).toBe(true);
+
+            const lines = readFileSync(bundle, 'utf8').split('\n');
+            const line = lines.findIndex(text => text.indexOf('new OrderTransformer(') !== -1);
+            const column = lines[line].indexOf('OrderTransformer(') + 1;
+            const lookup = SourceMapLookup.fromFile(`${bundle}.map`, file => readFileSync(file, 'utf8'));
+
+            const sourceLines = readFileSync('src/value_transform.ts', 'utf8').split('\n');
+            const sourceLine = sourceLines.findIndex(text => text.indexOf('new OrderTransformer(') !== -1) + 1;
+
+            expect(symbolicateStack(`    at _streamkap_transform (<anonymous>:${line + 1}:${column})`, lookup))
+                .toBe(`    at _streamkap_transform (src/value_transform.ts:${sourceLine}:${sourceLines[sourceLine - 1].indexOf('OrderTransformer(') + 1})`);
+        });
+    });
+
+    describe('Legal Comments', () => {
+        const code = [
+            'var a = 1;',
+            '  /**',
+            '   * @license MIT',
+            '   */',
+            '  /* internal note */',
+            '//! moment.js',
+            '//! version : 2.30.1',
+            '/*! tiny */ var b = 2;'
+        ].join('\n');
+
+        it('should keep legal comments inline by default', () => {
+            expect(processLegalComments(code, 'inline')).toEqual({ code, comments: [] });
+        });
+
+        it('should strip legal comments without moving the code around them', () => {
+            const result = processLegalComments(code, 'none');
+
+            expect(result.comments).toEqual(['/**\n   * @license MIT\n   */', '//! moment.js\n//! version : 2.30.1', '/*! tiny */']);
+            expect(result.code.split('\n')).toEqual(['var a = 1;', '', '', '', '  /* internal note */', '', '', '            var b = 2;']);
+        });
+
+        it('should move legal comments to the end of the bundle', () => {
+            const result = processLegalComments(code, 'eof');
+
+            expect(result.code.split('\n').slice(-9)).toEqual(['            var b = 2;', '', '/**', '   * @license MIT', '   */', '//! moment.js', '//! version : 2.30.1', '/*! tiny */', '']);
+        });
+    });
+});
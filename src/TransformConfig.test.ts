@@ -0,0 +1,303 @@
+/**
+ * Tests for the declarative streamkap.config transform configuration
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import {
+    bundleOptions,
+    ConfigValidationError,
+    DEFAULT_CONFIG,
+    resolveConfig,
+    resolveTypeGuards,
+    selectTransforms,
+    toEsbuildBuildOptions
+} from './tooling/transformConfig';
+
+const rootDir = process.cwd();
+
+function validationIssues(config: any): string[] {
+    try {
+        resolveConfig(config, rootDir);
+    } catch (error) {
+        if (error instanceof ConfigValidationError) {
+            return error.issues;
+        }
+        throw error;
+    }
+    return [];
+}
+
+describe('Transform Config', () => {
+
+    describe('Resolution', () => {
+        it('should resolve the built-in default config', () => {
+            const transforms = resolveConfig(DEFAULT_CONFIG, rootDir);
+
+            expect(transforms.map(t => t.name)).toEqual(['map-filter', 'fan-out', 'enrich-async', 'un-nesting']);
+            expect(transforms[0].files).toEqual([
+                { kind: 'value', src: 'src/value_transform.ts', out: 'valueTransform.js' },
+                { kind: 'key', src: 'src/key_transform.ts', out: 'keyTransform.js' }
+            ]);
+            expect(transforms[0].esbuild).toEqual({ target: 'es2018', platform: 'node', format: 'cjs', sourcemap: true });
+        });
+
+        it('should match the checked-in streamkap.config.json', () => {
+            expect(existsSync('streamkap.config.json')).toBe(true);
+            const config = JSON.parse(readFileSync('streamkap.config.json', 'utf8'));
+
+            expect(resolveConfig(config, rootDir)).toEqual(resolveConfig(DEFAULT_CONFIG, rootDir));
+        });
+
+        it('should allow several transforms of the same type with their own output folders', () => {
+            const transforms = resolveConfig({
+                outputDir: 'dist-transforms',
+                esbuild: { target: 'es2019' },
+                transforms: [
+                    { name: 'orders', type: 'map_filter', entries: { value: 'src/value_transform.ts' } },
+                    {
+                        name: 'customers',
+                        type: 'map_filter',
+                        output: 'customers-pipeline',
+                        entries: { value: 'src/value_transform.ts', key: 'src/key_transform.ts' },
+                        esbuild: { external: ['crypto'] }
+                    }
+                ]
+            }, rootDir);
+
+            expect(transforms.map(t => t.folder)).toEqual(['orders', 'customers-pipeline']);
+            expect(transforms[1].outputDir).toBe('dist-transforms');
+            expect(transforms[1].esbuild).toEqual({ target: 'es2019', platform: 'node', format: 'cjs', sourcemap: true, external: ['crypto'] });
+        });
+    });
+
+    describe('Validation', () => {
+        it('should reject configs without a transforms array', () => {
+            expect(validationIssues({})).toEqual(['Config must be an object with a "transforms" array']);
+        });
+
+        it('should report unknown types and missing entries together', () => {
+            const issues = validationIssues({
+                transforms: [
+                    { name: 'a', type: 'map_and_filter', entries: { value: 'src/value_transform.ts' } },
+                    { name: 'b', type: 'fan_out', entries: { topic: 'src/topic_transform.ts' } },
+                    { name: 'c', type: 'fan_out', entries: { value: 'src/missing.ts', router: 'src/topic_transform.ts' } }
+                ]
+            });
+
+            expect(issues).toEqual([
+                'transforms["a"].type "map_and_filter" is not one of: map_filter, fan_out, enrich_async, un_nesting',
+                'transforms["b"].entries.value is required',
+                'transforms["c"].entries.value file not found: src/missing.ts',
+                'transforms["c"].entries.router is not one of: value, key, topic, valueSchema, keySchema'
+            ]);
+        });
+
+        it('should reject duplicate names and output folders', () => {
+            const issues = validationIssues({
+                transforms: [
+                    { name: 'orders', type: 'map_filter', entries: { value: 'src/value_transform.ts' } },
+                    { name: 'orders', type: 'map_filter', entries: { value: 'src/value_transform.ts' } }
+                ]
+            });
+
+            expect(issues).toContain('transforms["orders"].name is declared more than once');
+            expect(issues).toContain('transforms["orders"].output "orders" is used by another transform');
+        });
+
+        it('should reject unsupported esbuild options', () => {
+            const issues = validationIssues({
+                esbuild: { splitting: true },
+                transforms: [{ name: 'orders', type: 'map_filter', entries: { value: 'src/value_transform.ts' } }]
+            });
+
+            expect(issues).toEqual(['esbuild.splitting is not a supported esbuild option (target, platform, format, external, define, loader, minify, sourcemap, legalComments)']);
+        });
+
+        it('should resolve and validate dead-letter policies', () => {
+            const [orders, audit] = resolveConfig({
+                deadLetter: { mode: 'drop' },
+                transforms: [
+                    { name: 'orders', type: 'map_filter', entries: { value: 'src/value_transform.ts' } },
+                    { name: 'audit', type: 'map_filter', entries: { value: 'src/value_transform.ts' }, deadLetter: { mode: 'dead-letter', topic: 'audit-dlq' } }
+                ]
+            }, rootDir);
+
+            expect(orders.deadLetter).toEqual({ mode: 'drop', topic: 'streamkap-dead-letter' });
+            expect(audit.deadLetter).toEqual({ mode: 'dead-letter', topic: 'audit-dlq' });
+            expect(bundleOptions(audit).define).toEqual({ STREAMKAP_DEAD_LETTER_POLICY: '"{\\"mode\\":\\"dead-letter\\",\\"topic\\":\\"audit-dlq\\"}"' });
+
+            expect(validationIssues({
+                deadLetter: { mode: 'retry' },
+                transforms: [{ name: 'orders', type: 'map_filter', entries: { value: 'src/value_transform.ts' }, deadLetter: { mode: 'drop', topic: 'bad topic' } }]
+            })).toEqual([
+                'deadLetter.mode "retry" is not one of: drop, pass-through, dead-letter',
+                'transforms["orders"].deadLetter.topic must be a valid topic name'
+            ]);
+        });
+
+        it('should load routing tables for transforms with a topic entry', () => {
+            const [fanOut] = resolveConfig({
+                transforms: [{ name: 'fan-out', type: 'fan_out', entries: { value: 'src/value_transform.ts', topic: 'src/topic_transform.ts' }, routing: 'routing/orders.json' }]
+            }, rootDir);
+
+            expect(fanOut.routing!.mode).toBe('all-match');
+            expect(JSON.parse(JSON.parse(bundleOptions(fanOut).define!.STREAMKAP_ROUTING_TABLE))).toEqual(fanOut.routing);
+
+            expect(validationIssues({
+                transforms: [
+                    { name: 'orders', type: 'map_filter', entries: { value: 'src/value_transform.ts' }, routing: 'routing/orders.json' },
+                    { name: 'fan-out', type: 'fan_out', entries: { value: 'src/value_transform.ts', topic: 'src/topic_transform.ts' }, routing: 'package.json' }
+                ]
+            })).toEqual([
+                'transforms["orders"].routing requires a topic entry to route with',
+                'transforms["fan-out"].routing package.json: Routing table must be an object with a "rules" array'
+            ]);
+        });
+
+        it('should resolve and validate bundle budgets by transform type', () => {
+            const [orders, fanOut] = resolveConfig({
+                budgets: { map_filter: { maxBytes: 200000, maxColdStartMs: 50 } },
+                transforms: [
+                    { name: 'orders', type: 'map_filter', entries: { value: 'src/value_transform.ts' } },
+                    { name: 'fan-out', type: 'fan_out', entries: { value: 'src/value_transform.ts' } }
+                ]
+            }, rootDir);
+
+            expect(orders.budget).toEqual({ maxBytes: 200000, maxColdStartMs: 50 });
+            expect(fanOut.budget).toBeUndefined();
+
+            expect(validationIssues({
+                budgets: { map_filter: { maxBytes: -1, maxGzipBytes: 10 }, streaming: {} },
+                transforms: [{ name: 'orders', type: 'map_filter', entries: { value: 'src/value_transform.ts' } }]
+            })).toEqual([
+                'budgets.map_filter.maxBytes must be a positive number',
+                'budgets.map_filter.maxGzipBytes is not one of: maxBytes, maxMinifiedBytes, maxColdStartMs',
+                'budgets.streaming is not one of: map_filter, fan_out, enrich_async, un_nesting'
+            ]);
+        });
+
+        it('should resolve and validate runtime lint settings', () => {
+            const [orders, audit] = resolveConfig({
+                lint: { modules: ['zlib'], ignore: ['node_modules/uuid/dist/cjs/md5.js'] },
+                transforms: [
+                    { name: 'orders', type: 'map_filter', entries: { value: 'src/value_transform.ts' } },
+                    { name: 'audit', type: 'map_filter', entries: { value: 'src/value_transform.ts' }, lint: { runtime: 'node', ignore: ['src/legacy.ts'] } }
+                ]
+            }, rootDir);
+
+            expect(orders.lint.runtime).toBe('streamkap');
+            expect(orders.lint.modules).toEqual(['zlib']);
+            expect(audit.lint.runtime).toBe('node');
+            expect(audit.lint.globals).toContain('process');
+            expect(audit.lint.ignore).toEqual(['node_modules/uuid/dist/cjs/md5.js', 'src/legacy.ts']);
+
+            expect(validationIssues({
+                lint: { runtime: 'deno', globals: 'process' },
+                transforms: [{ name: 'orders', type: 'map_filter', entries: { value: 'src/value_transform.ts' }, lint: { allow: [] } }]
+            })).toEqual([
+                'lint.runtime "deno" is not one of: streamkap, node',
+                'lint.globals must be an array of strings',
+                'transforms["orders"].lint.allow is not one of: runtime, globals, modules, ignore'
+            ]);
+        });
+
+        it('should resolve masking policies with the token key from the environment', () => {
+            const [orders, audit] = resolveConfig({
+                masking: { rules: [{ pattern: 'email', strategy: 'email' }] },
+                transforms: [
+                    { name: 'orders', type: 'map_filter', entries: { value: 'src/value_transform.ts' } },
+                    {
+                        name: 'audit',
+                        type: 'map_filter',
+                        entries: { value: 'src/value_transform.ts' },
+                        masking: { rules: [{ fields: ['customer.id'], strategy: 'tokenize' }], tokenKeyEnv: 'AUDIT_TOKEN_KEY' }
+                    }
+                ]
+            }, rootDir, { AUDIT_TOKEN_KEY: 'secret' });
+
+            expect(orders.masking).toEqual({ rules: [{ pattern: 'email', strategy: 'email' }] });
+            expect(audit.masking).toEqual({ rules: [{ fields: ['customer.id'], strategy: 'tokenize' }, { pattern: 'email', strategy: 'email' }], tokenKey: 'secret' });
+            expect(JSON.parse(JSON.parse(bundleOptions(audit).define!.STREAMKAP_MASKING_POLICY))).toEqual(audit.masking);
+            expect(resolveConfig(DEFAULT_CONFIG, rootDir)[0].masking).toBeUndefined();
+
+            expect(validationIssues({
+                masking: { rules: [{ fields: 'email', strategy: 'hide' }], tokenKey: 'secret' },
+                transforms: [{
+                    name: 'orders',
+                    type: 'map_filter',
+                    entries: { value: 'src/value_transform.ts' },
+                    masking: { rules: [{ pattern: 'email', strategy: 'tokenize' }], tokenKeyEnv: 'STREAMKAP_TEST_UNSET_TOKEN_KEY' }
+                }]
+            })).toEqual([
+                'masking.tokenKey is not one of: rules, tokenKeyEnv',
+                'masking.rules[0].strategy "hide" is not one of: redact, partial, tokenize, email, phone, drop',
+                'masking.rules[0].fields must be an array of field paths',
+                'transforms["orders"].masking tokenizes but environment variable STREAMKAP_TEST_UNSET_TOKEN_KEY is not set'
+            ]);
+        });
+
+        it('should compile dedup policies into the bundles', () => {
+            const dedup = { key: ['_id', 'order_number'], windowMs: 600000, bloom: { expectedKeys: 1000000 } };
+            const [orders] = resolveConfig({ transforms: [{ name: 'orders', type: 'map_filter', entries: { value: 'src/value_transform.ts' }, dedup }] }, rootDir);
+
+            expect(JSON.parse(JSON.parse(bundleOptions(orders).define!.STREAMKAP_DEDUP_POLICY))).toEqual(dedup);
+            expect(bundleOptions(resolveConfig(DEFAULT_CONFIG, rootDir)[0]).define!.STREAMKAP_DEDUP_POLICY).toBeUndefined();
+
+            expect(validationIssues({
+                transforms: [{ name: 'orders', type: 'map_filter', entries: { value: 'src/value_transform.ts' }, dedup: { key: [], ttl: 1, bloom: { expectedKeys: 0 } } }]
+            })).toEqual([
+                'transforms["orders"].dedup.ttl is not one of: key, windowMs, maxEntries, bloom',
+                'transforms["orders"].dedup.key must be a non-empty array of field paths',
+                'transforms["orders"].dedup.bloom.expectedKeys must be a positive integer'
+            ]);
+        });
+
+        it('should validate the typeGuards section', () => {
+            expect(resolveTypeGuards({ transforms: [] }, rootDir)).toBeUndefined();
+            expect(resolveTypeGuards(JSON.parse(readFileSync('streamkap.config.json', 'utf8')), rootDir)).toEqual(DEFAULT_CONFIG.typeGuards);
+
+            let issues: string[] = [];
+            try {
+                resolveTypeGuards({ typeGuards: { sources: ['src/Missing.ts', 'src/Customer.ts'], output: 'src/Customer.ts' } }, rootDir);
+            } catch (error) {
+                issues = (error as ConfigValidationError).issues;
+            }
+            expect(issues).toEqual([
+                'typeGuards.sources[0] file not found: src/Missing.ts',
+                'typeGuards.output must not be one of the sources'
+            ]);
+        });
+    });
+
+    describe('Selection', () => {
+        const transforms = resolveConfig(DEFAULT_CONFIG, rootDir);
+
+        it('should select map-filter transforms by name or by type', () => {
+            expect(selectTransforms(transforms, ['map-filter']).map(t => t.name)).toEqual(['map-filter']);
+            expect(selectTransforms(transforms, ['map_filter']).map(t => t.name)).toEqual(['map-filter']);
+            expect(selectTransforms(transforms, ['unknown'])).toEqual([]);
+        });
+    });
+
+    describe('esbuild options', () => {
+        it('should convert options to esbuild build options', () => {
+            expect(toEsbuildBuildOptions({ format: 'cjs', platform: 'node', target: 'es2018', external: ['crypto'], define: { DEBUG: 'false' } }))
+                .toEqual({ format: 'cjs', platform: 'node', target: 'es2018', external: ['crypto'], define: { DEBUG: 'false' } });
+        });
+
+        it('should convert loaders to esbuild build options', () => {
+            expect(toEsbuildBuildOptions({ loader: { '.avsc': 'json' } })).toEqual({ loader: { '.avsc': 'json' } });
+        });
+
+        it('should convert minify and source maps to esbuild build options', () => {
+            expect(toEsbuildBuildOptions({ minify: true, sourcemap: true, legalComments: 'eof' })).toEqual({ minify: true, sourcemap: 'external' });
+            expect(validationIssues({
+                esbuild: { minify: 'yes', legalComments: 'linked' },
+                transforms: [{ name: 'orders', type: 'map_filter', entries: { value: 'src/value_transform.ts' } }]
+            })).toEqual([
+                'esbuild.minify must be true or false',
+                'esbuild.legalComments "linked" is not one of: inline, eof, external, none'
+            ]);
+        });
+    });
+});
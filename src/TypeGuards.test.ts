@@ -0,0 +1,157 @@
+/**
+ * Tests for the runtime type guards generated from the transform interfaces
+ * These tests verify mismatching records are reported with JSON paths and can be rejected
+ */
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MergedOrder } from './MergedOrder';
+import { OrderTransformer, TypeMismatchError } from './OrderTransformer';
+import { OrderType1 } from './OrderType1';
+import { _streamkap_transform } from './value_transform';
+import { createDeterministicContext } from './templates/runtimeContext';
+import { generateTypeGuards, parseTypes } from './tooling/typeGuardCodegen';
+import { DEFAULT_CONFIG, resolveTypeGuards } from './tooling/transformConfig';
+import { isCustomer, isOrderType1, validateOrderType1, validateOrderType2 } from './TypeGuards';
+
+const validOrder: OrderType1 = {
+    _id: 'express-order123',
+    order_type: 'OrderType1',
+    order_number: 12345,
+    location_id: 'loc-789',
+    channel: 'express',
+    customer: { version: '0.1.4', _id: 'customer-123', name: 'Test Customer', organization_id: 'org-456' },
+    organization_id: 'org-456'
+};
+
+describe('Type Guards', () => {
+
+    describe('Generated guards', () => {
+        it('should be up to date with the interfaces', () => {
+            const typeGuards = resolveTypeGuards(DEFAULT_CONFIG, process.cwd())!;
+
+            expect(readFileSync(typeGuards.output, 'utf8')).toBe(generateTypeGuards(typeGuards));
+        });
+
+        it('should accept records matching the interfaces', () => {
+            expect(isOrderType1(validOrder)).toBe(true);
+            expect(isCustomer(validOrder.customer)).toBe(true);
+            expect(validateOrderType1({ ...validOrder, organization_id: undefined })).toEqual([]);
+        });
+
+        it('should list every mismatch with its JSON path', () => {
+            const malformed = { ...validOrder, order_number: '12345', channel: 'web', customer: { ...validOrder.customer, version: '0.2.0' } };
+            delete (malformed as any)._id;
+
+            expect(validateOrderType1(malformed)).toEqual([
+                { path: '$._id', message: 'is required' },
+                { path: '$.order_number', message: 'must be number (got string)' },
+                { path: '$.channel', message: 'must be one of ["rpos","express"]' },
+                { path: '$.customer.version', message: 'must be "0.1.4"' }
+            ]);
+            expect(validateOrderType2({ order_type: 'OrderType2' }).map(mismatch => mismatch.path))
+                .toEqual(['$.order_id', '$.order_number', '$.location_id', '$.channel', '$.customer']);
+        });
+    });
+
+    describe('parseTypes', () => {
+        let workDir: string;
+
+        beforeEach(() => {
+            workDir = mkdtempSync(join(tmpdir(), 'guards-'));
+        });
+
+        afterEach(() => {
+            rmSync(workDir, { recursive: true, force: true });
+        });
+
+        it('should convert interfaces, aliases, enums and generics', () => {
+            const file = join(workDir, 'Shipment.ts');
+            writeFileSync(file, [
+                'export enum Carrier { Ups = "ups", Dhl = "dhl" }',
+                'export type Weight = number | null;',
+                'interface Internal { ignored: string }',
+                'export interface Base { id: string }',
+                'export interface Shipment extends Base {',
+                '    carrier: Carrier;',
+                '    weight?: Weight;',
+                '    tags: Array<string>;',
+                '    labels: Record<string, boolean>;',
+                '    sent_at: Date | undefined;',
+                '    "tracking-code": { code: string; retries: 1 | 2 | 3 };',
+                '}'
+            ].join('\n'));
+
+            const parsed = parseTypes([file]);
+
+            expect(Object.keys(parsed.definitions)).toEqual(['Carrier', 'Weight', 'Base', 'Shipment']);
+            expect(parsed.definitions.Carrier).toEqual({ enum: ['ups', 'dhl'] });
+            expect(parsed.definitions.Weight).toEqual({ anyOf: [{ type: 'number' }, { type: 'null' }] });
+            expect(parsed.definitions.Shipment).toEqual({
+                allOf: [
+                    { $ref: '#/definitions/Base' },
+                    {
+                        type: 'object',
+                        properties: {
+                            carrier: { $ref: '#/definitions/Carrier' },
+                            weight: { $ref: '#/definitions/Weight' },
+                            tags: { type: 'array', items: { type: 'string' } },
+                            labels: { type: 'object', additionalProperties: { type: 'boolean' } },
+                            sent_at: {},
+                            'tracking-code': {
+                                type: 'object',
+                                properties: { code: { type: 'string' }, retries: { enum: [1, 2, 3] } },
+                                required: ['code', 'retries']
+                            }
+                        },
+                        required: ['carrier', 'tags', 'labels', 'tracking-code']
+                    }
+                ]
+            });
+        });
+
+        it('should reject the same type exported twice', () => {
+            writeFileSync(join(workDir, 'A.ts'), 'export interface Order { id: string }');
+            writeFileSync(join(workDir, 'B.ts'), 'export interface Order { id: number }');
+
+            expect(() => parseTypes([join(workDir, 'A.ts'), join(workDir, 'B.ts')])).toThrow('Type Order is exported by both');
+        });
+    });
+
+    describe('OrderTransformer type checks', () => {
+        const context = () => createDeterministicContext(1, Date.UTC(2024, 0, 1));
+
+        it('should not annotate matching records', () => {
+            expect(new OrderTransformer(context()).transform(validOrder).type_mismatches).toBeUndefined();
+        });
+
+        it('should annotate mismatching records by default', () => {
+            const result = new OrderTransformer(context()).transform({ ...validOrder, customer: null } as any);
+
+            expect(result.has_valid_customer).toBe(false);
+            expect(result.type_mismatches).toEqual([{ path: '$.customer', message: 'must be object (got null)' }]);
+        });
+
+        it('should throw a TypeMismatchError when rejecting', () => {
+            const transformer = new OrderTransformer(context(), { onTypeMismatch: 'reject' });
+            const malformed = { ...validOrder, order_number: 'n/a' } as any;
+
+            expect(() => transformer.transform(malformed)).toThrow(TypeMismatchError);
+            try {
+                transformer.transform(malformed);
+            } catch (error) {
+                expect((error as TypeMismatchError).details).toEqual({
+                    expected_type: 'OrderType1',
+                    mismatches: [{ path: '$.order_number', message: 'must be number (got string)' }]
+                });
+            }
+        });
+
+        it('should keep transforming records in the value transform entry point', () => {
+            const result = _streamkap_transform({ ...validOrder, channel: 'web' }, null, 'orders', Date.UTC(2024, 0, 1)) as MergedOrder;
+
+            expect(result.type_mismatches).toEqual([{ path: '$.channel', message: 'must be one of ["rpos","express"]' }]);
+        });
+    });
+});
@@ -0,0 +1,223 @@
+// TypeGuards.ts - Generated by build-multiple.js from src/Customer.ts, src/OrderType1.ts, src/OrderType2.ts, src/MergedOrder.ts
+// Do not edit by hand - change the interfaces and run npm run build to regenerate
+
+import { JsonSchemaValidator, SchemaValidationError } from './templates/schemaValidation';
+import { Customer } from './Customer';
+import { OrderType1 } from './OrderType1';
+import { OrderType2 } from './OrderType2';
+import { MergedOrder } from './MergedOrder';
+
+const definitions: { [name: string]: any } = {
+    "Customer": {
+        "type": "object",
+        "properties": {
+            "version": {
+                "const": "0.1.4"
+            },
+            "_id": {
+                "type": "string"
+            },
+            "name": {
+                "type": "string"
+            },
+            "organization_id": {
+                "type": "string"
+            }
+        },
+        "required": [
+            "version",
+            "_id",
+            "name",
+            "organization_id"
+        ]
+    },
+    "OrderType1": {
+        "type": "object",
+        "properties": {
+            "_id": {
+                "type": "string"
+            },
+            "order_type": {
+                "type": "string"
+            },
+            "order_number": {
+                "type": "number"
+            },
+            "location_id": {
+                "type": "string"
+            },
+            "channel": {
+                "enum": [
+                    "rpos",
+                    "express"
+                ]
+            },
+            "customer": {
+                "$ref": "#/definitions/Customer"
+            },
+            "organization_id": {
+                "type": "string"
+            }
+        },
+        "required": [
+            "_id",
+            "order_type",
+            "order_number",
+            "location_id",
+            "channel",
+            "customer"
+        ]
+    },
+    "OrderType2": {
+        "type": "object",
+        "properties": {
+            "order_id": {
+                "type": "string"
+            },
+            "order_type": {
+                "type": "string"
+            },
+            "order_number": {
+                "type": "number"
+            },
+            "location_id": {
+                "type": "string"
+            },
+            "channel": {
+                "enum": [
+                    "rpos",
+                    "express"
+                ]
+            },
+            "customer": {
+                "$ref": "#/definitions/Customer"
+            }
+        },
+        "required": [
+            "order_id",
+            "order_type",
+            "order_number",
+            "location_id",
+            "channel",
+            "customer"
+        ]
+    },
+    "MergedOrder": {
+        "type": "object",
+        "properties": {
+            "version": {
+                "const": "0.1.4"
+            },
+            "_id": {
+                "type": "string"
+            },
+            "order_number": {
+                "type": "number"
+            },
+            "location_id": {
+                "type": "string"
+            },
+            "order_type": {
+                "type": "string"
+            },
+            "channel": {
+                "enum": [
+                    "rpos",
+                    "express"
+                ]
+            },
+            "customer": {
+                "$ref": "#/definitions/Customer"
+            },
+            "organization_id": {
+                "type": "string"
+            },
+            "processed_at": {
+                "type": "string"
+            },
+            "processed_time": {
+                "type": "string"
+            },
+            "processing_id": {
+                "type": "string"
+            },
+            "has_valid_customer": {
+                "type": "boolean"
+            },
+            "field_count": {
+                "type": "number"
+            },
+            "type_mismatches": {
+                "type": "array",
+                "items": {}
+            }
+        },
+        "required": [
+            "version",
+            "_id",
+            "order_number",
+            "location_id",
+            "order_type",
+            "channel",
+            "customer",
+            "processed_at",
+            "processed_time",
+            "processing_id",
+            "has_valid_customer",
+            "field_count"
+        ]
+    }
+};
+
+const validators: { [name: string]: JsonSchemaValidator } = {};
+
+function validatorFor(name: string): JsonSchemaValidator {
+    if (!validators[name]) {
+        validators[name] = new JsonSchemaValidator({ $ref: `#/definitions/${name}`, definitions });
+    }
+    return validators[name];
+}
+
+/**
+ * List every way value differs from Customer, as JSON paths
+ */
+export function validateCustomer(value: any): SchemaValidationError[] {
+    return validatorFor('Customer').validate(value);
+}
+
+export function isCustomer(value: any): value is Customer {
+    return validateCustomer(value).length === 0;
+}
+
+/**
+ * List every way value differs from OrderType1, as JSON paths
+ */
+export function validateOrderType1(value: any): SchemaValidationError[] {
+    return validatorFor('OrderType1').validate(value);
+}
+
+export function isOrderType1(value: any): value is OrderType1 {
+    return validateOrderType1(value).length === 0;
+}
+
+/**
+ * List every way value differs from OrderType2, as JSON paths
+ */
+export function validateOrderType2(value: any): SchemaValidationError[] {
+    return validatorFor('OrderType2').validate(value);
+}
+
+export function isOrderType2(value: any): value is OrderType2 {
+    return validateOrderType2(value).length === 0;
+}
+
+/**
+ * List every way value differs from MergedOrder, as JSON paths
+ */
+export function validateMergedOrder(value: any): SchemaValidationError[] {
+    return validatorFor('MergedOrder').validate(value);
+}
+
+export function isMergedOrder(value: any): value is MergedOrder {
+    return validateMergedOrder(value).length === 0;
+}
@@ -0,0 +1,166 @@
+/**
+ * Tests for windowed aggregations
+ * These tests verify tumbling, sliding and session windows close on event time with allowed lateness and emit aggregate records
+ */
+
+import { FixedClock, createDeterministicContext, createRuntimeContext } from './templates/runtimeContext';
+import { defineValueTransform } from './templates/sdk';
+import { WindowOptionsError, WindowedAggregator, validateWindowOptions, windowedTransform } from './templates/windowing';
+
+const minute = 60000;
+
+const start = Date.UTC(2024, 0, 1);
+
+function at(ms: number) {
+    return new Date(start + ms).toISOString();
+}
+
+function perMinute(options: any = {}) {
+    return new WindowedAggregator({
+        window: { type: 'tumbling', sizeMs: minute },
+        keyBy: ['location_id'],
+        aggregates: { order_count: { op: 'count' }, revenue: { op: 'sum', field: 'amount' } },
+        ...options
+    }, createDeterministicContext(1, start));
+}
+
+describe('Windowing', () => {
+
+    describe('WindowedAggregator', () => {
+        it('should count orders per location per minute when the minute closes', () => {
+            const aggregator = perMinute();
+
+            expect(aggregator.add({ location_id: 'loc-1', amount: 10 }, start + 1000)).toEqual([]);
+            expect(aggregator.add({ location_id: 'loc-2', amount: 5 }, start + 2000)).toEqual([]);
+            expect(aggregator.add({ location_id: 'loc-1', amount: 'n/a' }, start + 59999)).toEqual([]);
+            expect(aggregator.add({ location_id: 'loc-1', amount: 7 }, start + minute)).toEqual([
+                { window_start: at(0), window_end: at(minute), location_id: 'loc-1', order_count: 2, revenue: 10 },
+                { window_start: at(0), window_end: at(minute), location_id: 'loc-2', order_count: 1, revenue: 5 }
+            ]);
+            expect(aggregator.flush()).toEqual([
+                { window_start: at(minute), window_end: at(2 * minute), location_id: 'loc-1', order_count: 1, revenue: 7 }
+            ]);
+        });
+
+        it('should wait for late records and drop those past the allowed lateness', () => {
+            const context = createDeterministicContext(1, start);
+            const aggregator = new WindowedAggregator({
+                window: { type: 'tumbling', sizeMs: minute },
+                aggregates: { order_count: { op: 'count' } },
+                allowedLatenessMs: 10000
+            }, context);
+
+            aggregator.add({}, start + 30000);
+            expect(aggregator.add({}, start + minute + 5000)).toEqual([]);
+            expect(aggregator.add({}, start + 50000)).toEqual([]);
+            expect(aggregator.add({}, start + minute + 10000)).toEqual([
+                { window_start: at(0), window_end: at(minute), order_count: 2 }
+            ]);
+            expect(aggregator.add({}, start + 55000)).toEqual([]);
+
+            expect(aggregator.stats()).toEqual({ records: 5, late: 1, emitted: 1, open: 1 });
+            expect(context.metrics.counter('transform_late_records_total', '').value()).toBe(1);
+        });
+
+        it('should read event time from a field in seconds or as an ISO date', () => {
+            const aggregator = perMinute({ timeField: 'created_at' });
+
+            aggregator.add({ location_id: 'loc-1', amount: 1, created_at: start / 1000 + 10 }, 0);
+            aggregator.add({ location_id: 'loc-1', amount: 2, created_at: at(20000) }, 0);
+
+            expect(aggregator.add({ location_id: 'loc-1', amount: 4, created_at: (start + minute) * 1000 }, 0)).toEqual([
+                { window_start: at(0), window_end: at(minute), location_id: 'loc-1', order_count: 2, revenue: 3 }
+            ]);
+        });
+
+        it('should fall back to the record timestamp when the time field is missing or unparseable', () => {
+            const aggregator = new WindowedAggregator({
+                window: { type: 'tumbling', sizeMs: minute },
+                aggregates: { order_count: { op: 'count' } },
+                timeField: 'created_at'
+            }, createRuntimeContext({ clock: new FixedClock(start + 10 * minute) }));
+
+            expect(aggregator.add({ created_at: at(10000) }, start + 10000)).toEqual([]);
+            expect(aggregator.add({}, start + 20000)).toEqual([]);
+            expect(aggregator.add({ created_at: 'not a date' }, start + 30000)).toEqual([]);
+            expect(aggregator.flush()).toEqual([{ window_start: at(0), window_end: at(minute), order_count: 3 }]);
+        });
+
+        it('should add records to every overlapping sliding window', () => {
+            const aggregator = new WindowedAggregator({
+                window: { type: 'sliding', sizeMs: 2 * minute, slideMs: minute },
+                aggregates: { orders: { op: 'count' }, smallest: { op: 'min', field: 'amount' }, largest: { op: 'max', field: 'amount' }, average: { op: 'avg', field: 'amount' } }
+            }, createRuntimeContext({ clock: new FixedClock(start) }));
+
+            const emitted = aggregator.add({ amount: 4 }, start + 30000).concat(aggregator.add({ amount: 8 }, start + 90000), aggregator.flush());
+
+            expect(emitted).toEqual([
+                { window_start: at(-minute), window_end: at(minute), orders: 1, smallest: 4, largest: 4, average: 4 },
+                { window_start: at(0), window_end: at(2 * minute), orders: 2, smallest: 4, largest: 8, average: 6 },
+                { window_start: at(minute), window_end: at(3 * minute), orders: 1, smallest: 8, largest: 8, average: 8 }
+            ]);
+        });
+
+        it('should merge sessions bridged by a record with custom reducers', () => {
+            const skus = { init: (): string[] => [], add: (list: string[], record: any) => list.concat(record.sku), merge: (a: string[], b: string[]) => a.concat(b), result: (list: string[]) => list.sort().join(',') };
+            const aggregator = new WindowedAggregator({
+                window: { type: 'session', gapMs: 30000 },
+                keyBy: ['customer.id'],
+                aggregates: { skus },
+                allowedLatenessMs: 30000
+            }, createDeterministicContext(1, start));
+
+            aggregator.add({ customer: { id: 'c1' }, sku: 'a' }, start);
+            aggregator.add({ customer: { id: 'c1' }, sku: 'c' }, start + 50000);
+            aggregator.add({ customer: { id: 'c1' }, sku: 'b' }, start + 25000);
+            expect(aggregator.stats().open).toBe(1);
+
+            expect(aggregator.add({ customer: { id: 'c2' }, sku: 'd' }, start + 200000)).toEqual([
+                { window_start: at(0), window_end: at(80000), customer_id: 'c1', skus: 'a,b,c' }
+            ]);
+        });
+
+        it('should close the window ending first when too many are open', () => {
+            const aggregator = perMinute({ maxOpenWindows: 2, allowedLatenessMs: minute });
+
+            aggregator.add({ location_id: 'loc-1' }, start + minute);
+            aggregator.add({ location_id: 'loc-2' }, start + minute);
+
+            expect(aggregator.add({ location_id: 'loc-3' }, start + 30000)).toMatchObject([{ location_id: 'loc-3', window_end: at(minute) }]);
+            expect(aggregator.stats().open).toBe(2);
+        });
+
+        it('should reject invalid options', () => {
+            expect(validateWindowOptions({
+                window: { type: 'sliding', sizeMs: minute, slideMs: 2 * minute },
+                aggregates: { total: { op: 'sum' }, median: { op: 'median' } },
+                allowedLatenessMs: -1
+            })).toEqual([
+                'window.slideMs must not exceed window.sizeMs',
+                'aggregates.total.field is required for sum',
+                'aggregates.median must be a reducer or have an op of: count, sum, min, max, avg',
+                'allowedLatenessMs must be a non-negative number'
+            ]);
+            expect(() => new WindowedAggregator({ window: { type: 'session', gapMs: 0 }, aggregates: { list: { init: () => [], add: (list: any[]) => list } } }))
+                .toThrow(new WindowOptionsError(['window.gapMs must be a positive number', 'aggregates.list needs a merge function in session windows']));
+        });
+    });
+
+    describe('Pipeline', () => {
+        it('should emit aggregates from a value transform, after the transform rows', () => {
+            const aggregator = perMinute();
+            const aggregatesOnly = defineValueTransform(windowedTransform(aggregator));
+
+            expect(aggregatesOnly({ location_id: 'loc-1', amount: 10 }, null, 'orders', start + 1000)).toBeNull();
+            expect(aggregatesOnly({ location_id: 'loc-1', amount: 20 }, null, 'orders', start + minute)).toEqual(
+                { window_start: at(0), window_end: at(minute), location_id: 'loc-1', order_count: 1, revenue: 10 }
+            );
+
+            const withRows = defineValueTransform(windowedTransform(aggregator, (record: { value: { location_id: string; amount: number } }) => ({ amount: record.value.amount })));
+            expect(withRows({ location_id: 'loc-1', amount: 30 }, null, 'orders', start + 2 * minute)).toEqual([
+                { amount: 30 },
+                { window_start: at(minute), window_end: at(2 * minute), location_id: 'loc-1', order_count: 1, revenue: 20 }
+            ]);
+        });
+    });
+});
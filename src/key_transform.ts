@@ -1,4 +1,8 @@
+import { defineKeyTransform } from "./templates/sdk";
+
+var transformKey = defineKeyTransform(record => record.key);
+
 //If you require no changes to the key - leave blank in streamkap
-export function _streamkap_transform_key(valueObject: any, keyObject: any, topic: any, timestamp: any) {
-    return keyObject;
-}
\ No newline at end of file
+export function _streamkap_transform_key(valueObject: unknown, keyObject: unknown, topic: string, timestamp: number) {
+    return transformKey(valueObject, keyObject, topic, timestamp);
+}
@@ -0,0 +1,272 @@
+// cdc.ts - Debezium change event support
+// Unwraps before/after/op envelopes into the row business logic works on, handles deletes and tombstones, and rewraps results
+
+import { ValueTransformFn, ValueTransformResult, StreamkapRecord, TransformContext } from './sdk';
+
+/**
+ * Debezium operations: create, update, delete and read (snapshot)
+ */
+export type CdcOperation = 'c' | 'u' | 'd' | 'r';
+
+/**
+ * Connector metadata of a change event
+ * Which position fields are set depends on the connector, see sourcePosition
+ */
+export interface DebeziumSource {
+    connector?: string;
+    db?: string;
+    schema?: string;
+    table?: string;
+    ts_ms?: number;
+    snapshot?: boolean | string;
+    // PostgreSQL
+    lsn?: number | string;
+    // MySQL
+    file?: string;
+    pos?: number;
+    row?: number;
+    // SQL Server
+    change_lsn?: string;
+    commit_lsn?: string;
+    // Oracle
+    scn?: string;
+    [field: string]: any;
+}
+
+export interface DebeziumEnvelope<T = any> {
+    before: T | null;
+    after: T | null;
+    op: CdcOperation;
+    source?: DebeziumSource;
+    // When the connector processed the change
+    ts_ms?: number;
+}
+
+/**
+ * What happens to delete events
+ * - tombstone: the delete envelope (after: null) is emitted, the explicit delete event. Needs rewrap:
+ *   an unwrapped null value would filter the record out, the same as drop
+ * - soft-delete: the row as it was before the delete goes through the transform, flagged with softDeleteField: true
+ * - drop: nothing is emitted for the delete
+ */
+export type CdcDeleteMode = 'tombstone' | 'soft-delete' | 'drop';
+
+export interface CdcOptions {
+    // Defaults to drop
+    deletes?: CdcDeleteMode;
+    // Soft-delete flag, set to false on every other row so all rows share one schema. Defaults to __deleted
+    softDeleteField?: string;
+    // Emit results as envelopes with the original before, op and source, instead of plain rows
+    rewrap?: boolean;
+}
+
+/**
+ * One change event, as passed to business logic
+ */
+export interface CdcChange<T = any> {
+    op: CdcOperation;
+    // The row to transform: after for creates, updates and reads, before for deletes
+    row: T | null;
+    before: T | null;
+    after: T | null;
+    deleted: boolean;
+    // Initial snapshot read rather than a live change
+    snapshot: boolean;
+    source: DebeziumSource;
+    // Connector position of the change (LSN, binlog file:pos, SCN), undefined when the source has none
+    position?: string;
+    ts_ms?: number;
+}
+
+export const DEFAULT_SOFT_DELETE_FIELD = '__deleted';
+
+const OPERATIONS: CdcOperation[] = ['c', 'u', 'd', 'r'];
+
+const DELETE_MODES: CdcDeleteMode[] = ['tombstone', 'soft-delete', 'drop'];
+
+/**
+ * Thrown by unwrapChange for values that are not change events
+ */
+export class CdcEnvelopeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CdcEnvelopeError';
+        Object.setPrototypeOf(this, CdcEnvelopeError.prototype);
+    }
+}
+
+/**
+ * Thrown by cdcTransform and ValueTransform for invalid CDC options
+ */
+export class CdcOptionsError extends Error {
+    constructor(public readonly issues: string[]) {
+        super(`Invalid CDC options: ${issues.join('; ')}`);
+        this.name = 'CdcOptionsError';
+        Object.setPrototypeOf(this, CdcOptionsError.prototype);
+    }
+}
+
+/**
+ * List every problem in CDC options, empty when they are valid
+ */
+export function validateCdcOptions(options: any): string[] {
+    const issues: string[] = [];
+    if (!options || typeof options !== 'object') {
+        return ['options must be an object'];
+    }
+    if (options.deletes !== undefined && DELETE_MODES.indexOf(options.deletes) === -1) {
+        issues.push(`deletes must be one of: ${DELETE_MODES.join(', ')}`);
+    }
+    if (options.deletes === 'tombstone' && !options.rewrap) {
+        issues.push('deletes: tombstone needs rewrap, an unwrapped null value is filtered out like drop');
+    }
+    if (options.softDeleteField !== undefined && (typeof options.softDeleteField !== 'string' || options.softDeleteField === '')) {
+        issues.push('softDeleteField must be a non-empty string');
+    }
+    return issues;
+}
+
+/**
+ * True for a Debezium envelope, also when wrapped in { schema, payload } by the JSON converter
+ */
+export function isDebeziumEnvelope(value: any): value is DebeziumEnvelope {
+    const envelope = payloadOf(value);
+    return Boolean(envelope) && typeof envelope === 'object' && OPERATIONS.indexOf(envelope.op) !== -1
+        && ('before' in envelope || 'after' in envelope);
+}
+
+/**
+ * Position of the change in the source database's log, comparable between events of one connector
+ * - PostgreSQL: lsn
+ * - MySQL: file:pos, with :row when one event changed several rows
+ * - SQL Server: commit_lsn:change_lsn
+ * - Oracle: scn
+ */
+export function sourcePosition(source: DebeziumSource | undefined): string | undefined {
+    if (!source) {
+        return undefined;
+    }
+    if (source.lsn !== undefined && source.lsn !== null) {
+        return String(source.lsn);
+    }
+    if (source.file && source.pos !== undefined) {
+        return source.row ? `${source.file}:${source.pos}:${source.row}` : `${source.file}:${source.pos}`;
+    }
+    if (source.change_lsn || source.commit_lsn) {
+        return [source.commit_lsn, source.change_lsn].filter(Boolean).join(':');
+    }
+    return source.scn ? String(source.scn) : undefined;
+}
+
+/**
+ * Read a change event
+ * @throws CdcEnvelopeError when the value is not a Debezium envelope
+ */
+export function unwrapChange<T = any>(value: DebeziumEnvelope<T> | { payload: DebeziumEnvelope<T> }): CdcChange<T> {
+    if (!isDebeziumEnvelope(value)) {
+        throw new CdcEnvelopeError('Record is not a change event with before, after and op (c, u, d or r)');
+    }
+    const envelope = payloadOf(value) as DebeziumEnvelope<T>;
+    const source = envelope.source || {};
+    const before = envelope.before !== undefined ? envelope.before : null;
+    const after = envelope.after !== undefined ? envelope.after : null;
+    const deleted = envelope.op === 'd';
+
+    return {
+        op: envelope.op,
+        row: deleted ? before : after,
+        before,
+        after,
+        deleted,
+        // Debezium marks the last snapshot record "last" and incremental snapshots "incremental"
+        snapshot: envelope.op === 'r' || (source.snapshot !== undefined && source.snapshot !== false && source.snapshot !== 'false'),
+        source,
+        position: sourcePosition(envelope.source),
+        ts_ms: envelope.ts_ms
+    };
+}
+
+/**
+ * Wrap a transformed row back into an envelope of the change it came from
+ */
+export function rewrapChange<R>(change: CdcChange, after: R | null): DebeziumEnvelope<R> {
+    const envelope: DebeziumEnvelope<R> = { before: change.before, after, op: change.op, source: change.source };
+    if (change.ts_ms !== undefined) {
+        envelope.ts_ms = change.ts_ms;
+    }
+    return envelope;
+}
+
+/**
+ * False when the change is a delete the transform does not see - use deleteResult for its value
+ */
+export function transformsChange(change: CdcChange, options: CdcOptions = {}): boolean {
+    return !change.deleted || options.deletes === 'soft-delete';
+}
+
+/**
+ * Value emitted for a delete the transform does not see
+ */
+export function deleteResult(change: CdcChange, options: CdcOptions = {}): DebeziumEnvelope<null> | null {
+    return options.deletes === 'tombstone' ? rewrapChange(change, null) : null;
+}
+
+/**
+ * Apply the soft-delete flag and rewrapping to what the transform returned for a change
+ */
+export function completeChange<R>(change: CdcChange, result: ValueTransformResult<R>, options: CdcOptions = {}): any {
+    if (result === null || result === undefined) {
+        return null;
+    }
+    const complete = (row: R) => {
+        const flagged = options.deletes === 'soft-delete' && row && typeof row === 'object'
+            ? { ...row, [options.softDeleteField || DEFAULT_SOFT_DELETE_FIELD]: change.deleted }
+            : row;
+        return options.rewrap ? rewrapChange(change, flagged) : flagged;
+    };
+    return Array.isArray(result) ? result.map(complete) : complete(result);
+}
+
+/**
+ * Run a transform on the row of a change event
+ * Tombstones (null values) stay tombstones without calling the transform
+ */
+export function transformChange<T, R>(value: DebeziumEnvelope<T> | null, options: CdcOptions,
+    transform: (row: T, change: CdcChange<T>) => ValueTransformResult<R>): any {
+    if (value === null || value === undefined) {
+        return null;
+    }
+    const change = unwrapChange(value);
+    if (!transformsChange(change, options)) {
+        return deleteResult(change, options);
+    }
+    return completeChange(change, transform(change.row as T, change), options);
+}
+
+export type CdcTransformFn<T = unknown, K = unknown, R = T> =
+    (record: StreamkapRecord<T, K>, change: CdcChange<T>, context: TransformContext) => ValueTransformResult<R>;
+
+/**
+ * Value transform for change events, for use with defineValueTransform
+ * The transform gets the unwrapped row as record.value and the op and source position in change:
+ *
+ *     const transformValue = defineValueTransform(cdcTransform<Customer>((record, change) =>
+ *         ({ ...record.value, changed_at: change.position }), { deletes: 'soft-delete' }));
+ *
+ * @throws CdcOptionsError when the options are invalid
+ */
+export function cdcTransform<T = unknown, K = unknown, R = T>(transform: CdcTransformFn<T, K, R>,
+    options: CdcOptions = {}): ValueTransformFn<DebeziumEnvelope<T> | null, K, R | DebeziumEnvelope<R | null>> {
+    const issues = validateCdcOptions(options);
+    if (issues.length > 0) {
+        throw new CdcOptionsError(issues);
+    }
+    return (record, context) => transformChange(record.value, options,
+        (row: T, change: CdcChange<T>) => transform({ value: row, key: record.key }, change, context));
+}
+
+function payloadOf(value: any): any {
+    return value && typeof value === 'object' && !('op' in value) && value.payload && typeof value.payload === 'object'
+        ? value.payload
+        : value;
+}
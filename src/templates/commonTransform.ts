@@ -3,7 +3,20 @@
 
 import moment from "moment";
 import _ from "lodash";
-import { v4 as uuidv4 } from "uuid";
+import { CdcChange } from "./cdc";
+import { Enricher } from "./enrichment";
+import { FlattenOptions, Flattener } from "./flattener";
+import { LogFields, LogLevel, recordFields } from "./logger";
+import { Masker } from "./masking";
+import { Counter, Histogram } from "./metrics";
+import { RuntimeContext, createRuntimeContext } from "./runtimeContext";
+
+export interface CommonTransformOptions {
+    // Used by enrichRecord, defaults to an example provider - see enrichment.ts for HttpEnrichmentProvider
+    enricher?: Enricher;
+    // Masks PII in error contexts, defaults to the transform's masking policy in streamkap.config
+    masker?: Masker;
+}
 
 /**
  * Common transformation utilities for Streamkap transforms
@@ -11,14 +24,32 @@ import { v4 as uuidv4 } from "uuid";
  */
 export class CommonTransform {
     
+    private enricher: Enricher;
+    private masker: Masker;
+    private enrichmentDuration: Histogram;
+    private enrichmentFailures: Counter;
+    
+    /**
+     * @param context - Clock, ID generator and random source; pass a deterministic one for tests and replays
+     * @param options - Enricher used for enrich_async transforms, masker for error contexts
+     */
+    constructor(private context: RuntimeContext = createRuntimeContext(), options: CommonTransformOptions = {}) {
+        this.enricher = options.enricher || this.createExampleEnricher();
+        this.masker = options.masker || new Masker();
+        this.enrichmentDuration = context.metrics.histogram('transform_enrichment_duration_ms', 'Time to look up enrichment data, in milliseconds');
+        this.enrichmentFailures = context.metrics.counter('transform_enrichment_failures_total', 'Records passed on with enrichment_error set');
+    }
+    
     /**
      * Transform your data structure here
      * Replace InputType and OutputType with your actual data interfaces
+     * 
+     * @param change - In CDC mode, the change event the record was unwrapped from (op, before, source position)
      */
-    public transformRecord(inputRecord: any, timestamp?: number): any {
+    public transformRecord(inputRecord: any, timestamp?: number, change?: CdcChange): any {
         // Example transformation - replace with your business logic
-        const now = moment();
-        const normalizedTimestamp = this.normalizeTimestamp(timestamp || Date.now());
+        const now = moment(this.context.clock.now());
+        const normalizedTimestamp = this.normalizeTimestamp(timestamp || this.context.clock.now());
         
         // Example using lodash for data manipulation
         const cleanedRecord = _.omitBy(inputRecord, _.isUndefined);
@@ -29,8 +60,8 @@ export class CommonTransform {
             (cleanedRecord.order_id && !_.isEmpty(cleanedRecord.order_id))
         );
         
-        // Example using uuid for unique identifiers
-        const processingId = uuidv4();
+        // Unique identifier from the context (random UUID by default, content-derived for idempotent writes)
+        const processingId = this.context.ids.generate(inputRecord);
         
         return {
             // Copy original fields (customize based on your data structure)
@@ -54,7 +85,7 @@ export class CommonTransform {
      */
     public normalizeTimestamp(timestamp: number): number {
         if (typeof timestamp !== 'number' || isNaN(timestamp) || timestamp <= 0) {
-            return Date.now();
+            return this.context.clock.now();
         }
         
         // Determine timestamp precision based on magnitude
@@ -98,12 +129,14 @@ export class CommonTransform {
     
     /**
      * Enhanced input validation with detailed checks
+     * A null record is a Kafka tombstone (a deleted key), reported as tombstone rather than as an error
      */
-    public validateInput(record: any, keyObject: any, topic: string, timestamp: number): { valid: boolean; errors: string[] } {
+    public validateInput(record: any, keyObject: any, topic: string, timestamp: number): { valid: boolean; errors: string[]; tombstone: boolean } {
         const errors: string[] = [];
+        const tombstone = record === null;
         
         // Validate record
-        if (!record || typeof record !== 'object') {
+        if (!tombstone && (!record || typeof record !== 'object')) {
             errors.push('Record must be a non-null object');
         }
         
@@ -117,7 +150,7 @@ export class CommonTransform {
             errors.push('Topic must be a non-empty string');
         }
         
-        return { valid: errors.length === 0, errors };
+        return { valid: errors.length === 0, errors, tombstone };
     }
     
     /**
@@ -144,39 +177,34 @@ export class CommonTransform {
     
     /**
      * Enhanced error context for better debugging
+     * Sensitive values of the record are masked in the message, stack and record_id, so they stay out of logs
      */
     public createErrorContext(error: any, operation: string, record?: any): any {
+        const idField = ['id', '_id', 'order_id'].filter(field => record?.[field])[0];
         return {
-            error_message: error instanceof Error ? error.message : String(error),
+            error_message: this.masker.scrub(error instanceof Error ? error.message : String(error), record),
             error_operation: operation,
-            error_timestamp: new Date().toISOString(),
-            error_stack: error instanceof Error ? error.stack : undefined,
-            record_id: record?.id || record?._id || record?.order_id || 'unknown',
+            error_timestamp: new Date(this.context.clock.now()).toISOString(),
+            error_stack: error instanceof Error && error.stack ? this.masker.scrub(error.stack, record) : undefined,
+            record_id: idField ? this.masker.maskAt(idField, record[idField]) : 'unknown',
             record_type: record?.type || typeof record
         };
     }
     
     /**
-     * Structured logging with levels
+     * Structured logging with levels, through the context's logger
+     * 
+     * @param fields - Correlation fields of the record, see logFields
      */
-    public log(level: 'info' | 'warn' | 'error', message: string, context?: any): void {
-        const logEntry = {
-            level,
-            message,
-            timestamp: new Date().toISOString(),
-            context
-        };
-        
-        switch (level) {
-            case 'error':
-                console.error(JSON.stringify(logEntry));
-                break;
-            case 'warn':
-                console.warn(JSON.stringify(logEntry));
-                break;
-            default:
-                console.log(JSON.stringify(logEntry));
-        }
+    public log(level: LogLevel, message: string, context?: any, fields?: LogFields): void {
+        (fields ? this.context.logger.child(fields) : this.context.logger).log(level, message, context);
+    }
+    
+    /**
+     * Topic, key and id of a record for log entries, masked like the record
+     */
+    public logFields(topic: string, keyObject: any, record: any): LogFields {
+        return recordFields(topic, keyObject, record, this.masker);
     }
     
     /**
@@ -343,18 +371,24 @@ export class CommonTransform {
                 this.log('warn', 'Data validation issues during enrichment', { issues: validation.issues });
             }
             
-            // Simulate API call for enrichment
-                const recordId = record?.id || record?._id || record?.order_id;
+            // Look up enrichment data by record ID (cached, with timeout, retries and circuit breaker)
+            const recordId = record?.id || record?._id || record?.order_id;
             if (!recordId) {
                 throw new Error('No valid ID found for enrichment');
             }
             
-            const enrichmentData = await this.simulateApiCall(String(recordId));
+            const started = this.context.clock.now();
+            let enrichmentData: any;
+            try {
+                enrichmentData = await this.enricher.get(String(recordId));
+            } finally {
+                this.enrichmentDuration.observe(this.context.clock.now() - started);
+            }
             
             const enrichedRecord = {
                 ...record,
-                enrichment: enrichmentData,
-                enriched_at: new Date().toISOString(),
+                enrichment: enrichmentData === undefined ? null : enrichmentData,
+                enriched_at: new Date(this.context.clock.now()).toISOString(),
                 enrichment_version: '1.0.0'
             };
             
@@ -363,7 +397,8 @@ export class CommonTransform {
             
         } catch (error) {
             const errorContext = this.createErrorContext(error, 'enrichRecord', record);
-            this.log('error', 'Enrichment failed', errorContext);
+            this.log('error', 'Enrichment failed', errorContext, recordFields(undefined, undefined, record, this.masker));
+            this.enrichmentFailures.inc();
             return {
                 ...record,
                 enrichment_error: true,
@@ -374,70 +409,55 @@ export class CommonTransform {
     
     /**
      * Flatten nested objects for un_nesting transforms
+     * e.g. { user: { id: 1 }, items: [{ sku: 'a' }] } becomes { user_id: 1, items_0_sku: 'a' }
      */
-    public flattenRecord(record: any): any {
+    public flattenRecord(record: any, options: FlattenOptions = {}): any {
+        return this.flattenRows(record, { ...options, explode: [], arrays: options.arrays === 'explode' ? 'index' : options.arrays })[0];
+    }
+    
+    /**
+     * Flatten a record into its parent row and one child row per element of each exploded array
+     */
+    public flattenRows(record: any, options: FlattenOptions = {}): any[] {
         // Validate input first
         const validation = this.validateDataTypes(record);
         if (!validation.valid) {
             this.log('warn', 'Data validation issues during flattening', { issues: validation.issues });
         }
         
-        // Example flattening logic - customize for your data structure
-        const flattened = { ...record };
-        
-        if (record.user) {
-            flattened.user_id = record.user.id;
-            flattened.user_name = record.user.name;
-            flattened.user_email = record.user.email;
-            delete flattened.user;
-        }
-        
-        if (record.metadata) {
-            Object.keys(record.metadata).forEach(key => {
-                flattened[`metadata_${key}`] = record.metadata[key];
-            });
-            delete flattened.metadata;
-        }
+        const flattenedAt = new Date(this.context.clock.now()).toISOString();
         
-        const result = {
-            ...flattened,
-            flattened_at: new Date().toISOString(),
+        return new Flattener(options).flattenRows(record).map(row => this.removeUndefinedValues({
+            ...row,
+            flattened_at: flattenedAt,
             original_structure_preserved: false,
-            flatten_version: '1.0.0'
-        };
-        
-        // Memory optimization
-        return this.removeUndefinedValues(result);
+            flatten_version: '2.0.0'
+        }));
     }
     
     /**
-     * Private helper: Simulate API call with timeout and error handling
-     * Replace with your actual API integration
+     * Private helper: Example enrichment provider
+     * Replace with an HttpEnrichmentProvider for your API, or pass your own Enricher in the options
      */
-    private async simulateApiCall(id: string): Promise<any> {
-        return new Promise((resolve, reject) => {
-            // Simulate network timeout
-            const timeout = setTimeout(() => {
-                reject(new Error('API call timeout after 5 seconds'));
-            }, 5000);
-            
-            setTimeout(() => {
-                clearTimeout(timeout);
-                
-                // Simulate occasional API failures
-                if (Math.random() < 0.1) { // 10% failure rate for testing
-                    reject(new Error('Simulated API failure'));
-                    return;
-                }
-                
-                resolve({
-                    external_id: `ext_${id}`,
-                    score: Math.floor(Math.random() * 100),
-                    category: 'premium',
-                    enriched_timestamp: new Date().toISOString(),
-                    api_version: '1.2.3'
-                });
-            }, 100);
+    private createExampleEnricher(): Enricher {
+        const score = (id: string) => ({
+            external_id: `ext_${id}`,
+            score: Math.floor(this.context.random.next() * 100),
+            category: 'premium',
+            api_version: '1.2.3'
         });
+
+        // Batching groups the lookups of records enriched concurrently into one lookupMany call
+        return new Enricher({
+            name: 'example-scores',
+            lookup: async (id: string) => score(id),
+            lookupMany: async (ids: string[]) => {
+                const found: { [id: string]: any } = {};
+                ids.forEach(id => {
+                    found[id] = score(id);
+                });
+                return found;
+            }
+        }, { batching: true }, this.context);
     }
 }
\ No newline at end of file
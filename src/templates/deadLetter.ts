@@ -0,0 +1,147 @@
+// deadLetter.ts - Unified error envelope and dead-letter policy for failed records
+// Every transform stage reports failures in the same envelope, so one DLQ topic holds one schema
+
+import { Masker } from './masking';
+import { RuntimeContext, createRuntimeContext } from './runtimeContext';
+
+/**
+ * What happens to a record whose transformation failed
+ * - drop: filter the record out (the value transform returns null)
+ * - pass-through: emit the original record unchanged
+ * - dead-letter: emit an ErrorEnvelope, routed to the dead-letter topic by the topic transform
+ */
+export type DeadLetterMode = 'drop' | 'pass-through' | 'dead-letter';
+
+export interface DeadLetterPolicy {
+    mode: DeadLetterMode;
+    // Topic failed records are routed to in dead-letter mode
+    topic?: string;
+}
+
+export type TransformStage = 'value' | 'key' | 'topic' | 'value_schema' | 'key_schema';
+
+/**
+ * The one shape every failed record takes
+ */
+export interface ErrorEnvelope {
+    _streamkap_error: true;
+    error_type: string;
+    error_message: string;
+    error_stage: TransformStage;
+    error_operation: string;
+    error_timestamp: string;
+    // Structured detail such as validation errors or type mismatches
+    error_details?: any;
+    record_id: string;
+    source_topic?: string;
+    source_key?: any;
+    source_timestamp?: number;
+    original_value: any;
+}
+
+/**
+ * Failure location passed to the handler
+ */
+export interface FailureContext {
+    stage: TransformStage;
+    operation: string;
+    valueObject: any;
+    keyObject?: any;
+    topic?: string;
+    timestamp?: number;
+}
+
+export const DEFAULT_DEAD_LETTER_TOPIC = 'streamkap-dead-letter';
+
+export const DEFAULT_DEAD_LETTER_POLICY: DeadLetterPolicy = { mode: 'dead-letter', topic: DEFAULT_DEAD_LETTER_TOPIC };
+
+// Replaced at build time with the transform's deadLetter setting from streamkap.config, as a JSON string
+// (an object define would be hoisted into top-level variables that rename the entry point parameters)
+declare const STREAMKAP_DEAD_LETTER_POLICY: string | undefined;
+
+/**
+ * Dead-letter policy of the bundle being built, or the default outside a build
+ */
+export function configuredDeadLetterPolicy(): DeadLetterPolicy {
+    return typeof STREAMKAP_DEAD_LETTER_POLICY !== 'undefined' ? JSON.parse(STREAMKAP_DEAD_LETTER_POLICY) : DEFAULT_DEAD_LETTER_POLICY;
+}
+
+export function isErrorEnvelope(value: any): value is ErrorEnvelope {
+    return !!value && typeof value === 'object' && value._streamkap_error === true;
+}
+
+/**
+ * Dead Letter Handler Class
+ *
+ * Turns failures into error envelopes and applies the dead-letter policy.
+ * Errors may carry structured detail in a `details` property.
+ * Envelopes and passed-through records are masked with the transform's masking policy.
+ */
+export class DeadLetterHandler {
+    private policy: DeadLetterPolicy;
+
+    constructor(
+        policy: DeadLetterPolicy = configuredDeadLetterPolicy(),
+        private context: RuntimeContext = createRuntimeContext(),
+        private masker: Masker = new Masker()
+    ) {
+        this.policy = { mode: policy.mode, topic: policy.topic || DEFAULT_DEAD_LETTER_TOPIC };
+    }
+
+    public get mode(): DeadLetterMode {
+        return this.policy.mode;
+    }
+
+    public get topic(): string {
+        return this.policy.topic!;
+    }
+
+    /**
+     * Build the error envelope for a failure
+     */
+    public createEnvelope(error: any, failure: FailureContext): ErrorEnvelope {
+        const record = failure.valueObject;
+        const idField = ['id', '_id', 'order_id'].filter(field => record?.[field])[0];
+        const envelope: ErrorEnvelope = {
+            _streamkap_error: true,
+            error_type: error instanceof Error ? error.name : typeof error,
+            error_message: this.masker.scrub(error instanceof Error ? error.message : String(error), record, failure.keyObject),
+            error_stage: failure.stage,
+            error_operation: failure.operation,
+            error_timestamp: new Date(this.context.clock.now()).toISOString(),
+            record_id: idField ? String(this.masker.maskAt(idField, record[idField])) : 'unknown',
+            original_value: this.masker.mask(record)
+        };
+
+        if (error && error.details !== undefined) envelope.error_details = error.details;
+        if (failure.topic !== undefined) envelope.source_topic = failure.topic;
+        if (failure.keyObject !== undefined) envelope.source_key = this.masker.maskAt('source_key', failure.keyObject);
+        if (failure.timestamp !== undefined) envelope.source_timestamp = failure.timestamp;
+
+        return envelope;
+    }
+
+    /**
+     * Value to emit for a failed record: null (drop), the original record (pass-through) or an envelope
+     */
+    public handle(error: any, failure: FailureContext): any {
+        switch (this.policy.mode) {
+            case 'drop':
+                return null;
+            case 'pass-through':
+                return failure.stage === 'key' || failure.stage === 'key_schema'
+                    ? this.masker.maskAt('source_key', failure.keyObject)
+                    : this.masker.mask(failure.valueObject);
+            default:
+                return this.createEnvelope(error, failure);
+        }
+    }
+
+    /**
+     * Topic for a record: the dead-letter topic in dead-letter mode when the value or the key is an envelope
+     * (key schema failures put theirs on the key), otherwise the given topic
+     */
+    public route<T>(value: any, topic: T, keyObject?: any): T | string {
+        return this.policy.mode === 'dead-letter' && (isErrorEnvelope(value) || isErrorEnvelope(keyObject)) ? this.policy.topic! : topic;
+    }
+}
@@ -0,0 +1,297 @@
+// dedup.ts - Stateful deduplication of records by idempotency key
+// Remembers the keys seen within a bounded window, exactly (LRU with a time to live) or in Bloom filters
+
+import { LruCache } from './enrichment';
+import { parseFieldPath, readFieldPath } from './fieldPath';
+import { Counter } from './metrics';
+import { Clock, RuntimeContext, createRuntimeContext } from './runtimeContext';
+import { ValueTransformFn } from './sdk';
+
+/**
+ * Fixed memory for any number of keys, at the cost of dropping a small fraction of records that were never seen
+ */
+export interface BloomOptions {
+    // Keys expected per window - the filters are sized for this many
+    expectedKeys: number;
+    // Chance that a new key is taken for a duplicate while at most expectedKeys were seen, defaults to 0.001
+    falsePositiveRate?: number;
+}
+
+export interface DedupPolicy {
+    // Dotted paths of the fields forming the idempotency key, e.g. ["_id", "order_number"]; $key.<path> reads the record key
+    key: string[];
+    // How long a key is remembered from when it was first seen, defaults to DEFAULT_DEDUP_WINDOW_MS
+    windowMs?: number;
+    // Keys remembered at most - the least recently seen are forgotten first, defaults to DEFAULT_DEDUP_MAX_ENTRIES
+    maxEntries?: number;
+    // Remember keys in Bloom filters instead of exactly, maxEntries is then not used
+    bloom?: BloomOptions;
+}
+
+export interface DedupStats {
+    checked: number;
+    duplicates: number;
+    // Records missing a key field, which are never taken for duplicates
+    unkeyed: number;
+}
+
+export const DEFAULT_DEDUP_WINDOW_MS = 60 * 60 * 1000;
+
+export const DEFAULT_DEDUP_MAX_ENTRIES = 100000;
+
+export const DEFAULT_FALSE_POSITIVE_RATE = 0.001;
+
+// Replaced at build time with the transform's dedup policy from streamkap.config, as a JSON string
+declare const STREAMKAP_DEDUP_POLICY: string | undefined;
+
+/**
+ * Dedup policy of the bundle being built, or undefined when it does not deduplicate
+ */
+export function configuredDedupPolicy(): DedupPolicy | undefined {
+    return typeof STREAMKAP_DEDUP_POLICY !== 'undefined' ? JSON.parse(STREAMKAP_DEDUP_POLICY) : undefined;
+}
+
+/**
+ * Thrown when a Deduplicator is created from an invalid policy
+ */
+export class DedupPolicyError extends Error {
+    constructor(public readonly issues: string[]) {
+        super(`Invalid dedup policy: ${issues.join('; ')}`);
+        this.name = 'DedupPolicyError';
+        Object.setPrototypeOf(this, DedupPolicyError.prototype);
+    }
+}
+
+/**
+ * List every problem in a dedup policy, empty when it is valid
+ */
+export function validateDedupPolicy(policy: any): string[] {
+    const issues: string[] = [];
+
+    if (!policy || typeof policy !== 'object') {
+        return ['Dedup policy must be an object with a "key" array'];
+    }
+
+    Object.keys(policy).forEach(name => {
+        if (['key', 'windowMs', 'maxEntries', 'bloom'].indexOf(name) === -1) {
+            issues.push(`${name} is not one of: key, windowMs, maxEntries, bloom`);
+        }
+    });
+    if (!Array.isArray(policy.key) || policy.key.length === 0 || policy.key.some((field: any) => typeof field !== 'string' || field.length === 0)) {
+        issues.push('key must be a non-empty array of field paths');
+    }
+    ['windowMs', 'maxEntries'].forEach(name => {
+        if (policy[name] !== undefined && !isPositiveInteger(policy[name])) {
+            issues.push(`${name} must be a positive integer`);
+        }
+    });
+
+    const bloom = policy.bloom;
+    if (bloom !== undefined) {
+        if (!bloom || typeof bloom !== 'object') {
+            issues.push('bloom must be an object');
+        } else {
+            if (!isPositiveInteger(bloom.expectedKeys)) {
+                issues.push('bloom.expectedKeys must be a positive integer');
+            }
+            if (bloom.falsePositiveRate !== undefined && !(typeof bloom.falsePositiveRate === 'number' && bloom.falsePositiveRate > 0 && bloom.falsePositiveRate < 1)) {
+                issues.push('bloom.falsePositiveRate must be between 0 and 1');
+            }
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Bloom filter over strings
+ * Sized for an expected number of keys and false positive rate, with k bit positions per key from double hashing
+ */
+export class BloomFilter {
+    public readonly bits: number;
+    public readonly hashes: number;
+    private words: number[] = [];
+
+    constructor(expectedKeys: number, falsePositiveRate = DEFAULT_FALSE_POSITIVE_RATE) {
+        this.bits = Math.max(32, Math.ceil(-expectedKeys * Math.log(falsePositiveRate) / (Math.LN2 * Math.LN2)));
+        this.hashes = Math.max(1, Math.round(this.bits / expectedKeys * Math.LN2));
+        for (let i = 0; i < Math.ceil(this.bits / 32); i++) {
+            this.words.push(0);
+        }
+    }
+
+    public add(value: string): void {
+        this.positions(value).forEach(bit => this.words[bit >>> 5] |= 1 << (bit & 31));
+    }
+
+    public has(value: string): boolean {
+        return this.positions(value).every(bit => (this.words[bit >>> 5] & (1 << (bit & 31))) !== 0);
+    }
+
+    private positions(value: string): number[] {
+        const first = fnv1a(value);
+        const second = djb2(value);
+        const positions: number[] = [];
+        for (let i = 0; i < this.hashes; i++) {
+            positions.push((first + i * second) % this.bits);
+        }
+        return positions;
+    }
+}
+
+// Keys seen within the window - both stores answer whether a key was seen, and remember it if not
+interface KeyStore {
+    checkAndAdd(key: string): boolean;
+}
+
+// Exact: a key is remembered for the window from when it was first seen, unless more recent keys push it out
+class LruKeyStore implements KeyStore {
+    private cache: LruCache<true>;
+
+    constructor(maxEntries: number, windowMs: number, clock: Clock) {
+        this.cache = new LruCache<true>(maxEntries, windowMs, clock);
+    }
+
+    public checkAndAdd(key: string): boolean {
+        if (this.cache.get(key)) {
+            return true;
+        }
+        this.cache.set(key, true);
+        return false;
+    }
+}
+
+// Approximate: two generations of filters, the older one dropped every window, so a key is remembered for one to two windows
+class BloomKeyStore implements KeyStore {
+    private current: BloomFilter;
+    private previous?: BloomFilter;
+    private started: number;
+
+    constructor(private options: BloomOptions, private windowMs: number, private clock: Clock) {
+        this.current = new BloomFilter(options.expectedKeys, options.falsePositiveRate);
+        this.started = clock.now();
+    }
+
+    public checkAndAdd(key: string): boolean {
+        const now = this.clock.now();
+        if (now - this.started >= this.windowMs) {
+            // A whole window without records forgets everything
+            this.previous = now - this.started < 2 * this.windowMs ? this.current : undefined;
+            this.current = new BloomFilter(this.options.expectedKeys, this.options.falsePositiveRate);
+            this.started = now;
+        }
+        if (this.current.has(key) || (this.previous && this.previous.has(key))) {
+            return true;
+        }
+        this.current.add(key);
+        return false;
+    }
+}
+
+/**
+ * Deduplicator Class
+ *
+ * Drops records whose idempotency key was already seen within the window, e.g. orders replayed by CDC
+ * or redelivered by at-least-once delivery. Without a policy every record is kept.
+ */
+export class Deduplicator {
+    private key: string[][];
+    private store?: KeyStore;
+    private counts: DedupStats = { checked: 0, duplicates: 0, unkeyed: 0 };
+    private duplicates: Counter;
+
+    /**
+     * @throws DedupPolicyError when the policy is invalid
+     */
+    constructor(policy: DedupPolicy | undefined = configuredDedupPolicy(), context: RuntimeContext = createRuntimeContext()) {
+        this.key = [];
+        this.duplicates = context.metrics.counter('transform_duplicates_total', 'Records dropped as duplicates');
+        if (!policy) {
+            return;
+        }
+
+        const issues = validateDedupPolicy(policy);
+        if (issues.length > 0) {
+            throw new DedupPolicyError(issues);
+        }
+        const windowMs = policy.windowMs || DEFAULT_DEDUP_WINDOW_MS;
+        this.key = policy.key.map(parseFieldPath);
+        this.store = policy.bloom
+            ? new BloomKeyStore(policy.bloom, windowMs, context.clock)
+            : new LruKeyStore(policy.maxEntries || DEFAULT_DEDUP_MAX_ENTRIES, windowMs, context.clock);
+    }
+
+    /**
+     * False without a policy
+     */
+    public get active(): boolean {
+        return this.store !== undefined;
+    }
+
+    /**
+     * Idempotency key of a record, or undefined when a key field is missing
+     */
+    public keyOf(record: any, keyObject?: any): string | undefined {
+        const values = this.key.map(path => path[0] === '$key' ? readFieldPath(keyObject, path.slice(1)) : readFieldPath(record, path));
+        return values.some(value => value === undefined || value === null) ? undefined : JSON.stringify(values);
+    }
+
+    /**
+     * Whether the record's key was seen within the window - the key is remembered when it was not
+     */
+    public isDuplicate(record: any, keyObject?: any): boolean {
+        if (!this.store) {
+            return false;
+        }
+        this.counts.checked++;
+
+        const key = this.keyOf(record, keyObject);
+        if (key === undefined) {
+            this.counts.unkeyed++;
+            return false;
+        }
+        if (!this.store.checkAndAdd(key)) {
+            return false;
+        }
+        this.counts.duplicates++;
+        this.duplicates.inc();
+        return true;
+    }
+
+    public stats(): DedupStats {
+        return { ...this.counts };
+    }
+}
+
+/**
+ * Value transform dropping duplicates before the transform sees them, for use with defineValueTransform:
+ *
+ *     const transformValue = defineValueTransform(dedupTransform<Order>(record => ..., new Deduplicator({ key: ['_id', 'order_number'] })));
+ */
+export function dedupTransform<V = unknown, K = unknown, R = V>(transform: ValueTransformFn<V, K, R>,
+    deduplicator: Deduplicator = new Deduplicator()): ValueTransformFn<V, K, R> {
+    return (record, context) => deduplicator.isDuplicate(record.value, record.key) ? null : transform(record, context);
+}
+
+function isPositiveInteger(value: any): boolean {
+    return typeof value === 'number' && value > 0 && Math.floor(value) === value;
+}
+
+// 32-bit FNV-1a - the multiplication by the FNV prime is done in shifts to stay within 32 bits
+function fnv1a(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash += (hash << 1) + (hash << 4) + (hash << 7) + (hash << 8) + (hash << 24);
+    }
+    return hash >>> 0;
+}
+
+// 32-bit djb2 (xor variant), independent of FNV-1a for double hashing
+function djb2(value: string): number {
+    let hash = 5381;
+    for (let i = 0; i < value.length; i++) {
+        hash = ((hash << 5) + hash) ^ value.charCodeAt(i);
+    }
+    return hash >>> 0;
+}
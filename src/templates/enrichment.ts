@@ -0,0 +1,537 @@
+// enrichment.ts - Async enrichment framework for enrich_async transforms
+// Wraps lookup providers with a timeout, retries with backoff and jitter, an LRU/TTL cache and a circuit breaker
+
+import { BatchOptions, EnrichmentBatcher } from './enrichmentBatcher';
+import { FetchHttpClient, HttpClient, HttpRequest, HttpResponse } from './httpClient';
+import { Clock, RandomSource, RuntimeContext, createRuntimeContext } from './runtimeContext';
+
+/**
+ * Source of enrichment data, looked up by key
+ * lookup resolves to undefined when the key is unknown; lookupMany omits unknown keys
+ */
+export interface EnrichmentProvider<T = any> {
+    name: string;
+    lookup(key: string): Promise<T | undefined>;
+    // Optional batch lookup - without it, batches become parallel single lookups
+    lookupMany?(keys: string[]): Promise<{ [key: string]: T }>;
+}
+
+/**
+ * Provider failure; retryable failures (timeouts, 5xx, network errors) are retried
+ */
+export class EnrichmentError extends Error {
+    constructor(message: string, public readonly retryable: boolean, public readonly details?: any) {
+        super(message);
+        this.name = 'EnrichmentError';
+        Object.setPrototypeOf(this, EnrichmentError.prototype);
+    }
+}
+
+export class EnrichmentTimeoutError extends EnrichmentError {
+    constructor(provider: string, timeoutMs: number) {
+        super(`${provider} did not answer within ${timeoutMs}ms`, true, { provider, timeout_ms: timeoutMs });
+        this.name = 'EnrichmentTimeoutError';
+        Object.setPrototypeOf(this, EnrichmentTimeoutError.prototype);
+    }
+}
+
+/**
+ * Thrown without calling the provider while its circuit is open
+ */
+export class CircuitOpenError extends EnrichmentError {
+    constructor(provider: string, retryAt: number) {
+        super(`Circuit for ${provider} is open until ${new Date(retryAt).toISOString()}`, false, { provider, retry_at: retryAt });
+        this.name = 'CircuitOpenError';
+        Object.setPrototypeOf(this, CircuitOpenError.prototype);
+    }
+}
+
+export interface RetryPolicy {
+    // Attempts after the first one
+    retries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    // Full jitter: wait a random time up to the backoff delay, so retries from many records spread out
+    jitter: boolean;
+}
+
+export interface CacheOptions {
+    maxEntries: number;
+    ttlMs: number;
+    // Also remember keys the provider does not know
+    cacheMisses: boolean;
+}
+
+export interface CircuitBreakerOptions {
+    // Consecutive failures that open the circuit
+    failureThreshold: number;
+    // How long the circuit stays open before a trial call is let through
+    resetTimeoutMs: number;
+}
+
+export interface EnricherOptions {
+    // Per attempt, defaults to 2000
+    timeoutMs?: number;
+    // Defaults to 2 retries from 100ms up to 2000ms with jitter; false disables retries
+    retry?: Partial<RetryPolicy> | false;
+    // Defaults to 1000 entries for 60s; false disables caching
+    cache?: Partial<CacheOptions> | false;
+    // Defaults to opening after 5 failures for 30s; false disables the breaker
+    circuitBreaker?: Partial<CircuitBreakerOptions> | false;
+    // Coalesce concurrent lookups and load cache misses in batches (10ms windows of up to 100 keys by default). Off by default
+    batching?: Partial<BatchOptions> | boolean;
+}
+
+export interface EnricherStats {
+    cacheHits: number;
+    cacheMisses: number;
+    providerCalls: number;
+    retries: number;
+    failures: number;
+    circuit: CircuitState;
+    // Batched provider calls and lookups that joined one already queued or in flight - 0 without batching
+    batches: number;
+    coalesced: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { retries: 2, baseDelayMs: 100, maxDelayMs: 2000, jitter: true };
+
+export const DEFAULT_CACHE_OPTIONS: CacheOptions = { maxEntries: 1000, ttlMs: 60000, cacheMisses: true };
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = { failureThreshold: 5, resetTimeoutMs: 30000 };
+
+/**
+ * Delay before retry number `attempt` (0 for the first retry): exponential, capped, optionally jittered
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy, random: RandomSource): number {
+    const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt));
+    return policy.jitter ? Math.floor(random.next() * delay) : delay;
+}
+
+/**
+ * Reject with an EnrichmentTimeoutError when the promise does not settle in time
+ */
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number, provider: string): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new EnrichmentTimeoutError(provider, timeoutMs)), timeoutMs);
+        promise.then(
+            value => {
+                clearTimeout(timer);
+                resolve(value);
+            },
+            error => {
+                clearTimeout(timer);
+                reject(error);
+            }
+        );
+    });
+}
+
+interface CacheNode<T> {
+    key: string;
+    value: T | undefined;
+    expiresAt: number;
+    newer?: CacheNode<T>;
+    older?: CacheNode<T>;
+}
+
+/**
+ * Least recently used cache with a time to live
+ * get returns a { value } wrapper so cached misses (undefined) can be told apart from absent keys
+ */
+export class LruCache<T> {
+    private nodes: { [key: string]: CacheNode<T> } = {};
+    private newest?: CacheNode<T>;
+    private oldest?: CacheNode<T>;
+    private count = 0;
+
+    constructor(private maxEntries: number, private ttlMs: number, private clock: Clock) {}
+
+    public get size(): number {
+        return this.count;
+    }
+
+    public get(key: string): { value: T | undefined } | undefined {
+        const node = this.lookupNode(key);
+        if (!node) {
+            return undefined;
+        }
+        if (node.expiresAt <= this.clock.now()) {
+            this.remove(node);
+            return undefined;
+        }
+        this.unlink(node);
+        this.pushNewest(node);
+        return { value: node.value };
+    }
+
+    public set(key: string, value: T | undefined): void {
+        const existing = this.lookupNode(key);
+        if (existing) {
+            this.remove(existing);
+        }
+
+        const node: CacheNode<T> = { key, value, expiresAt: this.clock.now() + this.ttlMs };
+        this.nodes['$' + key] = node;
+        this.count++;
+        this.pushNewest(node);
+
+        while (this.count > this.maxEntries && this.oldest) {
+            this.remove(this.oldest);
+        }
+    }
+
+    public delete(key: string): void {
+        const node = this.lookupNode(key);
+        if (node) {
+            this.remove(node);
+        }
+    }
+
+    public clear(): void {
+        this.nodes = {};
+        this.newest = this.oldest = undefined;
+        this.count = 0;
+    }
+
+    private lookupNode(key: string): CacheNode<T> | undefined {
+        // Prefixed so keys like "__proto__" or "123" behave like any other key
+        return this.nodes.hasOwnProperty('$' + key) ? this.nodes['$' + key] : undefined;
+    }
+
+    private remove(node: CacheNode<T>): void {
+        this.unlink(node);
+        delete this.nodes['$' + node.key];
+        this.count--;
+    }
+
+    private unlink(node: CacheNode<T>): void {
+        if (node.newer) node.newer.older = node.older; else this.newest = node.older;
+        if (node.older) node.older.newer = node.newer; else this.oldest = node.newer;
+        node.newer = node.older = undefined;
+    }
+
+    private pushNewest(node: CacheNode<T>): void {
+        node.older = this.newest;
+        if (this.newest) this.newest.newer = node;
+        this.newest = node;
+        if (!this.oldest) this.oldest = node;
+    }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit Breaker Class
+ *
+ * Stops calling a failing provider: after failureThreshold consecutive failures the circuit opens and
+ * calls fail fast. After resetTimeoutMs one trial call is let through; its success closes the circuit.
+ */
+export class CircuitBreaker {
+    private failures = 0;
+    private openedAt = 0;
+    private opened = false;
+    private trialInFlight = false;
+
+    constructor(private name: string, private options: CircuitBreakerOptions, private clock: Clock) {}
+
+    public get state(): CircuitState {
+        if (!this.opened) {
+            return 'closed';
+        }
+        return this.clock.now() - this.openedAt >= this.options.resetTimeoutMs ? 'half-open' : 'open';
+    }
+
+    public async execute<T>(operation: () => Promise<T>): Promise<T> {
+        const state = this.state;
+        if (state === 'open' || (state === 'half-open' && this.trialInFlight)) {
+            throw new CircuitOpenError(this.name, this.openedAt + this.options.resetTimeoutMs);
+        }
+
+        this.trialInFlight = state === 'half-open';
+        try {
+            const result = await operation();
+            this.failures = 0;
+            this.opened = false;
+            return result;
+        } catch (error) {
+            this.failures++;
+            if (state === 'half-open' || this.failures >= this.options.failureThreshold) {
+                this.opened = true;
+                this.openedAt = this.clock.now();
+            }
+            throw error;
+        } finally {
+            if (state === 'half-open') {
+                this.trialInFlight = false;
+            }
+        }
+    }
+}
+
+/**
+ * Enricher Class
+ *
+ * Resilient access to an EnrichmentProvider. Every provider call gets a timeout and goes through the
+ * circuit breaker; retryable failures are retried with exponential backoff. Results are cached by key.
+ */
+export class Enricher<T = any> {
+    private timeoutMs: number;
+    private retry: RetryPolicy;
+    private cacheOptions: CacheOptions | undefined;
+    private cache: LruCache<T> | undefined;
+    private breaker: CircuitBreaker | undefined;
+    private batcher: EnrichmentBatcher<T> | undefined;
+    private counters = { cacheHits: 0, cacheMisses: 0, providerCalls: 0, retries: 0, failures: 0 };
+
+    constructor(
+        private provider: EnrichmentProvider<T>,
+        options: EnricherOptions = {},
+        private context: RuntimeContext = createRuntimeContext()
+    ) {
+        this.timeoutMs = options.timeoutMs !== undefined ? options.timeoutMs : 2000;
+        this.retry = options.retry === false ? { ...DEFAULT_RETRY_POLICY, retries: 0 } : { ...DEFAULT_RETRY_POLICY, ...options.retry };
+
+        if (options.cache !== false) {
+            this.cacheOptions = { ...DEFAULT_CACHE_OPTIONS, ...options.cache };
+            this.cache = new LruCache<T>(this.cacheOptions.maxEntries, this.cacheOptions.ttlMs, context.clock);
+        }
+        if (options.circuitBreaker !== false) {
+            this.breaker = new CircuitBreaker(provider.name, { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options.circuitBreaker }, context.clock);
+        }
+        if (options.batching) {
+            this.batcher = new EnrichmentBatcher<T>(keys => this.fetchMany(keys), options.batching === true ? {} : options.batching);
+        }
+    }
+
+    /**
+     * Enrichment data for one key, or undefined when the provider does not know it
+     */
+    public async get(key: string): Promise<T | undefined> {
+        const cached = this.fromCache(key);
+        if (cached) {
+            return cached.value;
+        }
+
+        return this.batcher ? this.batcher.load(key) : this.fetchOne(key);
+    }
+
+    /**
+     * Enrichment data for many keys, keyed by key - unknown keys are left out
+     * Keys not in the cache are fetched with one lookupMany call when the provider supports it
+     */
+    public async getMany(keys: string[]): Promise<{ [key: string]: T }> {
+        const results: { [key: string]: T } = {};
+        const missing: string[] = [];
+
+        keys.forEach(key => {
+            if (missing.indexOf(key) !== -1 || results.hasOwnProperty(key)) {
+                return;
+            }
+            const cached = this.fromCache(key);
+            if (!cached) {
+                missing.push(key);
+            } else if (cached.value !== undefined) {
+                results[key] = cached.value;
+            }
+        });
+
+        if (missing.length === 0) {
+            return results;
+        }
+
+        if (this.batcher) {
+            const values = await Promise.all(missing.map(key => this.batcher!.load(key)));
+            missing.forEach((key, index) => {
+                if (values[index] !== undefined) {
+                    results[key] = values[index]!;
+                }
+            });
+            return results;
+        }
+
+        const found = await this.fetchMany(missing);
+        Object.keys(found).forEach(key => {
+            results[key] = found[key];
+        });
+        return results;
+    }
+
+    public stats(): EnricherStats {
+        const batcher = this.batcher ? this.batcher.stats() : { batches: 0, coalesced: 0 };
+        return { ...this.counters, circuit: this.breaker ? this.breaker.state : 'closed', batches: batcher.batches, coalesced: batcher.coalesced };
+    }
+
+    private async fetchOne(key: string): Promise<T | undefined> {
+        const value = await this.call(() => this.provider.lookup(key));
+        this.toCache(key, value);
+        return value;
+    }
+
+    /**
+     * Load keys missing from the cache with one lookupMany call, or with parallel lookups without it
+     */
+    private async fetchMany(keys: string[]): Promise<{ [key: string]: T }> {
+        const found: { [key: string]: T } = {};
+
+        if (this.provider.lookupMany) {
+            const batch = await this.call(() => this.provider.lookupMany!(keys));
+            keys.forEach(key => {
+                const value = batch && batch.hasOwnProperty(key) ? batch[key] : undefined;
+                this.toCache(key, value);
+                if (value !== undefined) {
+                    found[key] = value;
+                }
+            });
+        } else {
+            const values = await Promise.all(keys.map(key => this.fetchOne(key)));
+            keys.forEach((key, index) => {
+                if (values[index] !== undefined) {
+                    found[key] = values[index]!;
+                }
+            });
+        }
+
+        return found;
+    }
+
+    private async call<R>(operation: () => Promise<R>): Promise<R> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                this.counters.providerCalls++;
+                const attemptOnce = () => withTimeout(operation(), this.timeoutMs, this.provider.name);
+                return await (this.breaker ? this.breaker.execute(attemptOnce) : attemptOnce());
+            } catch (error) {
+                if (attempt >= this.retry.retries || !isRetryable(error)) {
+                    this.counters.failures++;
+                    throw error;
+                }
+                this.counters.retries++;
+                await sleep(backoffDelay(attempt, this.retry, this.context.random));
+            }
+        }
+    }
+
+    private fromCache(key: string): { value: T | undefined } | undefined {
+        const cached = this.cache ? this.cache.get(key) : undefined;
+        if (cached) {
+            this.counters.cacheHits++;
+        } else {
+            this.counters.cacheMisses++;
+        }
+        return cached;
+    }
+
+    private toCache(key: string, value: T | undefined): void {
+        if (this.cache && (value !== undefined || this.cacheOptions!.cacheMisses)) {
+            this.cache.set(key, value);
+        }
+    }
+}
+
+function isRetryable(error: any): boolean {
+    // Errors that are not EnrichmentErrors come from the transport (connection refused, reset...) and are retried
+    return error instanceof EnrichmentError ? error.retryable : true;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Provider over an in-memory table - reference data bundled with the transform, or test data
+ */
+export class StaticEnrichmentProvider<T = any> implements EnrichmentProvider<T> {
+    constructor(public readonly name: string, private records: { [key: string]: T }) {}
+
+    public async lookup(key: string): Promise<T | undefined> {
+        return this.records.hasOwnProperty(key) ? this.records[key] : undefined;
+    }
+
+    public async lookupMany(keys: string[]): Promise<{ [key: string]: T }> {
+        const found: { [key: string]: T } = {};
+        keys.forEach(key => {
+            if (this.records.hasOwnProperty(key)) {
+                found[key] = this.records[key];
+            }
+        });
+        return found;
+    }
+}
+
+export interface HttpProviderOptions {
+    name: string;
+    // URL of one record, {key} is replaced with the URL-encoded key, e.g. https://api.example.com/customers/{key}
+    url: string;
+    // Optional batch endpoint: POST {"keys": [...]} answered with {"<key>": record}
+    batchUrl?: string;
+    headers?: { [name: string]: string };
+    // Aborts each request after this long, defaults to 2000 - keep it at or below the Enricher's timeoutMs,
+    // which only stops waiting for the answer
+    timeoutMs?: number;
+    client?: HttpClient;
+}
+
+/**
+ * Provider over a JSON HTTP API
+ * 404 means the key is unknown; 408, 429 and 5xx are retryable failures, other statuses are not
+ */
+export class HttpEnrichmentProvider<T = any> implements EnrichmentProvider<T> {
+    public readonly name: string;
+    // Only set with a batch endpoint - otherwise the Enricher falls back to parallel single lookups
+    public readonly lookupMany?: (keys: string[]) => Promise<{ [key: string]: T }>;
+    private client: HttpClient;
+    private timeoutMs: number;
+
+    constructor(private options: HttpProviderOptions) {
+        this.name = options.name;
+        this.client = options.client || new FetchHttpClient();
+        this.timeoutMs = options.timeoutMs !== undefined ? options.timeoutMs : 2000;
+        if (options.batchUrl) {
+            this.lookupMany = keys => this.batchLookup(options.batchUrl!, keys);
+        }
+    }
+
+    public async lookup(key: string): Promise<T | undefined> {
+        const url = this.options.url.replace('{key}', encodeURIComponent(key));
+        const response = await this.send({ method: 'GET', url, headers: this.options.headers });
+        if (response.status === 404) {
+            return undefined;
+        }
+        return this.parse(response.status, response.body, url);
+    }
+
+    private async batchLookup(url: string, keys: string[]): Promise<{ [key: string]: T }> {
+        const response = await this.send({
+            method: 'POST',
+            url,
+            headers: { 'content-type': 'application/json', ...this.options.headers },
+            body: JSON.stringify({ keys })
+        });
+        return this.parse(response.status, response.body, url) || {};
+    }
+
+    private async send(request: HttpRequest): Promise<HttpResponse> {
+        try {
+            return await this.client.request({ ...request, timeoutMs: this.timeoutMs });
+        } catch (error) {
+            // fetch rejects with an AbortError once the request is aborted
+            if (error && (error as Error).name === 'AbortError') {
+                throw new EnrichmentTimeoutError(this.name, this.timeoutMs);
+            }
+            throw error;
+        }
+    }
+
+    private parse(status: number, body: string, url: string): any {
+        if (status < 200 || status >= 300) {
+            const retryable = status === 408 || status === 429 || status >= 500;
+            throw new EnrichmentError(`${this.name} answered ${status} for ${url}`, retryable, { provider: this.name, status, url });
+        }
+        try {
+            return body ? JSON.parse(body) : undefined;
+        } catch (error) {
+            throw new EnrichmentError(`${this.name} answered invalid JSON for ${url}`, false, { provider: this.name, status, url });
+        }
+    }
+}
@@ -0,0 +1,110 @@
+// enrichmentBatcher.ts - Request coalescing and micro-batching for enrichment lookups
+// Collects the keys looked up by concurrent records and loads them together in batches
+
+export interface BatchOptions {
+    // How long the first key of a batch waits for others to join it
+    windowMs: number;
+    // A batch is sent as soon as it holds this many keys
+    maxBatchSize: number;
+}
+
+export const DEFAULT_BATCH_OPTIONS: BatchOptions = { windowMs: 10, maxBatchSize: 100 };
+
+/**
+ * Loads a batch of distinct keys - unknown keys are left out of the result
+ */
+export type BatchLoader<T> = (keys: string[]) => Promise<{ [key: string]: T }>;
+
+export interface BatcherStats {
+    lookups: number;
+    // Lookups that joined a key already queued or in flight
+    coalesced: number;
+    batches: number;
+}
+
+interface PendingKey<T> {
+    promise: Promise<T | undefined>;
+    resolve(value: T | undefined): void;
+    reject(error: any): void;
+}
+
+/**
+ * Enrichment Batcher Class
+ *
+ * load() queues a key and resolves with its own value once its batch is loaded. Lookups for a key that
+ * is already queued or in flight share that lookup; distinct keys are grouped into one loader call per
+ * window or per maxBatchSize keys, whichever comes first. A failed batch rejects every lookup in it.
+ */
+export class EnrichmentBatcher<T = any> {
+    private options: BatchOptions;
+    private queue: string[] = [];
+    private pending: { [key: string]: PendingKey<T> } = {};
+    private timer: ReturnType<typeof setTimeout> | undefined;
+    private counters: BatcherStats = { lookups: 0, coalesced: 0, batches: 0 };
+
+    constructor(private loader: BatchLoader<T>, options: Partial<BatchOptions> = {}) {
+        this.options = { ...DEFAULT_BATCH_OPTIONS, ...options };
+    }
+
+    public load(key: string): Promise<T | undefined> {
+        this.counters.lookups++;
+
+        // Prefixed so keys like "__proto__" or "123" behave like any other key
+        const existing = this.pending.hasOwnProperty('$' + key) ? this.pending['$' + key] : undefined;
+        if (existing) {
+            this.counters.coalesced++;
+            return existing.promise;
+        }
+
+        let resolve!: (value: T | undefined) => void;
+        let reject!: (error: any) => void;
+        const promise = new Promise<T | undefined>((res, rej) => {
+            resolve = res;
+            reject = rej;
+        });
+        this.pending['$' + key] = { promise, resolve, reject };
+        this.queue.push(key);
+
+        if (this.queue.length >= this.options.maxBatchSize) {
+            this.flush();
+        } else if (this.timer === undefined) {
+            this.timer = setTimeout(() => this.flush(), this.options.windowMs);
+        }
+
+        return promise;
+    }
+
+    /**
+     * Send the queued keys now instead of waiting for the window to close
+     */
+    public async flush(): Promise<void> {
+        if (this.timer !== undefined) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+
+        const keys = this.queue;
+        this.queue = [];
+        if (keys.length === 0) {
+            return;
+        }
+
+        this.counters.batches++;
+        try {
+            const found = (await this.loader(keys)) || {};
+            keys.forEach(key => this.settle(key).resolve(found.hasOwnProperty(key) ? found[key] : undefined));
+        } catch (error) {
+            keys.forEach(key => this.settle(key).reject(error));
+        }
+    }
+
+    public stats(): BatcherStats {
+        return { ...this.counters };
+    }
+
+    private settle(key: string): PendingKey<T> {
+        const pending = this.pending['$' + key];
+        delete this.pending['$' + key];
+        return pending;
+    }
+}
@@ -0,0 +1,23 @@
+// fieldPath.ts - Dotted field paths into records
+// Shared by the routing rules, deduplication keys and window keys, so customer.tier or items.0.sku reads the same everywhere
+
+/**
+ * Split a dotted path such as customer.tier or items.0.sku into its segments, once, ahead of reading records
+ */
+export function parseFieldPath(field: string): string[] {
+    return field.split('.');
+}
+
+/**
+ * Value at a parsed path, undefined when a segment is missing or its parent is not an object
+ */
+export function readFieldPath(value: any, path: string[]): any {
+    let current = value;
+    for (let i = 0; i < path.length; i++) {
+        if (current === null || current === undefined || typeof current !== 'object') {
+            return undefined;
+        }
+        current = current[path[i]];
+    }
+    return current;
+}
@@ -0,0 +1,232 @@
+// flattener.ts - Configurable deep flattening for un_nesting transforms
+// Turns nested documents into flat rows, optionally exploding arrays into one child row per element
+
+/**
+ * What happens to arrays that are not exploded
+ * - index: one field per element, e.g. items_0_sku
+ * - json: the array is kept as a JSON string
+ * - explode: every array becomes child rows (same as listing each one in `explode`)
+ */
+export type ArrayMode = 'index' | 'json' | 'explode';
+
+/**
+ * What happens when two paths flatten to the same field name, e.g. { a_b: 1, a: { b: 2 } }
+ * - suffix: keep both, numbering the later ones a_b_2, a_b_3...
+ * - first / last: keep the first or the last value
+ * - error: throw a FlattenCollisionError
+ */
+export type CollisionPolicy = 'suffix' | 'first' | 'last' | 'error';
+
+export interface FlattenOptions {
+    // Joins the keys of nested fields, defaults to _
+    separator?: string;
+    // Nesting levels flattened per row; deeper objects and arrays are kept as JSON strings. Unlimited by default
+    maxDepth?: number;
+    // Dotted paths (customer, line_items.sku) to keep, with everything below them. Everything is kept by default
+    include?: string[];
+    // Dotted paths to drop, with everything below them. Wins over include
+    exclude?: string[];
+    arrays?: ArrayMode;
+    // Dotted paths of arrays exploded into child rows, e.g. ['line_items', 'line_items.modifiers']
+    explode?: string[];
+    // Parent row fields copied into child rows, all of them by default. Index fields are always copied
+    inherit?: string[];
+    onCollision?: CollisionPolicy;
+}
+
+/**
+ * Field added to every row when arrays are exploded: $ for the parent record, else the array path
+ */
+export const ROW_PATH_FIELD = '_row_path';
+
+export const ROOT_ROW_PATH = '$';
+
+/**
+ * Thrown in 'error' collision mode
+ */
+export class FlattenCollisionError extends Error {
+    public readonly details: { field: string; path: string };
+
+    constructor(field: string, path: string) {
+        super(`Flattened field ${field} is produced by more than one path (last: ${path})`);
+        this.name = 'FlattenCollisionError';
+        this.details = { field, path };
+        Object.setPrototypeOf(this, FlattenCollisionError.prototype);
+    }
+}
+
+interface PendingExplosion {
+    path: string;
+    prefix: string;
+    items: any[];
+}
+
+/**
+ * Flattener Class
+ *
+ * Flattens records according to FlattenOptions. flatten() returns the parent row only,
+ * flattenRows() also returns one child row per element of each exploded array.
+ */
+export class Flattener {
+    private separator: string;
+    private maxDepth: number;
+    private arrays: ArrayMode;
+    private onCollision: CollisionPolicy;
+
+    constructor(private options: FlattenOptions = {}) {
+        this.separator = options.separator !== undefined ? options.separator : '_';
+        this.maxDepth = options.maxDepth !== undefined ? options.maxDepth : Infinity;
+        this.arrays = options.arrays || 'index';
+        this.onCollision = options.onCollision || 'suffix';
+    }
+
+    /**
+     * Whether flattenRows can return more than one row
+     */
+    public get explodes(): boolean {
+        return this.arrays === 'explode' || (this.options.explode || []).length > 0;
+    }
+
+    /**
+     * Flatten a record into a single row - exploded arrays are left out
+     */
+    public flatten(record: any): any {
+        const row: any = {};
+        this.flattenInto(row, record, '', '', 0, []);
+        return row;
+    }
+
+    /**
+     * Flatten a record into the parent row followed by the child rows of its exploded arrays
+     * Child rows follow their parent depth-first: line item 0, its modifiers, line item 1...
+     */
+    public flattenRows(record: any): any[] {
+        const rows: any[] = [];
+        const pending: PendingExplosion[] = [];
+        const parent: any = this.explodes ? { [ROW_PATH_FIELD]: ROOT_ROW_PATH } : {};
+
+        this.flattenInto(parent, record, '', '', 0, pending);
+        rows.push(parent);
+        pending.forEach(explosion => this.explode(parent, {}, explosion, rows));
+
+        return rows;
+    }
+
+    private explode(parent: any, parentIndexes: { [field: string]: number }, explosion: PendingExplosion, rows: any[]): void {
+        const inherited = this.inherited(parent);
+        const indexField = `${explosion.prefix}${this.separator}index`;
+
+        explosion.items.forEach((item, index) => {
+            const indexes = { ...parentIndexes, [indexField]: index };
+            const row: any = { ...inherited, ...indexes, [ROW_PATH_FIELD]: explosion.path };
+            const pending: PendingExplosion[] = [];
+
+            this.flattenInto(row, item, explosion.path, explosion.prefix, 0, pending);
+            rows.push(row);
+            pending.forEach(child => this.explode(row, indexes, child, rows));
+        });
+    }
+
+    private inherited(parent: any): any {
+        const inherited: any = {};
+        const fields = this.options.inherit || Object.keys(parent);
+
+        fields.forEach(field => {
+            if (field !== ROW_PATH_FIELD && parent.hasOwnProperty(field)) {
+                inherited[field] = parent[field];
+            }
+        });
+
+        return inherited;
+    }
+
+    private flattenInto(row: any, value: any, path: string, prefix: string, depth: number, pending: PendingExplosion[]): void {
+        const selection = this.select(path);
+        if (selection === 'skip') {
+            return;
+        }
+
+        if (Array.isArray(value)) {
+            if (path !== '' && this.shouldExplode(path)) {
+                pending.push({ path, prefix, items: value });
+            } else if (selection === 'inside' && (this.arrays === 'json' || depth >= this.maxDepth || value.length === 0)) {
+                this.set(row, prefix, JSON.stringify(value), path);
+            } else {
+                value.forEach((item, index) => this.flattenInto(row, item, path, this.join(prefix, String(index)), depth + 1, pending));
+            }
+            return;
+        }
+
+        if (isPlainObject(value)) {
+            const keys = Object.keys(value);
+            if (prefix !== '' && selection === 'inside' && (depth >= this.maxDepth || keys.length === 0)) {
+                this.set(row, prefix, JSON.stringify(value), path);
+                return;
+            }
+            keys.forEach(key => this.flattenInto(row, value[key], path === '' ? key : `${path}.${key}`, this.join(prefix, key), depth + 1, pending));
+            return;
+        }
+
+        if (value !== undefined && selection === 'inside') {
+            this.set(row, prefix, value, path);
+        }
+    }
+
+    /**
+     * inside: the path is kept; ancestor: only some paths below it are kept; skip: nothing below it is kept
+     */
+    private select(path: string): 'inside' | 'ancestor' | 'skip' {
+        if (path !== '' && (this.options.exclude || []).some(excluded => isWithin(path, excluded))) {
+            return 'skip';
+        }
+
+        const include = this.options.include;
+        if (!include || include.length === 0) {
+            return 'inside';
+        }
+        if (path !== '' && include.some(included => isWithin(path, included))) {
+            return 'inside';
+        }
+        return path === '' || include.some(included => isWithin(included, path)) ? 'ancestor' : 'skip';
+    }
+
+    private shouldExplode(path: string): boolean {
+        return this.arrays === 'explode' || (this.options.explode || []).indexOf(path) !== -1;
+    }
+
+    private join(prefix: string, key: string): string {
+        return prefix === '' ? key : `${prefix}${this.separator}${key}`;
+    }
+
+    private set(row: any, field: string, value: any, path: string): void {
+        if (!row.hasOwnProperty(field)) {
+            row[field] = value;
+            return;
+        }
+
+        switch (this.onCollision) {
+            case 'first':
+                return;
+            case 'last':
+                row[field] = value;
+                return;
+            case 'error':
+                throw new FlattenCollisionError(field, path);
+            default: {
+                let suffix = 2;
+                while (row.hasOwnProperty(`${field}${this.separator}${suffix}`)) {
+                    suffix++;
+                }
+                row[`${field}${this.separator}${suffix}`] = value;
+            }
+        }
+    }
+}
+
+function isPlainObject(value: any): boolean {
+    return value !== null && typeof value === 'object' && !(value instanceof Date);
+}
+
+function isWithin(path: string, ancestor: string): boolean {
+    return path === ancestor || path.indexOf(`${ancestor}.`) === 0;
+}
@@ -0,0 +1,151 @@
+// hashing.ts - SHA-256 and HMAC-SHA256 in plain JavaScript
+// The Streamkap runtime has no crypto module, so bundles hash without one
+
+// SHA-256 round constants: first 32 bits of the fractional parts of the cube roots of the first 64 primes
+const SHA256_K = [
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+    0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+    0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+    0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+    0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+    0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+    0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+    0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+];
+
+const SHA256_BLOCK_SIZE = 64;
+
+/**
+ * UTF-8 encoding of a string
+ */
+export function utf8Bytes(text: string): number[] {
+    const bytes: number[] = [];
+    for (let i = 0; i < text.length; i++) {
+        let code = text.charCodeAt(i);
+        // Combine a surrogate pair into one code point; a lone surrogate is encoded as U+FFFD
+        if (code >= 0xd800 && code <= 0xdbff && i + 1 < text.length) {
+            const low = text.charCodeAt(i + 1);
+            if (low >= 0xdc00 && low <= 0xdfff) {
+                code = 0x10000 + ((code - 0xd800) << 10) + (low - 0xdc00);
+                i++;
+            }
+        }
+        if (code >= 0xd800 && code <= 0xdfff) {
+            code = 0xfffd;
+        }
+
+        if (code < 0x80) {
+            bytes.push(code);
+        } else if (code < 0x800) {
+            bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+        } else if (code < 0x10000) {
+            bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+        } else {
+            bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+        }
+    }
+    return bytes;
+}
+
+/**
+ * Lowercase hexadecimal of a byte array
+ */
+export function toHex(bytes: number[]): string {
+    return bytes.map(byte => (byte < 16 ? '0' : '') + byte.toString(16)).join('');
+}
+
+/**
+ * SHA-256 digest, 32 bytes
+ */
+export function sha256(message: number[]): number[] {
+    const words = padToBlocks(message);
+    const hash = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+    const w: number[] = new Array(64);
+
+    for (let offset = 0; offset < words.length; offset += 16) {
+        for (let t = 0; t < 64; t++) {
+            if (t < 16) {
+                w[t] = words[offset + t];
+            } else {
+                const s0 = rotr(w[t - 15], 7) ^ rotr(w[t - 15], 18) ^ (w[t - 15] >>> 3);
+                const s1 = rotr(w[t - 2], 17) ^ rotr(w[t - 2], 19) ^ (w[t - 2] >>> 10);
+                w[t] = (w[t - 16] + s0 + w[t - 7] + s1) | 0;
+            }
+        }
+
+        let [a, b, c, d, e, f, g, h] = hash;
+        for (let t = 0; t < 64; t++) {
+            const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+            const choice = (e & f) ^ (~e & g);
+            const temp1 = (h + s1 + choice + SHA256_K[t] + w[t]) | 0;
+            const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+            const majority = (a & b) ^ (a & c) ^ (b & c);
+            const temp2 = (s0 + majority) | 0;
+            h = g;
+            g = f;
+            f = e;
+            e = (d + temp1) | 0;
+            d = c;
+            c = b;
+            b = a;
+            a = (temp1 + temp2) | 0;
+        }
+
+        hash[0] = (hash[0] + a) | 0;
+        hash[1] = (hash[1] + b) | 0;
+        hash[2] = (hash[2] + c) | 0;
+        hash[3] = (hash[3] + d) | 0;
+        hash[4] = (hash[4] + e) | 0;
+        hash[5] = (hash[5] + f) | 0;
+        hash[6] = (hash[6] + g) | 0;
+        hash[7] = (hash[7] + h) | 0;
+    }
+
+    return wordsToBytes(hash);
+}
+
+/**
+ * HMAC-SHA256 of a message, as lowercase hexadecimal - both strings are UTF-8 encoded
+ */
+export function hmacSha256(key: string, message: string): string {
+    let keyBytes = utf8Bytes(key);
+    if (keyBytes.length > SHA256_BLOCK_SIZE) {
+        keyBytes = sha256(keyBytes);
+    }
+    const inner: number[] = [];
+    const outer: number[] = [];
+    for (let i = 0; i < SHA256_BLOCK_SIZE; i++) {
+        const byte = i < keyBytes.length ? keyBytes[i] : 0;
+        inner.push(byte ^ 0x36);
+        outer.push(byte ^ 0x5c);
+    }
+    return toHex(sha256(outer.concat(sha256(inner.concat(utf8Bytes(message))))));
+}
+
+function rotr(value: number, bits: number): number {
+    return (value >>> bits) | (value << (32 - bits));
+}
+
+// Big-endian 32-bit words of the message padded to whole 64-byte blocks, ending with its length in bits
+function padToBlocks(message: number[]): number[] {
+    const blockCount = Math.ceil((message.length + 9) / SHA256_BLOCK_SIZE);
+    const words: number[] = [];
+    for (let i = 0; i < blockCount * 16; i++) {
+        words.push(0);
+    }
+    for (let i = 0; i < message.length; i++) {
+        words[i >> 2] |= message[i] << (24 - (i % 4) * 8);
+    }
+    words[message.length >> 2] |= 0x80 << (24 - (message.length % 4) * 8);
+
+    const bitLength = message.length * 8;
+    words[words.length - 2] = Math.floor(bitLength / 0x100000000) | 0;
+    words[words.length - 1] = bitLength | 0;
+    return words;
+}
+
+function wordsToBytes(words: number[]): number[] {
+    const bytes: number[] = [];
+    words.forEach(word => bytes.push((word >>> 24) & 0xff, (word >>> 16) & 0xff, (word >>> 8) & 0xff, word & 0xff));
+    return bytes;
+}
@@ -0,0 +1,60 @@
+// httpClient.ts - Minimal HTTP client abstraction for enrichment providers
+// Providers depend on the HttpClient interface so tests and other runtimes can swap the transport
+
+export interface HttpRequest {
+    method: 'GET' | 'POST';
+    url: string;
+    headers?: { [name: string]: string };
+    body?: string;
+    // Aborts the request after this long, when the runtime supports it
+    timeoutMs?: number;
+}
+
+export interface HttpResponse {
+    status: number;
+    headers: { [name: string]: string };
+    body: string;
+}
+
+export interface HttpClient {
+    request(request: HttpRequest): Promise<HttpResponse>;
+}
+
+/**
+ * HttpClient on the global fetch function (Node.js 18+)
+ * Needs no require(), so bundles using it stay within the modules the Streamkap runtime provides
+ */
+export class FetchHttpClient implements HttpClient {
+    // Undefined where the runtime has no fetch - request() then fails saying so
+    constructor(private fetchFn: typeof fetch | undefined = typeof fetch !== 'undefined' ? fetch : undefined) {}
+
+    public async request(request: HttpRequest): Promise<HttpResponse> {
+        const fetchFn = this.fetchFn;
+        if (typeof fetchFn !== 'function') {
+            throw new Error('fetch is not available in this runtime - pass an HttpClient to the provider');
+        }
+
+        const controller = request.timeoutMs && typeof AbortController !== 'undefined' ? new AbortController() : undefined;
+        const timer = controller ? setTimeout(() => controller.abort(), request.timeoutMs) : undefined;
+
+        try {
+            const response = await fetchFn(request.url, {
+                method: request.method,
+                headers: request.headers,
+                body: request.body,
+                signal: controller ? controller.signal : undefined
+            });
+
+            const headers: { [name: string]: string } = {};
+            response.headers.forEach((value, name) => {
+                headers[name] = value;
+            });
+
+            return { status: response.status, headers, body: await response.text() };
+        } finally {
+            if (timer !== undefined) {
+                clearTimeout(timer);
+            }
+        }
+    }
+}
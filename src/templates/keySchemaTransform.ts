@@ -1,7 +1,22 @@
 // keySchemaTransform.ts - Key schema transformation logic  
 // This handles transformation and validation of record key schemas
 
-import { v4 as uuidv4 } from "uuid";
+import { DeadLetterHandler, DeadLetterPolicy } from "./deadLetter";
+import { Logger, errorFields, recordFields } from "./logger";
+import { Masker, MaskingPolicy, configuredMaskingPolicy } from "./masking";
+import { RuntimeContext, createRuntimeContext } from "./runtimeContext";
+import { SchemaValidationError, SchemaValidationFailure, SchemaValidator } from "./schemaValidation";
+
+export interface KeySchemaOptions {
+    // Validates incoming keys in place of the built-in string/number/id rules
+    inputSchema?: SchemaValidator;
+    // Validates the standardized key, including _metadata and partition_hint
+    outputSchema?: SchemaValidator;
+    // Defaults to the transform's deadLetter setting in streamkap.config
+    deadLetter?: DeadLetterPolicy;
+    // Defaults to the transform's masking setting in streamkap.config, see masking.ts
+    masking?: MaskingPolicy;
+}
 
 /**
  * Key Schema Transform Class
@@ -12,6 +27,18 @@ import { v4 as uuidv4 } from "uuid";
  */
 export class KeySchemaTransform {
     
+    private deadLetter: DeadLetterHandler;
+    // Masks keys and ids in log entries and dead-letter envelopes
+    private masker: Masker;
+    
+    constructor(
+        private context: RuntimeContext = createRuntimeContext(),
+        private options: KeySchemaOptions = {}
+    ) {
+        this.masker = new Masker(options.masking || configuredMaskingPolicy());
+        this.deadLetter = new DeadLetterHandler(options.deadLetter, context, this.masker);
+    }
+    
     /**
      * Transform key schema
      * 
@@ -29,30 +56,35 @@ export class KeySchemaTransform {
             }
             
             // Validate input key schema
-            if (!this.validateInputKeySchema(keyObject)) {
-                throw new Error('Input key schema validation failed');
+            const inputErrors = this.validateInputKeySchema(keyObject);
+            if (inputErrors.length > 0) {
+                throw new SchemaValidationFailure('Input key schema validation failed', inputErrors);
             }
             
             // Transform to standardized key schema
             const transformedKey = this.transformToStandardKeySchema(keyObject, valueObject, topic, timestamp);
             
             // Validate output key schema
-            if (!this.validateOutputKeySchema(transformedKey)) {
-                throw new Error('Output key schema validation failed');
+            const outputErrors = this.validateOutputKeySchema(transformedKey);
+            if (outputErrors.length > 0) {
+                throw new SchemaValidationFailure('Output key schema validation failed', outputErrors);
             }
             
             return transformedKey;
             
         } catch (error) {
-            console.error('Key schema transformation failed:', error);
+            this.recordLogger(valueObject, keyObject, topic).error('Key schema transformation failed', errorFields(error, valueObject, keyObject, this.masker));
             
-            // Return error-wrapped key
-            return {
-                _key_error: true,
-                error_message: error instanceof Error ? error.message : String(error),
-                original_key: keyObject,
-                fallback_key: this.generateFallbackKey(valueObject, topic)
-            };
+            // Keys cannot be dropped - drop mode keeps the original key and lets the value transform filter the record
+            const handled = this.deadLetter.handle(error, {
+                stage: 'key_schema',
+                operation: 'keySchemaTransform',
+                valueObject,
+                keyObject,
+                topic,
+                timestamp
+            });
+            return handled === null ? keyObject : handled;
         }
     }
     
@@ -81,7 +113,7 @@ export class KeySchemaTransform {
             return structuredKey;
             
         } catch (error) {
-            console.error('String to structured key transformation failed:', error);
+            this.recordLogger(valueObject, keyObject, topic).error('String to structured key transformation failed', errorFields(error, valueObject, keyObject, this.masker));
             return { key: keyObject, error: error instanceof Error ? error.message : String(error) };
         }
     }
@@ -112,7 +144,7 @@ export class KeySchemaTransform {
                 optimizedKey.type = keyObject.type;
             }
             
-            const safeTimestamp = timestamp || Date.now();
+            const safeTimestamp = timestamp || this.context.clock.now();
             optimizedKey.ts = Math.floor(safeTimestamp / 1000); // Unix timestamp
             
             if (keyObject.key) {
@@ -122,7 +154,7 @@ export class KeySchemaTransform {
             return optimizedKey;
             
         } catch (error) {
-            console.error('Key optimization failed:', error);
+            this.recordLogger(valueObject, keyObject, topic).error('Key optimization failed', errorFields(error, valueObject, keyObject, this.masker));
             return keyObject; // Return original on error
         }
     }
@@ -153,61 +185,69 @@ export class KeySchemaTransform {
             return tenantKey;
             
         } catch (error) {
-            console.error('Multi-tenant key transformation failed:', error);
+            this.recordLogger(valueObject, keyObject, topic).error('Multi-tenant key transformation failed', errorFields(error, valueObject, keyObject, this.masker));
             return this.generateTenantFallbackKey(valueObject, keyObject);
         }
     }
     
     /**
      * Validate input key schema
+     * Uses the injected input schema when present, otherwise the built-in example rules
      */
-    private validateInputKeySchema(keyObject: any): boolean {
+    private validateInputKeySchema(keyObject: any): SchemaValidationError[] {
         if (!keyObject) {
-            return false; // null keys will be handled separately
+            return [{ path: '$', message: 'is required' }]; // null keys are handled before validation
+        }
+        
+        if (this.options.inputSchema) {
+            return this.options.inputSchema.validate(keyObject);
         }
         
         // Allow string keys (most common)
         if (typeof keyObject === 'string') {
-            return keyObject.length > 0 && keyObject.length <= 255;
+            return keyObject.length <= 255 ? [] : [{ path: '$', message: 'must be at most 255 characters' }];
         }
         
         // Allow numeric keys
         if (typeof keyObject === 'number') {
-            return !isNaN(keyObject);
+            return isNaN(keyObject) ? [{ path: '$', message: 'must not be NaN' }] : [];
         }
         
+        const errors: SchemaValidationError[] = [];
+        
         // Validate structured keys
         if (typeof keyObject === 'object') {
             if (!keyObject.id && !keyObject.key) {
-                console.error('Structured key must have either "id" or "key" field');
-                return false;
+                errors.push({ path: '$', message: 'must have either "id" or "key" field' });
             }
             
             // Validate field types
             if (keyObject.id && typeof keyObject.id !== 'string' && typeof keyObject.id !== 'number') {
-                console.error('Key "id" field must be string or number');
-                return false;
+                errors.push({ path: '$.id', message: 'must be string or number' });
             }
         }
         
-        return true;
+        return errors;
     }
     
     /**
      * Validate output key schema
      */
-    private validateOutputKeySchema(keyObject: any): boolean {
+    private validateOutputKeySchema(keyObject: any): SchemaValidationError[] {
         if (!keyObject) {
-            console.error('Output key cannot be null');
-            return false;
+            return [{ path: '$', message: 'cannot be null' }];
         }
         
         const serialized = this.safeStringify(keyObject);
         if (serialized.length > 1024) { // 1KB limit
-            console.warn(`Key is large (${serialized.length} bytes), may affect performance`);
+            this.context.logger.warn('Key is large, may affect performance', { bytes: serialized.length });
+        }
+        
+        if (this.options.outputSchema) {
+            return this.options.outputSchema.validate(keyObject);
         }
         
-        return true;
+        return [];
     }
     
     /**
@@ -277,7 +317,7 @@ export class KeySchemaTransform {
         }
         
         // Generate UUID-based key as last resort
-        const uuid = this.generateUUIDBundled();
+        const uuid = this.generateUUIDBundled(valueObject);
         return {
             key: uuid,
             type: 'generated_uuid',
@@ -286,15 +326,6 @@ export class KeySchemaTransform {
         };
     }
     
-    /**
-     * Generate fallback key for errors
-     */
-    private generateFallbackKey(valueObject: any, topic: string): string {
-        const timestamp = Date.now();
-        const random = Math.random().toString(36).substring(2, 8);
-        return `fallback-${topic}-${timestamp}-${random}`;
-    }
-    
     /**
      * Generate tenant-specific fallback key
      */
@@ -303,7 +334,7 @@ export class KeySchemaTransform {
             tenant_id: this.extractTenantId(valueObject, keyObject) || 'unknown',
             tenant_key: keyObject || 'fallback',
             error: true,
-            generated_at: new Date().toISOString()
+            generated_at: new Date(this.context.clock.now()).toISOString()
         };
     }
     
@@ -398,29 +429,13 @@ export class KeySchemaTransform {
     }
     
     /**
-     * Generate UUID with crypto-backed sources
+     * Generate UUID from the context's ID generator
      */
-    private generateUUIDBundled(): string {
+    private generateUUIDBundled(valueObject: any): string {
         try {
-            return uuidv4();
+            return this.context.ids.generate(valueObject);
         } catch (error) {
-            // Try to use Node.js crypto if available
-            try {
-                const crypto = require('crypto');
-                if (crypto && crypto.randomBytes) {
-                    const bytes = crypto.randomBytes(16);
-                    bytes[6] = (bytes[6] & 0x0f) | 0x40; // Version 4
-                    bytes[8] = (bytes[8] & 0x3f) | 0x80; // Variant 10
-                    
-                    const hex = Array.from(bytes, (byte: number) => byte.toString(16).padStart(2, '0')).join('');
-                    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
-                }
-            } catch (cryptoError) {
-                // Node.js crypto not available
-            }
-            
-            // Fail fast instead of using Math.random()
-            throw new Error('UUID generation failed: No cryptographic source available. Please ensure uuid library is properly installed or provide a custom key generation method.');
+            throw new Error(`UUID generation failed: ${error instanceof Error ? error.message : String(error)}. Provide a working ID generator in the runtime context or a custom key generation method.`);
         }
     }
     
@@ -440,8 +455,15 @@ export class KeySchemaTransform {
                 return value;
             });
         } catch (error) {
-            console.warn('Failed to stringify object:', error);
+            this.context.logger.warn('Failed to stringify object', errorFields(error));
             return '[Unstringifiable]';
         }
     }
-}
\ No newline at end of file
+    
+    /**
+     * Logger adding the topic, key and id of the record to each entry
+     */
+    private recordLogger(valueObject: any, keyObject: any, topic: string): Logger {
+        return this.context.logger.child(recordFields(topic, keyObject, valueObject, this.masker));
+    }
+}
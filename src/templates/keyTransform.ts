@@ -2,6 +2,9 @@
 // This handles transformation of record keys for routing and partitioning
 
 import moment from "moment";
+import { Logger, errorFields, recordFields } from "./logger";
+import { Masker } from "./masking";
+import { RuntimeContext, createRuntimeContext } from "./runtimeContext";
 
 /**
  * Key Transform Class
@@ -12,6 +15,11 @@ import moment from "moment";
  */
 export class KeyTransform {
     
+    // Masks keys and ids in log entries, per the masking setting in streamkap.config
+    private masker = new Masker();
+    
+    constructor(private context: RuntimeContext = createRuntimeContext()) {}
+    
     /**
      * Transform the record key
      * 
@@ -25,12 +33,12 @@ export class KeyTransform {
         try {
             // Input validation
             if (!valueObject || typeof valueObject !== 'object') {
-                console.warn('Invalid valueObject for key transformation');
+                this.recordLogger(valueObject, keyObject, topic).warn('Invalid valueObject for key transformation');
                 return this.sanitizeKey(`invalid-value-${keyObject}`);
             }
             
             if (!topic || typeof topic !== 'string') {
-                console.warn('Invalid topic for key transformation');
+                this.recordLogger(valueObject, keyObject, topic).warn('Invalid topic for key transformation');
                 return this.sanitizeKey(`invalid-topic-${keyObject}`);
             }
             
@@ -54,8 +62,8 @@ export class KeyTransform {
                 const result = `${datePrefix}-partition-${userHash}-${keyObject}`;
                 const sanitizedResult = this.sanitizeKey(result);
                 if (!this.validateKey(sanitizedResult)) {
-                    console.warn('Generated key failed validation:', sanitizedResult);
-                    return this.sanitizeKey(`fallback-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`);
+                    this.recordLogger(valueObject, keyObject, topic).warn('Generated key failed validation', { length: sanitizedResult.length });
+                    return this.sanitizeKey(this.generateFallbackKey());
                 }
                 return sanitizedResult;
             }
@@ -65,13 +73,13 @@ export class KeyTransform {
             const result = `${topicPrefix}-${datePrefix}-${keyObject}`;
             const sanitizedResult = this.sanitizeKey(result);
             if (!this.validateKey(sanitizedResult)) {
-                console.warn('Generated key failed validation:', sanitizedResult);
-                return this.sanitizeKey(`fallback-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`);
+                this.recordLogger(valueObject, keyObject, topic).warn('Generated key failed validation', { length: sanitizedResult.length });
+                return this.sanitizeKey(this.generateFallbackKey());
             }
             return sanitizedResult;
             
         } catch (error) {
-            console.error('Key transformation failed:', error);
+            this.recordLogger(valueObject, keyObject, topic).error('Key transformation failed', errorFields(error, valueObject, keyObject, this.masker));
             
             // Fallback: return sanitized key with error marker
             return this.sanitizeKey(`error-${keyObject}`);
@@ -117,7 +125,7 @@ export class KeyTransform {
             return this.transform(valueObject, keyObject, topic, normalizedTimestamp);
             
         } catch (error) {
-            console.error('Context key transformation failed:', error);
+            this.recordLogger(valueObject, keyObject, topic).error('Context key transformation failed', errorFields(error, valueObject, keyObject, this.masker));
             return this.transform(valueObject, keyObject, topic, timestamp);
         }
     }
@@ -153,7 +161,7 @@ export class KeyTransform {
             return this.sanitizeKey(result);
             
         } catch (error) {
-            console.error('Fan-out key transformation failed:', error);
+            this.recordLogger(valueObject, keyObject, topic).error('Fan-out key transformation failed', errorFields(error, valueObject, keyObject, this.masker));
             return this.sanitizeKey(`fanout-error-${keyObject}`);
         }
     }
@@ -164,7 +172,7 @@ export class KeyTransform {
     private normalizeTimestamp(timestamp: number): number {
         // Ensure timestamp is in milliseconds
         if (typeof timestamp !== 'number' || isNaN(timestamp)) {
-            return Date.now();
+            return this.context.clock.now();
         }
         
         if (timestamp < 1000000000000) { // Less than year 2001 in milliseconds
@@ -173,6 +181,13 @@ export class KeyTransform {
         return timestamp;
     }
     
+    /**
+     * Fallback key used when a generated key fails validation
+     */
+    private generateFallbackKey(): string {
+        return `fallback-${this.context.clock.now()}-${this.context.random.next().toString(36).substring(2, 8)}`;
+    }
+    
     /**
      * Simple hash function for key generation
      * Replace with more sophisticated hashing if needed
@@ -205,20 +220,20 @@ export class KeyTransform {
         
         // Kafka recommends keys under 1KB
         if (key.length > 255) {
-            console.warn(`Key is quite long (${key.length} chars): ${key.substring(0, 50)}...`);
+            this.context.logger.warn('Key is too long', { length: key.length });
             return false;
         }
         
         // Check for problematic characters
         const problematicChars = /[\u003C\u003E\u003A\u0022\u002F\u005C\u007C\u003F\u002A]/u;
         if (problematicChars.test(key)) {
-            console.warn(`Key contains problematic characters: ${key}`);
+            this.context.logger.warn('Key contains problematic characters', { length: key.length });
             return false;
         }
         
         const controlChars = /[\u0000-\u001F]/u;
         if (controlChars.test(key)) {
-            console.warn(`Key contains control character: ${key}`);
+            this.context.logger.warn('Key contains control characters', { length: key.length });
             return false;
         }
         
@@ -259,8 +274,15 @@ export class KeyTransform {
                 return value;
             });
         } catch (error) {
-            console.warn('Failed to stringify object:', error);
+            this.context.logger.warn('Failed to stringify object', errorFields(error));
             return '[Unstringifiable]';
         }
     }
-}
\ No newline at end of file
+    
+    /**
+     * Logger adding the topic, key and id of the record to each entry
+     */
+    private recordLogger(valueObject: any, keyObject: any, topic: string): Logger {
+        return this.context.logger.child(recordFields(topic, keyObject, valueObject, this.masker));
+    }
+}
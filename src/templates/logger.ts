@@ -0,0 +1,259 @@
+// logger.ts - Structured logging shared by all transform classes
+// Level threshold, per-message rate limiting and sampling, record correlation fields and swappable sinks
+
+import { Clock, RandomSource } from './runtimeContext';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Fields identifying what an entry is about, e.g. the record being transformed
+ */
+export interface LogFields {
+    topic?: string;
+    key?: any;
+    record_id?: string;
+    [field: string]: any;
+}
+
+export interface LogEntry extends LogFields {
+    level: LogLevel;
+    message: string;
+    timestamp: string;
+    context?: any;
+    // Entries of the same message and level dropped by rate limiting since the last one written
+    suppressed?: number;
+}
+
+/**
+ * Where entries are written
+ */
+export interface LogSink {
+    write(entry: LogEntry): void;
+}
+
+export interface Logger {
+    log(level: LogLevel, message: string, context?: any): void;
+    debug(message: string, context?: any): void;
+    info(message: string, context?: any): void;
+    warn(message: string, context?: any): void;
+    error(message: string, context?: any): void;
+    // Logger adding the fields to every entry; it shares the level, limits and sinks of this one
+    child(fields: LogFields): Logger;
+}
+
+/**
+ * At most maxPerWindow entries of one message and level every windowMs
+ */
+export interface RateLimit {
+    maxPerWindow: number;
+    windowMs: number;
+}
+
+export interface LoggerOptions {
+    // Entries below this level are discarded, defaults to info
+    level?: LogLevel;
+    // Defaults to a ConsoleSink
+    sinks?: LogSink[];
+    // Defaults to DEFAULT_RATE_LIMIT, false to write every entry
+    rateLimit?: RateLimit | false;
+    // Fraction of debug and info entries written, defaults to 1 - warnings and errors are never sampled
+    sampleRate?: number;
+    clock?: Clock;
+    random?: RandomSource;
+}
+
+/**
+ * Ten entries per message and level per second - enough to see a problem, not one line per record at full throughput
+ */
+export const DEFAULT_RATE_LIMIT: RateLimit = { maxPerWindow: 10, windowMs: 1000 };
+
+// Record fields read as record_id, in order
+const RECORD_ID_FIELDS = ['id', '_id', 'order_id'];
+
+/**
+ * Masks correlation fields and error messages, see Masker in masking.ts
+ */
+export interface FieldMasker {
+    maskAt(path: string, value: any): any;
+    scrub(text: string, record: any, keyObject?: any): string;
+}
+
+/**
+ * Correlation fields for a record: its topic, key and id
+ * The key is masked as source_key and the id as its own field when a masker is given
+ */
+export function recordFields(topic: string | undefined, keyObject: any, record: any, masker?: FieldMasker): LogFields {
+    const fields: LogFields = {};
+    const idField = RECORD_ID_FIELDS.filter(field => record && typeof record === 'object' && record[field])[0];
+    if (topic !== undefined) {
+        fields.topic = topic;
+    }
+    if (keyObject !== undefined && keyObject !== null) {
+        fields.key = masker ? masker.maskAt('source_key', keyObject) : keyObject;
+    }
+    if (idField) {
+        fields.record_id = String(masker ? masker.maskAt(idField, record[idField]) : record[idField]);
+    }
+    return fields;
+}
+
+/**
+ * Context for a failure entry: the error type and message, with the record's sensitive values scrubbed when a masker is given
+ */
+export function errorFields(error: any, record?: any, keyObject?: any, masker?: FieldMasker): { error_type: string; error_message: string } {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+        error_type: error instanceof Error ? error.name : typeof error,
+        error_message: masker ? masker.scrub(message, record, keyObject) : message
+    };
+}
+
+/**
+ * One JSON line per entry on console.error, console.warn or console.log by level
+ */
+export class ConsoleSink implements LogSink {
+    public write(entry: LogEntry): void {
+        const line = JSON.stringify(entry);
+        switch (entry.level) {
+            case 'error':
+                console.error(line);
+                break;
+            case 'warn':
+                console.warn(line);
+                break;
+            default:
+                console.log(line);
+        }
+    }
+}
+
+/**
+ * Keeps entries in memory, for assertions in tests
+ */
+export class MemorySink implements LogSink {
+    public readonly entries: LogEntry[] = [];
+
+    public write(entry: LogEntry): void {
+        this.entries.push(entry);
+    }
+
+    /**
+     * Messages written, optionally of one level only
+     */
+    public messages(level?: LogLevel): string[] {
+        return this.entries.filter(entry => !level || entry.level === level).map(entry => entry.message);
+    }
+
+    public clear(): void {
+        this.entries.length = 0;
+    }
+}
+
+interface RateWindow {
+    start: number;
+    written: number;
+    suppressed: number;
+}
+
+// Settings and rate limit windows shared by a logger and its children
+interface LoggerState {
+    threshold: number;
+    sinks: LogSink[];
+    rateLimit: RateLimit | false;
+    sampleRate: number;
+    clock: Clock;
+    random: RandomSource;
+    windows: { [message: string]: RateWindow };
+}
+
+/**
+ * Structured Logger Class
+ *
+ * Writes LogEntry objects to its sinks. Messages should be constant, with the details in the context,
+ * as rate limiting counts entries by message.
+ */
+export class StructuredLogger implements Logger {
+    private state: LoggerState;
+
+    constructor(options: LoggerOptions = {}, private fields: LogFields = {}) {
+        this.state = {
+            threshold: LOG_LEVELS.indexOf(options.level || 'info'),
+            sinks: options.sinks || [new ConsoleSink()],
+            rateLimit: options.rateLimit !== undefined ? options.rateLimit : DEFAULT_RATE_LIMIT,
+            sampleRate: options.sampleRate !== undefined ? options.sampleRate : 1,
+            clock: options.clock || { now: () => Date.now() },
+            random: options.random || { next: () => Math.random() },
+            windows: {}
+        };
+    }
+
+    public log(level: LogLevel, message: string, context?: any): void {
+        const state = this.state;
+        if (LOG_LEVELS.indexOf(level) < state.threshold) {
+            return;
+        }
+        if ((level === 'debug' || level === 'info') && state.sampleRate < 1 && state.random.next() >= state.sampleRate) {
+            return;
+        }
+
+        const now = state.clock.now();
+        const suppressed = this.admit(`${level}:${message}`, now);
+        if (suppressed === false) {
+            return;
+        }
+
+        // Fields come first, so a field named level, message or timestamp cannot replace them
+        const entry: LogEntry = { ...this.fields, level, message, timestamp: new Date(now).toISOString() };
+        if (context !== undefined) {
+            entry.context = context;
+        }
+        if (suppressed > 0) {
+            entry.suppressed = suppressed;
+        }
+        state.sinks.forEach(sink => sink.write(entry));
+    }
+
+    public debug(message: string, context?: any): void {
+        this.log('debug', message, context);
+    }
+
+    public info(message: string, context?: any): void {
+        this.log('info', message, context);
+    }
+
+    public warn(message: string, context?: any): void {
+        this.log('warn', message, context);
+    }
+
+    public error(message: string, context?: any): void {
+        this.log('error', message, context);
+    }
+
+    public child(fields: LogFields): Logger {
+        const child = new StructuredLogger({}, { ...this.fields, ...fields });
+        child.state = this.state;
+        return child;
+    }
+
+    // False when the entry is over the rate limit, else the number of entries suppressed before it
+    private admit(key: string, now: number): number | false {
+        const limit = this.state.rateLimit;
+        if (!limit) {
+            return 0;
+        }
+        let window = this.state.windows[key];
+        if (!window || now - window.start >= limit.windowMs) {
+            window = this.state.windows[key] = { start: now, written: 0, suppressed: window ? window.suppressed : 0 };
+        }
+        if (window.written >= limit.maxPerWindow) {
+            window.suppressed++;
+            return false;
+        }
+        window.written++;
+        const suppressed = window.suppressed;
+        window.suppressed = 0;
+        return suppressed;
+    }
+}
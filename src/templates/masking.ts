@@ -0,0 +1,336 @@
+// masking.ts - Field-level masking and tokenization of sensitive data
+// A declarative policy (rules on field paths or name patterns) applied to transformed records, keys and error output
+
+import { hmacSha256 } from './hashing';
+
+/**
+ * How a matched field is masked
+ * - redact: replaced with a fixed text, [REDACTED] by default
+ * - partial: all but the first visibleStart and last visibleEnd characters replaced with *
+ * - tokenize: replaced with tok_ and an HMAC-SHA256 of the value, the same token for the same value and key
+ * - email: local part masked after its first character, the domain kept (j*******@example.com)
+ * - phone: every digit but the last four masked, the formatting kept (+* (***) ***-4567)
+ * - drop: the field is removed
+ */
+export type MaskingStrategy = 'redact' | 'partial' | 'tokenize' | 'email' | 'phone' | 'drop';
+
+/**
+ * One masking rule; the first rule matching a field applies
+ * Matching an object or array masks everything in it
+ */
+export interface MaskingRule {
+    // Dotted field paths, e.g. customer.name or lines.sku - array elements take no path segment, * matches any one field
+    fields?: string[];
+    // Regular expression matched against field names, case-insensitive, e.g. "email|phone"
+    pattern?: string;
+    strategy: MaskingStrategy;
+    // redact: replacement text
+    replacement?: string;
+    // partial: characters left visible, defaults to 0 at the start and 4 at the end
+    visibleStart?: number;
+    visibleEnd?: number;
+}
+
+export interface MaskingPolicy {
+    rules: MaskingRule[];
+    // HMAC key for tokenize rules - keep it out of source control, see tokenKeyEnv in streamkap.config
+    tokenKey?: string;
+}
+
+export const MASKING_STRATEGIES: MaskingStrategy[] = ['redact', 'partial', 'tokenize', 'email', 'phone', 'drop'];
+
+export const DEFAULT_REDACTION = '[REDACTED]';
+
+export const TOKEN_PREFIX = 'tok_';
+
+// Shorter values are masked in records but not searched for in error messages, where they would match ordinary text
+const MIN_SCRUB_LENGTH = 4;
+
+// Replaced at build time with the transform's masking policy from streamkap.config, as a JSON string
+declare const STREAMKAP_MASKING_POLICY: string | undefined;
+
+/**
+ * Masking policy of the bundle being built, or no rules outside a build
+ */
+export function configuredMaskingPolicy(): MaskingPolicy {
+    return typeof STREAMKAP_MASKING_POLICY !== 'undefined' ? JSON.parse(STREAMKAP_MASKING_POLICY) : { rules: [] };
+}
+
+/**
+ * Thrown when a Masker is created from an invalid policy
+ */
+export class MaskingPolicyError extends Error {
+    constructor(public readonly issues: string[]) {
+        super(`Invalid masking policy: ${issues.join('; ')}`);
+        this.name = 'MaskingPolicyError';
+        Object.setPrototypeOf(this, MaskingPolicyError.prototype);
+    }
+}
+
+/**
+ * List every problem in a masking policy, empty when it is valid
+ */
+export function validateMaskingPolicy(policy: any): string[] {
+    if (!policy || typeof policy !== 'object' || !Array.isArray(policy.rules)) {
+        return ['Masking policy must be an object with a "rules" array'];
+    }
+
+    const issues = validateMaskingRules(policy.rules);
+    policy.rules.forEach((rule: any, index: number) => {
+        if (rule && rule.strategy === 'tokenize' && (typeof policy.tokenKey !== 'string' || policy.tokenKey.length === 0)) {
+            issues.push(`rules[${index}] tokenizes but the policy has no tokenKey`);
+        }
+    });
+    return issues;
+}
+
+/**
+ * List every problem in the rules of a masking policy, without checking for the token key
+ */
+export function validateMaskingRules(rules: any): string[] {
+    const issues: string[] = [];
+
+    if (!Array.isArray(rules)) {
+        return ['rules must be an array'];
+    }
+
+    rules.forEach((rule: any, index: number) => {
+        const label = `rules[${index}]`;
+        if (!rule || typeof rule !== 'object') {
+            issues.push(`${label} must be an object`);
+            return;
+        }
+        if (MASKING_STRATEGIES.indexOf(rule.strategy) === -1) {
+            issues.push(`${label}.strategy "${rule.strategy}" is not one of: ${MASKING_STRATEGIES.join(', ')}`);
+        }
+        if (rule.fields === undefined && rule.pattern === undefined) {
+            issues.push(`${label} needs fields or a pattern`);
+        }
+        if (rule.fields !== undefined && (!Array.isArray(rule.fields) || rule.fields.some((field: any) => typeof field !== 'string' || field.length === 0))) {
+            issues.push(`${label}.fields must be an array of field paths`);
+        }
+        if (rule.pattern !== undefined) {
+            try {
+                new RegExp(rule.pattern);
+            } catch (error) {
+                issues.push(`${label}.pattern is not a valid regular expression: ${rule.pattern}`);
+            }
+        }
+        ['visibleStart', 'visibleEnd'].forEach(name => {
+            if (rule[name] !== undefined && (typeof rule[name] !== 'number' || rule[name] < 0 || Math.floor(rule[name]) !== rule[name])) {
+                issues.push(`${label}.${name} must be a non-negative integer`);
+            }
+        });
+    });
+
+    return issues;
+}
+
+/**
+ * Mask all but the first and last characters
+ */
+export function maskPartial(value: string, visibleStart = 0, visibleEnd = 4): string {
+    if (value.length <= visibleStart + visibleEnd) {
+        return value.replace(/./g, '*');
+    }
+    return value.slice(0, visibleStart) + value.slice(visibleStart, value.length - visibleEnd).replace(/./g, '*') + value.slice(value.length - visibleEnd);
+}
+
+/**
+ * Mask the local part of an email address, keeping its first character and the domain
+ * Values without an @ are masked entirely
+ */
+export function maskEmail(value: string): string {
+    const at = value.lastIndexOf('@');
+    if (at <= 0) {
+        return value.replace(/./g, '*');
+    }
+    return value.charAt(0) + value.slice(1, at).replace(/./g, '*') + value.slice(at);
+}
+
+/**
+ * Mask every digit but the last four, keeping separators; numbers of fewer than seven digits are masked entirely
+ */
+export function maskPhone(value: string): string {
+    const digits = value.replace(/\D/g, '').length;
+    const visible = digits >= 7 ? 4 : 0;
+    let seen = 0;
+    return value.replace(/\d/g, digit => ++seen > digits - visible ? digit : '*');
+}
+
+/**
+ * Deterministic token for a value - equal values give equal tokens, so tokenized fields still join and group
+ */
+export function tokenize(value: string, key: string): string {
+    return TOKEN_PREFIX + hmacSha256(key, value).slice(0, 32);
+}
+
+interface CompiledRule {
+    rule: MaskingRule;
+    paths: string[][];
+    pattern?: RegExp;
+}
+
+// Original text and what it was masked to, for scrubbing messages
+type Replacement = [string, string];
+
+/**
+ * Masker Class
+ *
+ * Applies a masking policy to records. Masked records are copies; the input is never modified,
+ * and is returned as is when the policy has no rules.
+ */
+export class Masker {
+    private rules: CompiledRule[];
+    private tokenKey: string;
+
+    /**
+     * @throws MaskingPolicyError when the policy is invalid
+     */
+    constructor(policy: MaskingPolicy = configuredMaskingPolicy()) {
+        const issues = validateMaskingPolicy(policy);
+        if (issues.length > 0) {
+            throw new MaskingPolicyError(issues);
+        }
+        this.tokenKey = policy.tokenKey || '';
+        this.rules = policy.rules.map(rule => ({
+            rule,
+            paths: (rule.fields || []).map(field => field.split('.')),
+            pattern: rule.pattern !== undefined ? new RegExp(rule.pattern, 'i') : undefined
+        }));
+    }
+
+    /**
+     * False when the policy has no rules
+     */
+    public get active(): boolean {
+        return this.rules.length > 0;
+    }
+
+    /**
+     * Mask a record
+     */
+    public mask<T>(record: T): T {
+        return this.active ? this.maskFields(record, [], []) : record;
+    }
+
+    /**
+     * Mask a value as the field at a dotted path, e.g. the record key as source_key
+     */
+    public maskAt(path: string, value: any): any {
+        return this.active ? this.maskField(value, path.split('.'), []) : value;
+    }
+
+    /**
+     * Replace the sensitive values of a record (and its key) found in a text, such as an error message or stack
+     */
+    public scrub(text: string, record: any, keyObject?: any): string {
+        if (!this.active || typeof text !== 'string') {
+            return text;
+        }
+        const found: Replacement[] = [];
+        this.maskFields(record, [], found);
+        if (keyObject !== undefined) {
+            this.maskField(keyObject, ['source_key'], found);
+        }
+        // Longest first, so a value containing another is replaced whole
+        return found
+            .filter(([original]) => original.length >= MIN_SCRUB_LENGTH)
+            .sort((a, b) => b[0].length - a[0].length)
+            .reduce((scrubbed, [original, masked]) => scrubbed.split(original).join(masked), text);
+    }
+
+    // Arrays are transparent: their elements are masked at the path of the array
+    private maskFields(value: any, path: string[], found: Replacement[]): any {
+        if (Array.isArray(value)) {
+            return value.map(item => this.maskFields(item, path, found));
+        }
+        if (!value || typeof value !== 'object') {
+            return value;
+        }
+        const masked: any = {};
+        Object.keys(value).forEach(name => {
+            const fieldPath = path.concat(name);
+            const rule = this.ruleFor(fieldPath);
+            if (!rule) {
+                masked[name] = this.maskFields(value[name], fieldPath, found);
+            } else if (rule.strategy === 'drop') {
+                this.collect(value[name], DEFAULT_REDACTION, found);
+            } else {
+                masked[name] = this.apply(rule, value[name], found);
+            }
+        });
+        return masked;
+    }
+
+    private maskField(value: any, path: string[], found: Replacement[]): any {
+        const rule = this.ruleFor(path);
+        if (!rule) {
+            return this.maskFields(value, path, found);
+        }
+        if (rule.strategy === 'drop') {
+            this.collect(value, DEFAULT_REDACTION, found);
+            return DEFAULT_REDACTION;
+        }
+        return this.apply(rule, value, found);
+    }
+
+    private ruleFor(path: string[]): MaskingRule | undefined {
+        const name = path[path.length - 1];
+        const match = this.rules.filter(compiled =>
+            (compiled.pattern && compiled.pattern.test(name))
+            || compiled.paths.some(fields => fields.length === path.length && fields.every((field, index) => field === '*' || field === path[index]))
+        )[0];
+        return match && match.rule;
+    }
+
+    private apply(rule: MaskingRule, value: any, found: Replacement[]): any {
+        if (value === null || value === undefined) {
+            return value;
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => this.apply(rule, item, found));
+        }
+        if (typeof value === 'object') {
+            if (rule.strategy === 'redact' || rule.strategy === 'tokenize') {
+                const replacement = this.maskText(rule, JSON.stringify(value));
+                this.collect(value, replacement, found);
+                return replacement;
+            }
+            const masked: any = {};
+            Object.keys(value).forEach(name => masked[name] = this.apply(rule, value[name], found));
+            return masked;
+        }
+        const text = String(value);
+        const masked = this.maskText(rule, text);
+        found.push([text, masked]);
+        return masked;
+    }
+
+    private maskText(rule: MaskingRule, text: string): string {
+        switch (rule.strategy) {
+            case 'partial':
+                return maskPartial(text, rule.visibleStart, rule.visibleEnd);
+            case 'tokenize':
+                return tokenize(text, this.tokenKey);
+            case 'email':
+                return maskEmail(text);
+            case 'phone':
+                return maskPhone(text);
+            default:
+                return rule.replacement !== undefined ? rule.replacement : DEFAULT_REDACTION;
+        }
+    }
+
+    // Every scalar inside a value replaced as a whole, to scrub from messages
+    private collect(value: any, replacement: string, found: Replacement[]): void {
+        if (value === null || value === undefined) {
+            return;
+        }
+        if (typeof value === 'object') {
+            Object.keys(value).forEach(name => this.collect(value[name], replacement, found));
+            return;
+        }
+        found.push([String(value), replacement]);
+    }
+}
@@ -0,0 +1,372 @@
+// metrics.ts - In-transform metrics shared by all transform classes
+// Counters, gauges and histograms, exported periodically as metrics records or rendered in the Prometheus text format
+
+import { Clock } from './runtimeContext';
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * Label names and values of one series, e.g. { operation: 'value' }
+ */
+export interface Labels {
+    [name: string]: string;
+}
+
+/**
+ * Value of one series in a metrics record
+ * Counters and gauges have a value, histograms a count, a sum and cumulative bucket counts keyed by upper bound
+ */
+export interface MetricSample {
+    name: string;
+    type: MetricType;
+    help: string;
+    labels: Labels;
+    value?: number;
+    count?: number;
+    sum?: number;
+    buckets?: { [le: string]: number };
+}
+
+/**
+ * Every series of a registry at one point in time
+ */
+export interface MetricsRecord {
+    _streamkap_metrics: true;
+    timestamp: string;
+    metrics: MetricSample[];
+}
+
+/**
+ * Where metrics records are exported
+ */
+export interface MetricsSink {
+    write(record: MetricsRecord): void;
+}
+
+export interface MetricsOptions {
+    // Defaults to the system clock
+    clock?: Clock;
+    // Defaults to a ConsoleMetricsSink
+    sinks?: MetricsSink[];
+    // Minimum time between exports by collect, defaults to DEFAULT_EXPORT_INTERVAL_MS
+    exportIntervalMs?: number;
+}
+
+export const DEFAULT_EXPORT_INTERVAL_MS = 60000;
+
+/**
+ * Upper bounds in milliseconds - from a cache hit to a lookup close to the enrichment timeout
+ */
+export const DEFAULT_LATENCY_BUCKETS = [1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000];
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+
+/**
+ * Thrown when a metric name is invalid or already registered with another type
+ */
+export class MetricsError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MetricsError';
+        Object.setPrototypeOf(this, MetricsError.prototype);
+    }
+}
+
+/**
+ * One JSON line per metrics record on console.log
+ */
+export class ConsoleMetricsSink implements MetricsSink {
+    public write(record: MetricsRecord): void {
+        console.log(JSON.stringify(record));
+    }
+}
+
+/**
+ * Keeps metrics records in memory, for assertions in tests
+ */
+export class MemoryMetricsSink implements MetricsSink {
+    public readonly records: MetricsRecord[] = [];
+
+    public write(record: MetricsRecord): void {
+        this.records.push(record);
+    }
+}
+
+// Series of one metric keyed by their labels, in a fixed order so equal labels give the same key
+abstract class Metric<S> {
+    protected series: { [key: string]: { labels: Labels; state: S } } = {};
+
+    constructor(public readonly name: string, public readonly help: string) {}
+
+    public abstract get type(): MetricType;
+
+    public samples(): MetricSample[] {
+        return Object.keys(this.series).map(key => this.sample(this.series[key].labels, this.series[key].state));
+    }
+
+    protected state(labels: Labels): S {
+        const key = seriesKey(labels);
+        if (!this.series[key]) {
+            this.series[key] = { labels: { ...labels }, state: this.initial() };
+        }
+        return this.series[key].state;
+    }
+
+    // Reading a series that was never written does not create it
+    protected current(labels: Labels): S {
+        const series = this.series[seriesKey(labels)];
+        return series ? series.state : this.initial();
+    }
+
+    protected abstract initial(): S;
+
+    protected abstract sample(labels: Labels, state: S): MetricSample;
+}
+
+/**
+ * Count that only goes up, e.g. records filtered
+ */
+export class Counter extends Metric<{ value: number }> {
+    public get type(): MetricType {
+        return 'counter';
+    }
+
+    public inc(labels: Labels = {}, amount = 1): void {
+        this.state(labels).value += amount;
+    }
+
+    public value(labels: Labels = {}): number {
+        return this.current(labels).value;
+    }
+
+    protected initial() {
+        return { value: 0 };
+    }
+
+    protected sample(labels: Labels, state: { value: number }): MetricSample {
+        return { name: this.name, type: this.type, help: this.help, labels, value: state.value };
+    }
+}
+
+/**
+ * Value that goes up and down, e.g. lookups in flight
+ */
+export class Gauge extends Metric<{ value: number }> {
+    public get type(): MetricType {
+        return 'gauge';
+    }
+
+    public set(value: number, labels: Labels = {}): void {
+        this.state(labels).value = value;
+    }
+
+    public inc(labels: Labels = {}, amount = 1): void {
+        this.state(labels).value += amount;
+    }
+
+    public dec(labels: Labels = {}, amount = 1): void {
+        this.state(labels).value -= amount;
+    }
+
+    public value(labels: Labels = {}): number {
+        return this.current(labels).value;
+    }
+
+    protected initial() {
+        return { value: 0 };
+    }
+
+    protected sample(labels: Labels, state: { value: number }): MetricSample {
+        return { name: this.name, type: this.type, help: this.help, labels, value: state.value };
+    }
+}
+
+interface HistogramState {
+    count: number;
+    sum: number;
+    // Observations at or below each bucket's upper bound, not cumulative
+    counts: number[];
+}
+
+/**
+ * Distribution of observed values in buckets, e.g. enrichment latency
+ */
+export class Histogram extends Metric<HistogramState> {
+    constructor(name: string, help: string, public readonly buckets: number[] = DEFAULT_LATENCY_BUCKETS) {
+        super(name, help);
+    }
+
+    public get type(): MetricType {
+        return 'histogram';
+    }
+
+    public observe(value: number, labels: Labels = {}): void {
+        const state = this.state(labels);
+        state.count++;
+        state.sum += value;
+        const bucket = this.buckets.filter(bound => value > bound).length;
+        if (bucket < this.buckets.length) {
+            state.counts[bucket]++;
+        }
+    }
+
+    /**
+     * Number of observations, optionally only those at or below an upper bound
+     */
+    public count(labels: Labels = {}, le?: number): number {
+        const state = this.current(labels);
+        return le === undefined ? state.count : this.buckets.reduce((total, bound, index) => bound <= le ? total + state.counts[index] : total, 0);
+    }
+
+    protected initial(): HistogramState {
+        return { count: 0, sum: 0, counts: this.buckets.map(() => 0) };
+    }
+
+    protected sample(labels: Labels, state: HistogramState): MetricSample {
+        const buckets: { [le: string]: number } = {};
+        let cumulative = 0;
+        this.buckets.forEach((bound, index) => {
+            cumulative += state.counts[index];
+            buckets[String(bound)] = cumulative;
+        });
+        buckets['+Inf'] = state.count;
+        return { name: this.name, type: this.type, help: this.help, labels, count: state.count, sum: state.sum, buckets };
+    }
+}
+
+/**
+ * Metrics Registry Class
+ *
+ * Creates metrics by name - asking for a name again returns the same metric - and exports them to its sinks.
+ * Streamkap calls the transform functions one record at a time, so there is no timer: collect is called after
+ * each record and exports once the interval has passed since the last export.
+ */
+export class MetricsRegistry {
+    private metrics: { [name: string]: Metric<any> } = {};
+    private clock: Clock;
+    private sinks: MetricsSink[];
+    private exportIntervalMs: number;
+    private lastExport?: number;
+
+    constructor(options: MetricsOptions = {}) {
+        this.clock = options.clock || { now: () => Date.now() };
+        this.sinks = options.sinks || [new ConsoleMetricsSink()];
+        this.exportIntervalMs = options.exportIntervalMs !== undefined ? options.exportIntervalMs : DEFAULT_EXPORT_INTERVAL_MS;
+    }
+
+    /**
+     * @throws MetricsError when the name is invalid or registered as a gauge or histogram
+     */
+    public counter(name: string, help: string): Counter {
+        return this.register(name, 'counter', () => new Counter(name, help));
+    }
+
+    /**
+     * @throws MetricsError when the name is invalid or registered as a counter or histogram
+     */
+    public gauge(name: string, help: string): Gauge {
+        return this.register(name, 'gauge', () => new Gauge(name, help));
+    }
+
+    /**
+     * @param buckets - Upper bounds in ascending order, only used when the histogram is created
+     * @throws MetricsError when the name is invalid or registered as a counter or gauge
+     */
+    public histogram(name: string, help: string, buckets?: number[]): Histogram {
+        return this.register(name, 'histogram', () => new Histogram(name, help, buckets));
+    }
+
+    /**
+     * Current value of every series, as a metrics record
+     */
+    public snapshot(): MetricsRecord {
+        const metrics: MetricSample[] = [];
+        Object.keys(this.metrics).sort().forEach(name => metrics.push(...this.metrics[name].samples()));
+        return { _streamkap_metrics: true, timestamp: new Date(this.clock.now()).toISOString(), metrics };
+    }
+
+    /**
+     * Every series in the Prometheus text exposition format
+     */
+    public toPrometheus(): string {
+        return prometheusText(this.snapshot());
+    }
+
+    /**
+     * Export a snapshot when the export interval has passed since the last one
+     * The first call starts the interval
+     */
+    public collect(): void {
+        const now = this.clock.now();
+        if (this.lastExport === undefined) {
+            this.lastExport = now;
+        } else if (now - this.lastExport >= this.exportIntervalMs) {
+            this.export();
+        }
+    }
+
+    /**
+     * Write a snapshot to the sinks now
+     */
+    public export(): MetricsRecord {
+        const record = this.snapshot();
+        this.lastExport = this.clock.now();
+        this.sinks.forEach(sink => sink.write(record));
+        return record;
+    }
+
+    private register<M extends Metric<any>>(name: string, type: MetricType, create: () => M): M {
+        if (!METRIC_NAME.test(name)) {
+            throw new MetricsError(`Invalid metric name: ${name}`);
+        }
+        const existing = this.metrics[name];
+        if (existing && existing.type !== type) {
+            throw new MetricsError(`Metric ${name} is already registered as a ${existing.type}`);
+        }
+        return (existing || (this.metrics[name] = create())) as M;
+    }
+}
+
+/**
+ * Render a metrics record in the Prometheus text exposition format
+ */
+export function prometheusText(record: MetricsRecord): string {
+    const lines: string[] = [];
+    let previous: string | undefined;
+
+    record.metrics.forEach(sample => {
+        if (sample.name !== previous) {
+            lines.push(`# HELP ${sample.name} ${sample.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+            lines.push(`# TYPE ${sample.name} ${sample.type}`);
+            previous = sample.name;
+        }
+        if (sample.type !== 'histogram') {
+            lines.push(`${sample.name}${labelText(sample.labels)} ${sample.value}`);
+            return;
+        }
+        // Integer bounds come first in JSON key order, so sort the bounds by value
+        Object.keys(sample.buckets || {}).sort((a, b) => bound(a) - bound(b)).forEach(le => {
+            lines.push(`${sample.name}_bucket${labelText({ ...sample.labels, le })} ${sample.buckets![le]}`);
+        });
+        lines.push(`${sample.name}_sum${labelText(sample.labels)} ${sample.sum}`);
+        lines.push(`${sample.name}_count${labelText(sample.labels)} ${sample.count}`);
+    });
+
+    return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
+
+function seriesKey(labels: Labels): string {
+    return Object.keys(labels).sort().map(name => `${name}=${labels[name]}`).join(',');
+}
+
+function bound(le: string): number {
+    return le === '+Inf' ? Infinity : parseFloat(le);
+}
+
+function labelText(labels: Labels): string {
+    const names = Object.keys(labels);
+    if (names.length === 0) {
+        return '';
+    }
+    return `{${names.map(name => `${name}="${labels[name].replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`).join(',')}}`;
+}
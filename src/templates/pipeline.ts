@@ -0,0 +1,311 @@
+// pipeline.ts - Composable value transforms assembled from stages
+// validate, filter, map, flatMap, enrich and annotate stages compiled into one Streamkap function, sync or async
+
+import { CommonTransform } from './commonTransform';
+import { DeadLetterHandler, DeadLetterPolicy } from './deadLetter';
+import { Enricher } from './enrichment';
+import { Masker, MaskingPolicy, configuredMaskingPolicy } from './masking';
+import { Counter } from './metrics';
+import { RoutingTable, compileRoutingTable } from './routingRules';
+import { RuntimeContext, createRuntimeContext } from './runtimeContext';
+import { StreamkapFunction, TopicTransformResult, ValueTransformResult } from './sdk';
+
+export type MaybePromise<T> = T | Promise<T>;
+
+export type StageKind = 'validate' | 'filter' | 'map' | 'flatMap' | 'enrich' | 'annotate';
+
+/**
+ * What every stage sees besides the row: the record key, the sanitized topic and the normalized timestamp
+ */
+export interface PipelineContext<K = unknown> {
+    key: K;
+    topic: string;
+    // Record timestamp in milliseconds
+    timestamp: number;
+}
+
+export type StageFn<R, K, T> = (row: R, context: PipelineContext<K>) => T;
+
+export interface PipelineOptions {
+    // Operation label of the pipeline's metrics, logs and error envelopes, defaults to 'pipeline'
+    name?: string;
+    // Defaults to the transform's deadLetter setting in streamkap.config
+    deadLetter?: DeadLetterPolicy;
+    // Defaults to the transform's masking setting in streamkap.config, applied to every output row
+    masking?: MaskingPolicy;
+}
+
+export interface EnrichStageOptions<R, K> {
+    // Lookup key of a row - rows without one get a null enrichment
+    key: StageFn<R, K, string | undefined>;
+    // Field the looked up data is written to, defaults to "enrichment"
+    field?: string;
+    name?: string;
+}
+
+/**
+ * Thrown by a validate stage when a row fails its check
+ */
+export class RecordValidationError extends Error {
+    public readonly details: { issues: string[] };
+
+    constructor(issues: string[]) {
+        super(`Record failed validation: ${issues.join('; ')}`);
+        this.name = 'RecordValidationError';
+        this.details = { issues };
+        Object.setPrototypeOf(this, RecordValidationError.prototype);
+    }
+}
+
+/**
+ * A stage that threw or rejected - names the stage, and keeps the cause's type and details for the error envelope
+ */
+export class PipelineStageError extends Error {
+    public readonly details: { stage: string; cause_type: string; [detail: string]: any };
+
+    constructor(public readonly stage: string, public readonly cause: any) {
+        super(`Stage ${stage} failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+        this.name = 'PipelineStageError';
+        this.details = {
+            ...(cause && typeof cause.details === 'object' ? cause.details : {}),
+            stage,
+            cause_type: cause instanceof Error ? cause.name : typeof cause
+        };
+        Object.setPrototypeOf(this, PipelineStageError.prototype);
+    }
+}
+
+// One step of the pipeline: the rows a row becomes, none when it is filtered out
+interface Stage {
+    name: string;
+    kind: StageKind;
+    run(row: any, context: PipelineContext<any>): MaybePromise<any[]>;
+}
+
+type Router = StageFn<any, any, TopicTransformResult>;
+
+/**
+ * Pipeline Class
+ *
+ * Builds a value transform from stages instead of copying ValueTransform's methods. Each call returns a new
+ * pipeline, so a shared prefix can be extended in several ways. Every record goes through input validation
+ * (tombstones are filtered out), then the stages in order; a stage returning a promise makes the compiled
+ * function return one, so sync and async stages mix freely. Failures are logged, counted and handled by the
+ * dead-letter policy, naming the stage that failed.
+ */
+export class Pipeline<V = any, K = unknown, R = V> {
+    constructor(
+        private options: PipelineOptions = {},
+        private context: RuntimeContext = createRuntimeContext(),
+        private stages: Stage[] = [],
+        private router?: Router
+    ) {}
+
+    /**
+     * Fail rows the check rejects - it returns false or a list of issues, empty when the row is valid
+     */
+    public validate(check: StageFn<R, K, boolean | string[]>, name?: string): Pipeline<V, K, R> {
+        return this.add('validate', name, (row, context) => {
+            const result = check(row, context);
+            const issues = result === true ? [] : result === false ? ['Record failed validation'] : result;
+            if (issues.length > 0) {
+                throw new RecordValidationError(issues);
+            }
+            return [row];
+        });
+    }
+
+    /**
+     * Keep the rows the predicate accepts
+     */
+    public filter(predicate: StageFn<R, K, MaybePromise<boolean>>, name?: string): Pipeline<V, K, R> {
+        return this.add('filter', name, (row, context) => then(predicate(row, context), keep => keep ? [row] : []));
+    }
+
+    /**
+     * Replace each row, null filters it out
+     */
+    public map<S>(transform: StageFn<R, K, MaybePromise<S | null>>, name?: string): Pipeline<V, K, S> {
+        return this.add('map', name, (row, context) => then(transform(row, context), result => result === null || result === undefined ? [] : [result]));
+    }
+
+    /**
+     * Replace each row with any number of rows - the compiled function then always returns an array
+     */
+    public flatMap<S>(transform: StageFn<R, K, MaybePromise<S[] | null>>, name?: string): Pipeline<V, K, S> {
+        return this.add('flatMap', name, (row, context) => then(transform(row, context), result => result || []));
+    }
+
+    /**
+     * Look rows up through an Enricher - with its timeout, retries, cache and circuit breaker - and add the data
+     */
+    public enrich(enricher: Enricher, options: EnrichStageOptions<R, K>): Pipeline<V, K, R & { [field: string]: any }> {
+        const field = options.field || 'enrichment';
+        return this.add('enrich', options.name, (row, context) => {
+            const key = options.key(row, context);
+            return then(key === undefined ? undefined : enricher.get(key), data => [{ ...row, [field]: data === undefined ? null : data }]);
+        });
+    }
+
+    /**
+     * Add fields to each row, e.g. source metadata from the context
+     */
+    public annotate<A extends object>(fields: A | StageFn<R, K, A>, name?: string): Pipeline<V, K, R & A> {
+        return this.add('annotate', name, (row, context) => [{ ...row, ...(typeof fields === 'function' ? (fields as StageFn<R, K, A>)(row, context) : fields) }]);
+    }
+
+    /**
+     * Topics of the output rows, used by buildTopic - a routing table (see routingRules.ts) or a function
+     */
+    public route(router: RoutingTable | StageFn<R, K, TopicTransformResult>): Pipeline<V, K, R> {
+        let route: Router;
+        if (typeof router === 'function') {
+            route = router as Router;
+        } else {
+            const compiled = compileRoutingTable(router);
+            route = (row, context) => compiled.route(row, context.key, context.topic, context.timestamp);
+        }
+        return new Pipeline<V, K, R>(this.options, this.context, this.stages, route);
+    }
+
+    /**
+     * Compile the value transform (valueTransform.js), exported as _streamkap_transform
+     * Returns one row, an array of rows when the pipeline has a flatMap stage, or null when every row was filtered out
+     */
+    public build(): StreamkapFunction<V, K, MaybePromise<ValueTransformResult<R>>> {
+        const operation = this.options.name || 'pipeline';
+        const masker = new Masker(this.options.masking || configuredMaskingPolicy());
+        const commonTransform = new CommonTransform(this.context, { masker });
+        const deadLetter = new DeadLetterHandler(this.options.deadLetter, this.context, masker);
+        const fansOut = this.stages.some(stage => stage.kind === 'flatMap');
+        const metrics = this.context.metrics;
+        const received = metrics.counter('transform_records_total', 'Records received by the value transform');
+        const filtered = metrics.counter('transform_filtered_total', 'Records filtered out by shouldKeepRecord or validateRecord');
+        const failed = metrics.counter('transform_errors_total', 'Records that failed input validation or transformation');
+        const produced = metrics.counter('transform_output_records_total', 'Rows produced - more than the records received when records fan out');
+
+        const finish = (rows: any[]) => {
+            produced.inc({ operation }, rows.length);
+            metrics.collect();
+            const masked = rows.map(row => masker.mask(commonTransform.removeUndefinedValues(row)));
+            return masked.length === 0 ? null : fansOut ? masked : masked[0];
+        };
+
+        return (valueObject, keyObject, topic, timestamp) => {
+            received.inc({ operation });
+            const fail = (error: any) => {
+                metrics.collect();
+                const stage = error instanceof PipelineStageError ? error.stage : operation;
+                failed.inc({ operation, error_type: error instanceof PipelineStageError ? error.details.cause_type : error instanceof Error ? error.name : typeof error });
+                commonTransform.log('error', 'Pipeline stage failed', { ...commonTransform.createErrorContext(error, stage, valueObject), stage }, commonTransform.logFields(topic, keyObject, valueObject));
+                return deadLetter.handle(error, { stage: 'value', operation: stage, valueObject, keyObject, topic, timestamp });
+            };
+
+            const validation = commonTransform.validateInput(valueObject, keyObject, topic, timestamp);
+            if (!validation.valid || validation.tombstone) {
+                if (!validation.valid) {
+                    failed.inc({ operation, error_type: 'InputValidation' });
+                    commonTransform.log('error', 'Input validation failed', { errors: validation.errors }, commonTransform.logFields(topic, keyObject, valueObject));
+                }
+                metrics.collect();
+                return null;
+            }
+
+            const context: PipelineContext<K> = {
+                key: keyObject,
+                topic: commonTransform.sanitizeTopicName(topic),
+                timestamp: commonTransform.normalizeTimestamp(timestamp)
+            };
+            try {
+                const rows = this.runStages(0, [valueObject], context, filtered, operation);
+                return isPromise(rows) ? rows.then(finish).then(undefined, fail) : finish(rows);
+            } catch (error) {
+                return fail(error);
+            }
+        };
+    }
+
+    /**
+     * Compile the topic transform (topicTransform.js), exported as _streamkap_transform_topic
+     * Routes the rows built by build(), sending error envelopes to the dead-letter topic; without a router rows keep their topic
+     */
+    public buildTopic(): StreamkapFunction<R, K, TopicTransformResult> {
+        const commonTransform = new CommonTransform(this.context);
+        const deadLetter = new DeadLetterHandler(this.options.deadLetter, this.context);
+        const router = this.router;
+
+        return (valueObject, keyObject, topic, timestamp) => deadLetter.route(valueObject, router
+            ? router(valueObject, { key: keyObject, topic: commonTransform.sanitizeTopicName(topic), timestamp: commonTransform.normalizeTimestamp(timestamp) })
+            : topic, keyObject);
+    }
+
+    private add<S>(kind: StageKind, name: string | undefined, run: Stage['run']): Pipeline<V, K, S> {
+        const stage: Stage = { kind, name: name || `${kind}#${this.stages.length + 1}`, run };
+        return new Pipeline<V, K, S>(this.options, this.context, this.stages.concat(stage), this.router);
+    }
+
+    // Runs the stages from index on every row, waiting only when a stage returned a promise
+    private runStages(index: number, rows: any[], context: PipelineContext<K>, filtered: Counter, operation: string): MaybePromise<any[]> {
+        if (index === this.stages.length || rows.length === 0) {
+            return rows;
+        }
+
+        const stage = this.stages[index];
+        const results = rows.map(row => runStage(stage, row, context));
+        const next = (outputs: any[][]) => {
+            const nextRows: any[] = [];
+            outputs.forEach(output => nextRows.push(...output));
+            if (nextRows.length === 0) {
+                filtered.inc({ operation, stage: stage.name });
+            }
+            return this.runStages(index + 1, nextRows, context, filtered, operation);
+        };
+        const outputs = all(results);
+        return isPromise(outputs) ? outputs.then(next) : next(outputs);
+    }
+}
+
+/**
+ * Start a pipeline for a value transform:
+ *
+ *     var transformValue = pipeline<OrderInput>({ name: 'orders' })
+ *         .filter(order => order.status !== 'test')
+ *         .map(order => ({ id: order._id, amount: order.total }))
+ *         .enrich(customers, { key: order => order.id })
+ *         .annotate((order, context) => ({ source_topic: context.topic }))
+ *         .build();
+ */
+export function pipeline<V = any, K = unknown>(options: PipelineOptions = {}, context: RuntimeContext = createRuntimeContext()): Pipeline<V, K, V> {
+    return new Pipeline<V, K, V>(options, context);
+}
+
+function runStage(stage: Stage, row: any, context: PipelineContext<any>): MaybePromise<any[]> {
+    try {
+        const rows = stage.run(row, context);
+        return isPromise(rows) ? rows.then(undefined, error => { throw new PipelineStageError(stage.name, error); }) : rows;
+    } catch (error) {
+        throw new PipelineStageError(stage.name, error);
+    }
+}
+
+// Apply fn now, or once the value resolves
+function then<T, U>(value: MaybePromise<T>, fn: (value: T) => U): MaybePromise<U> {
+    return isPromise(value) ? value.then(fn) : fn(value);
+}
+
+// Every value, resolved together only when one of them is a promise
+function all<T>(values: MaybePromise<T>[]): MaybePromise<T[]> {
+    const settled: T[] = [];
+    for (let i = 0; i < values.length; i++) {
+        const value = values[i];
+        if (isPromise(value)) {
+            return Promise.all(values);
+        }
+        settled.push(value);
+    }
+    return settled;
+}
+
+function isPromise<T>(value: MaybePromise<T>): value is Promise<T> {
+    return value instanceof Promise;
+}
@@ -0,0 +1,386 @@
+// routingRules.ts - Declarative topic routing tables
+// Rules are data (conditions on field paths plus topic templates) compiled once into a fast evaluator
+
+import { parseFieldPath, readFieldPath } from './fieldPath';
+
+/**
+ * Condition operators
+ * - eq / neq: strict equality
+ * - in / nin: value is (not) one of a list
+ * - gt / gte / lt / lte: numeric comparison, false for non-numbers
+ * - regex: string matches a regular expression
+ * - exists: field is present and not null (value: false inverts it)
+ * - truthy: field holds a truthy value, as an if statement tests it (value: false inverts it)
+ * - type: field holds a JSON value of the type named by value: string, number, boolean, object, array or null
+ */
+export type RoutingOperator = 'eq' | 'neq' | 'in' | 'nin' | 'gt' | 'gte' | 'lt' | 'lte' | 'regex' | 'exists' | 'truthy' | 'type';
+
+/**
+ * One condition on a field path
+ * Paths are dotted into the record value (customer.tier, items.0.sku); $topic, $key and $timestamp
+ * read the record metadata ($key.region reads into an object key)
+ */
+export interface RoutingCondition {
+    field: string;
+    op: RoutingOperator;
+    value?: any;
+}
+
+/**
+ * A rule matches when every `all` condition and at least one `any` condition holds
+ * A rule without conditions always matches
+ */
+export interface RoutingRule {
+    // Shown in validation errors
+    name?: string;
+    all?: RoutingCondition[];
+    any?: RoutingCondition[];
+    // Topic template(s), e.g. orders-{region} or {$topic}-priority; a rule whose placeholders are missing is skipped
+    topic: string | string[];
+}
+
+/**
+ * first-match: the topics of the first matching rule
+ * all-match: the topics of every matching rule, without duplicates
+ */
+export type RoutingMode = 'first-match' | 'all-match';
+
+export interface RoutingTable {
+    mode?: RoutingMode;
+    rules: RoutingRule[];
+    // Topic template used when no rule matches, defaults to the source topic
+    default?: string;
+}
+
+/**
+ * Topic function compiled from a routing table
+ */
+export interface TopicRouter {
+    // Topics of the matching rules, empty when none match
+    match(valueObject: any, keyObject: any, topic: string, timestamp: number): string[];
+    // Matching topics, or the default when none match - a single topic is returned as a string
+    route(valueObject: any, keyObject: any, topic: string, timestamp: number): string | string[];
+}
+
+/**
+ * Thrown when a routing table is invalid - lists every problem found
+ */
+export class RoutingTableError extends Error {
+    constructor(public readonly issues: string[]) {
+        super(`Invalid routing table:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+        this.name = 'RoutingTableError';
+        Object.setPrototypeOf(this, RoutingTableError.prototype);
+    }
+}
+
+const OPERATORS: RoutingOperator[] = ['eq', 'neq', 'in', 'nin', 'gt', 'gte', 'lt', 'lte', 'regex', 'exists', 'truthy', 'type'];
+
+const VALUE_TYPES = ['string', 'number', 'boolean', 'object', 'array', 'null'];
+
+const MODES: RoutingMode[] = ['first-match', 'all-match'];
+
+const PLACEHOLDER = /\{([^{}]+)\}/g;
+
+// Replaced at build time with the transform's routing file from streamkap.config, as a JSON string
+declare const STREAMKAP_ROUTING_TABLE: string | undefined;
+
+/**
+ * Routing table of the bundle being built, or undefined when the transform has none
+ */
+export function configuredRoutingTable(): RoutingTable | undefined {
+    return typeof STREAMKAP_ROUTING_TABLE !== 'undefined' ? JSON.parse(STREAMKAP_ROUTING_TABLE) : undefined;
+}
+
+/**
+ * List every problem in a routing table, empty when it is valid
+ */
+export function validateRoutingTable(table: any): string[] {
+    const issues: string[] = [];
+
+    if (!table || typeof table !== 'object' || !Array.isArray(table.rules)) {
+        return ['Routing table must be an object with a "rules" array'];
+    }
+
+    if (table.mode !== undefined && MODES.indexOf(table.mode) === -1) {
+        issues.push(`mode "${table.mode}" is not one of: ${MODES.join(', ')}`);
+    }
+
+    if (table.default !== undefined) {
+        validateTemplate(table.default, 'default', issues);
+    }
+
+    table.rules.forEach((rule: any, index: number) => {
+        const label = rule && typeof rule.name === 'string' ? `rules["${rule.name}"]` : `rules[${index}]`;
+
+        if (!rule || typeof rule !== 'object') {
+            issues.push(`${label} must be an object`);
+            return;
+        }
+
+        const topics = Array.isArray(rule.topic) ? rule.topic : [rule.topic];
+        if (topics.length === 0) {
+            issues.push(`${label}.topic must not be empty`);
+        }
+        topics.forEach((template: any, topicIndex: number) => {
+            validateTemplate(template, Array.isArray(rule.topic) ? `${label}.topic[${topicIndex}]` : `${label}.topic`, issues);
+        });
+
+        ['all', 'any'].forEach(group => {
+            if (rule[group] === undefined) {
+                return;
+            }
+            if (!Array.isArray(rule[group])) {
+                issues.push(`${label}.${group} must be an array of conditions`);
+                return;
+            }
+            rule[group].forEach((condition: any, conditionIndex: number) => {
+                validateCondition(condition, `${label}.${group}[${conditionIndex}]`, issues);
+            });
+        });
+    });
+
+    return issues;
+}
+
+function validateCondition(condition: any, label: string, issues: string[]): void {
+    if (!condition || typeof condition !== 'object') {
+        issues.push(`${label} must be an object`);
+        return;
+    }
+
+    if (typeof condition.field !== 'string' || condition.field.length === 0) {
+        issues.push(`${label}.field must be a field path`);
+    }
+
+    switch (condition.op) {
+        case 'in':
+        case 'nin':
+            if (!Array.isArray(condition.value)) {
+                issues.push(`${label}.value must be an array for "${condition.op}"`);
+            }
+            break;
+        case 'gt':
+        case 'gte':
+        case 'lt':
+        case 'lte':
+            if (typeof condition.value !== 'number') {
+                issues.push(`${label}.value must be a number for "${condition.op}"`);
+            }
+            break;
+        case 'regex':
+            if (typeof condition.value !== 'string') {
+                issues.push(`${label}.value must be a string for "regex"`);
+                break;
+            }
+            try {
+                new RegExp(condition.value);
+            } catch (error) {
+                issues.push(`${label}.value is not a valid regular expression: ${condition.value}`);
+            }
+            break;
+        case 'exists':
+        case 'truthy':
+            if (condition.value !== undefined && typeof condition.value !== 'boolean') {
+                issues.push(`${label}.value must be true or false for "${condition.op}"`);
+            }
+            break;
+        case 'type':
+            if (VALUE_TYPES.indexOf(condition.value) === -1) {
+                issues.push(`${label}.value must be one of ${VALUE_TYPES.join(', ')} for "type"`);
+            }
+            break;
+        case 'eq':
+        case 'neq':
+            break;
+        default:
+            issues.push(`${label}.op "${condition.op}" is not one of: ${OPERATORS.join(', ')}`);
+    }
+}
+
+function validateTemplate(template: any, label: string, issues: string[]): void {
+    if (typeof template !== 'string' || template.length === 0) {
+        issues.push(`${label} must be a topic name or template`);
+        return;
+    }
+
+    if (!/^[a-zA-Z0-9._-]*$/.test(template.replace(PLACEHOLDER, ''))) {
+        issues.push(`${label} "${template}" contains characters not allowed in topic names`);
+    }
+}
+
+type FieldReader = (scope: RoutingScope) => any;
+
+type Predicate = (scope: RoutingScope) => boolean;
+
+// Renders a topic, or returns undefined when a placeholder has no value
+type TopicRenderer = (scope: RoutingScope) => string | undefined;
+
+interface RoutingScope {
+    value: any;
+    key: any;
+    topic: string;
+    timestamp: number;
+}
+
+interface CompiledRule {
+    matches: Predicate;
+    topics: TopicRenderer[];
+}
+
+/**
+ * Compile a routing table into a topic router
+ * Field paths, regular expressions and templates are parsed once here, not per record
+ */
+export function compileRoutingTable(table: RoutingTable): TopicRouter {
+    const issues = validateRoutingTable(table);
+    if (issues.length > 0) {
+        throw new RoutingTableError(issues);
+    }
+
+    const firstMatch = (table.mode || 'first-match') === 'first-match';
+    const rules: CompiledRule[] = table.rules.map(rule => ({
+        matches: compileRule(rule),
+        topics: (Array.isArray(rule.topic) ? rule.topic : [rule.topic]).map(compileTemplate)
+    }));
+    const fallback = table.default !== undefined ? compileTemplate(table.default) : undefined;
+
+    const match = (valueObject: any, keyObject: any, topic: string, timestamp: number): string[] => {
+        const scope: RoutingScope = { value: valueObject, key: keyObject, topic, timestamp };
+        const topics: string[] = [];
+
+        for (let i = 0; i < rules.length; i++) {
+            if (!rules[i].matches(scope)) {
+                continue;
+            }
+
+            const rendered = rules[i].topics.map(render => render(scope));
+            if (rendered.some(name => name === undefined)) {
+                continue;
+            }
+
+            rendered.forEach(name => {
+                if (topics.indexOf(name!) === -1) {
+                    topics.push(name!);
+                }
+            });
+            if (firstMatch) {
+                break;
+            }
+        }
+
+        return topics;
+    };
+
+    return {
+        match,
+        route(valueObject: any, keyObject: any, topic: string, timestamp: number): string | string[] {
+            const topics = match(valueObject, keyObject, topic, timestamp);
+            if (topics.length === 0) {
+                const scope: RoutingScope = { value: valueObject, key: keyObject, topic, timestamp };
+                return (fallback && fallback(scope)) || topic;
+            }
+            return topics.length > 1 ? topics : topics[0];
+        }
+    };
+}
+
+function compileRule(rule: RoutingRule): Predicate {
+    const all = (rule.all || []).map(compileCondition);
+    const any = (rule.any || []).map(compileCondition);
+
+    return scope => {
+        for (let i = 0; i < all.length; i++) {
+            if (!all[i](scope)) return false;
+        }
+        if (any.length === 0) return true;
+        for (let i = 0; i < any.length; i++) {
+            if (any[i](scope)) return true;
+        }
+        return false;
+    };
+}
+
+function compileCondition(condition: RoutingCondition): Predicate {
+    const read = compileField(condition.field);
+    const expected = condition.value;
+
+    switch (condition.op) {
+        case 'eq': return scope => read(scope) === expected;
+        case 'neq': return scope => read(scope) !== expected;
+        case 'in': return scope => expected.indexOf(read(scope)) !== -1;
+        case 'nin': return scope => expected.indexOf(read(scope)) === -1;
+        case 'gt': return scope => typeof read(scope) === 'number' && read(scope) > expected;
+        case 'gte': return scope => typeof read(scope) === 'number' && read(scope) >= expected;
+        case 'lt': return scope => typeof read(scope) === 'number' && read(scope) < expected;
+        case 'lte': return scope => typeof read(scope) === 'number' && read(scope) <= expected;
+        case 'regex': {
+            const pattern = new RegExp(expected);
+            return scope => {
+                const actual = read(scope);
+                return typeof actual === 'string' && pattern.test(actual);
+            };
+        }
+        case 'truthy': {
+            const truthy = expected !== false;
+            return scope => Boolean(read(scope)) === truthy;
+        }
+        case 'type': return scope => valueType(read(scope)) === expected;
+        default: {
+            const present = expected !== false;
+            return scope => {
+                const actual = read(scope);
+                return (actual !== undefined && actual !== null) === present;
+            };
+        }
+    }
+}
+
+// JSON type of a value as the type operator names it, undefined for a missing field
+function valueType(value: any): string | undefined {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return value === undefined ? undefined : typeof value;
+}
+
+function compileField(field: string): FieldReader {
+    const segments = parseFieldPath(field);
+    let base: FieldReader = scope => scope.value;
+    let path = segments;
+
+    if (segments[0] === '$topic' || segments[0] === '$key' || segments[0] === '$timestamp') {
+        const root = segments[0].substring(1) as 'topic' | 'key' | 'timestamp';
+        base = scope => scope[root];
+        path = segments.slice(1);
+    }
+
+    return scope => readFieldPath(base(scope), path);
+}
+
+function compileTemplate(template: string): TopicRenderer {
+    const parts: Array<string | FieldReader> = [];
+    let last = 0;
+    template.replace(PLACEHOLDER, (placeholder: string, field: string, offset: number) => {
+        parts.push(template.slice(last, offset), compileField(field.trim()));
+        last = offset + placeholder.length;
+        return placeholder;
+    });
+    parts.push(template.slice(last));
+
+    return scope => {
+        let topic = '';
+        for (let i = 0; i < parts.length; i++) {
+            const part = parts[i];
+            if (typeof part === 'string') {
+                topic += part;
+                continue;
+            }
+            const value = part(scope);
+            if (value === undefined || value === null || value === '') {
+                return undefined;
+            }
+            // Field values may contain anything, topic names may not
+            topic += String(value).replace(/[^a-zA-Z0-9._-]/g, '-');
+        }
+        return topic.length > 249 ? topic.substring(0, 249) : topic;
+    };
+}
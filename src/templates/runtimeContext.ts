@@ -0,0 +1,195 @@
+// runtimeContext.ts - Clock, ID generator, random source, logger and metrics shared by all transform classes
+// Inject a deterministic context in tests and replays to make transform output reproducible
+
+import { v4 as uuidv4, v5 as uuidv5 } from "uuid";
+import { Logger, StructuredLogger } from "./logger";
+import { MetricsRegistry } from "./metrics";
+
+/**
+ * Source of the current time in milliseconds
+ */
+export interface Clock {
+    now(): number;
+}
+
+/**
+ * Source of unique identifiers
+ * The record being processed is passed in so generators can derive IDs from it
+ */
+export interface IdGenerator {
+    generate(source?: any): string;
+}
+
+/**
+ * Source of random numbers in [0, 1)
+ */
+export interface RandomSource {
+    next(): number;
+}
+
+export interface RuntimeContext {
+    clock: Clock;
+    ids: IdGenerator;
+    random: RandomSource;
+    // Structured logger every transform class writes to, see logger.ts
+    logger: Logger;
+    // Counters and histograms every transform class records to, see metrics.ts
+    metrics: MetricsRegistry;
+}
+
+/**
+ * Wall clock time
+ */
+export class SystemClock implements Clock {
+    public now(): number {
+        return Date.now();
+    }
+}
+
+/**
+ * Clock that starts at a fixed time and optionally advances on every read
+ */
+export class FixedClock implements Clock {
+    constructor(private current: number, private stepMs = 0) {}
+
+    public now(): number {
+        const value = this.current;
+        this.current += this.stepMs;
+        return value;
+    }
+
+    public set(timestamp: number): void {
+        this.current = timestamp;
+    }
+}
+
+/**
+ * Math.random based random source
+ */
+export class MathRandom implements RandomSource {
+    public next(): number {
+        return Math.random();
+    }
+}
+
+/**
+ * Seeded pseudo random source (mulberry32) - the same seed always yields the same sequence
+ */
+export class SeededRandom implements RandomSource {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    public next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+}
+
+/**
+ * Random UUID v4 identifiers
+ * Drawn from crypto.getRandomValues where the runtime has it, and from the random source where it does not (Streamkap)
+ */
+export class UuidIdGenerator implements IdGenerator {
+    constructor(private random: RandomSource = new MathRandom()) {}
+
+    public generate(): string {
+        if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+            return uuidv4();
+        }
+        const bytes = new Uint8Array(16);
+        for (let i = 0; i < bytes.length; i++) {
+            bytes[i] = Math.floor(this.random.next() * 256);
+        }
+        return uuidv4({ random: bytes });
+    }
+}
+
+/**
+ * UUID v4 formatted identifiers drawn from a random source
+ * Reproducible when the random source is seeded
+ */
+export class SeededIdGenerator implements IdGenerator {
+    constructor(private random: RandomSource) {}
+
+    public generate(): string {
+        const bytes: number[] = [];
+        for (let i = 0; i < 16; i++) {
+            bytes.push(Math.floor(this.random.next() * 256));
+        }
+        bytes[6] = (bytes[6] & 0x0f) | 0x40; // Version 4
+        bytes[8] = (bytes[8] & 0x3f) | 0x80; // Variant 10
+
+        const hex = bytes.map(byte => (byte < 16 ? '0' : '') + byte.toString(16)).join('');
+        return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+    }
+}
+
+/**
+ * UUID v5 identifiers derived from the record content
+ * Reprocessing the same record yields the same ID, for idempotent downstream writes
+ */
+export class ContentIdGenerator implements IdGenerator {
+    // Default namespace for transform-generated IDs - pass your own to separate pipelines
+    public static readonly DEFAULT_NAMESPACE = '6f1c8d3e-2b4a-5e7f-9a0b-1c2d3e4f5a6b';
+
+    constructor(private namespace = ContentIdGenerator.DEFAULT_NAMESPACE) {}
+
+    public generate(source?: any): string {
+        return uuidv5(this.stableStringify(source), this.namespace);
+    }
+
+    /**
+     * JSON with object keys sorted, so field order does not change the ID
+     */
+    private stableStringify(value: any): string {
+        if (value === undefined) {
+            return 'undefined';
+        }
+        if (value === null || typeof value !== 'object') {
+            return JSON.stringify(value);
+        }
+        if (Array.isArray(value)) {
+            return `[${value.map(item => this.stableStringify(item)).join(',')}]`;
+        }
+        const keys = Object.keys(value).filter(key => value[key] !== undefined).sort();
+        return `{${keys.map(key => `${JSON.stringify(key)}:${this.stableStringify(value[key])}`).join(',')}}`;
+    }
+}
+
+/**
+ * Real clock, random UUIDs, Math.random, a console logger and metrics exported to the console every minute - used when no context is passed in
+ */
+export function createRuntimeContext(overrides: Partial<RuntimeContext> = {}): RuntimeContext {
+    const clock = overrides.clock || new SystemClock();
+    const random = overrides.random || new MathRandom();
+    return {
+        clock,
+        ids: overrides.ids || new UuidIdGenerator(random),
+        random,
+        logger: overrides.logger || new StructuredLogger({ clock, random }),
+        metrics: overrides.metrics || new MetricsRegistry({ clock })
+    };
+}
+
+/**
+ * Fixed clock and seeded random source and IDs - the same seed reproduces the same output
+ * Log entries go to the console unless a logger (e.g. one writing to a MemorySink) is passed in
+ */
+export function createDeterministicContext(seed = 1, startTime = Date.UTC(2024, 0, 1), logger?: Logger): RuntimeContext {
+    const clock = new FixedClock(startTime);
+    const random = new SeededRandom(seed);
+    return {
+        clock,
+        ids: new SeededIdGenerator(new SeededRandom(seed + 1)),
+        random,
+        logger: logger || new StructuredLogger({ clock, random: new SeededRandom(seed + 2) }),
+        // The fixed clock does not advance, so these are never exported - read them with snapshot()
+        metrics: new MetricsRegistry({ clock })
+    };
+}
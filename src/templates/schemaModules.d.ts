@@ -0,0 +1,7 @@
+// schemaModules.d.ts - Lets transforms import Avro schema files
+// Bundle them with esbuild's json loader: "esbuild": { "loader": { ".avsc": "json" } } in streamkap.config.json
+
+declare module '*.avsc' {
+    const schema: any;
+    export default schema;
+}
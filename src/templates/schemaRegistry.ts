@@ -0,0 +1,86 @@
+// schemaRegistry.ts - In-memory stand-in for a schema registry, keyed by subject and version
+// Bundle-safe: schemas are registered from imported .avsc/.json files or loaded from disk by src/tooling/fileSchemaRegistry.ts
+
+import { SchemaValidator, createSchemaValidator } from './schemaValidation';
+
+export interface RegisteredSchema {
+    subject: string;
+    version: number;
+    schema: any;
+}
+
+/**
+ * Schema Registry Class
+ *
+ * Holds JSON Schema and Avro schemas under a subject (e.g. orders-value) and an
+ * increasing version number, and hands out cached validators for them.
+ */
+export class SchemaRegistry {
+    private subjects: { [subject: string]: { [version: number]: RegisteredSchema } } = {};
+    private validators: { [id: string]: SchemaValidator } = {};
+
+    /**
+     * Register a schema - registering an existing subject/version replaces it
+     */
+    public register(subject: string, version: number, schema: any): RegisteredSchema {
+        if (!subject) {
+            throw new Error('Schema subject must be a non-empty string');
+        }
+        if (typeof version !== 'number' || version < 1 || Math.floor(version) !== version) {
+            throw new Error(`Schema version for "${subject}" must be a positive integer (got ${version})`);
+        }
+
+        const registered = { subject, version, schema };
+        this.subjects[subject] = this.subjects[subject] || {};
+        this.subjects[subject][version] = registered;
+        delete this.validators[`${subject}@${version}`];
+        return registered;
+    }
+
+    /**
+     * Look up a schema, defaulting to the latest version of the subject
+     */
+    public getSchema(subject: string, version?: number): RegisteredSchema {
+        const versions = this.subjects[subject];
+        if (!versions) {
+            throw new Error(`Unknown schema subject: ${subject}`);
+        }
+
+        const resolvedVersion = version === undefined ? this.latestVersion(subject) : version;
+        const registered = versions[resolvedVersion];
+        if (!registered) {
+            throw new Error(`Unknown version ${resolvedVersion} of schema subject ${subject}`);
+        }
+        return registered;
+    }
+
+    /**
+     * Validator for a schema, created once and reused
+     */
+    public getValidator(subject: string, version?: number): SchemaValidator {
+        const registered = this.getSchema(subject, version);
+        const id = `${registered.subject}@${registered.version}`;
+        if (!this.validators[id]) {
+            this.validators[id] = createSchemaValidator(registered.schema);
+        }
+        return this.validators[id];
+    }
+
+    public latestVersion(subject: string): number {
+        const versions = this.listVersions(subject);
+        if (versions.length === 0) {
+            throw new Error(`Unknown schema subject: ${subject}`);
+        }
+        return versions[versions.length - 1];
+    }
+
+    public listSubjects(): string[] {
+        return Object.keys(this.subjects).sort();
+    }
+
+    public listVersions(subject: string): number[] {
+        return Object.keys(this.subjects[subject] || {})
+            .map(Number)
+            .sort((a, b) => a - b);
+    }
+}
@@ -0,0 +1,378 @@
+// schemaValidation.ts - JSON Schema and Avro validation for record values and keys
+// Pure TypeScript so it can be bundled into the Streamkap runtime without extra dependencies
+
+/**
+ * A single validation problem, located with a JSON path such as $.customer.name or $.items[0]
+ */
+export interface SchemaValidationError {
+    path: string;
+    message: string;
+}
+
+export interface SchemaValidator {
+    validate(value: any): SchemaValidationError[];
+}
+
+/**
+ * Thrown by the schema transforms when a record does not match its schema
+ */
+export class SchemaValidationFailure extends Error {
+    // details is reported as error_details in the error envelope
+    constructor(message: string, public readonly details: SchemaValidationError[]) {
+        super(`${message}: ${details.map(error => `${error.path} ${error.message}`).join('; ')}`);
+        this.name = 'SchemaValidationFailure';
+        // Restore the prototype chain, which is lost when extending Error with an ES5 target
+        Object.setPrototypeOf(this, SchemaValidationFailure.prototype);
+    }
+}
+
+function childPath(path: string, key: string | number): string {
+    if (typeof key === 'number') {
+        return `${path}[${key}]`;
+    }
+    return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function describeType(value: any): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+function isPlainObject(value: any): boolean {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * JSON Schema validator
+ *
+ * Supports the keywords used for record contracts: type, enum, const, properties, required,
+ * additionalProperties, items, min/max (Length, Items, imum), pattern, allOf, anyOf, oneOf, not
+ * and local $ref (#/definitions/... and #/$defs/...). Unknown keywords such as format are ignored.
+ */
+export class JsonSchemaValidator implements SchemaValidator {
+    constructor(private schema: any) {}
+
+    public validate(value: any): SchemaValidationError[] {
+        return this.validateNode(this.schema, value, '$');
+    }
+
+    private validateNode(schema: any, value: any, path: string): SchemaValidationError[] {
+        if (schema === true || schema === undefined) {
+            return [];
+        }
+        if (schema === false) {
+            return [{ path, message: 'is not allowed' }];
+        }
+
+        if (schema.$ref) {
+            return this.validateNode(this.resolveRef(schema.$ref), value, path);
+        }
+
+        const errors: SchemaValidationError[] = [];
+
+        if (schema.type !== undefined) {
+            const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+            if (!types.some(type => this.matchesType(type, value))) {
+                // Type mismatch makes the remaining keywords meaningless
+                return [{ path, message: `must be ${types.join(' or ')} (got ${describeType(value)})` }];
+            }
+        }
+
+        if (schema.enum !== undefined && !schema.enum.some((candidate: any) => this.equals(candidate, value))) {
+            errors.push({ path, message: `must be one of ${JSON.stringify(schema.enum)}` });
+        }
+
+        if (schema.const !== undefined && !this.equals(schema.const, value)) {
+            errors.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+        }
+
+        if (typeof value === 'string') {
+            if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+                errors.push({ path, message: `must be at least ${schema.minLength} characters` });
+            }
+            if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+                errors.push({ path, message: `must be at most ${schema.maxLength} characters` });
+            }
+            if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+                errors.push({ path, message: `must match pattern ${schema.pattern}` });
+            }
+        }
+
+        if (typeof value === 'number') {
+            if (typeof schema.minimum === 'number' && value < schema.minimum) {
+                errors.push({ path, message: `must be >= ${schema.minimum}` });
+            }
+            if (typeof schema.maximum === 'number' && value > schema.maximum) {
+                errors.push({ path, message: `must be <= ${schema.maximum}` });
+            }
+            if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+                errors.push({ path, message: `must be > ${schema.exclusiveMinimum}` });
+            }
+            if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+                errors.push({ path, message: `must be < ${schema.exclusiveMaximum}` });
+            }
+        }
+
+        if (Array.isArray(value)) {
+            if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+                errors.push({ path, message: `must have at least ${schema.minItems} items` });
+            }
+            if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+                errors.push({ path, message: `must have at most ${schema.maxItems} items` });
+            }
+            if (schema.items !== undefined && !Array.isArray(schema.items)) {
+                value.forEach((item, index) => errors.push(...this.validateNode(schema.items, item, childPath(path, index))));
+            }
+        }
+
+        if (isPlainObject(value)) {
+            // Properties set to undefined are dropped by JSON serialization, so they count as absent
+            (schema.required || []).forEach((field: string) => {
+                if (value[field] === undefined) {
+                    errors.push({ path: childPath(path, field), message: 'is required' });
+                }
+            });
+
+            const properties = schema.properties || {};
+            Object.keys(value).filter(field => value[field] !== undefined).forEach(field => {
+                if (properties.hasOwnProperty(field)) {
+                    errors.push(...this.validateNode(properties[field], value[field], childPath(path, field)));
+                } else if (schema.additionalProperties === false) {
+                    errors.push({ path: childPath(path, field), message: 'is not an allowed property' });
+                } else if (isPlainObject(schema.additionalProperties)) {
+                    errors.push(...this.validateNode(schema.additionalProperties, value[field], childPath(path, field)));
+                }
+            });
+        }
+
+        (schema.allOf || []).forEach((subschema: any) => errors.push(...this.validateNode(subschema, value, path)));
+
+        if (schema.anyOf && !schema.anyOf.some((subschema: any) => this.validateNode(subschema, value, path).length === 0)) {
+            errors.push({ path, message: 'must match at least one schema in anyOf' });
+        }
+
+        if (schema.oneOf) {
+            const matches = schema.oneOf.filter((subschema: any) => this.validateNode(subschema, value, path).length === 0).length;
+            if (matches !== 1) {
+                errors.push({ path, message: `must match exactly one schema in oneOf (matched ${matches})` });
+            }
+        }
+
+        if (schema.not !== undefined && this.validateNode(schema.not, value, path).length === 0) {
+            errors.push({ path, message: 'must not match the schema in not' });
+        }
+
+        return errors;
+    }
+
+    private matchesType(type: string, value: any): boolean {
+        switch (type) {
+            case 'null': return value === null;
+            case 'boolean': return typeof value === 'boolean';
+            case 'string': return typeof value === 'string';
+            case 'number': return typeof value === 'number' && isFinite(value);
+            case 'integer': return typeof value === 'number' && isFinite(value) && Math.floor(value) === value;
+            case 'array': return Array.isArray(value);
+            case 'object': return isPlainObject(value);
+            default: return false;
+        }
+    }
+
+    private resolveRef(ref: string): any {
+        if (ref.indexOf('#/') !== 0) {
+            throw new Error(`Only local $ref values are supported: ${ref}`);
+        }
+
+        return ref.substring(2).split('/').reduce((node: any, segment: string) => {
+            const key = segment.replace(/~1/g, '/').replace(/~0/g, '~');
+            if (!node || !(key in node)) {
+                throw new Error(`Unresolvable $ref: ${ref}`);
+            }
+            return node[key];
+        }, this.schema);
+    }
+
+    private equals(a: any, b: any): boolean {
+        return JSON.stringify(a) === JSON.stringify(b);
+    }
+}
+
+/**
+ * Avro schema validator for records in their plain JSON form (as produced by CDC connectors)
+ *
+ * Supports primitives, record, enum, array, map, fixed, unions and references to named types.
+ * Logical types are validated against their underlying type.
+ */
+export class AvroSchemaValidator implements SchemaValidator {
+    private namedTypes: { [fullName: string]: any } = {};
+
+    constructor(private schema: any) {
+        this.registerNamedTypes(schema, undefined);
+    }
+
+    public validate(value: any): SchemaValidationError[] {
+        return this.validateNode(this.schema, value, '$', undefined);
+    }
+
+    private validateNode(schema: any, value: any, path: string, namespace: string | undefined): SchemaValidationError[] {
+        if (Array.isArray(schema)) {
+            return this.validateUnion(schema, value, path, namespace);
+        }
+
+        if (typeof schema === 'string') {
+            const primitiveError = this.validatePrimitive(schema, value, path);
+            if (primitiveError !== undefined) {
+                return primitiveError ? [primitiveError] : [];
+            }
+            const named = this.lookupNamedType(schema, namespace);
+            if (!named) {
+                throw new Error(`Unknown Avro type: ${schema}`);
+            }
+            return this.validateNode(named, value, path, this.namespaceOf(named, namespace));
+        }
+
+        const type = schema.type;
+        switch (type) {
+            case 'record':
+            case 'error':
+                return this.validateRecord(schema, value, path, this.namespaceOf(schema, namespace));
+            case 'enum':
+                if (typeof value !== 'string' || schema.symbols.indexOf(value) === -1) {
+                    return [{ path, message: `must be one of ${JSON.stringify(schema.symbols)}` }];
+                }
+                return [];
+            case 'array': {
+                if (!Array.isArray(value)) {
+                    return [{ path, message: `must be array (got ${describeType(value)})` }];
+                }
+                const errors: SchemaValidationError[] = [];
+                value.forEach((item, index) => errors.push(...this.validateNode(schema.items, item, childPath(path, index), namespace)));
+                return errors;
+            }
+            case 'map': {
+                if (!isPlainObject(value)) {
+                    return [{ path, message: `must be map (got ${describeType(value)})` }];
+                }
+                const errors: SchemaValidationError[] = [];
+                Object.keys(value).forEach(key => errors.push(...this.validateNode(schema.values, value[key], childPath(path, key), namespace)));
+                return errors;
+            }
+            case 'fixed':
+                if (typeof value !== 'string' || value.length !== schema.size) {
+                    return [{ path, message: `must be fixed of size ${schema.size}` }];
+                }
+                return [];
+            default:
+                // Primitive written in object form, e.g. {"type": "long", "logicalType": "timestamp-millis"}
+                return this.validateNode(type, value, path, namespace);
+        }
+    }
+
+    private validateRecord(schema: any, value: any, path: string, namespace: string | undefined): SchemaValidationError[] {
+        if (!isPlainObject(value)) {
+            return [{ path, message: `must be record ${schema.name} (got ${describeType(value)})` }];
+        }
+
+        const errors: SchemaValidationError[] = [];
+        (schema.fields || []).forEach((field: any) => {
+            const fieldPath = childPath(path, field.name);
+            if (!Object.prototype.hasOwnProperty.call(value, field.name)) {
+                if (field.default === undefined) {
+                    errors.push({ path: fieldPath, message: 'is required' });
+                }
+                return;
+            }
+            errors.push(...this.validateNode(field.type, value[field.name], fieldPath, namespace));
+        });
+        return errors;
+    }
+
+    private validateUnion(branches: any[], value: any, path: string, namespace: string | undefined): SchemaValidationError[] {
+        const matches = branches.some(branch => this.validateNode(branch, value, path, namespace).length === 0);
+        if (matches) {
+            return [];
+        }
+        const names = branches.map(branch => (typeof branch === 'string' ? branch : branch.name || branch.type));
+        return [{ path, message: `must match one of union types ${JSON.stringify(names)} (got ${describeType(value)})` }];
+    }
+
+    /**
+     * Returns null when valid, an error when invalid and undefined when the type is not a primitive
+     */
+    private validatePrimitive(type: string, value: any, path: string): SchemaValidationError | null | undefined {
+        const fail = (expected: string) => ({ path, message: `must be ${expected} (got ${describeType(value)})` });
+
+        switch (type) {
+            case 'null':
+                return value === null ? null : fail('null');
+            case 'boolean':
+                return typeof value === 'boolean' ? null : fail('boolean');
+            case 'int':
+                return typeof value === 'number' && Math.floor(value) === value && value >= -2147483648 && value <= 2147483647
+                    ? null : fail('int');
+            case 'long':
+                return typeof value === 'number' && Math.floor(value) === value ? null : fail('long');
+            case 'float':
+            case 'double':
+                return typeof value === 'number' ? null : fail(type);
+            case 'bytes':
+            case 'string':
+                return typeof value === 'string' ? null : fail(type);
+            default:
+                return undefined;
+        }
+    }
+
+    private registerNamedTypes(schema: any, namespace: string | undefined): void {
+        if (Array.isArray(schema)) {
+            schema.forEach(branch => this.registerNamedTypes(branch, namespace));
+            return;
+        }
+        if (!isPlainObject(schema)) {
+            return;
+        }
+
+        const ownNamespace = this.namespaceOf(schema, namespace);
+        if ((schema.type === 'record' || schema.type === 'error' || schema.type === 'enum' || schema.type === 'fixed') && schema.name) {
+            this.namedTypes[this.fullName(schema.name, ownNamespace)] = schema;
+        }
+
+        (schema.fields || []).forEach((field: any) => this.registerNamedTypes(field.type, ownNamespace));
+        if (schema.items) this.registerNamedTypes(schema.items, ownNamespace);
+        if (schema.values) this.registerNamedTypes(schema.values, ownNamespace);
+    }
+
+    private lookupNamedType(name: string, namespace: string | undefined): any {
+        return this.namedTypes[this.fullName(name, namespace)] || this.namedTypes[name];
+    }
+
+    private namespaceOf(schema: any, parentNamespace: string | undefined): string | undefined {
+        if (schema && typeof schema.name === 'string' && schema.name.indexOf('.') !== -1) {
+            return schema.name.substring(0, schema.name.lastIndexOf('.'));
+        }
+        return (schema && schema.namespace) || parentNamespace;
+    }
+
+    private fullName(name: string, namespace: string | undefined): string {
+        return name.indexOf('.') !== -1 || !namespace ? name : `${namespace}.${name}`;
+    }
+}
+
+/**
+ * Create a validator for a schema, detecting whether it is Avro or JSON Schema
+ * Avro schemas are type names, unions, or objects whose type is an Avro complex type
+ */
+export function createSchemaValidator(schema: any): SchemaValidator {
+    if (isAvroSchema(schema)) {
+        return new AvroSchemaValidator(schema);
+    }
+    return new JsonSchemaValidator(schema);
+}
+
+export function isAvroSchema(schema: any): boolean {
+    if (typeof schema === 'string' || Array.isArray(schema)) {
+        return true;
+    }
+    return isPlainObject(schema) && ['record', 'error', 'enum', 'fixed', 'map'].indexOf(schema.type) !== -1 && !schema.$schema;
+}
@@ -0,0 +1,83 @@
+// sdk.ts - Typed entry points for Streamkap transforms
+// Wraps typed transform functions into the (valueObject, keyObject, topic, timestamp) functions Streamkap calls
+
+/**
+ * Value and key of the record being transformed, as received by the transform
+ */
+export interface StreamkapRecord<V = unknown, K = unknown> {
+    value: V;
+    key: K;
+}
+
+/**
+ * Where the record came from
+ */
+export interface TransformContext {
+    topic: string;
+    // Record timestamp in milliseconds
+    timestamp: number;
+}
+
+/**
+ * One record, several records (un-nesting) or null to filter the record out
+ */
+export type ValueTransformResult<R> = R | R[] | null;
+
+/**
+ * One topic, or several to fan the record out to each of them
+ */
+export type TopicTransformResult = string | string[];
+
+export type ValueTransformFn<V = unknown, K = unknown, R = V> = (record: StreamkapRecord<V, K>, context: TransformContext) => ValueTransformResult<R>;
+
+export type KeyTransformFn<V = unknown, K = unknown, R = K> = (record: StreamkapRecord<V, K>, context: TransformContext) => R;
+
+export type TopicTransformFn<V = unknown, K = unknown> = (record: StreamkapRecord<V, K>, context: TransformContext) => TopicTransformResult;
+
+/**
+ * Signature of the functions Streamkap calls
+ */
+export type StreamkapFunction<V, K, R> = (valueObject: V, keyObject: K, topic: string, timestamp: number) => R;
+
+/**
+ * Exports each entry file must have - Streamkap calls them by name
+ */
+export interface ValueTransformModule {
+    _streamkap_transform: StreamkapFunction<any, any, ValueTransformResult<any>>;
+}
+
+export interface KeyTransformModule {
+    _streamkap_transform_key: StreamkapFunction<any, any, any>;
+}
+
+export interface TopicTransformModule {
+    _streamkap_transform_topic: StreamkapFunction<any, any, TopicTransformResult>;
+}
+
+/**
+ * Define the value transform (valueTransform.js)
+ *
+ * Export the result from a function declaration, which is what Streamkap looks up in the bundle:
+ *
+ *     const transformValue = defineValueTransform<OrderInput, unknown, MergedOrder>(record => ...);
+ *     export function _streamkap_transform(valueObject: OrderInput, keyObject: unknown, topic: string, timestamp: number) {
+ *         return transformValue(valueObject, keyObject, topic, timestamp);
+ *     }
+ */
+export function defineValueTransform<V = unknown, K = unknown, R = V>(transform: ValueTransformFn<V, K, R>): StreamkapFunction<V, K, ValueTransformResult<R>> {
+    return (valueObject, keyObject, topic, timestamp) => transform({ value: valueObject, key: keyObject }, { topic, timestamp });
+}
+
+/**
+ * Define the key transform (keyTransform.js), exported as _streamkap_transform_key
+ */
+export function defineKeyTransform<V = unknown, K = unknown, R = K>(transform: KeyTransformFn<V, K, R>): StreamkapFunction<V, K, R> {
+    return (valueObject, keyObject, topic, timestamp) => transform({ value: valueObject, key: keyObject }, { topic, timestamp });
+}
+
+/**
+ * Define the topic transform (topicTransform.js), exported as _streamkap_transform_topic
+ */
+export function defineTopicTransform<V = unknown, K = unknown>(transform: TopicTransformFn<V, K>): StreamkapFunction<V, K, TopicTransformResult> {
+    return (valueObject, keyObject, topic, timestamp) => transform({ value: valueObject, key: keyObject }, { topic, timestamp });
+}
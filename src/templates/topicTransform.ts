@@ -2,19 +2,109 @@
 // This handles routing records to different output topics based on business logic
 
 import { CommonTransform } from './commonTransform';
+import { DeadLetterHandler, DeadLetterPolicy, isErrorEnvelope } from './deadLetter';
+import { RoutingTable, TopicRouter, compileRoutingTable, configuredRoutingTable } from './routingRules';
+import { RuntimeContext, createRuntimeContext } from './runtimeContext';
+
+export interface TopicTransformOptions {
+    // Defaults to the transform's deadLetter setting in streamkap.config
+    deadLetter?: DeadLetterPolicy;
+    // Rules used by transform(), defaults to the transform's routing file in streamkap.config, then RECORD_TYPE_ROUTES
+    routing?: RoutingTable;
+}
+
+/**
+ * Example routing by record type and amount, used by transform() when no routing table is configured
+ */
+export const RECORD_TYPE_ROUTES: RoutingTable = {
+    mode: 'all-match',
+    rules: [
+        { name: 'orders', all: [{ field: 'type', op: 'eq', value: 'order' }], topic: 'orders-processed' },
+        { name: 'users', all: [{ field: 'type', op: 'eq', value: 'user' }], topic: 'users-processed' },
+        { name: 'payments', all: [{ field: 'type', op: 'eq', value: 'payment' }], topic: 'payments-processed' },
+        {
+            // Any other non-empty string type
+            name: 'other-types',
+            all: [{ field: 'type', op: 'type', value: 'string' }, { field: 'type', op: 'truthy' }, { field: 'type', op: 'nin', value: ['order', 'user', 'payment'] }],
+            topic: 'general-processed'
+        },
+        { name: 'high-value', all: [{ field: 'amount', op: 'gt', value: 1000 }], topic: 'high-value-records' }
+    ]
+};
+
+/**
+ * Example first-match routing used by simpleRoute()
+ */
+export const CUSTOMER_TIER_ROUTES: RoutingTable = {
+    mode: 'first-match',
+    rules: [
+        { name: 'known-tier', all: [{ field: 'customer_tier', op: 'in', value: ['premium', 'gold', 'standard'] }], topic: '{customer_tier}-customer-records' },
+        { name: 'unknown-tier', all: [{ field: 'customer_tier', op: 'truthy' }], topic: 'unknown-tier-records' },
+        { name: 'region', topic: '{region}-records' },
+        { name: 'orders', all: [{ field: '$topic', op: 'regex', value: 'orders' }], topic: 'all-orders-processed' },
+        { name: 'users', all: [{ field: '$topic', op: 'regex', value: 'users' }], topic: 'all-users-processed' }
+    ],
+    default: 'processed-records'
+};
+
+/**
+ * Example multi-dimensional routing used by complexRoute()
+ */
+export const DIMENSION_ROUTES: RoutingTable = {
+    mode: 'all-match',
+    rules: [
+        { name: 'type-status', topic: '{type}-{status}' },
+        { name: 'priority', topic: 'priority-{priority}' },
+        { name: 'compliance', all: [{ field: 'compliance_required', op: 'truthy' }], topic: 'compliance-records' },
+        {
+            name: 'analytics',
+            any: [
+                { field: 'amount', op: 'gt', value: 500 },
+                { field: 'event_type', op: 'in', value: ['login', 'purchase', 'signup'] },
+                { field: 'experiment_id', op: 'truthy' }
+            ],
+            topic: 'analytics-records'
+        }
+    ]
+};
+
+/**
+ * Example conditional routing used by conditionalRoute()
+ */
+export const CONDITIONAL_ROUTES: RoutingTable = {
+    mode: 'all-match',
+    rules: [
+        { name: 'main', topic: 'main-processed' },
+        { name: 'vip', all: [{ field: 'customer_type', op: 'eq', value: 'vip' }], topic: 'vip-processing' },
+        { name: 'fraud', all: [{ field: 'fraud_score', op: 'gt', value: 0.8 }], topic: 'fraud-review' },
+        {
+            name: 'international',
+            all: [{ field: 'country', op: 'truthy' }, { field: 'country', op: 'neq', value: 'US' }],
+            topic: 'international-compliance'
+        }
+    ]
+};
+
+const customerTierRouter = compileRoutingTable(CUSTOMER_TIER_ROUTES);
+const dimensionRouter = compileRoutingTable(DIMENSION_ROUTES);
+const conditionalRouter = compileRoutingTable(CONDITIONAL_ROUTES);
 
 /**
  * Topic Transform Class
  * 
  * This class handles the routing of records to different topics based on business logic.
  * This is primarily used for fan_out transforms where records need to be sent to multiple topics.
- * Customize this based on your routing and business logic requirements.
+ * Routing is declared in routing tables (see routingRules.ts) - edit the tables, not the control flow.
  */
 export class TopicTransform {
     private commonTransform: CommonTransform;
+    private deadLetter: DeadLetterHandler;
+    private router: TopicRouter;
     
-    constructor() {
-        this.commonTransform = new CommonTransform();
+    constructor(private context: RuntimeContext = createRuntimeContext(), options: TopicTransformOptions = {}) {
+        this.commonTransform = new CommonTransform(context);
+        this.deadLetter = new DeadLetterHandler(options.deadLetter, context);
+        this.router = compileRoutingTable(options.routing || configuredRoutingTable() || RECORD_TYPE_ROUTES);
     }
     
     /**
@@ -27,14 +117,24 @@ export class TopicTransform {
      * @returns Single topic string or array of topics for fan-out
      */
     public transform(valueObject: any, keyObject: any, topic: string, timestamp: number): string | string[] {
+        // Records that already failed, in the value or the key transform, go to the dead-letter topic only
+        if (isErrorEnvelope(valueObject) || isErrorEnvelope(keyObject)) {
+            return this.deadLetter.route(valueObject, topic, keyObject);
+        }
+        
         try {
             // Enhanced input validation
             const validation = this.commonTransform.validateInput(valueObject, keyObject, topic, timestamp);
             if (!validation.valid) {
-                this.commonTransform.log('error', 'Topic transform input validation failed', { errors: validation.errors });
+                this.commonTransform.log('error', 'Topic transform input validation failed', { errors: validation.errors }, this.commonTransform.logFields(topic, keyObject, valueObject));
                 return this.commonTransform.sanitizeTopicName('validation-errors');
             }
             
+            // Tombstones stay on their topic, where they delete the key
+            if (validation.tombstone) {
+                return this.commonTransform.sanitizeTopicName(topic);
+            }
+            
             // Normalize timestamp
             const normalizedTimestamp = this.commonTransform.normalizeTimestamp(timestamp);
             
@@ -47,28 +147,8 @@ export class TopicTransform {
             const baseTopics = Array.isArray(routingTopics) ? routingTopics : [routingTopics];
             topics.push(...baseTopics);
             
-            
-            if (valueObject?.type && typeof valueObject.type === 'string') {
-                let routedTopic: string;
-                switch (valueObject.type) {
-                    case 'order':
-                        routedTopic = 'orders-processed';
-                        break;
-                    case 'user':
-                        routedTopic = 'users-processed';
-                        break;
-                    case 'payment':
-                        routedTopic = 'payments-processed';
-                        break;
-                    default:
-                        routedTopic = 'general-processed';
-                }
-                topics.push(this.commonTransform.sanitizeTopicName(routedTopic));
-            }
-            
-            if (valueObject?.amount && typeof valueObject.amount === 'number' && valueObject.amount > 1000) {
-                topics.push(this.commonTransform.sanitizeTopicName('high-value-records'));
-            }
+            // Topics of the matching routing rules
+            topics.push(...this.router.match(valueObject, keyObject, topic, timestamp).map(name => this.commonTransform.sanitizeTopicName(name)));
             
             if (!this.commonTransform.validateRecord(valueObject)) {
                 topics.push(this.commonTransform.sanitizeTopicName('error-records'));
@@ -92,10 +172,12 @@ export class TopicTransform {
             
         } catch (error) {
             const errorContext = this.commonTransform.createErrorContext(error, 'topicTransform', valueObject);
-            this.commonTransform.log('error', 'Topic transformation failed', errorContext);
+            this.commonTransform.log('error', 'Topic transformation failed', errorContext, this.commonTransform.logFields(topic, keyObject, valueObject));
             
-            // Fallback to sanitized error topic
-            return this.commonTransform.sanitizeTopicName('transform-errors');
+            // Dead-letter mode sends the record to the DLQ topic, otherwise fall back to the error topic
+            return this.deadLetter.mode === 'dead-letter'
+                ? this.deadLetter.topic
+                : this.commonTransform.sanitizeTopicName('transform-errors');
         }
     }
     
@@ -105,34 +187,12 @@ export class TopicTransform {
      */
     public simpleRoute(valueObject: any, keyObject: any, topic: string, timestamp: number): string {
         try {
-            if (valueObject && valueObject.customer_tier) {
-                switch (valueObject.customer_tier) {
-                    case 'premium':
-                        return 'premium-customer-records';
-                    case 'gold':
-                        return 'gold-customer-records';
-                    case 'standard':
-                        return 'standard-customer-records';
-                    default:
-                        return 'unknown-tier-records';
-                }
-            }
-            
-            if (valueObject && valueObject.region) {
-                return `${valueObject.region}-records`;
-            }
-            
-            if (topic.includes('orders')) {
-                return 'all-orders-processed';
-            } else if (topic.includes('users')) {
-                return 'all-users-processed';
-            }
-            
-            // Default routing
-            return 'processed-records';
+            // First-match table, so a single topic comes back
+            return customerTierRouter.route(valueObject, keyObject, topic, timestamp) as string;
             
         } catch (error) {
-            console.error('Simple topic routing failed:', error);
+            const errorContext = this.commonTransform.createErrorContext(error, 'simpleRoute', valueObject);
+            this.commonTransform.log('error', 'Simple topic routing failed', errorContext, this.commonTransform.logFields(topic, keyObject, valueObject));
             return 'routing-errors';
         }
     }
@@ -145,31 +205,11 @@ export class TopicTransform {
         const topics: string[] = [];
         
         try {
-            // Multi-dimensional routing based on multiple conditions
-            
-            // Dimension 1: Record type and status
-            if (valueObject && valueObject.type && valueObject.status) {
-                const typeStatusTopic = `${valueObject.type}-${valueObject.status}`;
-                topics.push(typeStatusTopic);
-            }
-            
-            // Dimension 2: Priority routing
-            if (valueObject && valueObject.priority) {
-                topics.push(`priority-${valueObject.priority}`);
-            }
-            
-            // Dimension 3: Compliance and regulatory routing
-            if (valueObject && valueObject.compliance_required) {
-                topics.push('compliance-records');
-            }
-            
-            // Dimension 4: Analytics and reporting
-            if (this.shouldRouteToAnalytics(valueObject)) {
-                topics.push('analytics-records');
-            }
+            // Type/status, priority, compliance and analytics dimensions
+            topics.push(...dimensionRouter.match(valueObject, keyObject, topic, timestamp));
             
-            // Dimension 5: Archive routing for old records
-            const recordAge = timestamp ? Date.now() - timestamp : 0;
+            // Archive routing for old records depends on the clock, so it stays in code
+            const recordAge = timestamp ? this.context.clock.now() - timestamp : 0;
             const thirtyDaysMs = 30 * 24 * 60 * 60 * 1000;
             if (recordAge > thirtyDaysMs) {
                 topics.push('archive-records');
@@ -181,7 +221,8 @@ export class TopicTransform {
             return uniqueTopics.length > 1 ? uniqueTopics : uniqueTopics[0];
             
         } catch (error) {
-            console.error('Complex routing failed:', error);
+            const errorContext = this.commonTransform.createErrorContext(error, 'complexRoute', valueObject);
+            this.commonTransform.log('error', 'Complex routing failed', errorContext, this.commonTransform.logFields(topic, keyObject, valueObject));
             return 'complex-routing-errors';
         }
     }
@@ -193,28 +234,11 @@ export class TopicTransform {
         const routes: string[] = [];
         
         try {
-            // Always route to main processing topic
-            routes.push('main-processed');
-            
-            // Conditional additional routing
-            
-            // Route VIP customers to special processing
-            if (valueObject && valueObject.customer_type === 'vip') {
-                routes.push('vip-processing');
-            }
-            
-            // Route fraud-flagged records to security
-            if (valueObject && valueObject.fraud_score > 0.8) {
-                routes.push('fraud-review');
-            }
-            
-            // Route international records to compliance
-            if (valueObject && valueObject.country && valueObject.country !== 'US') {
-                routes.push('international-compliance');
-            }
+            // Main processing topic plus VIP, fraud and international routing
+            routes.push(...conditionalRouter.match(valueObject, keyObject, topic, timestamp));
             
             // Route real-time vs batch processing
-            const isRealTime = Date.now() - timestamp < 5000; // 5 seconds
+            const isRealTime = this.context.clock.now() - timestamp < 5000; // 5 seconds
             if (isRealTime) {
                 routes.push('realtime-processing');
             } else {
@@ -224,36 +248,12 @@ export class TopicTransform {
             return routes.length > 1 ? routes : routes[0];
             
         } catch (error) {
-            console.error('Conditional routing failed:', error);
+            const errorContext = this.commonTransform.createErrorContext(error, 'conditionalRoute', valueObject);
+            this.commonTransform.log('error', 'Conditional routing failed', errorContext, this.commonTransform.logFields(topic, keyObject, valueObject));
             return 'conditional-routing-errors';
         }
     }
     
-    /**
-     * Helper: Determine if record should go to analytics
-     */
-    private shouldRouteToAnalytics(valueObject: any): boolean {
-        // Example analytics routing criteria
-        if (!valueObject) return false;
-        
-        // Route high-value transactions
-        if (valueObject.amount && valueObject.amount > 500) {
-            return true;
-        }
-        
-        // Route user engagement events
-        if (valueObject.event_type && ['login', 'purchase', 'signup'].includes(valueObject.event_type)) {
-            return true;
-        }
-        
-        // Route A/B test events
-        if (valueObject.experiment_id) {
-            return true;
-        }
-        
-        return false;
-    }
-    
     /**
      * Validate topic names
      * Ensure topic names follow naming conventions
@@ -265,12 +265,12 @@ export class TopicTransform {
         
         const validPattern = /^[a-zA-Z0-9._-]+$/;
         if (!validPattern.test(topicName)) {
-            console.warn(`Invalid topic name: ${topicName}`);
+            this.commonTransform.log('warn', 'Invalid topic name', { topic_name: topicName });
             return false;
         }
         
         if (topicName.length > 249) {
-            console.warn(`Topic name too long: ${topicName}`);
+            this.commonTransform.log('warn', 'Topic name too long', { topic_name: topicName, length: topicName.length });
             return false;
         }
         
@@ -1,6 +1,23 @@
 // valueSchemaTransform.ts - Value schema transformation logic
 // This handles transformation and validation of record value schemas
 
+import { DeadLetterHandler, DeadLetterPolicy } from './deadLetter';
+import { Logger, errorFields, recordFields } from './logger';
+import { Masker, MaskingPolicy, configuredMaskingPolicy } from './masking';
+import { RuntimeContext, createRuntimeContext } from './runtimeContext';
+import { SchemaValidationError, SchemaValidationFailure, SchemaValidator } from './schemaValidation';
+
+export interface ValueSchemaOptions {
+    // Validates incoming values in place of the built-in id/amount checks
+    inputSchema?: SchemaValidator;
+    // Validates the transformed value, including the _schema metadata
+    outputSchema?: SchemaValidator;
+    // Defaults to the transform's deadLetter setting in streamkap.config
+    deadLetter?: DeadLetterPolicy;
+    // Defaults to the transform's masking setting in streamkap.config, see masking.ts
+    masking?: MaskingPolicy;
+}
+
 /**
  * Value Schema Transform Class
  * 
@@ -10,6 +27,17 @@
  */
 export class ValueSchemaTransform {
     
+    private deadLetter: DeadLetterHandler;
+    private masker: Masker;
+    
+    constructor(
+        private context: RuntimeContext = createRuntimeContext(),
+        private options: ValueSchemaOptions = {}
+    ) {
+        this.masker = new Masker(options.masking || configuredMaskingPolicy());
+        this.deadLetter = new DeadLetterHandler(options.deadLetter, context, this.masker);
+    }
+    
     /**
      * Transform value schema
      * 
@@ -22,8 +50,9 @@ export class ValueSchemaTransform {
     public transform(valueObject: any, keyObject: any, topic: string, timestamp: number): any {
         try {
             // Validate input schema first
-            if (!this.validateInputSchema(valueObject)) {
-                throw new Error('Input schema validation failed');
+            const inputErrors = this.validateInputSchema(valueObject);
+            if (inputErrors.length > 0) {
+                throw new SchemaValidationFailure('Input schema validation failed', inputErrors);
             }
             
             // Transform to output schema
@@ -31,28 +60,32 @@ export class ValueSchemaTransform {
             
             transformedValue._schema = {
                 version: '1.0.0',
-                transformed_at: new Date().toISOString(),
+                transformed_at: new Date(this.context.clock.now()).toISOString(),
                 source_topic: topic,
                 transformation_type: 'value_schema'
             };
             
             // Validate output schema
-            if (!this.validateOutputSchema(transformedValue)) {
-                throw new Error('Output schema validation failed');
+            const outputErrors = this.validateOutputSchema(transformedValue);
+            if (outputErrors.length > 0) {
+                throw new SchemaValidationFailure('Output schema validation failed', outputErrors);
             }
             
-            return transformedValue;
+            // Masked after validation, so the output schema sees the real values
+            return this.masker.mask(transformedValue);
             
         } catch (error) {
-            console.error('Value schema transformation failed:', error);
+            this.recordLogger(valueObject, keyObject, topic).error('Value schema transformation failed', errorFields(error, valueObject, keyObject, this.masker));
             
-            // Return error wrapper with original data
-            return {
-                _error: true,
-                error_message: error instanceof Error ? error.message : String(error),
-                error_timestamp: new Date().toISOString(),
-                original_value: valueObject
-            };
+            // Drop, pass through or dead-letter according to the policy
+            return this.deadLetter.handle(error, {
+                stage: 'value_schema',
+                operation: 'valueSchemaTransform',
+                valueObject,
+                keyObject,
+                topic,
+                timestamp
+            });
         }
     }
     
@@ -85,7 +118,7 @@ export class ValueSchemaTransform {
             newSchema._migration = {
                 from_schema: 'legacy_v1',
                 to_schema: 'new_v2',
-                migrated_at: new Date().toISOString(),
+                migrated_at: new Date(this.context.clock.now()).toISOString(),
                 source_topic: topic
             };
             
@@ -96,11 +129,18 @@ export class ValueSchemaTransform {
                 }
             });
             
-            return newSchema;
+            return this.masker.mask(newSchema);
             
         } catch (error) {
-            console.error('Legacy schema transformation failed:', error);
-            return this.wrapError(error instanceof Error ? error : new Error(String(error)), valueObject);
+            this.recordLogger(valueObject, keyObject, topic).error('Legacy schema transformation failed', errorFields(error, valueObject, keyObject, this.masker));
+            return this.deadLetter.handle(error, {
+                stage: 'value_schema',
+                operation: 'transformLegacyToNew',
+                valueObject,
+                keyObject,
+                topic,
+                timestamp
+            });
         }
     }
     
@@ -172,56 +212,59 @@ export class ValueSchemaTransform {
     
     /**
      * Validate input schema against expected structure
+     * Uses the injected input schema when present, otherwise the built-in example rules
      */
-    private validateInputSchema(valueObject: any): boolean {
+    private validateInputSchema(valueObject: any): SchemaValidationError[] {
         if (!valueObject || typeof valueObject !== 'object') {
-            return false;
+            return [{ path: '$', message: 'must be an object' }];
+        }
+        
+        if (this.options.inputSchema) {
+            return this.options.inputSchema.validate(valueObject);
         }
         
+        const errors: SchemaValidationError[] = [];
+        
         // Example validations:
         
         // Required fields check
-        const requiredFields = ['id']; // Customize based on your requirements
+        const requiredFields = ['id']; // Customize based on your requirements, or pass an inputSchema
         for (const field of requiredFields) {
             if (!valueObject.hasOwnProperty(field)) {
-                console.error(`Missing required field: ${field}`);
-                return false;
+                errors.push({ path: `$.${field}`, message: 'is required' });
             }
         }
         
         // Type validations - align with CommonTransform by accepting string or number
         if (valueObject.id && typeof valueObject.id !== 'string' && typeof valueObject.id !== 'number') {
-            console.error('Field "id" must be a string or number');
-            return false;
+            errors.push({ path: '$.id', message: 'must be string or number' });
         }
         
         if (valueObject.amount && typeof valueObject.amount !== 'number') {
-            console.error('Field "amount" must be a number');
-            return false;
+            errors.push({ path: '$.amount', message: 'must be number' });
         }
         
-        return true;
+        return errors;
     }
     
     /**
      * Validate output schema meets requirements
      */
-    private validateOutputSchema(valueObject: any): boolean {
+    private validateOutputSchema(valueObject: any): SchemaValidationError[] {
         if (!valueObject || typeof valueObject !== 'object') {
-            return false;
+            return [{ path: '$', message: 'must be an object' }];
         }
         
-        // Example validations:
-        
         // Ensure schema metadata exists
         if (!valueObject._schema) {
-            console.error('Missing schema metadata');
-            return false;
+            return [{ path: '$._schema', message: 'is required' }];
         }
         
-        // Validate required output fields
+        if (this.options.outputSchema) {
+            return this.options.outputSchema.validate(valueObject);
+        }
         
-        return true;
+        return [];
     }
     
     /**
@@ -234,7 +277,7 @@ export class ValueSchemaTransform {
         // Apply data type transformations
         output = this.transformDataTypes(output);
         
-        output.processed_timestamp = new Date().toISOString();
+        output.processed_timestamp = new Date(this.context.clock.now()).toISOString();
         
         // Apply business-specific transformations
         output = this.applyBusinessTransformations(output);
@@ -258,7 +301,7 @@ export class ValueSchemaTransform {
         
         if (transformed.created_at) {
             const createdDate = new Date(transformed.created_at);
-            const now = new Date();
+            const now = new Date(this.context.clock.now());
             transformed.age_days = Math.floor((now.getTime() - createdDate.getTime()) / (1000 * 60 * 60 * 24));
         }
         
@@ -269,17 +312,17 @@ export class ValueSchemaTransform {
      * Ensure timestamp is in ISO format
      */
     private ensureISOTimestamp(value: any): string {
-        if (!value) return new Date().toISOString();
+        if (!value) return new Date(this.context.clock.now()).toISOString();
         
         try {
             // If it's already a valid date string, parse and re-format
             const date = new Date(value);
             if (isNaN(date.getTime())) {
-                return new Date().toISOString(); // Invalid date, use current time
+                return new Date(this.context.clock.now()).toISOString(); // Invalid date, use current time
             }
             return date.toISOString();
         } catch {
-            return new Date().toISOString();
+            return new Date(this.context.clock.now()).toISOString();
         }
     }
     
@@ -294,14 +337,9 @@ export class ValueSchemaTransform {
     }
     
     /**
-     * Wrap error with original data
+     * Logger adding the topic, key and id of the record to each entry
      */
-    private wrapError(error: Error, originalValue: any): any {
-        return {
-            _schema_error: true,
-            error_message: error.message,
-            error_timestamp: new Date().toISOString(),
-            original_value: originalValue
-        };
+    private recordLogger(valueObject: any, keyObject: any, topic: string): Logger {
+        return this.context.logger.child(recordFields(topic, keyObject, valueObject, this.masker));
     }
-}
\ No newline at end of file
+}
@@ -1,7 +1,30 @@
 // valueTransform.ts - Main value transformation logic
 // This is the primary transform function that processes record values
 
+import { CdcChange, CdcOptions, CdcOptionsError, completeChange, deleteResult, transformChange, transformsChange, unwrapChange, validateCdcOptions } from './cdc';
 import { CommonTransform } from './commonTransform';
+import { DeadLetterHandler, DeadLetterPolicy } from './deadLetter';
+import { DedupPolicy, Deduplicator, configuredDedupPolicy } from './dedup';
+import { Enricher } from './enrichment';
+import { FlattenOptions, Flattener } from './flattener';
+import { Masker, MaskingPolicy, configuredMaskingPolicy } from './masking';
+import { Counter } from './metrics';
+import { RuntimeContext, createRuntimeContext } from './runtimeContext';
+
+export interface ValueTransformOptions {
+    // Defaults to the transform's deadLetter setting in streamkap.config
+    deadLetter?: DeadLetterPolicy;
+    // How transformFlatten flattens records, see flattener.ts
+    flatten?: FlattenOptions;
+    // Enrichment source for transformAsync, see enrichment.ts
+    enricher?: Enricher;
+    // Treat values as Debezium change events: transform the row of each change, see cdc.ts
+    cdc?: CdcOptions;
+    // Defaults to the transform's masking setting in streamkap.config, see masking.ts
+    masking?: MaskingPolicy;
+    // Drop records whose idempotency key was seen recently, defaults to the transform's dedup setting in streamkap.config - see dedup.ts
+    dedup?: DedupPolicy;
+}
 
 /**
  * Value Transform Class
@@ -11,9 +34,37 @@ import { CommonTransform } from './commonTransform';
  */
 export class ValueTransform {
     private commonTransform: CommonTransform;
+    private deadLetter: DeadLetterHandler;
+    private flattenOptions: FlattenOptions;
+    private explodesArrays: boolean;
+    private cdc?: CdcOptions;
+    private masker: Masker;
+    private deduplicator: Deduplicator;
+    private received: Counter;
+    private filtered: Counter;
+    private failed: Counter;
+    private produced: Counter;
     
-    constructor() {
-        this.commonTransform = new CommonTransform();
+    constructor(private context: RuntimeContext = createRuntimeContext(), options: ValueTransformOptions = {}) {
+        this.masker = new Masker(options.masking || configuredMaskingPolicy());
+        this.commonTransform = new CommonTransform(context, { enricher: options.enricher, masker: this.masker });
+        this.deadLetter = new DeadLetterHandler(options.deadLetter, context, this.masker);
+        this.flattenOptions = options.flatten || {};
+        this.explodesArrays = new Flattener(this.flattenOptions).explodes;
+        if (options.cdc) {
+            const issues = validateCdcOptions(options.cdc);
+            if (issues.length > 0) {
+                throw new CdcOptionsError(issues);
+            }
+        }
+        this.cdc = options.cdc;
+        this.deduplicator = new Deduplicator(options.dedup || configuredDedupPolicy(), context);
+        
+        // Labelled by operation (value, async_value or flatten), failures also by error_type
+        this.received = context.metrics.counter('transform_records_total', 'Records received by the value transform');
+        this.filtered = context.metrics.counter('transform_filtered_total', 'Records filtered out by shouldKeepRecord or validateRecord');
+        this.failed = context.metrics.counter('transform_errors_total', 'Records that failed input validation or transformation');
+        this.produced = context.metrics.counter('transform_output_records_total', 'Rows produced - more than the records received when records fan out');
     }
     
     /**
@@ -27,11 +78,23 @@ export class ValueTransform {
      * @returns Transformed value object or null to filter out
      */
     public transform(valueObject: any, keyObject: any, topic: string, timestamp: number): any | null {
+        this.received.inc({ operation: 'value' });
         try {
             // Enhanced input validation
             const validation = this.commonTransform.validateInput(valueObject, keyObject, topic, timestamp);
             if (!validation.valid) {
-                this.commonTransform.log('error', 'Input validation failed', { errors: validation.errors });
+                this.failed.inc({ operation: 'value', error_type: 'InputValidation' });
+                this.commonTransform.log('error', 'Input validation failed', { errors: validation.errors }, this.commonTransform.logFields(topic, keyObject, valueObject));
+                return null;
+            }
+            
+            // Tombstones pass through as tombstones
+            if (validation.tombstone) {
+                return null;
+            }
+            
+            // Duplicates are dropped before any business logic; in CDC mode the key fields are read from the change event
+            if (this.deduplicator.isDuplicate(valueObject, keyObject)) {
                 return null;
             }
             
@@ -41,33 +104,22 @@ export class ValueTransform {
             // Normalize timestamp
             const normalizedTimestamp = this.commonTransform.normalizeTimestamp(timestamp);
             
-            // Validate and filter records (for map_filter transforms)
-            if (!this.commonTransform.shouldKeepRecord(valueObject)) {
-                return null; // null = filter out this record
+            if (this.cdc) {
+                return this.maskBefore(transformChange(valueObject, this.cdc, (row, change) => this.transformRow(row, keyObject, sanitizedTopic, normalizedTimestamp, change)));
             }
             
-            // Apply your main business transformation
-            const transformedRecord = this.commonTransform.transformRecord(valueObject, normalizedTimestamp);
-            
-            transformedRecord.source_topic = sanitizedTopic;
-            transformedRecord.source_timestamp = normalizedTimestamp;
-            transformedRecord.source_key = keyObject;
-            
-            transformedRecord.transform_type = 'value';
-            
-            // Memory optimization
-            return this.commonTransform.removeUndefinedValues(transformedRecord);
+            return this.transformRow(valueObject, keyObject, sanitizedTopic, normalizedTimestamp);
             
         } catch (error) {
             const errorContext = this.commonTransform.createErrorContext(error, 'valueTransform', valueObject);
-            this.commonTransform.log('error', 'Value transformation failed', errorContext);
-            
-            // Return original record with error context
-            return {
-                ...valueObject,
-                transform_error: true,
-                ...errorContext
-            };
+            this.failed.inc({ operation: 'value', error_type: error instanceof Error ? error.name : typeof error });
+            this.commonTransform.log('error', 'Value transformation failed', errorContext, this.commonTransform.logFields(topic, keyObject, valueObject));
+            
+            // Drop, pass through or dead-letter according to the policy
+            return this.deadLetter.handle(error, { stage: 'value', operation: 'valueTransform', valueObject, keyObject, topic, timestamp });
+        } finally {
+            // Exports the metrics when the export interval has passed
+            this.context.metrics.collect();
         }
     }
     
@@ -75,11 +127,21 @@ export class ValueTransform {
      * For enrich_async transforms - async value transformation
      */
     public async transformAsync(valueObject: any, keyObject: any, topic: string, timestamp: number): Promise<any | null> {
+        this.received.inc({ operation: 'async_value' });
         try {
             // Enhanced input validation
             const validation = this.commonTransform.validateInput(valueObject, keyObject, topic, timestamp);
             if (!validation.valid) {
-                this.commonTransform.log('error', 'Async input validation failed', { errors: validation.errors });
+                this.failed.inc({ operation: 'async_value', error_type: 'InputValidation' });
+                this.commonTransform.log('error', 'Async input validation failed', { errors: validation.errors }, this.commonTransform.logFields(topic, keyObject, valueObject));
+                return null;
+            }
+            
+            if (validation.tombstone) {
+                return null;
+            }
+            
+            if (this.deduplicator.isDuplicate(valueObject, keyObject)) {
                 return null;
             }
             
@@ -89,50 +151,47 @@ export class ValueTransform {
             // Normalize timestamp
             const normalizedTimestamp = this.commonTransform.normalizeTimestamp(timestamp);
             
-            // Validate and filter records
-            if (!this.commonTransform.shouldKeepRecord(valueObject)) {
-                return null;
+            if (this.cdc) {
+                const change = unwrapChange(valueObject);
+                if (!transformsChange(change, this.cdc)) {
+                    return this.maskBefore(deleteResult(change, this.cdc));
+                }
+                return this.maskBefore(completeChange(change, await this.transformRowAsync(change.row, keyObject, sanitizedTopic, normalizedTimestamp, change), this.cdc));
             }
             
-            // Apply base transformation
-            let transformedRecord = this.commonTransform.transformRecord(valueObject, normalizedTimestamp);
-            
-            // Apply async enrichment with timeout handling
-            transformedRecord = await this.commonTransform.enrichRecord(transformedRecord);
-            
-            transformedRecord.source_topic = sanitizedTopic;
-            transformedRecord.source_timestamp = normalizedTimestamp;
-            transformedRecord.source_key = keyObject;
-            transformedRecord.transform_type = 'async_value';
-            
-            // Memory optimization
-            return this.commonTransform.removeUndefinedValues(transformedRecord);
+            return await this.transformRowAsync(valueObject, keyObject, sanitizedTopic, normalizedTimestamp);
             
         } catch (error) {
             const errorContext = this.commonTransform.createErrorContext(error, 'asyncValueTransform', valueObject);
-            this.commonTransform.log('error', 'Async value transformation failed', errorContext);
+            this.failed.inc({ operation: 'async_value', error_type: error instanceof Error ? error.name : typeof error });
+            this.commonTransform.log('error', 'Async value transformation failed', errorContext, this.commonTransform.logFields(topic, keyObject, valueObject));
             
-            return {
-                ...valueObject,
-                transform_error: true,
-                ...errorContext
-            };
+            return this.deadLetter.handle(error, { stage: 'value', operation: 'asyncValueTransform', valueObject, keyObject, topic, timestamp });
+        } finally {
+            this.context.metrics.collect();
         }
     }
     
     /**
      * For un_nesting transforms - flatten the record structure
+     * Returns an array of rows (parent row first) when the flatten options explode arrays into child rows
      */
     public transformFlatten(valueObject: any, keyObject: any, topic: string, timestamp: number): any | null {
+        this.received.inc({ operation: 'flatten' });
         try {
             // Enhanced input validation
             const validation = this.commonTransform.validateInput(valueObject, keyObject, topic, timestamp);
             if (!validation.valid) {
-                this.commonTransform.log('error', 'Flatten input validation failed', { errors: validation.errors });
+                this.failed.inc({ operation: 'flatten', error_type: 'InputValidation' });
+                this.commonTransform.log('error', 'Flatten input validation failed', { errors: validation.errors }, this.commonTransform.logFields(topic, keyObject, valueObject));
+                return null;
+            }
+            
+            if (validation.tombstone) {
                 return null;
             }
             
-            if (!this.commonTransform.validateRecord(valueObject)) {
+            if (this.deduplicator.isDuplicate(valueObject, keyObject)) {
                 return null;
             }
             
@@ -142,26 +201,85 @@ export class ValueTransform {
             // Normalize timestamp
             const normalizedTimestamp = this.commonTransform.normalizeTimestamp(timestamp);
             
-            // Apply flattening transformation
-            const flattenedRecord = this.commonTransform.flattenRecord(valueObject);
-            
-            flattenedRecord.source_topic = sanitizedTopic;
-            flattenedRecord.source_timestamp = normalizedTimestamp;
-            flattenedRecord.source_key = keyObject;
-            flattenedRecord.transform_type = 'flatten';
+            if (this.cdc) {
+                return this.maskBefore(transformChange(valueObject, this.cdc, (row, change) => this.flattenRow(row, keyObject, sanitizedTopic, normalizedTimestamp, change)));
+            }
             
-            // Memory optimization
-            return this.commonTransform.removeUndefinedValues(flattenedRecord);
+            return this.flattenRow(valueObject, keyObject, sanitizedTopic, normalizedTimestamp);
             
         } catch (error) {
             const errorContext = this.commonTransform.createErrorContext(error, 'flattenTransform', valueObject);
-            this.commonTransform.log('error', 'Flatten transformation failed', errorContext);
+            this.failed.inc({ operation: 'flatten', error_type: error instanceof Error ? error.name : typeof error });
+            this.commonTransform.log('error', 'Flatten transformation failed', errorContext, this.commonTransform.logFields(topic, keyObject, valueObject));
             
-            return {
-                ...valueObject,
-                transform_error: true,
-                ...errorContext
-            };
+            return this.deadLetter.handle(error, { stage: 'value', operation: 'flattenTransform', valueObject, keyObject, topic, timestamp });
+        } finally {
+            this.context.metrics.collect();
         }
     }
-}
\ No newline at end of file
+    
+    private transformRow(row: any, keyObject: any, sanitizedTopic: string, normalizedTimestamp: number, change?: CdcChange): any | null {
+        // Validate and filter records (for map_filter transforms)
+        if (!this.commonTransform.shouldKeepRecord(row)) {
+            this.filtered.inc({ operation: 'value' });
+            return null; // null = filter out this record
+        }
+        
+        // Apply your main business transformation
+        const transformedRecord = this.commonTransform.transformRecord(row, normalizedTimestamp, change);
+        
+        return this.withSource(transformedRecord, 'value', keyObject, sanitizedTopic, normalizedTimestamp, change);
+    }
+    
+    private async transformRowAsync(row: any, keyObject: any, sanitizedTopic: string, normalizedTimestamp: number, change?: CdcChange): Promise<any | null> {
+        // Validate and filter records
+        if (!this.commonTransform.shouldKeepRecord(row)) {
+            this.filtered.inc({ operation: 'async_value' });
+            return null;
+        }
+        
+        // Apply base transformation
+        let transformedRecord = this.commonTransform.transformRecord(row, normalizedTimestamp, change);
+        
+        // Apply async enrichment with timeout handling
+        transformedRecord = await this.commonTransform.enrichRecord(transformedRecord);
+        
+        return this.withSource(transformedRecord, 'async_value', keyObject, sanitizedTopic, normalizedTimestamp, change);
+    }
+    
+    private flattenRow(row: any, keyObject: any, sanitizedTopic: string, normalizedTimestamp: number, change?: CdcChange): any | null {
+        if (!this.commonTransform.validateRecord(row)) {
+            this.filtered.inc({ operation: 'flatten' });
+            return null;
+        }
+        
+        // Apply flattening transformation
+        const rows = this.commonTransform.flattenRows(row, this.flattenOptions)
+            .map(flattenedRecord => this.withSource(flattenedRecord, 'flatten', keyObject, sanitizedTopic, normalizedTimestamp, change));
+        
+        return this.explodesArrays ? rows : rows[0];
+    }
+    
+    // Source metadata, plus the operation and source position of the change in CDC mode
+    private withSource(record: any, transformType: string, keyObject: any, sanitizedTopic: string, normalizedTimestamp: number, change?: CdcChange): any {
+        record.source_topic = sanitizedTopic;
+        record.source_timestamp = normalizedTimestamp;
+        record.source_key = keyObject;
+        if (change) {
+            record.cdc_op = change.op;
+            record.cdc_position = change.position;
+        }
+        
+        record.transform_type = transformType;
+        this.produced.inc({ operation: transformType });
+        
+        // Memory optimization, then PII masking (source_key included)
+        return this.masker.mask(this.commonTransform.removeUndefinedValues(record));
+    }
+    
+    // Rewrapped changes carry the untransformed before image
+    private maskBefore(result: any): any {
+        const mask = (envelope: any) => envelope && envelope.before ? { ...envelope, before: this.masker.mask(envelope.before) } : envelope;
+        return this.cdc && this.cdc.rewrap && this.masker.active ? (Array.isArray(result) ? result.map(mask) : mask(result)) : result;
+    }
+}
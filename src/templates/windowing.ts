@@ -0,0 +1,417 @@
+// windowing.ts - Windowed aggregations for value transforms
+// Tumbling, sliding and session windows keyed by record fields, closed by event time with allowed lateness
+
+import { CommonTransform } from './commonTransform';
+import { parseFieldPath, readFieldPath } from './fieldPath';
+import { Counter } from './metrics';
+import { RuntimeContext, createRuntimeContext } from './runtimeContext';
+import { ValueTransformFn, ValueTransformResult } from './sdk';
+
+/**
+ * Fixed, non-overlapping windows aligned to the epoch, e.g. every minute on the minute
+ */
+export interface TumblingWindow {
+    type: 'tumbling';
+    sizeMs: number;
+}
+
+/**
+ * Overlapping windows of sizeMs starting every slideMs - a record is in sizeMs / slideMs of them
+ */
+export interface SlidingWindow {
+    type: 'sliding';
+    sizeMs: number;
+    slideMs: number;
+}
+
+/**
+ * Activity of one key until it is idle for gapMs - from its first record to gapMs after its last
+ */
+export interface SessionWindow {
+    type: 'session';
+    gapMs: number;
+}
+
+export type WindowSpec = TumblingWindow | SlidingWindow | SessionWindow;
+
+/**
+ * Custom aggregate, folded over the records of a window
+ */
+export interface Reducer<A = any, R = any> {
+    init(): A;
+    add(accumulator: A, record: any): A;
+    // Combine the accumulators of two sessions a record bridged - required in session windows
+    merge?(first: A, second: A): A;
+    // Value written to the aggregate record, defaults to the accumulator
+    result?(accumulator: A): R;
+}
+
+/**
+ * Built-in aggregate of a numeric field - values that are not finite numbers are skipped
+ */
+export interface FieldAggregate {
+    op: 'sum' | 'min' | 'max' | 'avg';
+    field: string;
+}
+
+export type AggregateSpec = { op: 'count' } | FieldAggregate | Reducer;
+
+export interface WindowOptions {
+    window: WindowSpec;
+    // Output field name to aggregate, e.g. { order_count: { op: 'count' }, revenue: { op: 'sum', field: 'amount' } }
+    aggregates: { [field: string]: AggregateSpec };
+    // Dotted paths of the fields to group by, e.g. ["location_id"] - written to the aggregate record with dots as underscores
+    keyBy?: string[];
+    // Field holding the event time (epoch seconds to nanoseconds, or an ISO date), defaults to the record timestamp
+    timeField?: string;
+    // How far event time may go back before a window is closed, defaults to 0
+    allowedLatenessMs?: number;
+    // Open windows kept at most - beyond it the window ending first is closed early, defaults to DEFAULT_MAX_OPEN_WINDOWS
+    maxOpenWindows?: number;
+}
+
+/**
+ * One closed window: its key fields, start and end, and one field per aggregate
+ */
+export interface AggregateRecord {
+    window_start: string;
+    window_end: string;
+    [field: string]: any;
+}
+
+export interface WindowStats {
+    records: number;
+    // Records older than every window they belong to that is still open
+    late: number;
+    emitted: number;
+    open: number;
+}
+
+export const DEFAULT_MAX_OPEN_WINDOWS = 10000;
+
+/**
+ * Thrown when a WindowedAggregator is created from invalid options
+ */
+export class WindowOptionsError extends Error {
+    constructor(public readonly issues: string[]) {
+        super(`Invalid window options: ${issues.join('; ')}`);
+        this.name = 'WindowOptionsError';
+        Object.setPrototypeOf(this, WindowOptionsError.prototype);
+    }
+}
+
+/**
+ * List every problem in window options, empty when they are valid
+ */
+export function validateWindowOptions(options: any): string[] {
+    const issues: string[] = [];
+    const window = options && options.window;
+
+    if (!window || typeof window !== 'object') {
+        issues.push('window must be an object');
+    } else if (window.type === 'tumbling') {
+        checkPositive(window.sizeMs, 'window.sizeMs', issues);
+    } else if (window.type === 'sliding') {
+        checkPositive(window.sizeMs, 'window.sizeMs', issues);
+        checkPositive(window.slideMs, 'window.slideMs', issues);
+        if (window.slideMs > window.sizeMs) {
+            issues.push('window.slideMs must not exceed window.sizeMs');
+        }
+    } else if (window.type === 'session') {
+        checkPositive(window.gapMs, 'window.gapMs', issues);
+    } else {
+        issues.push(`window.type "${window.type}" is not one of: tumbling, sliding, session`);
+    }
+
+    const aggregates = options && options.aggregates;
+    if (!aggregates || typeof aggregates !== 'object' || Object.keys(aggregates).length === 0) {
+        issues.push('aggregates must name at least one aggregate');
+    } else {
+        Object.keys(aggregates).forEach(name => {
+            const spec = aggregates[name];
+            if (spec && typeof spec.init === 'function' && typeof spec.add === 'function') {
+                if (window && window.type === 'session' && typeof spec.merge !== 'function') {
+                    issues.push(`aggregates.${name} needs a merge function in session windows`);
+                }
+            } else if (!spec || ['count', 'sum', 'min', 'max', 'avg'].indexOf(spec.op) === -1) {
+                issues.push(`aggregates.${name} must be a reducer or have an op of: count, sum, min, max, avg`);
+            } else if (spec.op !== 'count' && (typeof spec.field !== 'string' || spec.field.length === 0)) {
+                issues.push(`aggregates.${name}.field is required for ${spec.op}`);
+            }
+        });
+    }
+
+    if (options && options.keyBy !== undefined && (!Array.isArray(options.keyBy) || options.keyBy.some((field: any) => typeof field !== 'string' || field.length === 0))) {
+        issues.push('keyBy must be an array of field paths');
+    }
+    if (options && options.allowedLatenessMs !== undefined && !(typeof options.allowedLatenessMs === 'number' && options.allowedLatenessMs >= 0)) {
+        issues.push('allowedLatenessMs must be a non-negative number');
+    }
+    if (options && options.maxOpenWindows !== undefined) {
+        checkPositive(options.maxOpenWindows, 'maxOpenWindows', issues);
+    }
+
+    return issues;
+}
+
+/**
+ * Reducer of a built-in aggregate
+ */
+export function builtInReducer(spec: { op: 'count' } | FieldAggregate): Reducer {
+    if (spec.op === 'count') {
+        return { init: () => 0, add: count => count + 1, merge: (first, second) => first + second };
+    }
+
+    const path = parseFieldPath(spec.field);
+    const numberAt = (record: any): number | undefined => {
+        const value = readFieldPath(record, path);
+        return typeof value === 'number' && isFinite(value) ? value : undefined;
+    };
+
+    switch (spec.op) {
+        case 'sum':
+            return { init: () => 0, add: (sum, record) => sum + (numberAt(record) || 0), merge: (first, second) => first + second };
+        case 'avg':
+            return {
+                init: () => ({ sum: 0, count: 0 }),
+                add: (avg, record) => {
+                    const value = numberAt(record);
+                    return value === undefined ? avg : { sum: avg.sum + value, count: avg.count + 1 };
+                },
+                merge: (first, second) => ({ sum: first.sum + second.sum, count: first.count + second.count }),
+                result: avg => avg.count > 0 ? avg.sum / avg.count : null
+            };
+        default: {
+            const pick = spec.op === 'min' ? Math.min : Math.max;
+            const combine = (first: number | null, second: number | null) => first === null ? second : second === null ? first : pick(first, second);
+            return {
+                init: () => null,
+                add: (current, record) => {
+                    const value = numberAt(record);
+                    return value === undefined ? current : combine(current, value);
+                },
+                merge: combine
+            };
+        }
+    }
+}
+
+interface OpenWindow {
+    keyValues: any[];
+    start: number;
+    end: number;
+    accumulators: any[];
+}
+
+/**
+ * Windowed Aggregator Class
+ *
+ * Folds records into the windows of their key and returns the aggregate records of the windows that close.
+ * Windows close on event time, not the clock: once the newest record's time, minus the allowed lateness,
+ * reaches a window's end. State lives in the bundle's memory and is lost when the transform is reloaded.
+ */
+export class WindowedAggregator {
+    private window: WindowSpec;
+    private names: string[];
+    private reducers: Reducer[];
+    private keyPaths: string[][];
+    private keyFields: string[];
+    private timePath?: string[];
+    private allowedLatenessMs: number;
+    private maxOpenWindows: number;
+    private commonTransform: CommonTransform;
+    // Open windows of each key, by the key's JSON
+    private open: { [key: string]: OpenWindow[] } = {};
+    private maxTime = -Infinity;
+    private counts = { records: 0, late: 0, emitted: 0 };
+    private lateRecords: Counter;
+
+    /**
+     * @throws WindowOptionsError when the options are invalid
+     */
+    constructor(options: WindowOptions, context: RuntimeContext = createRuntimeContext()) {
+        const issues = validateWindowOptions(options);
+        if (issues.length > 0) {
+            throw new WindowOptionsError(issues);
+        }
+
+        this.window = options.window;
+        this.names = Object.keys(options.aggregates);
+        this.reducers = this.names.map(name => {
+            const spec = options.aggregates[name];
+            return 'op' in spec ? builtInReducer(spec) : spec;
+        });
+        this.keyPaths = (options.keyBy || []).map(parseFieldPath);
+        this.keyFields = (options.keyBy || []).map(field => field.replace(/\./g, '_'));
+        this.timePath = options.timeField ? parseFieldPath(options.timeField) : undefined;
+        this.allowedLatenessMs = options.allowedLatenessMs || 0;
+        this.maxOpenWindows = options.maxOpenWindows || DEFAULT_MAX_OPEN_WINDOWS;
+        this.commonTransform = new CommonTransform(context);
+        this.lateRecords = context.metrics.counter('transform_late_records_total', 'Records too late for any open window');
+    }
+
+    /**
+     * Time up to which windows are closed: the newest event time less the allowed lateness
+     */
+    public get watermark(): number {
+        return this.maxTime - this.allowedLatenessMs;
+    }
+
+    /**
+     * Add a record and return the aggregates of the windows it closed, oldest first
+     *
+     * @param timestamp - Record timestamp, the event time unless timeField is set
+     */
+    public add(record: any, timestamp: number): AggregateRecord[] {
+        this.counts.records++;
+        const time = this.eventTime(record, timestamp);
+        this.maxTime = Math.max(this.maxTime, time);
+
+        const keyValues = this.keyPaths.map(path => readFieldPath(record, path));
+        const key = JSON.stringify(keyValues);
+        const windows = this.open[key] || (this.open[key] = []);
+
+        const accepted = this.window.type === 'session'
+            ? this.addToSession(windows, keyValues, record, time)
+            : this.addToWindows(windows, keyValues, record, time);
+        if (!accepted) {
+            this.counts.late++;
+            this.lateRecords.inc();
+        }
+
+        return this.close(window => window.end <= this.watermark);
+    }
+
+    /**
+     * Close every open window, e.g. at the end of a replay
+     */
+    public flush(): AggregateRecord[] {
+        return this.close(() => true);
+    }
+
+    public stats(): WindowStats {
+        return { ...this.counts, open: this.openWindows().length };
+    }
+
+    // Tumbling and sliding windows: every window containing the time that is still open
+    private addToWindows(windows: OpenWindow[], keyValues: any[], record: any, time: number): boolean {
+        const size = this.window.type === 'sliding' ? this.window.sizeMs : (this.window as TumblingWindow).sizeMs;
+        const slide = this.window.type === 'sliding' ? this.window.slideMs : size;
+        let accepted = false;
+
+        for (let start = Math.floor(time / slide) * slide; start > time - size; start -= slide) {
+            if (start + size <= this.watermark) {
+                continue;
+            }
+            let window = windows.filter(candidate => candidate.start === start)[0];
+            if (!window) {
+                window = { keyValues, start, end: start + size, accumulators: this.reducers.map(reducer => reducer.init()) };
+                windows.push(window);
+            }
+            this.fold(window, record);
+            accepted = true;
+        }
+        return accepted;
+    }
+
+    // Session windows: joins the sessions within the gap of the time, merging them when it bridges several
+    private addToSession(windows: OpenWindow[], keyValues: any[], record: any, time: number): boolean {
+        const gap = (this.window as SessionWindow).gapMs;
+        const touching = windows.filter(window => time >= window.start - gap && time < window.end);
+        if (touching.length === 0 && time + gap <= this.watermark) {
+            return false;
+        }
+
+        const session: OpenWindow = { keyValues, start: time, end: time + gap, accumulators: this.reducers.map(reducer => reducer.init()) };
+        touching.forEach(window => {
+            session.start = Math.min(session.start, window.start);
+            session.end = Math.max(session.end, window.end);
+            session.accumulators = session.accumulators.map((accumulator, index) => this.reducers[index].merge!(accumulator, window.accumulators[index]));
+            windows.splice(windows.indexOf(window), 1);
+        });
+        this.fold(session, record);
+        windows.push(session);
+        return true;
+    }
+
+    private fold(window: OpenWindow, record: any): void {
+        window.accumulators = window.accumulators.map((accumulator, index) => this.reducers[index].add(accumulator, record));
+    }
+
+    // Remove and emit the matching windows, plus the ones ending first while there are too many open
+    private close(closes: (window: OpenWindow) => boolean): AggregateRecord[] {
+        const open = this.openWindows();
+        const closed = open.filter(closes);
+        const remaining = open.length - closed.length;
+        if (remaining > this.maxOpenWindows) {
+            closed.push(...open.filter(window => !closes(window)).sort(byEnd).slice(0, remaining - this.maxOpenWindows));
+        }
+
+        closed.forEach(window => {
+            const key = JSON.stringify(window.keyValues);
+            this.open[key].splice(this.open[key].indexOf(window), 1);
+            if (this.open[key].length === 0) {
+                delete this.open[key];
+            }
+        });
+        this.counts.emitted += closed.length;
+        return closed.sort(byEnd).map(window => this.aggregateRecord(window));
+    }
+
+    private openWindows(): OpenWindow[] {
+        const windows: OpenWindow[] = [];
+        Object.keys(this.open).forEach(key => windows.push(...this.open[key]));
+        return windows;
+    }
+
+    private aggregateRecord(window: OpenWindow): AggregateRecord {
+        const aggregate: AggregateRecord = {
+            window_start: new Date(window.start).toISOString(),
+            window_end: new Date(window.end).toISOString()
+        };
+        this.keyFields.forEach((field, index) => aggregate[field] = window.keyValues[index] === undefined ? null : window.keyValues[index]);
+        this.names.forEach((name, index) => {
+            const reducer = this.reducers[index];
+            aggregate[name] = reducer.result ? reducer.result(window.accumulators[index]) : window.accumulators[index];
+        });
+        return aggregate;
+    }
+
+    private eventTime(record: any, timestamp: number): number {
+        const value = this.timePath ? readFieldPath(record, this.timePath) : undefined;
+        const fieldTime = typeof value === 'string' ? Date.parse(value) : value;
+        // A missing or unparseable timeField falls back to the record timestamp, never the wall clock
+        return this.commonTransform.normalizeTimestamp(typeof fieldTime === 'number' && fieldTime > 0 ? fieldTime : timestamp);
+    }
+}
+
+/**
+ * Value transform emitting the aggregates of closed windows, for use with defineValueTransform
+ * With a transform, its rows are emitted too, ahead of the aggregates:
+ *
+ *     var perMinute = new WindowedAggregator({ window: { type: 'tumbling', sizeMs: 60000 }, keyBy: ['location_id'], aggregates: { order_count: { op: 'count' } } });
+ *     var transformValue = defineValueTransform(windowedTransform(perMinute));
+ */
+export function windowedTransform<V = unknown, K = unknown, R = V>(aggregator: WindowedAggregator,
+    transform?: ValueTransformFn<V, K, R>): ValueTransformFn<V, K, R | AggregateRecord> {
+    return (record, context) => {
+        const rows = transform ? asRows(transform(record, context)) : [];
+        const aggregates = aggregator.add(record.value, context.timestamp);
+        const output: (R | AggregateRecord)[] = [...rows, ...aggregates];
+        return output.length === 0 ? null : output.length === 1 ? output[0] : output;
+    };
+}
+
+function asRows<R>(result: ValueTransformResult<R>): R[] {
+    return result === null || result === undefined ? [] : Array.isArray(result) ? result : [result];
+}
+
+function byEnd(first: OpenWindow, second: OpenWindow): number {
+    return first.end - second.end || first.start - second.start;
+}
+
+function checkPositive(value: any, name: string, issues: string[]): void {
+    if (!(typeof value === 'number' && value > 0)) {
+        issues.push(`${name} must be a positive number`);
+    }
+}
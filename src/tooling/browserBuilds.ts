@@ -0,0 +1,59 @@
+// browserBuilds.ts - esbuild plugin bundling the browser build of packages that ship one
+// The Streamkap runtime has no Node.js built-ins: a package's Node build may load them when the bundle loads
+// (uuid's requires crypto), where its browser build feature-detects what it needs
+
+import { Plugin } from 'esbuild';
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+
+// Bare package imports, e.g. uuid or @scope/name, without a subpath
+const PACKAGE_IMPORT = /^(@[^/]+\/)?[^./][^/]*$/;
+
+/**
+ * Resolve bare package imports to the file the package's "browser" field substitutes for its main file
+ * Packages without such a substitution resolve as esbuild would on its own
+ */
+export function browserBuilds(): Plugin {
+    return {
+        name: 'browser-builds',
+        setup(build) {
+            build.onResolve({ filter: PACKAGE_IMPORT }, args => {
+                const packageDir = findPackage(args.path, args.resolveDir);
+                const browserFile = packageDir && browserMain(packageDir);
+                return browserFile ? { path: join(packageDir!, browserFile) } : undefined;
+            });
+        }
+    };
+}
+
+// Nearest node_modules folder holding the package, walking up from the importing file
+function findPackage(name: string, fromDir: string): string | undefined {
+    let dir = fromDir;
+    while (true) {
+        const candidate = join(dir, 'node_modules', name);
+        if (existsSync(join(candidate, 'package.json'))) {
+            return candidate;
+        }
+        const parent = dirname(dir);
+        if (parent === dir) {
+            return undefined;
+        }
+        dir = parent;
+    }
+}
+
+// What the "browser" field maps the main file to, e.g. { "./dist/cjs/index.js": "./dist/cjs-browser/index.js" }
+function browserMain(packageDir: string): string | undefined {
+    const manifest = JSON.parse(readFileSync(join(packageDir, 'package.json'), 'utf8'));
+    if (!manifest.browser || typeof manifest.browser !== 'object' || typeof manifest.main !== 'string') {
+        return undefined;
+    }
+    const main = normalize(manifest.main);
+    const key = Object.keys(manifest.browser).find(file => normalize(file) === main);
+    const replacement = key !== undefined ? manifest.browser[key] : undefined;
+    return typeof replacement === 'string' ? replacement : undefined;
+}
+
+function normalize(file: string): string {
+    return file.replace(/^\.\//, '');
+}
@@ -0,0 +1,400 @@
+// buildTransforms.ts - Programmatic build of the Streamkap transform bundles
+// Bundles the configured transforms with the esbuild API and returns structured results instead of printing and moving on
+
+import { BuildFailure, Message, Metadata, OutputFile, build } from 'esbuild';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { basename, join, relative, resolve } from 'path';
+import { browserBuilds } from './browserBuilds';
+import { lintBundle } from './bundleLint';
+import { BundleReport, createBundleReport, formatBundleReport } from './bundleReport';
+import { processLegalComments } from './legalComments';
+import { SourceMapLookup, SourceMapV3, prependLines } from './sourceMaps';
+import {
+    ConfigValidationError,
+    EntryKind,
+    ResolvedTransform,
+    ResolvedTransformFile,
+    StreamkapConfig,
+    TransformType,
+    TypeGuardConfig,
+    bundleOptions,
+    resolveConfig,
+    resolveTypeGuards,
+    selectTransforms,
+    toEsbuildBuildOptions
+} from './transformConfig';
+import { generateTypeGuards } from './typeGuardCodegen';
+
+export interface BuildOptions {
+    // Contents of streamkap.config.(ts|json)
+    config: StreamkapConfig;
+    // Directory entry and output paths are relative to, defaults to the current directory
+    rootDir?: string;
+    // Transform names or types to build (fan-out, fan_out), every transform when empty
+    selectors?: string[];
+    // Bundles of the selected transforms to build, every file of them when omitted
+    only?: BundleId[];
+    // Progress output, silent by default
+    log?: (message: string) => void;
+}
+
+export interface BuildDiagnostic {
+    severity: 'error' | 'warning';
+    message: string;
+    // Set when the diagnostic is about one bundle
+    transform?: string;
+    file?: string;
+    // Source position reported by esbuild, or of a lint violation mapped back to its source
+    location?: { file: string; line: number; column: number; lineText?: string };
+}
+
+export interface BundleId {
+    transform: string;
+    kind: EntryKind;
+}
+
+export interface BundleResult {
+    transform: string;
+    type: TransformType;
+    kind: EntryKind;
+    src: string;
+    // Generated bundle, relative to rootDir
+    output: string;
+    success: boolean;
+    // Source files bundled into it, relative to rootDir - unknown when the bundle failed
+    inputs?: string[];
+    report?: BundleReport;
+}
+
+export interface BuildResult {
+    // False when any diagnostic is an error: a bundle failed, used something its runtime lacks, or exceeded a budget
+    success: boolean;
+    bundles: BundleResult[];
+    diagnostics: BuildDiagnostic[];
+    durationMs: number;
+}
+
+// Descriptions of each transform type and its generated files for the README
+const TYPE_DESCRIPTIONS: { [type in TransformType]: string } = {
+    map_filter: 'Transform and filter records',
+    fan_out: 'Route records to multiple topics',
+    enrich_async: 'Async enrichment transforms',
+    un_nesting: 'Flatten nested structures'
+};
+
+// The same file does a different job in each type, so files are described per type first
+const FILE_DESCRIPTIONS: { [type in TransformType]: { [file: string]: string } } = {
+    map_filter: { 'valueTransform.js': 'Main transform logic' },
+    fan_out: { 'valueTransform.js': 'Value transformation for routing' },
+    enrich_async: { 'valueTransform.js': 'Async enrichment logic' },
+    un_nesting: { 'valueTransform.js': 'Flattening transform logic' }
+};
+
+const SHARED_FILE_DESCRIPTIONS: { [file: string]: string } = {
+    'valueTransform.js': 'Main transform logic',
+    'keyTransform.js': 'Key transformation',
+    'topicTransform.js': 'Topic routing logic',
+    'valueSchemaTransform.js': 'Value schema transformation',
+    'keySchemaTransform.js': 'Key schema transformation'
+};
+
+/**
+ * Build the bundles of every selected transform
+ * Never throws for build problems - they are returned as error diagnostics, with success false
+ */
+export async function buildTransforms(options: BuildOptions): Promise<BuildResult> {
+    const started = Date.now();
+    const rootDir = resolve(options.rootDir || process.cwd());
+    const log = options.log || (() => undefined);
+    const diagnostics: BuildDiagnostic[] = [];
+    const bundles: BundleResult[] = [];
+    const finish = (): BuildResult => ({
+        success: !diagnostics.some(diagnostic => diagnostic.severity === 'error'),
+        bundles,
+        diagnostics,
+        durationMs: Date.now() - started
+    });
+
+    let transforms: ResolvedTransform[];
+    let typeGuards: TypeGuardConfig | undefined;
+    try {
+        transforms = resolveConfig(options.config, rootDir);
+        typeGuards = resolveTypeGuards(options.config, rootDir);
+    } catch (error) {
+        if (error instanceof ConfigValidationError) {
+            error.issues.forEach(issue => diagnostics.push({ severity: 'error', message: issue }));
+            return finish();
+        }
+        throw error;
+    }
+
+    const selectors = options.selectors || [];
+    const selected = selectors.length > 0 ? selectTransforms(transforms, selectors) : transforms;
+    if (selected.length === 0) {
+        diagnostics.push({ severity: 'error', message: `No transforms match ${selectors.map(selector => `--${selector}`).join(', ')}` });
+        return finish();
+    }
+
+    if (typeGuards) {
+        try {
+            writeTypeGuards(typeGuards, rootDir, log);
+        } catch (error) {
+            diagnostics.push({ severity: 'error', message: `Type guard generation failed: ${(error as Error).message}` });
+            return finish();
+        }
+    }
+
+    for (const transform of selected) {
+        const files = options.only
+            ? transform.files.filter(file => options.only!.some(id => id.transform === transform.name && id.kind === file.kind))
+            : transform.files;
+        if (files.length === 0) {
+            continue;
+        }
+        log(`🔄 Building ${transform.name} (${transform.type}) transforms...`);
+        log(`   📁 ${transform.folder}/`);
+        for (const file of files) {
+            bundles.push(await buildBundle(transform, file, rootDir, diagnostics, log));
+        }
+    }
+
+    const outputDir = join(rootDir, transforms[0].outputDir);
+    writeReadme(transforms, outputDir);
+    writeBundleReport(bundles, transforms, outputDir, rootDir, log);
+
+    return finish();
+}
+
+/**
+ * One line per diagnostic, with the source position when esbuild reported one
+ */
+export function formatDiagnostic(diagnostic: BuildDiagnostic): string {
+    const location = diagnostic.location;
+    return location ? `${diagnostic.message} (${location.file}:${location.line}:${location.column + 1})` : diagnostic.message;
+}
+
+async function buildBundle(
+    transform: ResolvedTransform,
+    file: ResolvedTransformFile,
+    rootDir: string,
+    diagnostics: BuildDiagnostic[],
+    log: (message: string) => void
+): Promise<BundleResult> {
+    const outputDir = join(rootDir, transform.outputDir, transform.folder);
+    const output = join(outputDir, file.out);
+    const result: BundleResult = {
+        transform: transform.name,
+        type: transform.type,
+        kind: file.kind,
+        src: file.src,
+        output: relative(rootDir, output),
+        success: false
+    };
+    const esbuildOptions = bundleOptions(transform);
+    const label = `${transform.name}/${file.out}`;
+    const fail = (messages: Message[]) => {
+        messages.forEach(message => diagnostics.push(toDiagnostic(message, 'error', transform, file, label)));
+        // A failed bundle must not leave the previous build behind, ready to be deployed by mistake
+        removeOutputs(output);
+        log(`   ❌ Failed to generate ${file.out}`);
+        return result;
+    };
+
+    log(`   📄 Generating ${file.out}`);
+
+    let bundled: OutputFile[];
+    let minifiedBytes: number;
+    try {
+        const buildOptions = { ...toEsbuildBuildOptions(esbuildOptions), entryPoints: [join(rootDir, file.src)], bundle: true, outfile: output, logLevel: 'silent' as 'silent', plugins: [browserBuilds()] };
+        // Nothing is written by esbuild: the bundle, its map and metafile come back in memory
+        // The map is always built, so lint violations can be reported in the TypeScript sources
+        const main = await build({ ...buildOptions, sourcemap: 'external', metafile: `${output}.meta.json`, write: false });
+        // Minified copy, only built to report its size
+        const minified = await build({ ...buildOptions, minify: true, sourcemap: false, write: false });
+        main.warnings.forEach(message => diagnostics.push(toDiagnostic(message, 'warning', transform, file, label)));
+        bundled = main.outputFiles;
+        minifiedBytes = outputFile(minified.outputFiles, output)!.contents.length;
+    } catch (error) {
+        return fail(isBuildFailure(error) && error.errors.length > 0 ? error.errors : [{ text: error instanceof Error ? error.message : String(error), location: null, notes: [], detail: error }]);
+    }
+
+    const header = fileHeader(basename(outputDir), file.out);
+    const legal = processLegalComments(outputFile(bundled, output)!.text, esbuildOptions.legalComments || 'inline');
+    const code = header + legal.code;
+
+    mkdirSync(outputDir, { recursive: true });
+    writeFileSync(output, code);
+    writeLegalComments(output, esbuildOptions.legalComments === 'external' ? legal.comments : []);
+
+    const map: SourceMapV3 = JSON.parse(outputFile(bundled, `${output}.map`)!.text);
+    const headerLines = header.split('\n').length - 1;
+    if (esbuildOptions.sourcemap) {
+        // esbuild wrote the sources relative to the bundle, only the header above the code has to be accounted for
+        writeFileSync(`${output}.map`, JSON.stringify({ ...prependLines(map, headerLines), file: file.out }));
+    } else {
+        rmSync(`${output}.map`, { force: true });
+    }
+
+    log(`   ✅ Generated ${file.out}`);
+    result.success = true;
+
+    // Legal comments were blanked in place, so the map still matches the code
+    lint(transform, file, legal.code, new SourceMapLookup(map, outputDir), headerLines, rootDir, diagnostics);
+
+    try {
+        const metafile: Metadata = JSON.parse(outputFile(bundled, `${output}.meta.json`)!.text);
+        // esbuild names inputs relative to the working directory
+        result.inputs = Object.keys(metafile.inputs).map(input => relative(rootDir, resolve(input)).replace(/\\/g, '/'));
+        result.report = createBundleReport({ transform: transform.name, type: transform.type, file: file.out, code, minifiedBytes, metafile }, { budget: transform.budget });
+        result.report.violations.forEach(violation => diagnostics.push({ severity: 'error', message: violation, transform: transform.name, file: file.out }));
+    } catch (error) {
+        diagnostics.push({ severity: 'error', message: `${label}: failed to measure: ${(error as Error).message}`, transform: transform.name, file: file.out });
+    }
+
+    return result;
+}
+
+// esbuild rejects with its messages in errors
+function isBuildFailure(error: unknown): error is BuildFailure {
+    return error instanceof Error && Array.isArray((error as Partial<BuildFailure>).errors);
+}
+
+// Report what the bundle uses that its runtime does not provide, at the source position it comes from
+function lint(
+    transform: ResolvedTransform,
+    file: ResolvedTransformFile,
+    code: string,
+    lookup: SourceMapLookup,
+    headerLines: number,
+    rootDir: string,
+    diagnostics: BuildDiagnostic[]
+): void {
+    const fromRoot = (path: string) => relative(rootDir, resolve(path)).replace(/\\/g, '/');
+    lintBundle(code, transform.lint, lookup)
+        .filter(violation => !violation.original || transform.lint.ignore.indexOf(fromRoot(violation.original.source)) === -1)
+        .forEach(violation => diagnostics.push({
+            severity: 'error',
+            message: `${transform.name}/${file.out}: ${violation.message} in the ${transform.lint.runtime} runtime`,
+            transform: transform.name,
+            file: file.out,
+            location: violation.original
+                ? { file: violation.original.source, line: violation.original.line, column: violation.original.column }
+                : { file: `${transform.name}/${file.out}`, line: violation.line + headerLines, column: violation.column }
+        }));
+}
+
+function toDiagnostic(message: Message, severity: 'error' | 'warning', transform: ResolvedTransform, file: ResolvedTransformFile, label: string): BuildDiagnostic {
+    const diagnostic: BuildDiagnostic = { severity, message: `${label}: ${message.text}`, transform: transform.name, file: file.out };
+    if (message.location) {
+        diagnostic.location = {
+            file: message.location.file,
+            line: message.location.line,
+            column: message.location.column,
+            lineText: message.location.lineText
+        };
+    }
+    return diagnostic;
+}
+
+function outputFile(files: OutputFile[], path: string): OutputFile | undefined {
+    return files.filter(file => resolve(file.path) === resolve(path))[0];
+}
+
+function fileHeader(transformType: string, fileName: string): string {
+    return `// Streamkap ${transformType} Transform - ${fileName}
+// Generated on: ${new Date().toISOString()}
+// Self-contained bundle with all dependencies
+
+`;
+}
+
+function removeOutputs(output: string): void {
+    [output, `${output}.map`, `${output}.LEGAL.txt`].forEach(path => rmSync(path, { force: true }));
+}
+
+function writeLegalComments(output: string, comments: string[]): void {
+    if (comments.length > 0) {
+        writeFileSync(`${output}.LEGAL.txt`, comments.join('\n\n') + '\n');
+    } else {
+        rmSync(`${output}.LEGAL.txt`, { force: true });
+    }
+}
+
+// Regenerate the runtime type guards so the bundles check records against the current interfaces
+function writeTypeGuards(typeGuards: TypeGuardConfig, rootDir: string, log: (message: string) => void): void {
+    // The generated file names its sources, so keep the paths as they appear in the config
+    const fromCwd = (path: string) => relative(process.cwd(), join(rootDir, path)).replace(/\\/g, '/');
+    const output = fromCwd(typeGuards.output);
+    const source = generateTypeGuards({ sources: typeGuards.sources.map(fromCwd), output });
+    const current = existsSync(output) ? readFileSync(output, 'utf8') : undefined;
+
+    if (source === current) {
+        log(`🛡️  Type guards up to date (${typeGuards.output})`);
+        return;
+    }
+    writeFileSync(output, source);
+    log(`🛡️  Generated type guards for ${typeGuards.sources.length} files (${typeGuards.output})`);
+}
+
+function writeReadme(transforms: ResolvedTransform[], outputDir: string): void {
+    const structure = transforms.map(transform => {
+        const files = transform.files
+            .map(file => `  - \`${file.out}\` - ${FILE_DESCRIPTIONS[transform.type][file.out] || SHARED_FILE_DESCRIPTIONS[file.out]}`)
+            .join('\n');
+        return `- **${transform.folder}/**: ${TYPE_DESCRIPTIONS[transform.type]} (${transform.type})\n${files}`;
+    }).join('\n\n');
+
+    const readmeContent = `# Generated Streamkap Transforms
+
+These are Self-contained JavaScript files ready for deployment to Streamkap.
+
+## Files Structure
+
+${structure}
+
+## Usage
+
+Copy the entire contents of the relevant .js file and paste it into your Streamkap transform implementation tab.
+`;
+
+    mkdirSync(outputDir, { recursive: true });
+    writeFileSync(join(outputDir, 'README.md'), readmeContent);
+}
+
+// Print the size of every bundle built and merge their reports into the full report next to the bundles,
+// keeping the reports of configured bundles this build skipped (selectors, watch rebuilds)
+function writeBundleReport(bundles: BundleResult[], transforms: ResolvedTransform[], outputDir: string, rootDir: string, log: (message: string) => void): void {
+    const reports = bundles.filter(bundle => bundle.report).map(bundle => bundle.report!);
+    if (reports.length > 0) {
+        log('');
+        log('📦 Bundle report');
+        formatBundleReport(reports).forEach(line => log(line));
+    }
+    if (bundles.length === 0) {
+        return;
+    }
+
+    const reportPath = join(outputDir, 'bundle-report.json');
+    // Configured bundles in config order; failed bundles were built too and lose their previous report with their output
+    const configured: string[] = [];
+    transforms.forEach(transform => transform.files.forEach(file => configured.push(`${transform.name}/${file.out}`)));
+    const id = (report: BundleReport) => `${report.transform}/${report.file}`;
+    const built = bundles.map(bundle => `${bundle.transform}/${basename(bundle.output)}`);
+    const merged = readBundleReports(reportPath)
+        .filter(report => configured.indexOf(id(report)) !== -1 && built.indexOf(id(report)) === -1)
+        .concat(reports)
+        .sort((a, b) => configured.indexOf(id(a)) - configured.indexOf(id(b)));
+
+    writeFileSync(reportPath, JSON.stringify({ generatedAt: new Date().toISOString(), bundles: merged }, null, 2) + '\n');
+    log(`   📝 ${relative(rootDir, reportPath)}`);
+}
+
+// Reports in an existing bundle-report.json, none when it is missing or unreadable
+function readBundleReports(reportPath: string): BundleReport[] {
+    try {
+        const report = JSON.parse(readFileSync(reportPath, 'utf8'));
+        return Array.isArray(report.bundles) ? report.bundles : [];
+    } catch (error) {
+        return [];
+    }
+}
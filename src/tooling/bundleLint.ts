@@ -0,0 +1,278 @@
+// bundleLint.ts - Runtime compatibility linter for generated bundles
+// Finds globals, modules and dynamic imports the target runtime does not provide, by walking the bundle's syntax tree
+
+import * as ts from 'typescript';
+import { OriginalPosition, SourceMapLookup } from './sourceMaps';
+
+/**
+ * What a JavaScript runtime provides besides the ECMAScript built-ins
+ */
+export interface RuntimeProfile {
+    globals: string[];
+    // Modules require() may load
+    modules: string[];
+}
+
+export type LintRule = 'global' | 'require' | 'dynamic-require' | 'dynamic-import';
+
+export interface LintViolation {
+    rule: LintRule;
+    // Global or module name
+    name: string;
+    message: string;
+    // Position in the bundle, 1-based line and 0-based column
+    line: number;
+    column: number;
+    // Position in the TypeScript (or node_modules) source, when a source map was given
+    original?: OriginalPosition;
+}
+
+// Standard built-ins every ECMAScript runtime has
+const ECMASCRIPT_GLOBALS = [
+    'AggregateError', 'Array', 'ArrayBuffer', 'Atomics', 'BigInt', 'BigInt64Array', 'BigUint64Array', 'Boolean', 'DataView',
+    'Date', 'Error', 'EvalError', 'FinalizationRegistry', 'Float32Array', 'Float64Array', 'Function', 'Infinity', 'Int16Array',
+    'Int32Array', 'Int8Array', 'Intl', 'JSON', 'Map', 'Math', 'NaN', 'Number', 'Object', 'Promise', 'Proxy', 'RangeError',
+    'ReferenceError', 'Reflect', 'RegExp', 'Set', 'SharedArrayBuffer', 'String', 'Symbol', 'SyntaxError', 'TypeError', 'URIError',
+    'Uint16Array', 'Uint32Array', 'Uint8Array', 'Uint8ClampedArray', 'WeakMap', 'WeakRef', 'WeakSet', 'decodeURI',
+    'decodeURIComponent', 'encodeURI', 'encodeURIComponent', 'escape', 'eval', 'globalThis', 'isFinite', 'isNaN', 'parseFloat',
+    'parseInt', 'undefined', 'unescape'
+];
+
+/**
+ * Built-in runtime profiles, selected with "runtime" in the lint config
+ * streamkap matches the sandbox the simulator runs bundles in
+ */
+export const RUNTIME_PROFILES: { [runtime: string]: RuntimeProfile } = {
+    streamkap: {
+        globals: ['console', 'setTimeout', 'clearTimeout', 'require', 'module', 'exports'],
+        // No Node.js built-ins, not even crypto
+        modules: []
+    },
+    node: {
+        globals: [
+            'console', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'setImmediate', 'clearImmediate', 'queueMicrotask',
+            'require', 'module', 'exports', '__dirname', '__filename', 'process', 'global', 'Buffer', 'URL', 'URLSearchParams',
+            'TextEncoder', 'TextDecoder', 'AbortController', 'structuredClone', 'performance', 'fetch'
+        ],
+        modules: [
+            'assert', 'buffer', 'child_process', 'crypto', 'dns', 'events', 'fs', 'http', 'https', 'net', 'os', 'path', 'querystring',
+            'stream', 'string_decoder', 'timers', 'tls', 'url', 'util', 'zlib'
+        ]
+    }
+};
+
+/**
+ * Lint a bundle against the runtime it will be deployed to
+ *
+ * References guarded by a typeof check of the same name, e.g. `typeof process !== 'undefined' && process.env`,
+ * or following an if statement on one that throws or returns, are feature detection and not reported.
+ *
+ * @param code - Bundle code, without anything prepended after esbuild wrote the source map
+ * @param sourceMap - Map of the bundle, to report the original source of each violation
+ */
+export function lintBundle(code: string, profile: RuntimeProfile, sourceMap?: SourceMapLookup): LintViolation[] {
+    const sourceFile = ts.createSourceFile('bundle.js', code, ts.ScriptTarget.Latest, true, ts.ScriptKind.JS);
+    const scopes = collectDeclarations(sourceFile);
+    const violations: LintViolation[] = [];
+
+    const report = (node: ts.Node, rule: LintRule, name: string, message: string) => {
+        const position = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+        const violation: LintViolation = { rule, name, message, line: position.line + 1, column: position.character };
+        const original = sourceMap && sourceMap.originalPositionFor(violation.line, violation.column);
+        if (original) {
+            violation.original = original;
+        }
+        violations.push(violation);
+    };
+
+    const visit = (node: ts.Node): void => {
+        if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+            report(node, 'dynamic-import', 'import', 'Dynamic import() is not supported');
+        } else if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === 'require'
+            && !isDeclared(node.expression, scopes)) {
+            const [specifier] = node.arguments;
+            if (specifier && ts.isStringLiteralLike(specifier)) {
+                if (profile.modules.indexOf(specifier.text) === -1 && !isGuarded(node, 'require')) {
+                    report(node, 'require', specifier.text, `Module "${specifier.text}" is not available`);
+                }
+            } else if (!isGuarded(node, 'require')) {
+                report(node, 'dynamic-require', 'require', 'require() of a computed module name cannot be checked');
+            }
+        } else if (ts.isIdentifier(node) && isReference(node)) {
+            const name = node.text;
+            if (ECMASCRIPT_GLOBALS.indexOf(name) === -1 && profile.globals.indexOf(name) === -1
+                && !isDeclared(node, scopes) && !isGuarded(node, name)) {
+                report(node, 'global', name, `Global "${name}" is not available`);
+            }
+        }
+        const skipped = deadBranch(node);
+        ts.forEachChild(node, child => child === skipped ? undefined : visit(child));
+    };
+    visit(sourceFile);
+
+    return violations;
+}
+
+/**
+ * One line per violation, leading with the original source position when known
+ */
+export function formatLintViolation(violation: LintViolation, bundle: string): string {
+    const generated = `${bundle}:${violation.line}:${violation.column + 1}`;
+    return violation.original
+        ? `${violation.original.source}:${violation.original.line}:${violation.original.column + 1}: ${violation.message} (${generated})`
+        : `${generated}: ${violation.message}`;
+}
+
+type ScopeDeclarations = Map<ts.Node, { [name: string]: true }>;
+
+// Nodes introducing names; block-scoped declarations are attributed to the enclosing function,
+// which can only hide a global that is shadowed in a sibling block
+function isScope(node: ts.Node): boolean {
+    return ts.isSourceFile(node) || ts.isFunctionLike(node) || ts.isClassLike(node) || ts.isCatchClause(node);
+}
+
+function enclosingScope(node: ts.Node): ts.Node {
+    let current = node.parent;
+    while (!isScope(current)) {
+        current = current.parent;
+    }
+    return current;
+}
+
+function collectDeclarations(sourceFile: ts.SourceFile): ScopeDeclarations {
+    const scopes: ScopeDeclarations = new Map();
+    const declare = (scope: ts.Node, name: ts.BindingName | undefined) => {
+        if (!name) {
+            return;
+        }
+        if (ts.isIdentifier(name)) {
+            const names = scopes.get(scope) || {};
+            names[name.text] = true;
+            scopes.set(scope, names);
+            return;
+        }
+        name.elements.forEach(element => {
+            if (!ts.isOmittedExpression(element)) {
+                declare(scope, element.name);
+            }
+        });
+    };
+
+    const visit = (node: ts.Node): void => {
+        if (ts.isFunctionLike(node) && !ts.isArrowFunction(node)) {
+            declare(node, ts.factory.createIdentifier('arguments'));
+        }
+        if (ts.isVariableDeclaration(node)) {
+            declare(enclosingScope(node), node.name);
+        } else if (ts.isParameter(node)) {
+            declare(node.parent, node.name);
+        } else if (ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node)) {
+            declare(enclosingScope(node), node.name);
+        } else if (ts.isFunctionExpression(node) || ts.isClassExpression(node)) {
+            // Named function and class expressions only see their own name
+            declare(node, node.name);
+        } else if (ts.isCatchClause(node) && node.variableDeclaration) {
+            declare(node, node.variableDeclaration.name);
+            ts.forEachChild(node.variableDeclaration, visit);
+            visit(node.block);
+            return;
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return scopes;
+}
+
+function isDeclared(node: ts.Identifier, scopes: ScopeDeclarations): boolean {
+    for (let scope: ts.Node = enclosingScope(node); scope; scope = scope.parent) {
+        const names = isScope(scope) ? scopes.get(scope) : undefined;
+        if (names && names[node.text]) {
+            return true;
+        }
+    }
+    return false;
+}
+
+// Identifiers naming properties, labels or declarations are not references to a variable
+function isReference(node: ts.Identifier): boolean {
+    const parent = node.parent;
+    if (ts.isTypeOfExpression(parent)) {
+        return false;
+    }
+    if ((ts.isPropertyAccessExpression(parent) || ts.isPropertyAssignment(parent) || ts.isMethodDeclaration(parent)
+        || ts.isPropertyDeclaration(parent) || ts.isGetAccessor(parent) || ts.isSetAccessor(parent)
+        || ts.isVariableDeclaration(parent) || ts.isParameter(parent) || ts.isFunctionDeclaration(parent)
+        || ts.isFunctionExpression(parent) || ts.isClassDeclaration(parent) || ts.isClassExpression(parent)
+        || ts.isBindingElement(parent)) && (parent as ts.NamedDeclaration).name === node) {
+        return false;
+    }
+    if (ts.isBindingElement(parent) && parent.propertyName === node) {
+        return false;
+    }
+    return !(ts.isLabeledStatement(parent) || ts.isBreakOrContinueStatement(parent) || ts.isMetaProperty(parent));
+}
+
+// Inside the branch of a condition that checks `typeof name`
+function isGuarded(node: ts.Node, name: string): boolean {
+    for (let child = node, parent = node.parent; parent; child = parent, parent = parent.parent) {
+        let condition: ts.Node | undefined;
+        if (ts.isBinaryExpression(parent) && child === parent.right
+            && (parent.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken || parent.operatorToken.kind === ts.SyntaxKind.BarBarToken)) {
+            condition = parent.left;
+        } else if (ts.isConditionalExpression(parent) && child !== parent.condition) {
+            condition = parent.condition;
+        } else if (ts.isIfStatement(parent) && child !== parent.expression) {
+            condition = parent.expression;
+        }
+        if (condition && checksTypeOf(condition, name)) {
+            return true;
+        }
+        // An earlier `if (typeof crypto === 'undefined') throw ...` guards the rest of the block
+        if (ts.isBlock(parent) || ts.isSourceFile(parent)) {
+            const index = parent.statements.indexOf(child as ts.Statement);
+            if (parent.statements.slice(0, index).some(statement => isExitGuard(statement, name))) {
+                return true;
+            }
+        }
+    }
+    return false;
+}
+
+// An if statement without else, checking the type of the name and leaving with throw or return
+function isExitGuard(statement: ts.Statement, name: string): boolean {
+    if (!ts.isIfStatement(statement) || statement.elseStatement || !checksTypeOf(statement.expression, name)) {
+        return false;
+    }
+    const exit = ts.isBlock(statement.thenStatement)
+        ? statement.thenStatement.statements[statement.thenStatement.statements.length - 1]
+        : statement.thenStatement;
+    return !!exit && (ts.isThrowStatement(exit) || ts.isReturnStatement(exit));
+}
+
+// esbuild folds defined constants, e.g. `typeof STREAMKAP_ROUTING_TABLE !== 'undefined'` becomes `true`,
+// and drops the declarations only the branch that is never taken referred to
+function deadBranch(node: ts.Node): ts.Node | undefined {
+    const constant = (condition: ts.Expression) => condition.kind === ts.SyntaxKind.TrueKeyword ? true
+        : condition.kind === ts.SyntaxKind.FalseKeyword ? false : undefined;
+
+    if (ts.isConditionalExpression(node) && constant(node.condition) !== undefined) {
+        return constant(node.condition) ? node.whenFalse : node.whenTrue;
+    }
+    if (ts.isIfStatement(node) && constant(node.expression) !== undefined) {
+        return constant(node.expression) ? node.elseStatement : node.thenStatement;
+    }
+    if (ts.isBinaryExpression(node) && constant(node.left) !== undefined) {
+        const and = node.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken;
+        const or = node.operatorToken.kind === ts.SyntaxKind.BarBarToken;
+        return (and && !constant(node.left)) || (or && constant(node.left)) ? node.right : undefined;
+    }
+    return undefined;
+}
+
+function checksTypeOf(node: ts.Node, name: string): boolean {
+    if (ts.isTypeOfExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === name) {
+        return true;
+    }
+    return ts.forEachChild(node, child => checksTypeOf(child, name) || undefined) || false;
+}
@@ -0,0 +1,174 @@
+// bundleReport.ts - Bundle size and cold-start reporting for the build
+// Measures every generated bundle, lists what it is made of and checks it against the configured budgets
+
+import * as vm from 'vm';
+import { RUNTIME_PROFILES } from './bundleLint';
+import { BundleBudget, TransformType } from './transformConfig';
+
+/**
+ * esbuild metafile, as written by --metafile
+ */
+export interface EsbuildMetafile {
+    inputs: { [path: string]: { bytes: number } };
+    outputs: { [path: string]: { bytes: number; inputs: { [path: string]: { bytesInOutput: number } } } };
+}
+
+export interface ModuleContribution {
+    // npm package name, or source file path for project files
+    module: string;
+    bytes: number;
+}
+
+export interface BundleReport {
+    transform: string;
+    type: TransformType;
+    file: string;
+    bytes: number;
+    minifiedBytes: number;
+    coldStartMs: number;
+    topModules: ModuleContribution[];
+    // Budget overruns, empty when the bundle is within budget
+    violations: string[];
+}
+
+export interface BundleMeasurements {
+    transform: string;
+    type: TransformType;
+    file: string;
+    code: string;
+    minifiedBytes: number;
+    metafile: EsbuildMetafile;
+}
+
+export interface BundleReportOptions {
+    budget?: BundleBudget;
+    // Modules listed in topModules, defaults to 5
+    top?: number;
+    // Cold loads measured, the median is reported. Defaults to 3
+    runs?: number;
+}
+
+/**
+ * Measure a bundle and check it against its budget
+ */
+export function createBundleReport(bundle: BundleMeasurements, options: BundleReportOptions = {}): BundleReport {
+    const report: BundleReport = {
+        transform: bundle.transform,
+        type: bundle.type,
+        file: bundle.file,
+        bytes: Buffer.byteLength(bundle.code, 'utf8'),
+        minifiedBytes: bundle.minifiedBytes,
+        coldStartMs: measureColdStart(bundle.code, options.runs),
+        topModules: topModules(bundle.metafile, options.top),
+        violations: []
+    };
+    report.violations = checkBudget(report, options.budget);
+    return report;
+}
+
+/**
+ * Largest contributors to a bundle, with the files of each npm package added up
+ */
+export function topModules(metafile: EsbuildMetafile, top = 5): ModuleContribution[] {
+    const totals: { [module: string]: number } = {};
+
+    Object.keys(metafile.outputs).forEach(output => {
+        const inputs = metafile.outputs[output].inputs;
+        Object.keys(inputs).forEach(input => {
+            const module = moduleName(input);
+            totals[module] = (totals[module] || 0) + inputs[input].bytesInOutput;
+        });
+    });
+
+    return Object.keys(totals)
+        .map(module => ({ module, bytes: totals[module] }))
+        .sort((a, b) => b.bytes - a.bytes || (a.module < b.module ? -1 : 1))
+        .slice(0, top);
+}
+
+/**
+ * Package a bundled file belongs to: node_modules/@scope/name/x.js -> @scope/name, src/x.ts -> src/x.ts
+ */
+export function moduleName(path: string): string {
+    const normalized = path.replace(/\\/g, '/');
+    const index = normalized.lastIndexOf('node_modules/');
+    if (index === -1) {
+        return normalized;
+    }
+
+    const parts = normalized.substring(index + 'node_modules/'.length).split('/');
+    return parts[0].charAt(0) === '@' ? `${parts[0]}/${parts[1]}` : parts[0];
+}
+
+/**
+ * Median time to compile and evaluate a bundle in a fresh vm context, like the Streamkap runtime loading it
+ */
+export function measureColdStart(code: string, runs = 3): number {
+    const timings: number[] = [];
+
+    for (let run = 0; run < runs; run++) {
+        const start = process.hrtime();
+        const module = { exports: {} };
+        const sandbox = {
+            module,
+            exports: module.exports,
+            console,
+            require: (name: string) => {
+                if (RUNTIME_PROFILES.streamkap.modules.indexOf(name) === -1) {
+                    throw new Error(`Module ${name} is not available in the Streamkap runtime`);
+                }
+                return require(name);
+            }
+        };
+        new vm.Script(code).runInNewContext(sandbox);
+        const [seconds, nanoseconds] = process.hrtime(start);
+        timings.push(seconds * 1000 + nanoseconds / 1e6);
+    }
+
+    timings.sort((a, b) => a - b);
+    return Math.round(timings[Math.floor(timings.length / 2)] * 100) / 100;
+}
+
+/**
+ * Budget overruns of a bundle
+ */
+export function checkBudget(report: BundleReport, budget: BundleBudget | undefined): string[] {
+    const violations: string[] = [];
+    if (!budget) {
+        return violations;
+    }
+
+    const label = `${report.transform}/${report.file}`;
+    if (budget.maxBytes !== undefined && report.bytes > budget.maxBytes) {
+        violations.push(`${label} is ${formatBytes(report.bytes)}, over the ${formatBytes(budget.maxBytes)} budget for ${report.type}`);
+    }
+    if (budget.maxMinifiedBytes !== undefined && report.minifiedBytes > budget.maxMinifiedBytes) {
+        violations.push(`${label} is ${formatBytes(report.minifiedBytes)} minified, over the ${formatBytes(budget.maxMinifiedBytes)} budget for ${report.type}`);
+    }
+    if (budget.maxColdStartMs !== undefined && report.coldStartMs > budget.maxColdStartMs) {
+        violations.push(`${label} takes ${report.coldStartMs}ms to load, over the ${budget.maxColdStartMs}ms budget for ${report.type}`);
+    }
+
+    return violations;
+}
+
+export function formatBytes(bytes: number): string {
+    return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+/**
+ * Console lines for the build output
+ */
+export function formatBundleReport(reports: BundleReport[]): string[] {
+    const lines: string[] = [];
+
+    reports.forEach(report => {
+        const status = report.violations.length > 0 ? '❌' : '✅';
+        lines.push(`   ${status} ${report.transform}/${report.file}: ${formatBytes(report.bytes)} (${formatBytes(report.minifiedBytes)} minified), cold start ${report.coldStartMs}ms`);
+        if (report.topModules.length > 0) {
+            lines.push(`      ${report.topModules.map(entry => `${entry.module} ${formatBytes(entry.bytes)}`).join(', ')}`);
+        }
+    });
+
+    return lines;
+}
@@ -0,0 +1,92 @@
+// devWatch.ts - Incremental rebuilds for the dev watch command
+// Tracks the source files each bundle was built from, so a change only rebuilds the bundles that import it
+
+import { BundleId, BundleResult } from './buildTransforms';
+import { ResolvedTransform, TransformType } from './transformConfig';
+
+export interface WatchedBundle extends BundleId {
+    type: TransformType;
+    // Bundle file name, e.g. keyTransform.js
+    file: string;
+}
+
+interface GraphEntry extends WatchedBundle {
+    // Unknown until the bundle was built successfully
+    inputs?: string[];
+}
+
+/**
+ * Source files of every bundle, from the esbuild metafile of its last build
+ * Bundles that were never built, or failed, are affected by any change since their imports are unknown
+ */
+export class DependencyGraph {
+    private readonly entries: GraphEntry[];
+
+    constructor(transforms: ResolvedTransform[]) {
+        this.entries = [];
+        transforms.forEach(transform => transform.files.forEach(file => {
+            this.entries.push({ transform: transform.name, kind: file.kind, type: transform.type, file: file.out });
+        }));
+    }
+
+    get bundles(): WatchedBundle[] {
+        return this.entries.map(entry => ({ transform: entry.transform, kind: entry.kind, type: entry.type, file: entry.file }));
+    }
+
+    /**
+     * Record the inputs of freshly built bundles
+     */
+    update(results: BundleResult[]): void {
+        results.forEach(result => {
+            const entry = this.find(result);
+            if (entry) {
+                entry.inputs = result.success ? result.inputs : undefined;
+            }
+        });
+    }
+
+    /**
+     * Bundles importing any of the changed files, relative to the project root
+     */
+    affected(changedFiles: string[]): WatchedBundle[] {
+        const changed = changedFiles.map(normalizePath);
+        const ids = this.entries.filter(entry => !entry.inputs || entry.inputs.some(input => changed.indexOf(input) !== -1));
+        return ids.map(entry => ({ transform: entry.transform, kind: entry.kind, type: entry.type, file: entry.file }));
+    }
+
+    /**
+     * Directories holding the project's own inputs - node_modules is not watched
+     */
+    directories(): string[] {
+        const directories: string[] = [];
+        this.entries.forEach(entry => (entry.inputs || []).forEach(input => {
+            const directory = input.indexOf('/') === -1 ? '.' : input.substring(0, input.lastIndexOf('/'));
+            if (input.split('/').indexOf('node_modules') === -1 && directories.indexOf(directory) === -1) {
+                directories.push(directory);
+            }
+        }));
+        return directories.sort();
+    }
+
+    private find(id: BundleId): GraphEntry | undefined {
+        return this.entries.filter(entry => entry.transform === id.transform && entry.kind === id.kind)[0];
+    }
+}
+
+/**
+ * test-selective.js arguments running the tests of the given bundles' transform types
+ */
+export function testSelectors(bundles: WatchedBundle[]): string[] {
+    const selectors: string[] = [];
+    bundles.forEach(bundle => {
+        const selector = `--${bundle.type.replace(/_/g, '-')}`;
+        if (selectors.indexOf(selector) === -1) {
+            selectors.push(selector);
+        }
+    });
+    return selectors;
+}
+
+function normalizePath(path: string): string {
+    return path.replace(/\\/g, '/').replace(/^\.\//, '');
+}
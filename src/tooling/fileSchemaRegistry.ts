@@ -0,0 +1,61 @@
+// fileSchemaRegistry.ts - Local file-based schema registry
+// Loads schemas/<subject>/<version>.avsc (Avro) or schemas/<subject>/<version>.json (JSON Schema)
+
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { SchemaRegistry } from '../templates/schemaRegistry';
+
+export const DEFAULT_SCHEMAS_DIR = 'schemas';
+
+// Version file names: 1.avsc, v2.json, ...
+const VERSION_FILE = /^v?(\d+)\.(avsc|json)$/;
+
+/**
+ * Read every subject folder under schemasDir into a SchemaRegistry
+ *
+ * @param schemasDir - Directory holding one folder per subject
+ */
+export function loadSchemaRegistry(schemasDir: string = DEFAULT_SCHEMAS_DIR): SchemaRegistry {
+    const registry = new SchemaRegistry();
+
+    if (!existsSync(schemasDir)) {
+        return registry;
+    }
+
+    readdirSync(schemasDir)
+        .filter(subject => statSync(join(schemasDir, subject)).isDirectory())
+        .sort()
+        .forEach(subject => {
+            const seenVersions: { [version: number]: string } = {};
+
+            readdirSync(join(schemasDir, subject))
+                .sort()
+                .forEach(file => {
+                    const match = VERSION_FILE.exec(file);
+                    if (!match) {
+                        return;
+                    }
+
+                    const version = parseInt(match[1], 10);
+                    if (seenVersions[version]) {
+                        throw new Error(`Schema ${subject} version ${version} is defined by both ${seenVersions[version]} and ${file}`);
+                    }
+                    seenVersions[version] = file;
+
+                    registry.register(subject, version, readSchemaFile(join(schemasDir, subject, file)));
+                });
+        });
+
+    return registry;
+}
+
+/**
+ * Parse a single .avsc or .json schema file
+ */
+export function readSchemaFile(filePath: string): any {
+    try {
+        return JSON.parse(readFileSync(filePath, 'utf8'));
+    } catch (error) {
+        throw new Error(`Failed to parse schema ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
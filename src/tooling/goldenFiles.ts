@@ -0,0 +1,199 @@
+// goldenFiles.ts - Golden-file snapshot testing of generated bundles
+// Replays fixtures/<transform>/<case>.input.json through transforms/<transform>/ and diffs against <case>.expected.json
+
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { SimulatorEnvelope, SimulatorOutput, StreamkapSimulator } from './simulator';
+
+/**
+ * Fields injected with a fresh value on every run by CommonTransform and OrderTransformer
+ */
+export const DEFAULT_IGNORE_FIELDS = ['processing_id', 'processed_at', 'processed_time', 'enriched_at'];
+
+export const MASKED_VALUE = '<masked>';
+
+export interface GoldenOptions {
+    fixturesDir?: string;
+    transformsDir?: string;
+    // Field names (matched at any depth) or dotted paths from each output record, e.g. value.enrichment.score
+    ignoreFields?: string[];
+    // Only run these transform folders
+    transforms?: string[];
+    // Rewrite the expected files from the current output instead of comparing
+    update?: boolean;
+}
+
+export interface GoldenCase {
+    transform: string;
+    name: string;
+    inputPath: string;
+    expectedPath: string;
+}
+
+export interface GoldenResult extends GoldenCase {
+    status: 'passed' | 'failed' | 'updated' | 'missing';
+    differences: string[];
+}
+
+/**
+ * Find every <case>.input.json under fixtures/<transform>/
+ */
+export function findGoldenCases(fixturesDir: string, transforms?: string[]): GoldenCase[] {
+    if (!existsSync(fixturesDir)) {
+        return [];
+    }
+
+    const cases: GoldenCase[] = [];
+    readdirSync(fixturesDir)
+        .filter(transform => statSync(join(fixturesDir, transform)).isDirectory())
+        .filter(transform => !transforms || transforms.indexOf(transform) !== -1)
+        .sort()
+        .forEach(transform => {
+            readdirSync(join(fixturesDir, transform))
+                .filter(file => file.endsWith('.input.json'))
+                .sort()
+                .forEach(file => {
+                    const name = file.substring(0, file.length - '.input.json'.length);
+                    cases.push({
+                        transform,
+                        name,
+                        inputPath: join(fixturesDir, transform, file),
+                        expectedPath: join(fixturesDir, transform, `${name}.expected.json`)
+                    });
+                });
+        });
+
+    return cases;
+}
+
+/**
+ * Load the ignore list from fixtures/golden.json ({ "ignore": [...] }), falling back to the defaults
+ */
+export function loadIgnoreFields(fixturesDir: string): string[] {
+    const configPath = join(fixturesDir, 'golden.json');
+    if (!existsSync(configPath)) {
+        return DEFAULT_IGNORE_FIELDS;
+    }
+
+    const config = JSON.parse(readFileSync(configPath, 'utf8'));
+    if (!Array.isArray(config.ignore)) {
+        throw new Error(`${configPath} must contain an "ignore" array`);
+    }
+    return config.ignore;
+}
+
+/**
+ * Replace nondeterministic fields with a fixed marker so outputs can be compared
+ * A field is only masked when present, so a field that disappears is still reported
+ */
+export function maskFields(value: any, ignoreFields: string[], path = ''): any {
+    if (Array.isArray(value)) {
+        return value.map((item, index) => maskFields(item, ignoreFields, path ? `${path}.${index}` : String(index)));
+    }
+
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+
+    const masked: any = {};
+    Object.keys(value).forEach(key => {
+        const fieldPath = path ? `${path}.${key}` : key;
+        const ignored = ignoreFields.some(field => field === fieldPath || (field.indexOf('.') === -1 && field === key));
+        masked[key] = ignored ? MASKED_VALUE : maskFields(value[key], ignoreFields, fieldPath);
+    });
+    return masked;
+}
+
+/**
+ * List the differences between two JSON values as readable path messages
+ */
+export function diffValues(expected: any, actual: any, path = ''): string[] {
+    const label = path || '(root)';
+
+    if (Array.isArray(expected) && Array.isArray(actual)) {
+        const differences: string[] = [];
+        if (expected.length !== actual.length) {
+            differences.push(`${label}: expected ${expected.length} items, got ${actual.length}`);
+        }
+        for (let i = 0; i < Math.min(expected.length, actual.length); i++) {
+            differences.push(...diffValues(expected[i], actual[i], path ? `${path}.${i}` : String(i)));
+        }
+        return differences;
+    }
+
+    const isObject = (candidate: any) => candidate !== null && typeof candidate === 'object' && !Array.isArray(candidate);
+    if (isObject(expected) && isObject(actual)) {
+        const differences: string[] = [];
+        const keys = Array.from(new Set(Object.keys(expected).concat(Object.keys(actual)))).sort();
+        keys.forEach(key => {
+            const fieldPath = path ? `${path}.${key}` : key;
+            if (!(key in actual)) {
+                differences.push(`${fieldPath}: missing (expected ${JSON.stringify(expected[key])})`);
+            } else if (!(key in expected)) {
+                differences.push(`${fieldPath}: unexpected field (got ${JSON.stringify(actual[key])})`);
+            } else {
+                differences.push(...diffValues(expected[key], actual[key], fieldPath));
+            }
+        });
+        return differences;
+    }
+
+    if (JSON.stringify(expected) !== JSON.stringify(actual)) {
+        return [`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+    }
+
+    return [];
+}
+
+/**
+ * Replay one fixture and return the masked output
+ * An input file holds a single envelope or an array of envelopes
+ */
+export async function runGoldenCase(simulator: StreamkapSimulator, goldenCase: GoldenCase, ignoreFields: string[]): Promise<SimulatorOutput[]> {
+    const input = JSON.parse(readFileSync(goldenCase.inputPath, 'utf8'));
+    const envelopes: SimulatorEnvelope[] = Array.isArray(input) ? input : [input];
+
+    envelopes.forEach((envelope, index) => {
+        if (!envelope || typeof envelope !== 'object' || !('value' in envelope)) {
+            throw new Error(`${goldenCase.inputPath}: envelope ${index} must be an object with a "value" field`);
+        }
+        if (typeof envelope.timestamp !== 'number') {
+            throw new Error(`${goldenCase.inputPath}: envelope ${index} must set a numeric "timestamp" for reproducible output`);
+        }
+    });
+
+    const outputs = await simulator.processRecords(envelopes);
+    return outputs.map(output => maskFields(output, ignoreFields));
+}
+
+/**
+ * Run (or update) every golden case
+ */
+export async function runGoldenTests(options: GoldenOptions = {}): Promise<GoldenResult[]> {
+    const fixturesDir = options.fixturesDir || 'fixtures';
+    const transformsDir = options.transformsDir || 'transforms';
+    const ignoreFields = options.ignoreFields || loadIgnoreFields(fixturesDir);
+    const simulators: { [transform: string]: StreamkapSimulator } = {};
+    const results: GoldenResult[] = [];
+
+    for (const goldenCase of findGoldenCases(fixturesDir, options.transforms)) {
+        if (!simulators[goldenCase.transform]) {
+            simulators[goldenCase.transform] = StreamkapSimulator.fromTransformFolder(join(transformsDir, goldenCase.transform));
+        }
+
+        const actual = await runGoldenCase(simulators[goldenCase.transform], goldenCase, ignoreFields);
+
+        if (options.update) {
+            writeFileSync(goldenCase.expectedPath, JSON.stringify(actual, null, 4) + '\n');
+            results.push({ ...goldenCase, status: 'updated', differences: [] });
+        } else if (!existsSync(goldenCase.expectedPath)) {
+            results.push({ ...goldenCase, status: 'missing', differences: [`${goldenCase.expectedPath} does not exist - run with --update`] });
+        } else {
+            const expected = JSON.parse(readFileSync(goldenCase.expectedPath, 'utf8'));
+            const differences = diffValues(expected, actual);
+            results.push({ ...goldenCase, status: differences.length === 0 ? 'passed' : 'failed', differences });
+        }
+    }
+
+    return results;
+}
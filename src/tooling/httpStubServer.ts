@@ -0,0 +1,101 @@
+// httpStubServer.ts - Local HTTP stub server for testing enrichment providers
+// Serves canned JSON responses on 127.0.0.1 and records every request it receives
+
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { AddressInfo } from 'net';
+
+export interface StubRequest {
+    method: string;
+    path: string;
+    headers: { [name: string]: string | string[] | undefined };
+    body: string;
+}
+
+export interface StubResponse {
+    status?: number;
+    // Objects are sent as JSON, strings as they are
+    body?: any;
+    headers?: { [name: string]: string };
+    // Wait this long before answering, to exercise timeouts
+    delayMs?: number;
+}
+
+/**
+ * Answers a request; responses keyed by path are a shorthand for a handler that looks up the path
+ */
+export type StubHandler = (request: StubRequest) => StubResponse | Promise<StubResponse>;
+
+export interface StubServer {
+    // Base URL without a trailing slash, e.g. http://127.0.0.1:54321
+    url: string;
+    requests: StubRequest[];
+    close(): Promise<void>;
+}
+
+/**
+ * Start a stub server on a free port
+ * Unknown paths answer 404
+ */
+export function startStubServer(routes: StubHandler | { [path: string]: StubResponse | StubHandler }): Promise<StubServer> {
+    const handler: StubHandler = typeof routes === 'function'
+        ? routes
+        : request => {
+            const route = routes.hasOwnProperty(request.path) ? routes[request.path] : { status: 404, body: { error: 'not found' } };
+            return typeof route === 'function' ? route(request) : route;
+        };
+    const requests: StubRequest[] = [];
+    const timers: NodeJS.Timeout[] = [];
+
+    const server: Server = createServer((incoming: IncomingMessage, outgoing: ServerResponse) => {
+        const chunks: Buffer[] = [];
+        incoming.on('data', chunk => chunks.push(chunk));
+        incoming.on('end', async () => {
+            const request: StubRequest = {
+                method: incoming.method || 'GET',
+                path: incoming.url || '/',
+                headers: incoming.headers,
+                body: Buffer.concat(chunks).toString('utf8')
+            };
+            requests.push(request);
+
+            let response: StubResponse;
+            try {
+                response = await handler(request);
+            } catch (error) {
+                response = { status: 500, body: { error: (error as Error).message } };
+            }
+
+            const send = () => {
+                const body = typeof response.body === 'string' ? response.body : JSON.stringify(response.body === undefined ? null : response.body);
+                outgoing.writeHead(response.status || 200, { 'content-type': 'application/json', ...response.headers });
+                outgoing.end(body);
+            };
+
+            if (response.delayMs) {
+                timers.push(setTimeout(send, response.delayMs));
+            } else {
+                send();
+            }
+        });
+    });
+
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as AddressInfo;
+            resolve({
+                url: `http://127.0.0.1:${port}`,
+                requests,
+                close: () => new Promise<void>(done => {
+                    // Delayed answers still pending would keep the server open
+                    timers.forEach(timer => clearTimeout(timer));
+                    server.close(() => done());
+                    // Node.js 18.2+ - older versions leave keep-alive connections to time out
+                    if ('closeAllConnections' in server) {
+                        server.closeAllConnections();
+                    }
+                })
+            });
+        });
+    });
+}
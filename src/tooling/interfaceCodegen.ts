@@ -0,0 +1,562 @@
+// interfaceCodegen.ts - Generate TypeScript input interfaces from sample records or schemas
+// Infers optional fields, literal enums and discriminated unions from JSONL samples, or maps Avro / JSON Schema types
+
+import { readFileSync } from 'fs';
+import { isAvroSchema } from '../templates/schemaValidation';
+
+export type TypeRef =
+    | { kind: 'primitive'; name: 'string' | 'number' | 'boolean' | 'null' | 'unknown' }
+    | { kind: 'literal'; values: Array<string | number | boolean> }
+    | { kind: 'array'; items: TypeRef }
+    | { kind: 'map'; values: TypeRef }
+    | { kind: 'ref'; name: string }
+    | { kind: 'union'; members: TypeRef[] };
+
+export interface FieldDefinition {
+    name: string;
+    type: TypeRef;
+    optional: boolean;
+    comment?: string;
+}
+
+export interface InterfaceDefinition {
+    name: string;
+    fields: FieldDefinition[];
+}
+
+export interface TypeAlias {
+    name: string;
+    type: TypeRef;
+}
+
+/**
+ * Everything needed to render one generated file
+ */
+export interface GeneratedModule {
+    interfaces: InterfaceDefinition[];
+    aliases: TypeAlias[];
+}
+
+export interface SampleInferenceOptions {
+    // Name of the root interface (or of the union type when a discriminator is used)
+    name: string;
+    // Top-level field that tells record variants apart, e.g. order_type - auto-detected when omitted
+    discriminator?: string | false;
+    // Strings with at most this many distinct, repeated values become literal unions (default 5, 0 disables)
+    maxLiterals?: number;
+}
+
+export interface CodegenOptions extends Partial<SampleInferenceOptions> {
+    // JSONL file with one record (or {value, key, topic, timestamp} envelope) per line
+    samples?: string;
+    // Avro .avsc or JSON Schema file
+    schema?: string;
+}
+
+const DEFAULT_MAX_LITERALS = 5;
+
+const ENVELOPE_FIELDS = ['value', 'key', 'topic', 'timestamp'];
+
+// Identifiers repeat across samples (one customer, many orders) but are never enums
+const IDENTIFIER_FIELD = /(^|_)(id|key|uuid)$/i;
+
+/**
+ * Observed values at one position of the sample records
+ */
+interface Shape {
+    count: number;
+    nulls: number;
+    numbers: number;
+    booleans: number;
+    strings: { [value: string]: number };
+    stringCount: number;
+    objects: number;
+    fields: { [name: string]: Shape };
+    arrays: number;
+    items?: Shape;
+}
+
+function emptyShape(): Shape {
+    return { count: 0, nulls: 0, numbers: 0, booleans: 0, strings: {}, stringCount: 0, objects: 0, fields: {}, arrays: 0 };
+}
+
+function observe(shape: Shape, value: any): void {
+    shape.count++;
+
+    if (value === null) {
+        shape.nulls++;
+    } else if (typeof value === 'number') {
+        shape.numbers++;
+    } else if (typeof value === 'boolean') {
+        shape.booleans++;
+    } else if (typeof value === 'string') {
+        shape.strings[value] = (shape.strings[value] || 0) + 1;
+        shape.stringCount++;
+    } else if (Array.isArray(value)) {
+        shape.arrays++;
+        shape.items = shape.items || emptyShape();
+        value.forEach(item => observe(shape.items!, item));
+    } else if (typeof value === 'object') {
+        shape.objects++;
+        Object.keys(value).forEach(key => {
+            shape.fields[key] = shape.fields[key] || emptyShape();
+            observe(shape.fields[key], value[key]);
+        });
+    }
+}
+
+/**
+ * Convert a field or value name into an interface name: order_type1 -> OrderType1, customer -> Customer
+ */
+export function toInterfaceName(name: string): string {
+    const pascal = name
+        .split(/[^a-zA-Z0-9]+/)
+        .filter(part => part.length > 0)
+        .map(part => part.charAt(0).toUpperCase() + part.substring(1))
+        .join('');
+    return /^[A-Za-z_]/.test(pascal) ? pascal : `Type${pascal}`;
+}
+
+function singularName(name: string): string {
+    return /s$/.test(name) && name.length > 1 ? name.substring(0, name.length - 1) : `${name}_item`;
+}
+
+/**
+ * Collects interfaces while generating, reusing identical interfaces and renaming clashing ones
+ */
+class InterfaceCollector {
+    public readonly interfaces: InterfaceDefinition[] = [];
+
+    public add(definition: InterfaceDefinition): string {
+        const rendered = renderFields(definition.fields);
+        let name = definition.name;
+
+        for (let suffix = 2; ; suffix++) {
+            const existing = this.interfaces.filter(candidate => candidate.name === name)[0];
+            if (!existing) {
+                this.interfaces.push({ name, fields: definition.fields });
+                return name;
+            }
+            if (renderFields(existing.fields) === rendered) {
+                return name;
+            }
+            name = `${definition.name}${suffix}`;
+        }
+    }
+}
+
+/**
+ * Infer interfaces from sample records
+ */
+export function inferFromSamples(records: any[], options: SampleInferenceOptions): GeneratedModule {
+    const objects = records.filter(record => record !== null && typeof record === 'object' && !Array.isArray(record));
+    if (objects.length === 0) {
+        throw new Error('No object records found in the samples');
+    }
+
+    const maxLiterals = options.maxLiterals === undefined ? DEFAULT_MAX_LITERALS : options.maxLiterals;
+    const collector = new InterfaceCollector();
+    const discriminator = options.discriminator === undefined
+        ? detectDiscriminator(objects, maxLiterals)
+        : options.discriminator || undefined;
+
+    if (!discriminator) {
+        const shape = emptyShape();
+        objects.forEach(record => observe(shape, record));
+        shapeToInterface(shape, options.name, collector, maxLiterals);
+        return { interfaces: collector.interfaces, aliases: [] };
+    }
+
+    const groups: { [value: string]: any[] } = {};
+    const order: string[] = [];
+    objects.forEach(record => {
+        const value = record[discriminator];
+        if (typeof value !== 'string' && typeof value !== 'number') {
+            throw new Error(`Discriminator "${discriminator}" must be a string or number on every record (got ${JSON.stringify(value)})`);
+        }
+        const groupKey = String(value);
+        if (!groups[groupKey]) {
+            groups[groupKey] = [];
+            order.push(groupKey);
+        }
+        groups[groupKey].push(record);
+    });
+
+    // Nested interfaces come from all records so the variants share them
+    const allRecords = emptyShape();
+    objects.forEach(record => observe(allRecords, record));
+
+    const variants = order.map(groupKey => {
+        const shape = emptyShape();
+        groups[groupKey].forEach(record => observe(shape, record));
+        const discriminatorValue = groups[groupKey][0][discriminator];
+        return shapeToInterface(shape, toInterfaceName(groupKey), collector, maxLiterals, {
+            sharedShapes: allRecords.fields,
+            discriminator: { field: discriminator, type: { kind: 'literal', values: [discriminatorValue] } }
+        });
+    });
+
+    return {
+        interfaces: collector.interfaces,
+        aliases: [{ name: options.name, type: { kind: 'union', members: variants.map(name => ({ kind: 'ref' as const, name })) } }]
+    };
+}
+
+/**
+ * Pick a top-level type/kind field present on every record with a few distinct values
+ */
+function detectDiscriminator(records: any[], maxLiterals: number): string | undefined {
+    const candidates = Object.keys(records[0]).filter(field => /(^|_)(type|kind)$/i.test(field));
+
+    return candidates.filter(field => {
+        const values: { [value: string]: boolean } = {};
+        const valid = records.every(record => {
+            const value = record[field];
+            values[String(value)] = true;
+            return typeof value === 'string' || typeof value === 'number';
+        });
+        const distinct = Object.keys(values).length;
+        return valid && distinct > 1 && distinct <= Math.max(maxLiterals, 2);
+    })[0];
+}
+
+function shapeToInterface(
+    shape: Shape,
+    name: string,
+    collector: InterfaceCollector,
+    maxLiterals: number,
+    variant?: { sharedShapes: { [name: string]: Shape }; discriminator: { field: string; type: TypeRef } }
+): string {
+    const fields = Object.keys(shape.fields).map(field => {
+        const fieldShape = shape.fields[field];
+        let type: TypeRef;
+        if (variant && variant.discriminator.field === field) {
+            type = variant.discriminator.type;
+        } else {
+            type = shapeToType(fieldShape, field, collector, maxLiterals, variant && variant.sharedShapes[field]);
+        }
+        return { name: field, type, optional: fieldShape.count < shape.objects };
+    });
+    return collector.add({ name, fields });
+}
+
+// Literals and nullability come from the shape itself; objects in it become interfaces of the shared shape when given,
+// the same position across all variants
+function shapeToType(shape: Shape, nameHint: string, collector: InterfaceCollector, maxLiterals: number, shared?: Shape): TypeRef {
+    const members: TypeRef[] = [];
+
+    if (shape.stringCount > 0) {
+        const distinct = Object.keys(shape.strings);
+        const repeated = shape.stringCount > distinct.length;
+        members.push(repeated && distinct.length <= maxLiterals && !IDENTIFIER_FIELD.test(nameHint)
+            ? { kind: 'literal', values: distinct.sort() }
+            : { kind: 'primitive', name: 'string' });
+    }
+    if (shape.numbers > 0) members.push({ kind: 'primitive', name: 'number' });
+    if (shape.booleans > 0) members.push({ kind: 'primitive', name: 'boolean' });
+    if (shape.objects > 0) {
+        members.push({ kind: 'ref', name: shapeToInterface(shared || shape, toInterfaceName(nameHint), collector, maxLiterals) });
+    }
+    if (shape.arrays > 0) {
+        const items: TypeRef = shape.items && shape.items.count > 0
+            ? shapeToType(shape.items, singularName(nameHint), collector, maxLiterals, shared && shared.items)
+            : { kind: 'primitive', name: 'unknown' };
+        members.push({ kind: 'array', items });
+    }
+    if (shape.nulls > 0) members.push({ kind: 'primitive', name: 'null' });
+
+    if (members.length === 0) {
+        return { kind: 'primitive', name: 'unknown' };
+    }
+    return members.length === 1 ? members[0] : { kind: 'union', members };
+}
+
+/**
+ * Map an Avro schema to interfaces - records become interfaces, enums literal unions
+ * Fields with a default are optional, since producers may omit them
+ */
+export function fromAvroSchema(schema: any, options: { name?: string } = {}): GeneratedModule {
+    const collector = new InterfaceCollector();
+    const named: { [name: string]: TypeRef } = {};
+
+    const shortName = (name: string) => name.substring(name.lastIndexOf('.') + 1);
+
+    const toType = (node: any, nameHint: string): TypeRef => {
+        if (Array.isArray(node)) {
+            return simplifyUnion(node.map(branch => toType(branch, nameHint)));
+        }
+        if (typeof node === 'string') {
+            switch (node) {
+                case 'null': return { kind: 'primitive', name: 'null' };
+                case 'boolean': return { kind: 'primitive', name: 'boolean' };
+                case 'int':
+                case 'long':
+                case 'float':
+                case 'double': return { kind: 'primitive', name: 'number' };
+                case 'bytes':
+                case 'string': return { kind: 'primitive', name: 'string' };
+                default: {
+                    const reference = named[node] || named[shortName(node)];
+                    if (!reference) {
+                        throw new Error(`Unknown Avro type: ${node}`);
+                    }
+                    return reference;
+                }
+            }
+        }
+
+        switch (node.type) {
+            case 'record':
+            case 'error': {
+                const fields = (node.fields || []).map((field: any) => ({
+                    name: field.name,
+                    type: toType(field.type, field.name),
+                    optional: field.default !== undefined,
+                    comment: field.doc
+                }));
+                const name = collector.add({ name: toInterfaceName(shortName(node.name || nameHint)), fields });
+                const reference: TypeRef = { kind: 'ref', name };
+                if (node.name) {
+                    named[node.name] = reference;
+                    named[shortName(node.name)] = reference;
+                }
+                return reference;
+            }
+            case 'enum': {
+                const literal: TypeRef = { kind: 'literal', values: node.symbols.slice() };
+                if (node.name) {
+                    named[node.name] = literal;
+                    named[shortName(node.name)] = literal;
+                }
+                return literal;
+            }
+            case 'fixed':
+                if (node.name) {
+                    named[node.name] = { kind: 'primitive', name: 'string' };
+                }
+                return { kind: 'primitive', name: 'string' };
+            case 'array':
+                return { kind: 'array', items: toType(node.items, singularName(nameHint)) };
+            case 'map':
+                return { kind: 'map', values: toType(node.values, singularName(nameHint)) };
+            default:
+                // Primitive in object form, e.g. {"type": "long", "logicalType": "timestamp-millis"}
+                return toType(node.type, nameHint);
+        }
+    };
+
+    const root = toType(schema, options.name || 'Record');
+    return {
+        interfaces: collector.interfaces,
+        aliases: root.kind === 'ref' && (!options.name || root.name === toInterfaceName(options.name)) ? [] : [{ name: options.name || 'Record', type: root }]
+    };
+}
+
+/**
+ * Map a JSON Schema to interfaces - object schemas become interfaces, enum and const literal types
+ */
+export function fromJsonSchema(schema: any, options: { name?: string } = {}): GeneratedModule {
+    const collector = new InterfaceCollector();
+    const resolving: { [ref: string]: TypeRef } = {};
+
+    const resolveRef = (ref: string): any => {
+        if (ref.indexOf('#/') !== 0) {
+            throw new Error(`Only local $ref values are supported: ${ref}`);
+        }
+        return ref.substring(2).split('/').reduce((node: any, segment: string) => {
+            if (!node || !(segment in node)) {
+                throw new Error(`Unresolvable $ref: ${ref}`);
+            }
+            return node[segment];
+        }, schema);
+    };
+
+    const toType = (node: any, nameHint: string): TypeRef => {
+        if (node === true || node === undefined || node === null || node === false) {
+            return { kind: 'primitive', name: 'unknown' };
+        }
+        if (node.$ref) {
+            if (!resolving[node.$ref]) {
+                const refName = node.$ref.substring(node.$ref.lastIndexOf('/') + 1);
+                resolving[node.$ref] = toType(resolveRef(node.$ref), refName);
+            }
+            return resolving[node.$ref];
+        }
+        if (node.const !== undefined) {
+            return { kind: 'literal', values: [node.const] };
+        }
+        if (Array.isArray(node.enum)) {
+            const values = node.enum.filter((value: any) => value !== null);
+            const literal: TypeRef = { kind: 'literal', values };
+            return values.length < node.enum.length ? simplifyUnion([literal, { kind: 'primitive', name: 'null' }]) : literal;
+        }
+        // Variants on a schema that already declares its type only add constraints
+        const variants = node.type || node.properties ? undefined : node.oneOf || node.anyOf;
+        if (Array.isArray(variants)) {
+            return simplifyUnion(variants.map((variant: any, index: number) =>
+                toType(variant, variant.title || `${nameHint}_${index + 1}`)));
+        }
+
+        const types: string[] = Array.isArray(node.type) ? node.type : node.type ? [node.type] : [node.properties ? 'object' : 'unknown'];
+        return simplifyUnion(types.map(type => {
+            switch (type) {
+                case 'string': return { kind: 'primitive', name: 'string' } as TypeRef;
+                case 'number':
+                case 'integer': return { kind: 'primitive', name: 'number' } as TypeRef;
+                case 'boolean': return { kind: 'primitive', name: 'boolean' } as TypeRef;
+                case 'null': return { kind: 'primitive', name: 'null' } as TypeRef;
+                case 'array':
+                    return { kind: 'array', items: toType(node.items, singularName(nameHint)) } as TypeRef;
+                case 'object': {
+                    if (!node.properties && node.additionalProperties && node.additionalProperties !== true) {
+                        return { kind: 'map', values: toType(node.additionalProperties, singularName(nameHint)) } as TypeRef;
+                    }
+                    const required: string[] = node.required || [];
+                    const fields = Object.keys(node.properties || {}).map(field => ({
+                        name: field,
+                        type: toType(node.properties[field], field),
+                        optional: required.indexOf(field) === -1,
+                        comment: node.properties[field].description
+                    }));
+                    return { kind: 'ref', name: collector.add({ name: toInterfaceName(node.title || nameHint), fields }) } as TypeRef;
+                }
+                default:
+                    return { kind: 'primitive', name: 'unknown' } as TypeRef;
+            }
+        }));
+    };
+
+    const name = options.name || schema.title || 'Record';
+    // Only a plain object schema takes the root name - otherwise the name is used for the union alias
+    const singleObject = (schema.type === 'object' || (!schema.type && schema.properties)) && !schema.oneOf && !schema.anyOf;
+    const root = toType({ ...schema, title: singleObject ? name : `${name}Object` }, name);
+    return {
+        interfaces: collector.interfaces,
+        aliases: root.kind === 'ref' && root.name === toInterfaceName(name) ? [] : [{ name, type: root }]
+    };
+}
+
+/**
+ * Map an Avro or JSON Schema document, detecting which it is
+ */
+export function fromSchema(schema: any, options: { name?: string } = {}): GeneratedModule {
+    return isAvroSchema(schema) ? fromAvroSchema(schema, options) : fromJsonSchema(schema, options);
+}
+
+function simplifyUnion(members: TypeRef[]): TypeRef {
+    const unique: TypeRef[] = [];
+    members.forEach(member => {
+        const flattened = member.kind === 'union' ? member.members : [member];
+        flattened.forEach(candidate => {
+            if (!unique.some(existing => renderType(existing) === renderType(candidate))) {
+                unique.push(candidate);
+            }
+        });
+    });
+    return unique.length === 1 ? unique[0] : { kind: 'union', members: unique };
+}
+
+/**
+ * Render a type reference as TypeScript
+ */
+export function renderType(type: TypeRef): string {
+    switch (type.kind) {
+        case 'primitive':
+            return type.name;
+        case 'literal':
+            return type.values.map(value => (typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : String(value))).join(' | ');
+        case 'array': {
+            const items = renderType(type.items);
+            return /[ |]/.test(items) ? `Array<${items}>` : `${items}[]`;
+        }
+        case 'map':
+            return `{ [key: string]: ${renderType(type.values)} }`;
+        case 'ref':
+            return type.name;
+        case 'union': {
+            // Keep null last, the way nullable fields are usually written
+            const members = type.members.filter(member => !(member.kind === 'primitive' && member.name === 'null'));
+            const nullable = members.length < type.members.length;
+            return members.map(renderType).concat(nullable ? ['null'] : []).join(' | ');
+        }
+    }
+}
+
+function renderFields(fields: FieldDefinition[]): string {
+    return fields.map(field => {
+        const name = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(field.name) ? field.name : `'${field.name}'`;
+        const comment = field.comment ? ` // ${field.comment.replace(/\s+/g, ' ')}` : '';
+        return `    ${name}${field.optional ? '?' : ''}: ${renderType(field.type)};${comment}`;
+    }).join('\n');
+}
+
+/**
+ * Render a generated module as a TypeScript source file
+ *
+ * @param source - Where the types came from, recorded in the file header
+ */
+export function renderModule(generated: GeneratedModule, source: string): string {
+    const blocks: string[] = [];
+
+    generated.aliases.forEach(alias => {
+        blocks.push(`export type ${alias.name} = ${renderType(alias.type)};`);
+    });
+    generated.interfaces.forEach(definition => {
+        blocks.push(`export interface ${definition.name} {\n${renderFields(definition.fields)}\n}`);
+    });
+
+    return `// Generated by codegen.js from ${source} - edit the source and regenerate instead of editing by hand\n\n${blocks.join('\n\n')}\n`;
+}
+
+/**
+ * Read a JSONL samples file - envelopes from the simulator are unwrapped to their value
+ */
+export function readSampleRecords(input: string): any[] {
+    const records: any[] = [];
+
+    input.split(/\r?\n/).forEach((line, lineIndex) => {
+        if (line.trim().length === 0) {
+            return;
+        }
+        try {
+            records.push(JSON.parse(line));
+        } catch (error) {
+            throw new Error(`Invalid JSON on line ${lineIndex + 1}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+
+    const isEnvelope = (record: any) => record !== null && typeof record === 'object' && 'value' in record
+        && Object.keys(record).every(key => ENVELOPE_FIELDS.indexOf(key) !== -1);
+
+    return records.length > 0 && records.every(isEnvelope) ? records.map(record => record.value) : records;
+}
+
+/**
+ * Generate a TypeScript source file from a samples file or a schema file
+ */
+export function generateInterfaces(options: CodegenOptions): string {
+    if (!!options.samples === !!options.schema) {
+        throw new Error('Pass exactly one of samples or schema');
+    }
+
+    if (options.samples) {
+        if (!options.name) {
+            throw new Error('A name is required when generating from samples');
+        }
+        const records = readSampleRecords(readFileSync(options.samples, 'utf8'));
+        const generated = inferFromSamples(records, {
+            name: options.name,
+            discriminator: options.discriminator,
+            maxLiterals: options.maxLiterals
+        });
+        return renderModule(generated, options.samples);
+    }
+
+    let schema: any;
+    try {
+        schema = JSON.parse(readFileSync(options.schema!, 'utf8'));
+    } catch (error) {
+        throw new Error(`Failed to parse schema ${options.schema}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return renderModule(fromSchema(schema, { name: options.name }), options.schema!);
+}
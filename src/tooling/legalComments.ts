@@ -0,0 +1,60 @@
+// legalComments.ts - Legal comment handling for generated bundles
+// Keeps, moves or strips the license comments of bundled npm packages without shifting the code
+
+/**
+ * - inline: keep legal comments where esbuild put them
+ * - eof: move them to the end of the bundle
+ * - external: move them to <bundle>.LEGAL.txt, next to the bundle
+ * - none: strip them
+ */
+export type LegalCommentMode = 'inline' | 'eof' | 'external' | 'none';
+
+export const LEGAL_COMMENT_MODES: LegalCommentMode[] = ['inline', 'eof', 'external', 'none'];
+
+export interface LegalCommentResult {
+    code: string;
+    // Distinct legal comments found, in order of appearance
+    comments: string[];
+}
+
+// Block comments starting at a line, and runs of //! or // @license lines
+const COMMENT_AT_LINE_START = /^([ \t]*)(\/\*[\s\S]*?\*\/|\/\/(?:!|\s*@(?:license|preserve)).*(?:\n[ \t]*\/\/(?:!|\s*@(?:license|preserve)).*)*)/gm;
+
+// /*! ... */ or a block comment with @license or @preserve in it
+function isLegalComment(comment: string): boolean {
+    return comment.charAt(1) === '/' || comment.charAt(2) === '!' || /@(?:license|preserve)\b/.test(comment);
+}
+
+/**
+ * Apply a legal comment mode to bundled code
+ * Removed comments leave their line breaks behind, so lines and columns - and the source map - stay valid
+ */
+export function processLegalComments(code: string, mode: LegalCommentMode): LegalCommentResult {
+    const comments: string[] = [];
+    if (mode === 'inline') {
+        return { code, comments };
+    }
+
+    const stripped = code.replace(COMMENT_AT_LINE_START, (match, indent: string, comment: string, offset: number) => {
+        if (!isLegalComment(comment)) {
+            return match;
+        }
+        if (comments.indexOf(comment) === -1) {
+            comments.push(comment);
+        }
+
+        const lines = comment.split('\n');
+        const lastLine = lines[lines.length - 1];
+        const lineEnd = code.indexOf('\n', offset + match.length);
+        const rest = code.substring(offset + match.length, lineEnd === -1 ? code.length : lineEnd);
+        // Code after the comment on its last line keeps its column
+        const padding = rest.trim() === '' ? '' : new Array((lines.length === 1 ? indent.length : 0) + lastLine.length + 1).join(' ');
+
+        return new Array(lines.length).join('\n') + padding;
+    });
+
+    if (mode === 'eof' && comments.length > 0) {
+        return { code: `${stripped.replace(/\s*$/, '')}\n\n${comments.join('\n')}\n`, comments };
+    }
+    return { code: stripped, comments };
+}
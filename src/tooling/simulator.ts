@@ -0,0 +1,270 @@
+// simulator.ts - Local Streamkap runtime simulator
+// Loads generated bundles from transforms/ into a sandboxed vm context and replays records through them
+
+import { existsSync, readFileSync } from 'fs';
+import { basename, join } from 'path';
+import * as vm from 'vm';
+import { MetricsRegistry } from '../templates/metrics';
+import { RUNTIME_PROFILES } from './bundleLint';
+
+/**
+ * Input record as Streamkap hands it to the transform functions
+ */
+export interface SimulatorEnvelope {
+    value: any;
+    key?: any;
+    topic?: string;
+    timestamp?: number;
+}
+
+/**
+ * Result of replaying a single envelope through the bundles
+ */
+export interface SimulatorOutput {
+    index: number;
+    value: any;
+    key: any;
+    topic: string | string[];
+    timestamp: number;
+    filtered: boolean;
+    errors?: { stage: 'value' | 'key' | 'topic'; message: string }[];
+}
+
+/**
+ * Paths of the bundles to load - any of them may be omitted, like leaving a tab blank in Streamkap
+ */
+export interface SimulatorBundles {
+    value?: string;
+    key?: string;
+    topic?: string;
+}
+
+export interface SimulatorOptions {
+    // Node.js built-ins the bundle may require, defaults to the streamkap lint profile's (none)
+    allowedModules?: string[];
+    // Timeout for evaluating a bundle when it is loaded, in milliseconds
+    timeoutMs?: number;
+    // Records, filtered records, errors, output rows and the duration of each stage, see metrics.ts
+    metrics?: MetricsRegistry;
+}
+
+type StreamkapFunction = (valueObject: any, keyObject: any, topic: string, timestamp: number) => any;
+
+const BUNDLE_FILES: { [stage in keyof SimulatorBundles]-?: string } = {
+    value: 'valueTransform.js',
+    key: 'keyTransform.js',
+    topic: 'topicTransform.js'
+};
+
+const ENTRY_POINTS: { [stage in keyof SimulatorBundles]-?: string } = {
+    value: '_streamkap_transform',
+    key: '_streamkap_transform_key',
+    topic: '_streamkap_transform_topic'
+};
+
+/**
+ * Streamkap Simulator
+ *
+ * Runs the deployment artifacts exactly as shipped, so a bundle can be debugged
+ * without re-testing the TypeScript sources it was built from.
+ */
+export class StreamkapSimulator {
+    private functions: { [stage in keyof SimulatorBundles]?: StreamkapFunction } = {};
+
+    constructor(bundles: SimulatorBundles, private options: SimulatorOptions = {}) {
+        (Object.keys(ENTRY_POINTS) as (keyof SimulatorBundles)[]).forEach(stage => {
+            const bundlePath = bundles[stage];
+            if (bundlePath) {
+                this.functions[stage] = this.loadBundle(bundlePath, ENTRY_POINTS[stage]);
+            }
+        });
+
+        if (!this.functions.value && !this.functions.key && !this.functions.topic) {
+            throw new Error('At least one bundle (value, key or topic) is required');
+        }
+    }
+
+    /**
+     * Create a simulator for a generated transform folder, e.g. transforms/map-filter
+     */
+    public static fromTransformFolder(folder: string, options?: SimulatorOptions): StreamkapSimulator {
+        if (!existsSync(folder)) {
+            throw new Error(`Transform folder not found: ${folder}`);
+        }
+
+        const bundles: SimulatorBundles = {};
+        (Object.keys(BUNDLE_FILES) as (keyof SimulatorBundles)[]).forEach(stage => {
+            const bundlePath = join(folder, BUNDLE_FILES[stage]);
+            if (existsSync(bundlePath)) {
+                bundles[stage] = bundlePath;
+            }
+        });
+
+        return new StreamkapSimulator(bundles, options);
+    }
+
+    /**
+     * Replay one envelope through the value, key and topic functions
+     * Every function receives the original record, as in Streamkap
+     */
+    public async processRecord(envelope: SimulatorEnvelope, index = 0): Promise<SimulatorOutput> {
+        const key = envelope.key === undefined ? null : envelope.key;
+        const topic = envelope.topic || 'simulator-topic';
+        const timestamp = typeof envelope.timestamp === 'number' ? envelope.timestamp : Date.now();
+        const errors: { stage: 'value' | 'key' | 'topic'; message: string }[] = [];
+        const durations: { [stage in keyof SimulatorBundles]?: number } = {};
+
+        const invoke = async (stage: keyof SimulatorBundles, fallback: any): Promise<any> => {
+            const fn = this.functions[stage];
+            if (!fn) {
+                return fallback;
+            }
+            const started = Date.now();
+            try {
+                return await fn(envelope.value, key, topic, timestamp);
+            } catch (error) {
+                errors.push({ stage, message: messageOf(error) });
+                return fallback;
+            } finally {
+                durations[stage] = Date.now() - started;
+            }
+        };
+
+        const outputValue = await invoke('value', null);
+        const outputKey = await invoke('key', key);
+        const outputTopic = await invoke('topic', topic);
+
+        const output: SimulatorOutput = {
+            index,
+            value: outputValue === undefined ? null : outputValue,
+            key: outputKey,
+            topic: outputTopic,
+            timestamp,
+            filtered: (outputValue === null || outputValue === undefined) && !errors.some(error => error.stage === 'value')
+        };
+
+        if (errors.length > 0) {
+            output.errors = errors;
+        }
+
+        if (this.options.metrics) {
+            this.recordMetrics(this.options.metrics, output, durations);
+        }
+
+        return output;
+    }
+
+    /**
+     * Replay a list of envelopes in order
+     */
+    public async processRecords(envelopes: SimulatorEnvelope[]): Promise<SimulatorOutput[]> {
+        const outputs: SimulatorOutput[] = [];
+        for (let i = 0; i < envelopes.length; i++) {
+            outputs.push(await this.processRecord(envelopes[i], i));
+        }
+        return outputs;
+    }
+
+    /**
+     * Replay JSONL text and return the output as JSONL text
+     */
+    public async processJsonl(input: string): Promise<string> {
+        const outputs = await this.processRecords(parseJsonl(input));
+        return outputs.map(output => JSON.stringify(output)).join('\n') + (outputs.length > 0 ? '\n' : '');
+    }
+
+    private recordMetrics(metrics: MetricsRegistry, output: SimulatorOutput, durations: { [stage in keyof SimulatorBundles]?: number }): void {
+        const records = metrics.counter('simulator_records_total', 'Records passed to each function');
+        const failed = metrics.counter('simulator_errors_total', 'Records a function threw an error for');
+        const duration = metrics.histogram('simulator_duration_ms', 'Time spent in each function, in milliseconds');
+
+        (Object.keys(durations) as (keyof SimulatorBundles)[]).forEach(stage => {
+            records.inc({ stage });
+            duration.observe(durations[stage]!, { stage });
+            if (output.errors && output.errors.some(error => error.stage === stage)) {
+                failed.inc({ stage });
+            }
+        });
+
+        if (this.functions.value) {
+            if (output.filtered) {
+                metrics.counter('simulator_filtered_total', 'Records the value function filtered out').inc();
+            }
+            const rows = output.value === null ? 0 : Array.isArray(output.value) ? output.value.length : 1;
+            metrics.counter('simulator_output_records_total', 'Rows returned by the value function - more than the records passed when records fan out').inc({}, rows);
+        }
+    }
+
+    /**
+     * Load a bundle into a fresh vm context and return its entry point
+     */
+    private loadBundle(bundlePath: string, functionName: string): StreamkapFunction {
+        if (!existsSync(bundlePath)) {
+            throw new Error(`Bundle not found: ${bundlePath}`);
+        }
+
+        const allowedModules = this.options.allowedModules || RUNTIME_PROFILES.streamkap.modules;
+        const sandboxRequire = (moduleName: string) => {
+            if (allowedModules.indexOf(moduleName) === -1) {
+                throw new Error(`Module '${moduleName}' is not available in the Streamkap runtime`);
+            }
+            return require(moduleName);
+        };
+
+        const moduleObject: { exports: { [name: string]: unknown } } = { exports: {} };
+        const context: { [name: string]: unknown } = {
+            console,
+            setTimeout,
+            clearTimeout,
+            require: sandboxRequire,
+            module: moduleObject,
+            exports: moduleObject.exports
+        };
+
+        const code = readFileSync(bundlePath, 'utf8');
+        const script = new vm.Script(code, { filename: bundlePath });
+        script.runInNewContext(context, { timeout: this.options.timeoutMs || 5000 });
+
+        const fn = context[functionName] || moduleObject.exports[functionName];
+        if (typeof fn !== 'function') {
+            throw new Error(`${basename(bundlePath)} does not define ${functionName}`);
+        }
+
+        return fn as StreamkapFunction;
+    }
+}
+
+// Errors thrown inside the vm context come from another realm, so instanceof Error does not hold for them
+function messageOf(error: unknown): string {
+    return error && typeof error === 'object' && 'message' in error && typeof error.message === 'string' && error.message.length > 0
+        ? error.message
+        : String(error);
+}
+
+/**
+ * Parse JSONL text into envelopes, skipping blank lines
+ */
+export function parseJsonl(input: string): SimulatorEnvelope[] {
+    const envelopes: SimulatorEnvelope[] = [];
+
+    input.split(/\r?\n/).forEach((line, lineIndex) => {
+        if (line.trim().length === 0) {
+            return;
+        }
+
+        let parsed: any;
+        try {
+            parsed = JSON.parse(line);
+        } catch (error) {
+            throw new Error(`Invalid JSON on line ${lineIndex + 1}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        if (!parsed || typeof parsed !== 'object' || !('value' in parsed)) {
+            throw new Error(`Line ${lineIndex + 1} must be an object with a "value" field`);
+        }
+
+        envelopes.push(parsed);
+    });
+
+    return envelopes;
+}
@@ -0,0 +1,236 @@
+// sourceMaps.ts - Source map support for generated bundles
+// Adjusts the maps esbuild writes and maps stack traces from deployed bundles back to the TypeScript sources
+
+import { dirname, relative, resolve } from 'path';
+
+/**
+ * Source map v3, as written by esbuild --sourcemap=external
+ */
+export interface SourceMapV3 {
+    version: number;
+    file?: string;
+    sourceRoot?: string;
+    sources: string[];
+    sourcesContent?: (string | null)[];
+    names: string[];
+    mappings: string;
+}
+
+export interface OriginalPosition {
+    source: string;
+    // 1-based, like stack traces
+    line: number;
+    // 0-based, like source maps
+    column: number;
+    name?: string;
+}
+
+/**
+ * [generated column, source index, original line, original column, name index?] - all 0-based
+ */
+type MappingSegment = number[];
+
+const BASE64_DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Decode the mappings string into segments per generated line
+ */
+export function decodeMappings(mappings: string): MappingSegment[][] {
+    const lines: MappingSegment[][] = [];
+    // Source, line, column and name fields are relative to the previous segment across lines
+    let source = 0;
+    let line = 0;
+    let column = 0;
+    let name = 0;
+
+    mappings.split(';').forEach(encodedLine => {
+        const segments: MappingSegment[] = [];
+        let generatedColumn = 0;
+
+        encodedLine.split(',').forEach(encoded => {
+            if (encoded === '') {
+                return;
+            }
+            const fields = decodeVlq(encoded);
+            generatedColumn += fields[0];
+            if (fields.length < 4) {
+                segments.push([generatedColumn]);
+                return;
+            }
+            source += fields[1];
+            line += fields[2];
+            column += fields[3];
+            if (fields.length >= 5) {
+                name += fields[4];
+                segments.push([generatedColumn, source, line, column, name]);
+            } else {
+                segments.push([generatedColumn, source, line, column]);
+            }
+        });
+
+        lines.push(segments);
+    });
+
+    return lines;
+}
+
+function decodeVlq(encoded: string): number[] {
+    const values: number[] = [];
+    let value = 0;
+    let shift = 0;
+
+    for (let i = 0; i < encoded.length; i++) {
+        const digit = BASE64_DIGITS.indexOf(encoded.charAt(i));
+        if (digit === -1) {
+            throw new Error(`Invalid source map mappings: unexpected "${encoded.charAt(i)}"`);
+        }
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+            shift += 5;
+        } else {
+            values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+            value = 0;
+            shift = 0;
+        }
+    }
+
+    return values;
+}
+
+/**
+ * Shift a map down by a number of lines, for a header written above the bundled code
+ */
+export function prependLines(map: SourceMapV3, lines: number): SourceMapV3 {
+    return { ...map, mappings: new Array(lines + 1).join(';') + map.mappings };
+}
+
+/**
+ * Rewrite source paths for a map moved from one directory to another, so they stay relative to the map file
+ */
+export function relocateSources(map: SourceMapV3, fromDir: string, toDir: string): SourceMapV3 {
+    const sourceRoot = map.sourceRoot || '';
+    return {
+        ...map,
+        sourceRoot: undefined,
+        sources: map.sources.map(source => relative(toDir, resolve(fromDir, sourceRoot, source)).replace(/\\/g, '/'))
+    };
+}
+
+/**
+ * Source Map Lookup Class
+ *
+ * Finds the original position of a position in the generated bundle.
+ */
+export class SourceMapLookup {
+    private lines: MappingSegment[][];
+
+    /**
+     * @param map - Parsed source map
+     * @param mapDir - Directory of the map file; sources are reported relative to the current directory
+     */
+    constructor(private map: SourceMapV3, private mapDir = '.') {
+        this.lines = decodeMappings(map.mappings);
+    }
+
+    public static fromFile(mapPath: string, readFile: (path: string) => string): SourceMapLookup {
+        return new SourceMapLookup(JSON.parse(readFile(mapPath)), dirname(mapPath));
+    }
+
+    /**
+     * @param line - 1-based generated line
+     * @param column - 0-based generated column
+     */
+    public originalPositionFor(line: number, column: number): OriginalPosition | undefined {
+        const segments = this.lines[line - 1];
+        if (!segments) {
+            return undefined;
+        }
+
+        // Last segment starting at or before the column
+        let low = 0;
+        let high = segments.length - 1;
+        let found: MappingSegment | undefined;
+        while (low <= high) {
+            const middle = (low + high) >> 1;
+            if (segments[middle][0] <= column) {
+                found = segments[middle];
+                low = middle + 1;
+            } else {
+                high = middle - 1;
+            }
+        }
+
+        if (!found || found.length < 4) {
+            return undefined;
+        }
+
+        const sourceRoot = this.map.sourceRoot || '';
+        const position: OriginalPosition = {
+            source: relative('.', resolve(this.mapDir, sourceRoot, this.map.sources[found[1]])).replace(/\\/g, '/'),
+            line: found[2] + 1,
+            column: found[3]
+        };
+        if (found.length >= 5) {
+            position.name = this.map.names[found[4]];
+        }
+        return position;
+    }
+}
+
+/**
+ * Replace bundle positions in a stack trace with the original source positions
+ *
+ * @param stack - Stack trace text, e.g. error_stack from a createErrorContext log entry
+ * @param lookup - Map of the bundle the stack trace comes from
+ * @param isBundleFile - Which files in the trace are the bundle; by default any file, since deployed bundles run under runtime-specific names
+ */
+export function symbolicateStack(stack: string, lookup: SourceMapLookup, isBundleFile: (file: string) => boolean = () => true): string {
+    return stack.split('\n').map(line => {
+        if (!/^\s*at\s/.test(line)) {
+            return line;
+        }
+        return line.replace(/([^\s()]+):(\d+):(\d+)/g, (frame, file: string, lineText: string, columnText: string) => {
+            if (/^node:/.test(file) || !isBundleFile(file)) {
+                return frame;
+            }
+            // Stack trace columns are 1-based, source map columns 0-based
+            const position = lookup.originalPositionFor(Number(lineText), Number(columnText) - 1);
+            return position ? `${position.source}:${position.line}:${position.column + 1}` : frame;
+        });
+    }).join('\n');
+}
+
+/**
+ * Symbolicate a stack trace or log output - JSON log lines have the error_stack fields they contain symbolicated
+ */
+export function symbolicateText(text: string, lookup: SourceMapLookup, isBundleFile?: (file: string) => boolean): string {
+    return text.split('\n').map(line => {
+        const trimmed = line.trim();
+        if (trimmed.charAt(0) !== '{') {
+            return symbolicateStack(line, lookup, isBundleFile);
+        }
+
+        let entry: any;
+        try {
+            entry = JSON.parse(trimmed);
+        } catch (error) {
+            return line;
+        }
+        return JSON.stringify(mapErrorStacks(entry, stack => symbolicateStack(stack, lookup, isBundleFile)));
+    }).join('\n');
+}
+
+function mapErrorStacks(value: any, map: (stack: string) => string): any {
+    if (Array.isArray(value)) {
+        return value.map(item => mapErrorStacks(item, map));
+    }
+    if (!value || typeof value !== 'object') {
+        return value;
+    }
+
+    const mapped: any = {};
+    Object.keys(value).forEach(key => {
+        mapped[key] = key === 'error_stack' && typeof value[key] === 'string' ? map(value[key]) : mapErrorStacks(value[key], map);
+    });
+    return mapped;
+}
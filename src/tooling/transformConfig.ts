@@ -0,0 +1,608 @@
+// transformConfig.ts - Declarative transform pipeline configuration
+// Validates streamkap.config.(ts|json) and resolves it into the list of bundles to build
+
+import { BuildOptions as EsbuildBuildOptions, Loader } from 'esbuild';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { DEFAULT_DEAD_LETTER_POLICY, DeadLetterPolicy } from '../templates/deadLetter';
+import { DedupPolicy, validateDedupPolicy } from '../templates/dedup';
+import { MaskingPolicy, MaskingRule, validateMaskingRules } from '../templates/masking';
+import { RoutingTable, validateRoutingTable } from '../templates/routingRules';
+import { RUNTIME_PROFILES } from './bundleLint';
+import { LEGAL_COMMENT_MODES, LegalCommentMode } from './legalComments';
+
+export type TransformType = 'map_filter' | 'fan_out' | 'enrich_async' | 'un_nesting';
+
+export type EntryKind = 'value' | 'key' | 'topic' | 'valueSchema' | 'keySchema';
+
+/**
+ * esbuild settings that may be overridden globally or per transform
+ */
+export interface EsbuildOptions {
+    target?: string;
+    platform?: 'node' | 'browser' | 'neutral';
+    format?: 'cjs' | 'iife' | 'esm';
+    external?: string[];
+    define?: { [name: string]: string };
+    // File extension to esbuild loader, e.g. { ".avsc": "json" } to import Avro schemas
+    loader?: { [extension: string]: string };
+    minify?: boolean;
+    // Write <bundle>.js.map next to each bundle for the symbolicate command - never deployed
+    sourcemap?: boolean;
+    // What happens to the license comments of bundled packages, applied after bundling
+    legalComments?: LegalCommentMode;
+}
+
+/**
+ * Size and load-time limits for the bundles of a transform, checked after every build
+ */
+export interface BundleBudget {
+    maxBytes?: number;
+    maxMinifiedBytes?: number;
+    maxColdStartMs?: number;
+}
+
+/**
+ * Runtime the bundles are checked against after bundling - the build fails on anything it does not provide
+ */
+export interface LintConfig {
+    // Built-in runtime profile, streamkap or node - defaults to streamkap
+    runtime?: string;
+    // Globals and require()-able modules the runtime provides besides the profile
+    globals?: string[];
+    modules?: string[];
+    // Original source files whose violations are not reported, e.g. dependency code that is bundled but never called
+    ignore?: string[];
+}
+
+/**
+ * PII masking applied by the value transforms, see masking.ts
+ */
+export interface MaskingConfig {
+    rules: MaskingRule[];
+    // Environment variable holding the HMAC key of tokenize rules, read at build time and compiled into the bundles
+    tokenKeyEnv?: string;
+}
+
+/**
+ * One named transform as declared in the config file
+ */
+export interface TransformDefinition {
+    name: string;
+    type: TransformType;
+    // Folder under outputDir, defaults to the transform name
+    output?: string;
+    entries: { [kind in EntryKind]?: string };
+    esbuild?: EsbuildOptions;
+    // What happens to records that fail in this transform, overrides the global setting
+    deadLetter?: DeadLetterPolicy;
+    // JSON routing table compiled into the topic transform, e.g. routing/orders.json
+    routing?: string;
+    // Added to the global lint settings; runtime overrides the global one
+    lint?: LintConfig;
+    // Rules checked before the global ones; tokenKeyEnv overrides the global one
+    masking?: MaskingConfig;
+    // Drop records whose idempotency key was seen within a window, before the value transform's business logic
+    dedup?: DedupPolicy;
+}
+
+/**
+ * Interface files to generate runtime type guards from before bundling
+ */
+export interface TypeGuardConfig {
+    sources: string[];
+    // Generated module the transforms import, e.g. src/TypeGuards.ts
+    output: string;
+}
+
+export interface StreamkapConfig {
+    // Directory the transform folders are written to, defaults to transforms
+    outputDir?: string;
+    // Defaults applied to every transform before its own esbuild settings
+    esbuild?: EsbuildOptions;
+    // Dead-letter policy for every transform, defaults to dead-lettering into streamkap-dead-letter
+    deadLetter?: DeadLetterPolicy;
+    // Budget for every bundle of each transform type - the build fails when one is exceeded
+    budgets?: { [type in TransformType]?: BundleBudget };
+    // Runtime compatibility checks for every bundle
+    lint?: LintConfig;
+    // PII masking for every transform
+    masking?: MaskingConfig;
+    typeGuards?: TypeGuardConfig;
+    transforms: TransformDefinition[];
+}
+
+export interface ResolvedTransformFile {
+    kind: EntryKind;
+    src: string;
+    out: string;
+}
+
+export interface ResolvedTransform {
+    name: string;
+    type: TransformType;
+    folder: string;
+    outputDir: string;
+    files: ResolvedTransformFile[];
+    esbuild: EsbuildOptions;
+    deadLetter: DeadLetterPolicy;
+    routing?: RoutingTable;
+    budget?: BundleBudget;
+    // Profile merged with the configured additions
+    lint: ResolvedLintConfig;
+    // Transform and global rules with the token key, undefined without rules
+    masking?: MaskingPolicy;
+    dedup?: DedupPolicy;
+}
+
+export interface ResolvedLintConfig {
+    runtime: string;
+    globals: string[];
+    modules: string[];
+    ignore: string[];
+}
+
+export const TRANSFORM_TYPES: TransformType[] = ['map_filter', 'fan_out', 'enrich_async', 'un_nesting'];
+
+export const ENTRY_OUTPUT_FILES: { [kind in EntryKind]-?: string } = {
+    value: 'valueTransform.js',
+    key: 'keyTransform.js',
+    topic: 'topicTransform.js',
+    valueSchema: 'valueSchemaTransform.js',
+    keySchema: 'keySchemaTransform.js'
+};
+
+const ESBUILD_OPTION_NAMES = ['target', 'platform', 'format', 'external', 'define', 'loader', 'minify', 'sourcemap', 'legalComments'];
+
+const DEAD_LETTER_MODES = ['drop', 'pass-through', 'dead-letter'];
+
+const BUDGET_LIMIT_NAMES = ['maxBytes', 'maxMinifiedBytes', 'maxColdStartMs'];
+
+const LINT_OPTION_NAMES = ['runtime', 'globals', 'modules', 'ignore'];
+
+const MASKING_OPTION_NAMES = ['rules', 'tokenKeyEnv'];
+
+const DEFAULT_RUNTIME = 'streamkap';
+
+const DEFAULT_ESBUILD_OPTIONS: EsbuildOptions = {
+    target: 'es2018',
+    platform: 'node',
+    format: 'cjs',
+    sourcemap: true
+};
+
+/**
+ * Built-in configuration used when no streamkap.config file exists
+ * Matches the four transform types this kit ships with
+ */
+export const DEFAULT_CONFIG: StreamkapConfig = {
+    outputDir: 'transforms',
+    transforms: [
+        { name: 'map-filter', type: 'map_filter', entries: { value: 'src/value_transform.ts', key: 'src/key_transform.ts' } },
+        {
+            name: 'fan-out',
+            type: 'fan_out',
+            entries: { value: 'src/value_transform.ts', topic: 'src/topic_transform.ts' },
+            routing: 'routing/orders.json'
+        },
+        { name: 'enrich-async', type: 'enrich_async', entries: { value: 'src/value_transform.ts' } },
+        { name: 'un-nesting', type: 'un_nesting', entries: { value: 'src/value_transform.ts' } }
+    ],
+    budgets: {
+        map_filter: { maxBytes: 512000, maxMinifiedBytes: 256000 },
+        fan_out: { maxBytes: 512000, maxMinifiedBytes: 256000 },
+        enrich_async: { maxBytes: 512000, maxMinifiedBytes: 256000 },
+        un_nesting: { maxBytes: 512000, maxMinifiedBytes: 256000 }
+    },
+    lint: {
+        runtime: 'streamkap'
+    },
+    typeGuards: {
+        sources: ['src/Customer.ts', 'src/OrderType1.ts', 'src/OrderType2.ts', 'src/MergedOrder.ts'],
+        output: 'src/TypeGuards.ts'
+    }
+};
+
+/**
+ * Thrown when the config file is invalid - lists every problem found, not just the first one
+ */
+export class ConfigValidationError extends Error {
+    constructor(public readonly issues: string[]) {
+        super(`Invalid Streamkap config:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+        this.name = 'ConfigValidationError';
+        // Restore the prototype chain, which is lost when extending Error with an ES5 target
+        Object.setPrototypeOf(this, ConfigValidationError.prototype);
+    }
+}
+
+/**
+ * Validate a config object and resolve it into buildable transforms
+ *
+ * @param config - Parsed contents of streamkap.config.(ts|json)
+ * @param rootDir - Directory entry paths are resolved against
+ * @param env - Environment the masking token key is read from
+ */
+export function resolveConfig(config: any, rootDir: string, env: { [name: string]: string | undefined } = process.env): ResolvedTransform[] {
+    const issues: string[] = [];
+
+    if (!config || typeof config !== 'object' || !Array.isArray(config.transforms)) {
+        throw new ConfigValidationError(['Config must be an object with a "transforms" array']);
+    }
+
+    if (config.transforms.length === 0) {
+        issues.push('"transforms" must declare at least one transform');
+    }
+
+    validateEsbuildOptions(config.esbuild, 'esbuild', issues);
+    validateDeadLetterPolicy(config.deadLetter, 'deadLetter', issues);
+    validateBudgets(config.budgets, issues);
+    validateLintConfig(config.lint, 'lint', issues);
+    validateMaskingConfig(config.masking, 'masking', issues);
+
+    const outputDir = config.outputDir || DEFAULT_CONFIG.outputDir!;
+    const seenNames = new Set<string>();
+    const seenFolders = new Set<string>();
+    const resolved: ResolvedTransform[] = [];
+
+    config.transforms.forEach((transform: any, index: number) => {
+        const label = transform && typeof transform.name === 'string' ? `transforms["${transform.name}"]` : `transforms[${index}]`;
+
+        if (!transform || typeof transform !== 'object') {
+            issues.push(`${label} must be an object`);
+            return;
+        }
+
+        if (typeof transform.name !== 'string' || !/^[a-zA-Z0-9._-]+$/.test(transform.name)) {
+            issues.push(`${label}.name must be a non-empty string of letters, digits, ".", "_" or "-"`);
+        } else if (seenNames.has(transform.name)) {
+            issues.push(`${label}.name is declared more than once`);
+        } else {
+            seenNames.add(transform.name);
+        }
+
+        if (TRANSFORM_TYPES.indexOf(transform.type) === -1) {
+            issues.push(`${label}.type "${transform.type}" is not one of: ${TRANSFORM_TYPES.join(', ')}`);
+        }
+
+        const folder = transform.output || transform.name;
+        if (typeof folder === 'string') {
+            if (seenFolders.has(folder)) {
+                issues.push(`${label}.output "${folder}" is used by another transform`);
+            }
+            seenFolders.add(folder);
+        }
+
+        const entries = transform.entries;
+        const files: ResolvedTransformFile[] = [];
+        if (!entries || typeof entries !== 'object') {
+            issues.push(`${label}.entries must be an object`);
+        } else {
+            if (!entries.value) {
+                issues.push(`${label}.entries.value is required`);
+            }
+
+            Object.keys(entries).forEach(kind => {
+                if (!ENTRY_OUTPUT_FILES.hasOwnProperty(kind)) {
+                    issues.push(`${label}.entries.${kind} is not one of: ${Object.keys(ENTRY_OUTPUT_FILES).join(', ')}`);
+                    return;
+                }
+
+                const src = entries[kind];
+                if (typeof src !== 'string' || src.length === 0) {
+                    issues.push(`${label}.entries.${kind} must be a file path`);
+                } else if (!existsSync(join(rootDir, src))) {
+                    issues.push(`${label}.entries.${kind} file not found: ${src}`);
+                } else {
+                    files.push({ kind: kind as EntryKind, src, out: ENTRY_OUTPUT_FILES[kind as EntryKind] });
+                }
+            });
+        }
+
+        validateEsbuildOptions(transform.esbuild, `${label}.esbuild`, issues);
+        validateDeadLetterPolicy(transform.deadLetter, `${label}.deadLetter`, issues);
+        validateLintConfig(transform.lint, `${label}.lint`, issues);
+        validateMaskingConfig(transform.masking, `${label}.masking`, issues);
+        if (transform.dedup !== undefined && (!transform.dedup || typeof transform.dedup !== 'object')) {
+            issues.push(`${label}.dedup must be an object`);
+        } else if (transform.dedup !== undefined) {
+            validateDedupPolicy(transform.dedup).forEach(issue => issues.push(`${label}.dedup.${issue}`));
+        }
+        const routing = loadRoutingTable(transform, rootDir, `${label}.routing`, issues);
+
+        resolved.push({
+            name: transform.name,
+            type: transform.type,
+            folder,
+            outputDir,
+            files,
+            esbuild: { ...DEFAULT_ESBUILD_OPTIONS, ...config.esbuild, ...transform.esbuild },
+            deadLetter: { ...DEFAULT_DEAD_LETTER_POLICY, ...config.deadLetter, ...transform.deadLetter },
+            routing,
+            budget: config.budgets && typeof config.budgets === 'object' ? config.budgets[transform.type] : undefined,
+            lint: resolveLintConfig(config.lint || {}, transform.lint || {}),
+            masking: resolveMasking(config.masking, transform.masking, env, label, issues),
+            dedup: transform.dedup
+        });
+    });
+
+    if (issues.length > 0) {
+        throw new ConfigValidationError(issues);
+    }
+
+    return resolved;
+}
+
+/**
+ * Validate the typeGuards section, returning undefined when type guards are not configured
+ */
+export function resolveTypeGuards(config: any, rootDir: string): TypeGuardConfig | undefined {
+    const typeGuards = config && config.typeGuards;
+    if (typeGuards === undefined) {
+        return undefined;
+    }
+
+    const issues: string[] = [];
+    if (!typeGuards || typeof typeGuards !== 'object') {
+        throw new ConfigValidationError(['typeGuards must be an object']);
+    }
+
+    if (!Array.isArray(typeGuards.sources) || typeGuards.sources.length === 0) {
+        issues.push('typeGuards.sources must be a non-empty array of interface files');
+    } else {
+        typeGuards.sources.forEach((source: any, index: number) => {
+            if (typeof source !== 'string' || !existsSync(join(rootDir, source))) {
+                issues.push(`typeGuards.sources[${index}] file not found: ${source}`);
+            }
+        });
+    }
+
+    if (typeof typeGuards.output !== 'string' || !/\.ts$/.test(typeGuards.output)) {
+        issues.push('typeGuards.output must be a .ts file path');
+    } else if (Array.isArray(typeGuards.sources) && typeGuards.sources.indexOf(typeGuards.output) !== -1) {
+        issues.push('typeGuards.output must not be one of the sources');
+    }
+
+    if (issues.length > 0) {
+        throw new ConfigValidationError(issues);
+    }
+
+    return { sources: typeGuards.sources, output: typeGuards.output };
+}
+
+/**
+ * Pick the transforms requested on the command line
+ * A selector matches either a transform name (fan-out) or a transform type (fan_out)
+ */
+export function selectTransforms(transforms: ResolvedTransform[], selectors: string[]): ResolvedTransform[] {
+    return transforms.filter(transform =>
+        selectors.some(selector => selector === transform.name || selector.replace(/-/g, '_') === transform.type)
+    );
+}
+
+/**
+ * Convert esbuild settings into options for the esbuild build API
+ */
+export function toEsbuildBuildOptions(options: EsbuildOptions): EsbuildBuildOptions {
+    const buildOptions: EsbuildBuildOptions = {};
+
+    if (options.format) buildOptions.format = options.format;
+    if (options.platform) buildOptions.platform = options.platform;
+    if (options.target) buildOptions.target = options.target;
+    if (options.external) buildOptions.external = options.external;
+    if (options.define) buildOptions.define = options.define;
+    if (options.loader) buildOptions.loader = options.loader as { [extension: string]: Loader };
+    if (options.minify) buildOptions.minify = true;
+    // External: the deployed bundle must not point at a map that is not deployed with it
+    if (options.sourcemap) buildOptions.sourcemap = 'external';
+
+    return buildOptions;
+}
+
+/**
+ * esbuild settings for a transform, with its dead-letter policy, routing table, masking and dedup policies compiled in
+ */
+export function bundleOptions(transform: ResolvedTransform): EsbuildOptions {
+    const define: { [name: string]: string } = {
+        ...transform.esbuild.define,
+        STREAMKAP_DEAD_LETTER_POLICY: JSON.stringify(JSON.stringify(transform.deadLetter))
+    };
+    if (transform.routing) {
+        define.STREAMKAP_ROUTING_TABLE = JSON.stringify(JSON.stringify(transform.routing));
+    }
+    if (transform.masking) {
+        define.STREAMKAP_MASKING_POLICY = JSON.stringify(JSON.stringify(transform.masking));
+    }
+    if (transform.dedup) {
+        define.STREAMKAP_DEDUP_POLICY = JSON.stringify(JSON.stringify(transform.dedup));
+    }
+    return { ...transform.esbuild, define };
+}
+
+function loadRoutingTable(transform: any, rootDir: string, label: string, issues: string[]): RoutingTable | undefined {
+    const file = transform.routing;
+    if (file === undefined) {
+        return undefined;
+    }
+
+    if (!transform.entries || !transform.entries.topic) {
+        issues.push(`${label} requires a topic entry to route with`);
+        return undefined;
+    }
+
+    if (typeof file !== 'string' || !existsSync(join(rootDir, file))) {
+        issues.push(`${label} file not found: ${file}`);
+        return undefined;
+    }
+
+    let table: any;
+    try {
+        table = JSON.parse(readFileSync(join(rootDir, file), 'utf8'));
+    } catch (error) {
+        issues.push(`${label} ${file} is not valid JSON: ${(error as Error).message}`);
+        return undefined;
+    }
+
+    const tableIssues = validateRoutingTable(table);
+    tableIssues.forEach(issue => issues.push(`${label} ${file}: ${issue}`));
+    return tableIssues.length === 0 ? table : undefined;
+}
+
+function validateBudgets(budgets: any, issues: string[]): void {
+    if (budgets === undefined) {
+        return;
+    }
+
+    if (!budgets || typeof budgets !== 'object') {
+        issues.push('budgets must be an object keyed by transform type');
+        return;
+    }
+
+    Object.keys(budgets).forEach(type => {
+        const label = `budgets.${type}`;
+        if (TRANSFORM_TYPES.indexOf(type as TransformType) === -1) {
+            issues.push(`${label} is not one of: ${TRANSFORM_TYPES.join(', ')}`);
+            return;
+        }
+
+        const budget = budgets[type];
+        if (!budget || typeof budget !== 'object') {
+            issues.push(`${label} must be an object`);
+            return;
+        }
+
+        Object.keys(budget).forEach(name => {
+            if (BUDGET_LIMIT_NAMES.indexOf(name) === -1) {
+                issues.push(`${label}.${name} is not one of: ${BUDGET_LIMIT_NAMES.join(', ')}`);
+            } else if (typeof budget[name] !== 'number' || !(budget[name] > 0)) {
+                issues.push(`${label}.${name} must be a positive number`);
+            }
+        });
+    });
+}
+
+function resolveLintConfig(global: LintConfig, own: LintConfig): ResolvedLintConfig {
+    const runtime = own.runtime || global.runtime || DEFAULT_RUNTIME;
+    const profile = RUNTIME_PROFILES[runtime] || { globals: [], modules: [] };
+    return {
+        runtime,
+        globals: profile.globals.concat(global.globals || [], own.globals || []),
+        modules: profile.modules.concat(global.modules || [], own.modules || []),
+        ignore: (global.ignore || []).concat(own.ignore || [])
+    };
+}
+
+function validateLintConfig(lint: any, label: string, issues: string[]): void {
+    if (lint === undefined) {
+        return;
+    }
+
+    if (!lint || typeof lint !== 'object') {
+        issues.push(`${label} must be an object`);
+        return;
+    }
+
+    Object.keys(lint).forEach(name => {
+        if (LINT_OPTION_NAMES.indexOf(name) === -1) {
+            issues.push(`${label}.${name} is not one of: ${LINT_OPTION_NAMES.join(', ')}`);
+        } else if (name === 'runtime') {
+            if (!RUNTIME_PROFILES.hasOwnProperty(lint.runtime)) {
+                issues.push(`${label}.runtime "${lint.runtime}" is not one of: ${Object.keys(RUNTIME_PROFILES).join(', ')}`);
+            }
+        } else if (!Array.isArray(lint[name]) || lint[name].some((value: any) => typeof value !== 'string')) {
+            issues.push(`${label}.${name} must be an array of strings`);
+        }
+    });
+}
+
+function validateMaskingConfig(masking: any, label: string, issues: string[]): void {
+    if (masking === undefined) {
+        return;
+    }
+
+    if (!masking || typeof masking !== 'object') {
+        issues.push(`${label} must be an object`);
+        return;
+    }
+
+    Object.keys(masking).forEach(name => {
+        if (MASKING_OPTION_NAMES.indexOf(name) === -1) {
+            issues.push(`${label}.${name} is not one of: ${MASKING_OPTION_NAMES.join(', ')}`);
+        }
+    });
+
+    validateMaskingRules(masking.rules).forEach(issue => issues.push(`${label}.${issue}`));
+
+    if (masking.tokenKeyEnv !== undefined && (typeof masking.tokenKeyEnv !== 'string' || masking.tokenKeyEnv.length === 0)) {
+        issues.push(`${label}.tokenKeyEnv must be an environment variable name`);
+    }
+}
+
+// Transform rules first so they win over the global ones; the token key must be set when a rule tokenizes
+function resolveMasking(global: any, own: any, env: { [name: string]: string | undefined }, label: string, issues: string[]): MaskingPolicy | undefined {
+    const rulesOf = (masking: any): MaskingRule[] => masking && Array.isArray(masking.rules) ? masking.rules : [];
+    const rules = rulesOf(own).concat(rulesOf(global));
+    if (rules.length === 0) {
+        return undefined;
+    }
+
+    const tokenKeyEnv: string | undefined = (own && own.tokenKeyEnv) || (global && global.tokenKeyEnv);
+    if (!rules.some(rule => rule && rule.strategy === 'tokenize')) {
+        return { rules };
+    }
+    if (!tokenKeyEnv) {
+        issues.push(`${label}.masking tokenizes but no tokenKeyEnv is configured`);
+    } else if (!env[tokenKeyEnv]) {
+        issues.push(`${label}.masking tokenizes but environment variable ${tokenKeyEnv} is not set`);
+    }
+    return { rules, tokenKey: tokenKeyEnv ? env[tokenKeyEnv] : undefined };
+}
+
+function validateDeadLetterPolicy(policy: any, label: string, issues: string[]): void {
+    if (policy === undefined) {
+        return;
+    }
+
+    if (!policy || typeof policy !== 'object') {
+        issues.push(`${label} must be an object`);
+        return;
+    }
+
+    if (DEAD_LETTER_MODES.indexOf(policy.mode) === -1) {
+        issues.push(`${label}.mode "${policy.mode}" is not one of: ${DEAD_LETTER_MODES.join(', ')}`);
+    }
+
+    if (policy.topic !== undefined && (typeof policy.topic !== 'string' || !/^[a-zA-Z0-9._-]{1,249}$/.test(policy.topic))) {
+        issues.push(`${label}.topic must be a valid topic name`);
+    }
+}
+
+function validateEsbuildOptions(options: any, label: string, issues: string[]): void {
+    if (options === undefined) {
+        return;
+    }
+
+    if (!options || typeof options !== 'object') {
+        issues.push(`${label} must be an object`);
+        return;
+    }
+
+    Object.keys(options).forEach(name => {
+        if (ESBUILD_OPTION_NAMES.indexOf(name) === -1) {
+            issues.push(`${label}.${name} is not a supported esbuild option (${ESBUILD_OPTION_NAMES.join(', ')})`);
+        }
+    });
+
+    if (options.external !== undefined && !Array.isArray(options.external)) {
+        issues.push(`${label}.external must be an array of module names`);
+    }
+
+    ['minify', 'sourcemap'].forEach(name => {
+        if (options[name] !== undefined && typeof options[name] !== 'boolean') {
+            issues.push(`${label}.${name} must be true or false`);
+        }
+    });
+
+    if (options.legalComments !== undefined && LEGAL_COMMENT_MODES.indexOf(options.legalComments) === -1) {
+        issues.push(`${label}.legalComments "${options.legalComments}" is not one of: ${LEGAL_COMMENT_MODES.join(', ')}`);
+    }
+}
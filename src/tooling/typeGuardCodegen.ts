@@ -0,0 +1,273 @@
+// typeGuardCodegen.ts - Generate runtime type guards from the TypeScript interfaces used by transforms
+// Converts interfaces, type aliases and enums into JSON Schema checked by the bundled JsonSchemaValidator
+
+import { readFileSync } from 'fs';
+import { basename, dirname, relative } from 'path';
+import * as ts from 'typescript';
+
+// A JSON Schema node, keyed by keyword
+type JsonSchema = { [keyword: string]: any };
+
+export interface TypeGuardSources {
+    // Files whose exported interfaces, type aliases and enums get a guard
+    sources: string[];
+    // Generated file, e.g. src/TypeGuards.ts
+    output: string;
+}
+
+export interface ParsedTypes {
+    // JSON Schema for each exported type, keyed by type name
+    definitions: { [name: string]: any };
+    // Source file of each exported type, used to import it into the generated file
+    files: { [name: string]: string };
+}
+
+/**
+ * Parse the exported types of the source files into JSON Schema definitions
+ * References between the files resolve by type name; unknown references accept any value
+ */
+export function parseTypes(sources: string[]): ParsedTypes {
+    const parsed: ParsedTypes = { definitions: {}, files: {} };
+    const declarations: Array<{ file: string; node: ts.InterfaceDeclaration | ts.TypeAliasDeclaration | ts.EnumDeclaration }> = [];
+
+    sources.forEach(file => {
+        const sourceFile = ts.createSourceFile(file, readFileSync(file, 'utf8'), ts.ScriptTarget.ES2018, true);
+        sourceFile.statements.forEach(statement => {
+            if ((ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement))
+                && isExported(statement)) {
+                const name = statement.name.text;
+                if (parsed.files[name]) {
+                    throw new Error(`Type ${name} is exported by both ${parsed.files[name]} and ${file}`);
+                }
+                parsed.files[name] = file;
+                declarations.push({ file, node: statement });
+            }
+        });
+    });
+
+    const known = Object.keys(parsed.files);
+    declarations.forEach(({ file, node }) => {
+        const converter = new SchemaConverter(file, known);
+        parsed.definitions[node.name.text] = converter.declaration(node);
+    });
+
+    return parsed;
+}
+
+function isExported(node: ts.Node): boolean {
+    return (ts.getCombinedModifierFlags(node as ts.Declaration) & ts.ModifierFlags.Export) !== 0;
+}
+
+/**
+ * Converts TypeScript type syntax into JSON Schema
+ */
+class SchemaConverter {
+    constructor(private file: string, private knownTypes: string[]) {}
+
+    public declaration(node: ts.InterfaceDeclaration | ts.TypeAliasDeclaration | ts.EnumDeclaration): any {
+        if (ts.isTypeAliasDeclaration(node)) {
+            return this.type(node.type);
+        }
+
+        if (ts.isEnumDeclaration(node)) {
+            let next = 0;
+            const values = node.members.map(member => {
+                if (!member.initializer) {
+                    return next++;
+                }
+                if (ts.isStringLiteral(member.initializer)) {
+                    return member.initializer.text;
+                }
+                if (ts.isNumericLiteral(member.initializer)) {
+                    next = Number(member.initializer.text) + 1;
+                    return Number(member.initializer.text);
+                }
+                throw this.unsupported(member.initializer, 'computed enum member');
+            });
+            return { enum: values };
+        }
+
+        const own = this.members(node.members);
+        const bases = (node.heritageClauses || [])
+            .filter(clause => clause.token === ts.SyntaxKind.ExtendsKeyword)
+            .map(clause => clause.types.map(base => this.reference(base.expression.getText(), base)))
+            .reduce((all, refs) => all.concat(refs), [] as JsonSchema[]);
+
+        return bases.length > 0 ? { allOf: bases.concat([own]) } : own;
+    }
+
+    private members(members: ts.NodeArray<ts.TypeElement>): any {
+        const schema: any = { type: 'object', properties: {}, required: [] };
+
+        members.forEach(member => {
+            if (ts.isPropertySignature(member)) {
+                const name = this.propertyName(member.name);
+                const optional = !!member.questionToken || (!!member.type && this.allowsUndefined(member.type));
+                schema.properties[name] = member.type ? this.type(member.type) : {};
+                if (!optional) {
+                    schema.required.push(name);
+                }
+            } else if (ts.isIndexSignatureDeclaration(member)) {
+                schema.additionalProperties = member.type ? this.type(member.type) : {};
+            }
+            // Methods and call signatures do not describe record data
+        });
+
+        if (schema.required.length === 0) {
+            delete schema.required;
+        }
+        return schema;
+    }
+
+    private type(node: ts.TypeNode): any {
+        switch (node.kind) {
+            case ts.SyntaxKind.StringKeyword: return { type: 'string' };
+            case ts.SyntaxKind.NumberKeyword: return { type: 'number' };
+            case ts.SyntaxKind.BooleanKeyword: return { type: 'boolean' };
+            case ts.SyntaxKind.NullKeyword: return { type: 'null' };
+            case ts.SyntaxKind.ObjectKeyword: return { type: 'object' };
+            case ts.SyntaxKind.AnyKeyword:
+            case ts.SyntaxKind.UnknownKeyword: return {};
+            case ts.SyntaxKind.NeverKeyword: return false;
+        }
+
+        if (ts.isLiteralTypeNode(node)) {
+            const literal = node.literal;
+            if (literal.kind === ts.SyntaxKind.NullKeyword) return { type: 'null' };
+            if (literal.kind === ts.SyntaxKind.TrueKeyword) return { const: true };
+            if (literal.kind === ts.SyntaxKind.FalseKeyword) return { const: false };
+            if (ts.isStringLiteral(literal)) return { const: literal.text };
+            if (ts.isNumericLiteral(literal)) return { const: Number(literal.text) };
+            if (ts.isPrefixUnaryExpression(literal) && ts.isNumericLiteral(literal.operand)) return { const: -Number(literal.operand.text) };
+        }
+
+        if (ts.isParenthesizedTypeNode(node)) {
+            return this.type(node.type);
+        }
+
+        if (ts.isUnionTypeNode(node)) {
+            const members = node.types.filter(member => member.kind !== ts.SyntaxKind.UndefinedKeyword).map(member => this.type(member));
+            if (members.every(member => member.const !== undefined)) {
+                return { enum: members.map(member => member.const) };
+            }
+            return members.length === 1 ? members[0] : { anyOf: members };
+        }
+
+        if (ts.isIntersectionTypeNode(node)) {
+            return { allOf: node.types.map(member => this.type(member)) };
+        }
+
+        if (ts.isArrayTypeNode(node)) {
+            return { type: 'array', items: this.type(node.elementType) };
+        }
+
+        if (ts.isTupleTypeNode(node)) {
+            // Tuples are checked as arrays of any of their element types
+            return { type: 'array', items: { anyOf: node.elements.map(element => this.type(ts.isNamedTupleMember(element) ? element.type : element)) } };
+        }
+
+        if (ts.isTypeLiteralNode(node)) {
+            return this.members(node.members);
+        }
+
+        if (ts.isTypeReferenceNode(node)) {
+            const name = node.typeName.getText();
+            const args: readonly ts.TypeNode[] = node.typeArguments || [];
+            if ((name === 'Array' || name === 'ReadonlyArray') && args.length === 1) {
+                return { type: 'array', items: this.type(args[0]) };
+            }
+            if (name === 'Record' && args.length === 2) {
+                return { type: 'object', additionalProperties: this.type(args[1]) };
+            }
+            return this.reference(name, node);
+        }
+
+        throw this.unsupported(node, 'type');
+    }
+
+    private reference(name: string, node: ts.Node): JsonSchema {
+        if (this.knownTypes.indexOf(name) !== -1) {
+            return { $ref: `#/definitions/${name}` };
+        }
+        // Types outside the guarded files (Date, library types) are not checked
+        return {};
+    }
+
+    private allowsUndefined(node: ts.TypeNode): boolean {
+        return node.kind === ts.SyntaxKind.UndefinedKeyword
+            || (ts.isUnionTypeNode(node) && node.types.some(member => member.kind === ts.SyntaxKind.UndefinedKeyword));
+    }
+
+    private propertyName(name: ts.PropertyName): string {
+        if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+            return name.text;
+        }
+        throw this.unsupported(name, 'computed property name');
+    }
+
+    private unsupported(node: ts.Node, what: string): Error {
+        const { line } = node.getSourceFile().getLineAndCharacterOfPosition(node.getStart());
+        return new Error(`${this.file}:${line + 1}: unsupported ${what} in type guard generation: ${node.getText()}`);
+    }
+}
+
+/**
+ * Generate the type guard module for the configured sources
+ */
+export function generateTypeGuards(options: TypeGuardSources): string {
+    const parsed = parseTypes(options.sources);
+    const names = Object.keys(parsed.definitions);
+    const outputDir = dirname(options.output);
+
+    const importPath = (file: string) => {
+        const path = relative(outputDir, file).replace(/\\/g, '/').replace(/\.ts$/, '');
+        return path.startsWith('.') ? path : `./${path}`;
+    };
+    const validationImport = importPath(`${dirname(options.output)}/templates/schemaValidation.ts`);
+
+    const lines: string[] = [
+        `// ${basename(options.output)} - Generated by build-multiple.js from ${options.sources.join(', ')}`,
+        '// Do not edit by hand - change the interfaces and run npm run build to regenerate',
+        '',
+        `import { JsonSchemaValidator, SchemaValidationError } from '${validationImport}';`
+    ];
+
+    options.sources.forEach(file => {
+        const exported = names.filter(name => parsed.files[name] === file);
+        if (exported.length > 0) {
+            lines.push(`import { ${exported.join(', ')} } from '${importPath(file)}';`);
+        }
+    });
+
+    lines.push(
+        '',
+        `const definitions: { [name: string]: any } = ${JSON.stringify(parsed.definitions, null, 4)};`,
+        '',
+        'const validators: { [name: string]: JsonSchemaValidator } = {};',
+        '',
+        'function validatorFor(name: string): JsonSchemaValidator {',
+        '    if (!validators[name]) {',
+        '        validators[name] = new JsonSchemaValidator({ $ref: `#/definitions/${name}`, definitions });',
+        '    }',
+        '    return validators[name];',
+        '}'
+    );
+
+    names.forEach(name => {
+        lines.push(
+            '',
+            '/**',
+            ` * List every way value differs from ${name}, as JSON paths`,
+            ' */',
+            `export function validate${name}(value: any): SchemaValidationError[] {`,
+            `    return validatorFor('${name}').validate(value);`,
+            '}',
+            '',
+            `export function is${name}(value: any): value is ${name} {`,
+            `    return validate${name}(value).length === 0;`,
+            '}'
+        );
+    });
+
+    return lines.join('\n') + '\n';
+}
@@ -1,4 +1,37 @@
+import { OrderTransformer, TYPE_MISMATCH_POLICY } from "./OrderTransformer";
+import { DeadLetterHandler, isErrorEnvelope } from "./templates/deadLetter";
+import { compileRoutingTable, configuredRoutingTable } from "./templates/routingRules";
+import { createRuntimeContext } from "./templates/runtimeContext";
+import { defineTopicTransform } from "./templates/sdk";
+
+// Rules come from the routing file of this transform in streamkap.config (routing/orders.json)
+var ROUTING_TABLE = configuredRoutingTable();
+var router = ROUTING_TABLE ? compileRoutingTable(ROUTING_TABLE) : null;
+
+// Created once per bundle, so the logger's rate limits hold across records
+var runtimeContext = createRuntimeContext();
+var deadLetter = new DeadLetterHandler(undefined, runtimeContext);
+
+// Checks records the way the value transform's OrderTransformer does, without transforming them
+var transformer = new OrderTransformer(runtimeContext, { onTypeMismatch: TYPE_MISMATCH_POLICY });
+
+var transformTopic = defineTopicTransform((record, context) => {
+    // Orders the value transform fails go to the dead-letter topic only (in dead-letter mode). Streamkap passes the original
+    // record, so the same cheap check decides it - tombstones and non-objects are filtered out there, so they are skipped.
+    // Envelopes are routed too, e.g. from the key schema transform
+    var failed = isOrder(record.value) && transformer.check(record.value);
+    if (deadLetter.mode === 'dead-letter' && (failed || isErrorEnvelope(record.value) || isErrorEnvelope(record.key))) {
+        return deadLetter.topic;
+    }
+
+    return router ? router.route(record.value, record.key, context.topic, context.timestamp) : context.topic;
+});
+
+function isOrder(value: unknown): boolean {
+    return value !== null && typeof value === 'object';
+}
+
 //If you don't need topic name changes using _streamkap_transform_topic - leave blank in streamkap
-export function _streamkap_transform_topic(valueObject: any, keyObject: any, topic: any, timestamp: any) {
-    return topic;
-}
\ No newline at end of file
+export function _streamkap_transform_topic(valueObject: unknown, keyObject: unknown, topic: string, timestamp: number) {
+    return transformTopic(valueObject, keyObject, topic, timestamp);
+}
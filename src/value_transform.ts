@@ -1,10 +1,29 @@
-import { OrderTransformer } from "./OrderTransformer";
-
-export function _streamkap_transform(valueObject: any, keyObject: any, topic: any, timestamp: any) {
-    // Optional: Add filtering logic here if needed
-    // Example: return null to filter out records
-    
-    var transformer = new OrderTransformer();
-    var transformedRecord = transformer.transform(valueObject);
-    return transformedRecord;
-}
\ No newline at end of file
+import { OrderTransformer, TYPE_MISMATCH_POLICY } from "./OrderTransformer";
+import { OrderType1 } from "./OrderType1";
+import { OrderType2 } from "./OrderType2";
+import { Deduplicator } from "./templates/dedup";
+import { pipeline } from "./templates/pipeline";
+import { createRuntimeContext } from "./templates/runtimeContext";
+
+// Created once per bundle: metrics keep counting and exporting, and log rate limits hold, across records
+var runtimeContext = createRuntimeContext();
+
+// Drops replayed and redelivered orders per the dedup setting in streamkap.config, e.g. { "key": ["_id", "order_number"] }
+// Without one every order is kept
+var deduplicator = new Deduplicator(undefined, runtimeContext);
+
+var transformer = new OrderTransformer(runtimeContext, { onTypeMismatch: TYPE_MISMATCH_POLICY });
+
+// Output is masked (PII such as the customer name) per the masking setting in streamkap.config, and failed
+// records are dropped, passed through or dead-lettered per the deadLetter setting, naming the stage that failed
+var transformValue = pipeline<OrderType1 | OrderType2>({ name: 'orders' }, runtimeContext)
+    .filter((order, context) => !deduplicator.isDuplicate(order, context.key), 'dedup')
+    // Optional: add .filter() stages here - records they reject are filtered out
+    // Records are checked against OrderType1 / OrderType2 by the transformer, per TYPE_MISMATCH_POLICY
+    .map(order => transformer.transform(order), 'OrderTransformer')
+    .build();
+
+// Streamkap calls this function by name - keep it a function declaration
+export function _streamkap_transform(valueObject: unknown, keyObject: unknown, topic: string, timestamp: number) {
+    return transformValue(valueObject as OrderType1 | OrderType2, keyObject, topic, timestamp);
+}
@@ -0,0 +1,65 @@
+// Streamkap stack trace symbolicator
+// Maps stack traces from deployed bundles back to the TypeScript sources using the source maps written by the build
+
+const fs = require('fs');
+const path = require('path');
+const { loadTooling } = require('./load-tooling');
+
+function printUsage() {
+    console.log('Usage: node symbolicate.js --bundle <transforms/<name>/<file>.js> [--input <stack.txt | logs.jsonl>]');
+    console.log('       Reads the stack trace, or JSON log lines with error_stack fields, from stdin without --input');
+}
+
+function parseArgs() {
+    const args = process.argv.slice(2);
+    const options = {};
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (!arg.startsWith('--')) {
+            continue;
+        }
+        const value = args[i + 1];
+        if (value === undefined || value.startsWith('--')) {
+            console.log(`❌ Missing value for ${arg}`);
+            printUsage();
+            process.exit(1);
+        }
+        options[arg.substring(2)] = value;
+        i++;
+    }
+
+    if (!options.bundle) {
+        printUsage();
+        process.exit(1);
+    }
+
+    return options;
+}
+
+function main() {
+    const options = parseArgs();
+    const { SourceMapLookup, symbolicateText } = loadTooling('sourceMaps');
+
+    const mapPath = `${options.bundle}.map`;
+    if (!fs.existsSync(mapPath)) {
+        console.log(`❌ Source map not found: ${mapPath} - build with "sourcemap": true`);
+        process.exit(1);
+    }
+
+    const lookup = SourceMapLookup.fromFile(mapPath, file => fs.readFileSync(file, 'utf8'));
+    const input = fs.readFileSync(options.input || 0, 'utf8');
+    // Frames of other bundles built alongside it are left alone; deployed bundles run as <anonymous> or similar
+    const otherBundles = /(?:value|key|topic|valueSchema|keySchema)Transform\.js$/;
+    const bundleName = path.basename(options.bundle);
+    const isBundleFile = file => path.basename(file) === bundleName || !otherBundles.test(file);
+
+    process.stdout.write(symbolicateText(input, lookup, isBundleFile));
+}
+
+try {
+    main();
+} catch (error) {
+    console.error('❌ Symbolication failed:', error.message);
+    process.exit(1);
+}
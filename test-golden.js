@@ -0,0 +1,61 @@
+// Streamkap golden-file test runner
+// Replays fixtures/<transform>/<case>.input.json through the generated bundles and compares the output
+
+const { loadTooling } = require('./load-tooling');
+
+function parseArgs() {
+    const args = process.argv.slice(2);
+    const options = { update: false, transforms: undefined, ignoreFields: undefined };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--update') {
+            options.update = true;
+        } else if (arg === '--ignore') {
+            options.ignoreFields = (args[++i] || '').split(',').filter(Boolean);
+        } else if (arg === '--fixtures') {
+            options.fixturesDir = args[++i];
+        } else if (arg.startsWith('--')) {
+            options.transforms = (options.transforms || []).concat(arg.substring(2));
+        }
+    }
+
+    return options;
+}
+
+async function main() {
+    const options = parseArgs();
+    const { runGoldenTests } = loadTooling('goldenFiles');
+
+    console.log(`🧪 ${options.update ? 'Updating' : 'Checking'} golden files...`);
+    const results = await runGoldenTests(options);
+
+    if (results.length === 0) {
+        console.log('⚠️  No fixtures found. Add fixtures/<transform>/<case>.input.json files.');
+        return;
+    }
+
+    let failures = 0;
+    for (const result of results) {
+        const icon = { passed: '✅', updated: '📝', failed: '❌', missing: '❓' }[result.status];
+        console.log(`   ${icon} ${result.transform}/${result.name}`);
+        for (const difference of result.differences) {
+            console.log(`      ${difference}`);
+        }
+        if (result.status === 'failed' || result.status === 'missing') {
+            failures++;
+        }
+    }
+
+    console.log('');
+    if (failures > 0) {
+        console.log(`❌ ${failures} of ${results.length} golden files differ. Run with --update if the change is intended.`);
+        process.exit(1);
+    }
+    console.log(`✅ ${results.length} golden files ${options.update ? 'updated' : 'match'}`);
+}
+
+main().catch(error => {
+    console.error('❌ Golden-file run failed:', error.message);
+    process.exit(1);
+});
@@ -3,6 +3,7 @@
 const fs = require('fs');
 const { execSync } = require('child_process');
 const path = require('path');
+const { loadStreamkapConfig } = require('./load-tooling');
 
 function parseTestArgs() {
     const args = process.argv.slice(2);
@@ -16,7 +17,7 @@ function parseTestArgs() {
     } else {
         for (const arg of args) {
             if (arg.startsWith('--')) {
-                const type = arg.substring(2).replace('-', '_');
+                const type = arg.substring(2).replace(/-/g, '_');
                 requestedTypes.add(type);
             }
         }
@@ -25,27 +26,21 @@ function parseTestArgs() {
     return { requestedTypes, testAll, shouldBuild };
 }
 
-// Get available transforms
+// Get available transforms - the types of configured transforms whose output folder has been generated
 function getAvailableTransforms() {
-    const transformsDir = path.join(process.cwd(), 'transforms');
-    if (!fs.existsSync(transformsDir)) {
+    const { transforms } = loadStreamkapConfig();
+    const outputDirs = Array.from(new Set(transforms.map(t => t.outputDir)));
+
+    if (!outputDirs.some(outputDir => fs.existsSync(path.join(process.cwd(), outputDir)))) {
         console.log('❌ No transforms directory found. Run build first.');
         process.exit(1);
     }
 
-    const folders = fs.readdirSync(transformsDir, { withFileTypes: true })
-        .filter(dirent => dirent.isDirectory())
-        .map(dirent => dirent.name);
-
-    // Map folder names to types
-    const folderToType = {
-        'map-filter': 'map_filter',
-        'fan-out': 'fan_out',
-        'enrich-async': 'enrich_async',
-        'un-nesting': 'un_nesting'
-    };
+    const types = transforms
+        .filter(t => fs.existsSync(path.join(process.cwd(), t.outputDir, t.folder)))
+        .map(t => t.type);
 
-    return folders.map(folder => folderToType[folder]).filter(Boolean);
+    return Array.from(new Set(types));
 }
 
 function main() {